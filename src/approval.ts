@@ -0,0 +1,279 @@
+/**
+ * Spec phase approvals
+ * An approval is recorded as YAML front-matter at the top of the phase
+ * document, together with a hash of the document body at approval time:
+ *
+ * ```markdown
+ * ---
+ * approval:
+ *   approvedBy: "jane"
+ *   approvedAt: "2025-01-31T10:00:00.000Z"
+ *   contentHash: "sha256:…"
+ * ---
+ * ```
+ *
+ * Comparing the stored hash with the current body tells an approved document
+ * apart from one that was edited after approval. The `approve`/`unapprove`
+ * commands write this block and the dashboard reads it.
+ *
+ * Older documents marked approved with a standalone "✅ APPROVED" (or
+ * "**Approved:** ✓") line are still reported as approved, flagged as legacy.
+ */
+
+import { createHash } from 'crypto';
+import { stripTaskStatus } from './tasks';
+
+export type SpecPhase = 'requirements' | 'design' | 'tasks';
+
+/** Phases in workflow order; each phase is approved after the one before it */
+export const SPEC_PHASES: SpecPhase[] = ['requirements', 'design', 'tasks'];
+
+export const PHASE_DOCUMENTS: Record<SpecPhase, string> = {
+  requirements: 'requirements.md',
+  design: 'design.md',
+  tasks: 'tasks.md',
+};
+
+export interface ApprovalRecord {
+  approvedBy: string;
+  /** ISO 8601 timestamp */
+  approvedAt: string;
+  /** "sha256:<hex>" of the document body when it was approved */
+  contentHash: string;
+}
+
+/** 'modified' means approved, but the body no longer matches the approved hash */
+export type ApprovalState = 'unapproved' | 'approved' | 'modified';
+
+export interface DocumentApproval {
+  state: ApprovalState;
+  approvedBy?: string;
+  approvedAt?: string;
+  /** Approved through a legacy marker line rather than front-matter */
+  legacy?: boolean;
+}
+
+const LEGACY_MARKERS = ['✅ APPROVED', '**Approved:** ✓'];
+
+const FRONT_MATTER_REGEX = /^\uFEFF?---\r?\n([\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+const APPROVAL_KEYS: (keyof ApprovalRecord)[] = ['approvedBy', 'approvedAt', 'contentHash'];
+
+/**
+ * Split a document into its front-matter lines and body
+ * @returns `frontMatter` is null when the document has no front-matter block
+ */
+export function splitFrontMatter(content: string): { frontMatter: string[] | null; body: string } {
+  const match = content.match(FRONT_MATTER_REGEX);
+  if (!match) {
+    return { frontMatter: null, body: content };
+  }
+  const inner = (match[1] || '').replace(/\r?\n$/, '');
+  return {
+    frontMatter: inner ? inner.split(/\r?\n/) : [],
+    body: content.slice(match[0].length),
+  };
+}
+
+function parseValue(raw: string): string {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return String(JSON.parse(value));
+    } catch {
+      return value.slice(1, value.endsWith('"') ? -1 : undefined);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+/** Index range [start, end) of the `approval:` block within the front-matter lines */
+function findApprovalBlock(lines: string[]): [number, number] | null {
+  const start = lines.findIndex((line) => /^approval:\s*$/.test(line));
+  if (start === -1) {
+    return null;
+  }
+  let end = start + 1;
+  while (end < lines.length && /^(\s+\S|\s*$)/.test(lines[end] || '')) {
+    end++;
+  }
+  return [start, end];
+}
+
+/**
+ * Read the approval record from a document's front-matter
+ * @returns The record, or null when the document has no complete approval block
+ */
+export function readApproval(content: string): ApprovalRecord | null {
+  const { frontMatter } = splitFrontMatter(content);
+  const block = frontMatter ? findApprovalBlock(frontMatter) : null;
+  if (!frontMatter || !block) {
+    return null;
+  }
+
+  const values: Partial<ApprovalRecord> = {};
+  for (const line of frontMatter.slice(block[0] + 1, block[1])) {
+    const match = line.match(/^\s+(\w+):\s*(.*)$/);
+    const key = match?.[1] as keyof ApprovalRecord | undefined;
+    if (match && key && APPROVAL_KEYS.includes(key)) {
+      values[key] = parseValue(match[2] || '');
+    }
+  }
+
+  if (!values.approvedBy || !values.approvedAt || !values.contentHash) {
+    return null;
+  }
+  return { approvedBy: values.approvedBy, approvedAt: values.approvedAt, contentHash: values.contentHash };
+}
+
+/**
+ * Hash the body of a document, ignoring its front-matter, line endings and trailing whitespace
+ *
+ * The tasks phase also ignores task progress (checkbox states and the
+ * `_Commit:_`/`_Blocked:_` lines), which changes as the tasks are worked on.
+ */
+export function hashDocumentBody(content: string, phase?: SpecPhase): string {
+  const raw = splitFrontMatter(content).body.replace(/\r\n/g, '\n');
+  const body = (phase === 'tasks' ? stripTaskStatus(raw) : raw).trimEnd();
+  return `sha256:${createHash('sha256').update(body, 'utf8').digest('hex')}`;
+}
+
+/** Body lines carrying a legacy approval marker, outside fenced code blocks */
+function findLegacyMarkerLines(body: string): { index: number; standalone: boolean }[] {
+  const found: { index: number; standalone: boolean }[] = [];
+  let inFence = false;
+  body.split(/\r?\n/).forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    const text = line.replace(/`[^`]*`/g, '');
+    if (inFence || !LEGACY_MARKERS.some((marker) => text.includes(marker))) {
+      return;
+    }
+    // Allow the marker to be wrapped in a heading, list item, quote or bold text
+    const stripped = line.trim().replace(/^(?:#+|>|[-*+])\s+/, '');
+    const standalone = [stripped, stripped.replace(/^\*\*(.*)\*\*$/, '$1')].some((text) => LEGACY_MARKERS.includes(text));
+    found.push({ index, standalone });
+  });
+  return found;
+}
+
+/**
+ * Approval state of a phase document
+ *
+ * @example
+ * ```typescript
+ * const approval = getDocumentApproval(readFileSync('design.md', 'utf-8'));
+ * if (approval.state === 'modified') console.log('Approved, but changed since');
+ * ```
+ */
+export function getDocumentApproval(content: string, phase?: SpecPhase): DocumentApproval {
+  const record = readApproval(content);
+  if (record) {
+    return {
+      state: record.contentHash === hashDocumentBody(content, phase) ? 'approved' : 'modified',
+      approvedBy: record.approvedBy,
+      approvedAt: record.approvedAt,
+    };
+  }
+  // A marker within other text, such as an example in prose, is not an approval
+  if (findLegacyMarkerLines(splitFrontMatter(content).body).some((marker) => marker.standalone)) {
+    return { state: 'approved', legacy: true };
+  }
+  return { state: 'unapproved' };
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+/** Replace (or drop, when `newLines` is empty) the front-matter lines in [start, end) and rebuild the document */
+function writeFrontMatterLines(content: string, range: typeof findApprovalBlock, newLines: string[]): string {
+  const { frontMatter, body } = splitFrontMatter(content);
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = [...(frontMatter || [])];
+  const block = range(lines);
+  if (block) {
+    lines.splice(block[0], block[1] - block[0], ...newLines);
+  } else {
+    lines.push(...newLines);
+  }
+
+  if (lines.every((line) => line.trim() === '')) {
+    return body;
+  }
+  return ['---', ...lines, '---', ''].join(newline) + body;
+}
+
+/** Replace (or drop, when `approvalLines` is empty) the approval block and rebuild the document */
+function writeApprovalBlock(content: string, approvalLines: string[]): string {
+  return writeFrontMatterLines(content, findApprovalBlock, approvalLines);
+}
+
+function findKeyLine(lines: string[], key: string): [number, number] | null {
+  const index = lines.findIndex((line) => line.startsWith(`${key}:`));
+  return index === -1 ? null : [index, index + 1];
+}
+
+/**
+ * Read a top-level scalar value from a document's front-matter
+ * @returns null when the document has no front-matter or the key is missing
+ */
+export function readFrontMatterValue(content: string, key: string): string | null {
+  const { frontMatter } = splitFrontMatter(content);
+  const range = frontMatter ? findKeyLine(frontMatter, key) : null;
+  if (!frontMatter || !range) {
+    return null;
+  }
+  return parseValue((frontMatter[range[0]] || '').slice(key.length + 1));
+}
+
+/**
+ * Set (or remove, when `value` is null) a top-level scalar value in a document's front-matter
+ */
+export function setFrontMatterValue(content: string, key: string, value: string | null): string {
+  return writeFrontMatterLines(
+    content,
+    (lines) => findKeyLine(lines, key),
+    value === null ? [] : [`${key}: ${quote(value)}`]
+  );
+}
+
+/** Remove standalone legacy marker lines so they cannot outlive an explicit (un)approval */
+function removeLegacyMarkers(content: string): string {
+  const { body } = splitFrontMatter(content);
+  const markerLines = new Set(findLegacyMarkerLines(body).filter((marker) => marker.standalone).map((marker) => marker.index));
+  if (markerLines.size === 0) {
+    return content;
+  }
+  const lines = body.split(/(?<=\n)/);
+  const cleaned = lines.filter((_, index) => !markerLines.has(index)).join('');
+  return content.slice(0, content.length - body.length) + cleaned;
+}
+
+/**
+ * Record an approval in a document's front-matter
+ *
+ * Standalone legacy marker lines are removed, other front-matter keys are kept
+ * and the content hash is computed from the resulting body.
+ */
+export function setApproval(content: string, approval: Omit<ApprovalRecord, 'contentHash'>, phase?: SpecPhase): string {
+  const cleaned = removeLegacyMarkers(content);
+  const record: ApprovalRecord = { ...approval, contentHash: hashDocumentBody(cleaned, phase) };
+  return writeApprovalBlock(cleaned, [
+    'approval:',
+    ...APPROVAL_KEYS.map((key) => `  ${key}: ${quote(record[key])}`),
+  ]);
+}
+
+/**
+ * Remove the approval from a document, including standalone legacy marker lines
+ * The front-matter block is dropped when nothing else is left in it.
+ */
+export function removeApproval(content: string): string {
+  return writeApprovalBlock(removeLegacyMarkers(content), []);
+}
@@ -0,0 +1,178 @@
+import { writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import chalk from 'chalk';
+import { getCachedFileContent, cachedFileExists, clearCache } from './file-cache';
+import {
+  getDocumentApproval,
+  setApproval,
+  removeApproval,
+  DocumentApproval,
+  SpecPhase,
+  SPEC_PHASES,
+  PHASE_DOCUMENTS
+} from './approval';
+import { FileAccessError, NotFoundError, OutputFormat, UsageError, ValidationError, runCommand } from './output';
+
+export interface ApproveOptions {
+  /** Approver recorded in the front-matter; defaults to the OS user name */
+  by?: string;
+}
+
+export interface ApprovalResult {
+  spec: string;
+  phase: SpecPhase;
+  /** Document path relative to the project */
+  file: string;
+  approval: DocumentApproval;
+  changed: boolean;
+}
+
+function resolvePhaseDocument(specName: string, phase: SpecPhase, workingDir: string): { filePath: string; content: string } {
+  if (!SPEC_PHASES.includes(phase)) {
+    throw new UsageError(`Unknown phase ${phase}. Use: ${SPEC_PHASES.join(', ')}`);
+  }
+
+  const specDir = path.join(workingDir, '.claude', 'specs', specName);
+  if (!cachedFileExists(specDir)) {
+    throw new NotFoundError(`Spec ${specName} not found`, { spec: specName, path: specDir });
+  }
+
+  const filePath = path.join(specDir, PHASE_DOCUMENTS[phase]);
+  if (!cachedFileExists(filePath)) {
+    throw new NotFoundError(`${PHASE_DOCUMENTS[phase]} not found at ${filePath}`, { spec: specName, path: filePath });
+  }
+
+  const content = getCachedFileContent(filePath);
+  if (content === null) {
+    throw new FileAccessError(`Could not read ${PHASE_DOCUMENTS[phase]} at ${filePath}`, { path: filePath });
+  }
+  return { filePath, content };
+}
+
+function writePhaseDocument(filePath: string, content: string): void {
+  try {
+    writeFileSync(filePath, content, 'utf-8');
+    clearCache(filePath);
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not write ${path.basename(filePath)} at ${filePath}: ${error instanceof Error ? error.message : error}`,
+      { path: filePath }
+    );
+  }
+}
+
+/** Approver recorded when none is given: the OS user name */
+export function defaultApprover(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Approve a spec phase by writing approval front-matter to its document
+ *
+ * A phase can only be approved once the phase before it is approved.
+ * Re-approving an unchanged document is a no-op; a document modified since
+ * its approval gets a fresh record with the new content hash.
+ */
+export function approveSpecPhase(
+  specName: string,
+  phase: SpecPhase,
+  projectPath?: string,
+  options: ApproveOptions = {},
+  now: Date = new Date()
+): ApprovalResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const { filePath, content } = resolvePhaseDocument(specName, phase, workingDir);
+  const file = path.relative(workingDir, filePath).split(path.sep).join('/');
+
+  const previousPhase = SPEC_PHASES[SPEC_PHASES.indexOf(phase) - 1];
+  if (previousPhase) {
+    const previousPath = path.join(path.dirname(filePath), PHASE_DOCUMENTS[previousPhase]);
+    const previousContent = getCachedFileContent(previousPath);
+    if (previousContent === null || getDocumentApproval(previousContent, previousPhase).state === 'unapproved') {
+      throw new ValidationError(
+        `Cannot approve ${phase} of ${specName} before ${previousPhase} is approved`,
+        { spec: specName, phase, requires: previousPhase }
+      );
+    }
+  }
+
+  const current = getDocumentApproval(content, phase);
+  if (current.state === 'approved' && !current.legacy) {
+    return { spec: specName, phase, file, approval: current, changed: false };
+  }
+
+  const approvedBy = options.by?.trim() || defaultApprover();
+  const updated = setApproval(content, { approvedBy, approvedAt: now.toISOString() }, phase);
+  writePhaseDocument(filePath, updated);
+  return { spec: specName, phase, file, approval: getDocumentApproval(updated, phase), changed: true };
+}
+
+/**
+ * Withdraw the approval of a spec phase, removing its front-matter record and any legacy marker
+ */
+export function unapproveSpecPhase(specName: string, phase: SpecPhase, projectPath?: string): ApprovalResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const { filePath, content } = resolvePhaseDocument(specName, phase, workingDir);
+  const file = path.relative(workingDir, filePath).split(path.sep).join('/');
+
+  const updated = removeApproval(content);
+  const approval = getDocumentApproval(updated, phase);
+  if (updated === content) {
+    return { spec: specName, phase, file, approval, changed: false };
+  }
+
+  writePhaseDocument(filePath, updated);
+  return { spec: specName, phase, file, approval, changed: true };
+}
+
+function renderApproval(result: ApprovalResult): void {
+  const { approval } = result;
+  if (approval.state === 'unapproved') {
+    if (result.changed) {
+      console.log(chalk.green(`✓ Removed approval of ${result.spec} ${result.phase}`));
+    } else {
+      console.log(chalk.yellow(`${result.spec} ${result.phase} is not approved`));
+    }
+    return;
+  }
+
+  const by = approval.approvedBy ? ` by ${approval.approvedBy}` : '';
+  if (result.changed) {
+    console.log(chalk.green(`✓ Approved ${result.spec} ${result.phase}${by}`));
+    console.log(chalk.gray(`  Recorded in ${result.file}`));
+  } else {
+    console.log(chalk.yellow(`${result.spec} ${result.phase} is already approved${by}`));
+  }
+}
+
+/**
+ * Approve a spec phase (requirements, design or tasks)
+ */
+export async function approveSpec(
+  specName: string,
+  phase: SpecPhase,
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  options: ApproveOptions = {}
+): Promise<void> {
+  await runCommand(format, () => approveSpecPhase(specName, phase, projectPath, options), renderApproval);
+}
+
+/**
+ * Remove the approval of a spec phase
+ */
+export async function unapproveSpec(
+  specName: string,
+  phase: SpecPhase,
+  projectPath?: string,
+  format: OutputFormat = 'text'
+): Promise<void> {
+  await runCommand(format, () => unapproveSpecPhase(specName, phase, projectPath), renderApproval);
+}
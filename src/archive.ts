@@ -0,0 +1,173 @@
+import { existsSync, mkdirSync, renameSync, rmSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { clearCache } from './file-cache';
+import { SpecParser, SpecArchiveInfo, SPEC_ARCHIVE_DIR, SPEC_ARCHIVE_INFO_FILE } from './dashboard/parser';
+import { FileAccessError, NotFoundError, OutputFormat, UsageError, ValidationError, runCommand } from './output';
+
+export interface ArchiveOptions {
+  /** Archive a spec even if not all of its tasks are done */
+  force?: boolean;
+}
+
+export interface ArchiveResult {
+  spec: string;
+  /** Where the spec now lives, relative to the project */
+  path: string;
+  archive: SpecArchiveInfo;
+}
+
+export interface RestoreResult {
+  spec: string;
+  /** Where the spec now lives, relative to the project */
+  path: string;
+  /** Whether generated task commands were moved back to .claude/commands */
+  commandsRestored: boolean;
+}
+
+/** Folder inside an archived spec that keeps its generated task commands */
+const ARCHIVED_COMMANDS_DIR = 'commands';
+
+function getSpecPaths(specName: string, workingDir: string) {
+  if (!specName || specName.startsWith('.') || /[\\/]/.test(specName)) {
+    throw new UsageError(`Invalid spec name ${specName}`);
+  }
+  const specsDir = path.join(workingDir, '.claude', 'specs');
+  return {
+    specDir: path.join(specsDir, specName),
+    archiveDir: path.join(specsDir, SPEC_ARCHIVE_DIR, specName),
+    commandsDir: path.join(workingDir, '.claude', 'commands', specName),
+  };
+}
+
+function relativePath(workingDir: string, target: string): string {
+  return path.relative(workingDir, target).split(path.sep).join('/');
+}
+
+function move(from: string, to: string): void {
+  try {
+    mkdirSync(path.dirname(to), { recursive: true });
+    renameSync(from, to);
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not move ${from} to ${to}: ${error instanceof Error ? error.message : error}`,
+      { from, to }
+    );
+  }
+  clearCache();
+}
+
+/**
+ * Move a spec to .claude/specs/.archive, together with its generated task commands
+ *
+ * Only completed specs are archived unless `force` is set. The archive record
+ * keeps the archive date and, for completed specs, when they were completed.
+ */
+export async function archiveSpecData(
+  specName: string,
+  projectPath?: string,
+  options: ArchiveOptions = {},
+  now: Date = new Date()
+): Promise<ArchiveResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const { specDir, archiveDir, commandsDir } = getSpecPaths(specName, workingDir);
+
+  const spec = await new SpecParser(workingDir).getSpec(specName);
+  if (!spec) {
+    throw new NotFoundError(`Spec ${specName} not found`, { spec: specName, path: specDir });
+  }
+  if (existsSync(archiveDir)) {
+    throw new ValidationError(`An archived spec named ${specName} already exists`, { spec: specName, path: archiveDir });
+  }
+  if (spec.status !== 'completed' && !options.force) {
+    throw new ValidationError(
+      `Spec ${specName} is not completed (status: ${spec.status}); use --force to archive it anyway`,
+      { spec: specName, status: spec.status }
+    );
+  }
+
+  move(specDir, archiveDir);
+  const commandsArchived = existsSync(commandsDir);
+  if (commandsArchived) {
+    move(commandsDir, path.join(archiveDir, ARCHIVED_COMMANDS_DIR));
+  }
+
+  const archive: SpecArchiveInfo = { archivedAt: now.toISOString(), commandsArchived };
+  if (spec.status === 'completed' && spec.lastModified) {
+    archive.completedAt = spec.lastModified.toISOString();
+  }
+  try {
+    writeFileSync(path.join(archiveDir, SPEC_ARCHIVE_INFO_FILE), JSON.stringify(archive, null, 2) + '\n', 'utf-8');
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not write ${SPEC_ARCHIVE_INFO_FILE} in ${archiveDir}: ${error instanceof Error ? error.message : error}`,
+      { path: archiveDir }
+    );
+  }
+
+  return { spec: specName, path: relativePath(workingDir, archiveDir), archive };
+}
+
+/**
+ * Move an archived spec back to .claude/specs and restore its task commands
+ */
+export function restoreSpecData(specName: string, projectPath?: string): RestoreResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const { specDir, archiveDir, commandsDir } = getSpecPaths(specName, workingDir);
+
+  if (!existsSync(archiveDir)) {
+    throw new NotFoundError(`Archived spec ${specName} not found`, { spec: specName, path: archiveDir });
+  }
+  if (existsSync(specDir)) {
+    throw new ValidationError(`Spec ${specName} already exists; rename or remove it before restoring`, { spec: specName, path: specDir });
+  }
+
+  const archivedCommandsDir = path.join(archiveDir, ARCHIVED_COMMANDS_DIR);
+  const commandsRestored = existsSync(archivedCommandsDir);
+  if (commandsRestored && existsSync(commandsDir)) {
+    throw new ValidationError(`Task commands for ${specName} already exist in ${relativePath(workingDir, commandsDir)}`, { spec: specName, path: commandsDir });
+  }
+
+  if (commandsRestored) {
+    move(archivedCommandsDir, commandsDir);
+  }
+  rmSync(path.join(archiveDir, SPEC_ARCHIVE_INFO_FILE), { force: true });
+  move(archiveDir, specDir);
+
+  return { spec: specName, path: relativePath(workingDir, specDir), commandsRestored };
+}
+
+/**
+ * Archive a spec
+ */
+export async function archiveSpec(
+  specName: string,
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  options: ArchiveOptions = {}
+): Promise<void> {
+  await runCommand(format, () => archiveSpecData(specName, projectPath, options), (result) => {
+    console.log(chalk.green(`✓ Archived ${result.spec} to ${result.path}`));
+    if (result.archive.commandsArchived) {
+      console.log(chalk.gray(`  Task commands moved from .claude/commands/${result.spec}`));
+    }
+  });
+}
+
+/**
+ * Restore an archived spec
+ */
+export async function restoreSpec(
+  specName: string,
+  projectPath?: string,
+  format: OutputFormat = 'text'
+): Promise<void> {
+  await runCommand(format, () => restoreSpecData(specName, projectPath), (result) => {
+    console.log(chalk.green(`✓ Restored ${result.spec} to ${result.path}`));
+    if (result.commandsRestored) {
+      console.log(chalk.gray(`  Task commands restored to .claude/commands/${result.spec}`));
+    }
+  });
+}
@@ -0,0 +1,498 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { getCachedFileContent, clearCache } from './file-cache';
+import { readFrontMatterValue, setFrontMatterValue } from './approval';
+import { getBugReportTemplate } from './templates';
+import { FileAccessError, OutputFormat, ValidationError, runCommand } from './output';
+
+/** Export file layouts the import command reads */
+export type BugImportSource = 'github-json' | 'gitlab-json' | 'jira-csv';
+
+export const BUG_IMPORT_SOURCES: BugImportSource[] = ['github-json', 'gitlab-json', 'jira-csv'];
+
+/** Front-matter key in report.md holding the tracker ID a bug was imported from, e.g. "github:42" */
+export const BUG_EXTERNAL_ID_KEY = 'externalId';
+
+export type BugSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/** An issue read from a tracker export */
+export interface ExternalIssue {
+  /** Tracker-qualified ID, e.g. "github:42" or "jira:APP-7" */
+  externalId: string;
+  title: string;
+  body: string;
+  labels: string[];
+  severity?: BugSeverity;
+  /** Link to the issue in the tracker */
+  url?: string;
+  /** Links to related issues */
+  links: string[];
+}
+
+export interface ImportedBug {
+  bug: string;
+  externalId: string;
+  title: string;
+}
+
+export interface BugImportResult {
+  source: BugImportSource;
+  /** Export file the issues were read from */
+  file: string;
+  /** Bugs created by this import */
+  created: ImportedBug[];
+  /** Issues already imported earlier, with the bug they were imported as */
+  skipped: ImportedBug[];
+}
+
+/** Label and priority names mapped to bug severities */
+const SEVERITY_ALIASES: Record<string, BugSeverity> = {
+  critical: 'critical', blocker: 'critical', highest: 'critical', urgent: 'critical', p0: 'critical', s1: 'critical',
+  high: 'high', major: 'high', p1: 'high', s2: 'high',
+  medium: 'medium', normal: 'medium', moderate: 'medium', p2: 'medium', s3: 'medium',
+  low: 'low', lowest: 'low', minor: 'low', trivial: 'low', p3: 'low', p4: 'low', s4: 'low',
+};
+
+const SEVERITY_DESCRIPTIONS: Record<BugSeverity, string> = {
+  critical: 'Critical - System unusable',
+  high: 'High - Major functionality broken',
+  medium: 'Medium - Feature impaired but workaround exists',
+  low: 'Low - Minor issue or cosmetic',
+};
+
+/**
+ * Work out a severity from labels like "severity: high", "severity::high", "priority/P1" or "critical"
+ *
+ * Labels without a severity prefix only count when the whole label is a severity
+ * name, so "high-contrast" is not mistaken for a severity.
+ */
+export function severityFromLabels(labels: string[]): BugSeverity | undefined {
+  for (const label of labels) {
+    const normalized = label.trim().toLowerCase();
+    const prefixed = normalized.match(/^(?:severity|sev|priority|prio)\s*[:/=_-]*\s*(\w+)$/);
+    const severity = SEVERITY_ALIASES[prefixed?.[1] || normalized];
+    if (severity) {
+      return severity;
+    }
+  }
+  return undefined;
+}
+
+function invalidExport(source: BugImportSource, message: string): ValidationError {
+  return new ValidationError(`Invalid ${source} export: ${message}`, { source });
+}
+
+/** Label names from GitHub ({ name }) or GitLab (string or { name }) exports */
+function labelNames(labels: unknown): string[] {
+  if (!Array.isArray(labels)) {
+    return [];
+  }
+  return labels
+    .map((label) => (typeof label === 'string' ? label : (label as { name?: unknown })?.name))
+    .filter((name): name is string => typeof name === 'string' && name.trim() !== '');
+}
+
+function asIssueList(data: unknown, source: BugImportSource): Record<string, unknown>[] {
+  const issues = Array.isArray(data) ? data : [data];
+  if (!issues.every((issue) => issue && typeof issue === 'object' && !Array.isArray(issue))) {
+    throw invalidExport(source, 'expected an issue object or an array of issues');
+  }
+  return issues as Record<string, unknown>[];
+}
+
+function requireString(issue: Record<string, unknown>, key: string, source: BugImportSource, index: number): string {
+  const value = issue[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw invalidExport(source, `issue ${index + 1} has no ${key}`);
+  }
+  return value.trim();
+}
+
+function requireId(issue: Record<string, unknown>, key: string, source: BugImportSource, index: number): string {
+  const value = issue[key];
+  if (typeof value !== 'number' && (typeof value !== 'string' || !value.trim())) {
+    throw invalidExport(source, `issue ${index + 1} has no ${key}`);
+  }
+  return String(value).trim();
+}
+
+/**
+ * Read `gh issue list --json number,title,body,labels,url` output or GitHub REST API issues
+ *
+ * Pull requests in REST API exports are skipped.
+ */
+function parseGithubIssues(data: unknown): ExternalIssue[] {
+  return asIssueList(data, 'github-json')
+    .filter((issue) => !issue.pull_request)
+    .map((issue, index) => {
+      const labels = labelNames(issue.labels);
+      const url = typeof issue.html_url === 'string' ? issue.html_url : issue.url;
+      return {
+        externalId: `github:${requireId(issue, 'number', 'github-json', index)}`,
+        title: requireString(issue, 'title', 'github-json', index),
+        body: typeof issue.body === 'string' ? issue.body : '',
+        labels,
+        ...withSeverity(severityFromLabels(labels)),
+        ...(typeof url === 'string' && { url }),
+        links: [],
+      };
+    });
+}
+
+/**
+ * Read GitLab REST API issues (`GET /projects/:id/issues`)
+ */
+function parseGitlabIssues(data: unknown): ExternalIssue[] {
+  return asIssueList(data, 'gitlab-json').map((issue, index) => {
+    const labels = labelNames(issue.labels);
+    return {
+      externalId: `gitlab:${requireId(issue, 'iid', 'gitlab-json', index)}`,
+      title: requireString(issue, 'title', 'gitlab-json', index),
+      body: typeof issue.description === 'string' ? issue.description : '',
+      labels,
+      ...withSeverity(severityFromLabels(labels)),
+      ...(typeof issue.web_url === 'string' && { url: issue.web_url }),
+      links: [],
+    };
+  });
+}
+
+function withSeverity(severity: BugSeverity | undefined): { severity?: BugSeverity } {
+  return severity ? { severity } : {};
+}
+
+/**
+ * Split CSV into rows of fields, honouring quoted fields with commas, quotes and line breaks
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * Convert the block-level Jira wiki markup of a description to markdown:
+ * headings, numbered and bulleted lists and code blocks
+ */
+function jiraToMarkdown(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(
+      /^\s*(?:h([1-6])\.|(#+)|(\*+))\s+|^\s*\{(?:code|noformat)(?::[^}]*)?\}\s*$/,
+      (_, heading?: string, numbered?: string, bullet?: string) => {
+        if (heading) return `${'#'.repeat(Number(heading))} `;
+        if (numbered) return `${'   '.repeat(numbered.length - 1)}1. `;
+        if (bullet) return `${'  '.repeat(bullet.length - 1)}- `;
+        return '```';
+      }
+    ))
+    .join('\n');
+}
+
+/**
+ * Read a Jira issue CSV export ("Export > CSV (all fields)")
+ *
+ * Jira repeats a column for every label and issue link, so all columns with
+ * the same header are collected. Severity comes from labels, then Priority.
+ */
+function parseJiraIssues(content: string): ExternalIssue[] {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw invalidExport('jira-csv', 'the file is empty');
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const values = (row: string[], pattern: RegExp) =>
+    columns.flatMap((column, index) => (pattern.test(column) && row[index]?.trim() ? [row[index].trim()] : []));
+  const value = (row: string[], name: string) => values(row, new RegExp(`^${name}$`))[0] || '';
+
+  if (!columns.includes('summary') || !columns.includes('issue key')) {
+    throw invalidExport('jira-csv', 'expected "Summary" and "Issue key" columns');
+  }
+
+  return rows.map((row, index) => {
+    const key = value(row, 'issue key');
+    const title = value(row, 'summary');
+    if (!key || !title) {
+      throw invalidExport('jira-csv', `row ${index + 2} has no issue key or summary`);
+    }
+    const labels = values(row, /^labels$/);
+    const priority = value(row, 'priority');
+    const severity = severityFromLabels(labels) || severityFromLabels(priority ? [priority] : []);
+
+    return {
+      externalId: `jira:${key}`,
+      title,
+      body: jiraToMarkdown(value(row, 'description')),
+      labels,
+      ...withSeverity(severity),
+      links: values(row, /^(?:inward|outward) issue link/),
+    };
+  });
+}
+
+/**
+ * Read the issues of a tracker export file
+ */
+export function parseIssueExport(source: BugImportSource, content: string): ExternalIssue[] {
+  if (source === 'jira-csv') {
+    return parseJiraIssues(content);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw invalidExport(source, error instanceof Error ? error.message : String(error));
+  }
+  return source === 'github-json' ? parseGithubIssues(data) : parseGitlabIssues(data);
+}
+
+/** Issue body sections that have a place in the bug report template */
+const BODY_SECTIONS = [
+  { heading: 'Steps to Reproduce', pattern: /^(?:steps to reproduce|reproduction steps|how to reproduce|repro(?:duction)?)$/i },
+  { heading: 'Expected Behavior', pattern: /^expected(?: behaviou?r| result)?$/i },
+  { heading: 'Actual Behavior', pattern: /^(?:actual|current)(?: behaviou?r| result)?$/i },
+  { heading: 'Environment', pattern: /^environment$/i },
+] as const;
+
+type BodySection = typeof BODY_SECTIONS[number]['heading'];
+
+/**
+ * Split an issue body into its summary and the sections the template knows
+ *
+ * Sections start at a markdown heading ("## Steps to reproduce"), a bold line
+ * ("**Expected behavior:**") or a Jira heading ("h3. Actual result").
+ */
+function splitIssueBody(body: string): { summary: string; sections: Partial<Record<BodySection, string>> } {
+  const summary: string[] = [];
+  const sections: Partial<Record<BodySection, string[]>> = {};
+  let current: string[] = summary;
+
+  for (const line of body.replace(/\r\n?/g, '\n').split('\n')) {
+    const title = line.match(/^\s*(?:#{1,6}\s+|h[1-6]\.\s+|\*\*|__)(.+?)(?:\*\*|__)?\s*:?\s*(?:\*\*|__)?\s*$/)?.[1]?.replace(/:$/, '').trim();
+    const section = title ? BODY_SECTIONS.find(({ pattern }) => pattern.test(title)) : undefined;
+    if (section) {
+      current = sections[section.heading] = [];
+    } else if (title && current !== summary && /^\s*(?:#{1,6}\s|h[1-6]\.\s)/.test(line)) {
+      // Any other heading ends the section and goes back to the summary
+      current = summary;
+      current.push(line);
+    } else {
+      current.push(line);
+    }
+  }
+
+  return {
+    summary: summary.join('\n').trim(),
+    sections: Object.fromEntries(
+      Object.entries(sections).map(([heading, lines]) => [heading, lines.join('\n').trim()])
+    ) as Partial<Record<BodySection, string>>,
+  };
+}
+
+/** Reproduction steps as a numbered list, whatever list style the issue used */
+function numberSteps(steps: string): string {
+  const lines = steps.split('\n').filter((line) => line.trim());
+  if (!lines.every((line) => /^\s*(?:[-*+#]|\d+[.)])\s+/.test(line))) {
+    return steps;
+  }
+  return lines
+    .map((line, index) => `${index + 1}. ${line.replace(/^\s*(?:[-*+#]|\d+[.)])\s+/, '').trim()}`)
+    .join('\n');
+}
+
+/**
+ * Replace the placeholder under a heading of the template
+ */
+function fillSection(report: string, heading: string, content: string): string {
+  const lines = report.split('\n');
+  const start = lines.findIndex((line) => /^#{2,3}\s/.test(line) && line.replace(/^#+\s+/, '').trim() === heading);
+  if (start === -1) {
+    return report;
+  }
+  let end = start + 1;
+  while (end < lines.length && !/^#{1,3}\s/.test(lines[end] || '')) {
+    end++;
+  }
+  return [...lines.slice(0, start + 1), content.trim(), '', ...lines.slice(end)].join('\n');
+}
+
+/**
+ * Fill the bug report template with an issue
+ */
+export function renderImportedReport(issue: ExternalIssue): string {
+  const { summary, sections } = splitIssueBody(issue.body);
+  let report = getBugReportTemplate().replace(/^# Bug Report$/m, `# Bug Report: ${issue.title.replace(/\s+/g, ' ')}`);
+
+  report = fillSection(report, 'Bug Summary', summary || issue.title);
+  if (sections['Expected Behavior']) report = fillSection(report, 'Expected Behavior', sections['Expected Behavior']);
+  if (sections['Actual Behavior']) report = fillSection(report, 'Actual Behavior', sections['Actual Behavior']);
+  if (sections['Steps to Reproduce']) report = fillSection(report, 'Steps to Reproduce', numberSteps(sections['Steps to Reproduce']));
+  if (sections.Environment) report = fillSection(report, 'Environment', sections.Environment);
+  if (issue.severity) {
+    report = report.replace(`- [ ] ${SEVERITY_DESCRIPTIONS[issue.severity]}`, `- [x] ${SEVERITY_DESCRIPTIONS[issue.severity]}`);
+  }
+
+  const related = [
+    `- Imported from ${issue.url ? `[${issue.externalId}](${issue.url})` : issue.externalId}`,
+    ...issue.links.map((link) => `- ${link}`),
+    ...(issue.labels.length > 0 ? [`- Labels: ${issue.labels.join(', ')}`] : []),
+  ];
+  report = fillSection(report, 'Related Issues', related.join('\n'));
+
+  return setFrontMatterValue(report, BUG_EXTERNAL_ID_KEY, issue.externalId);
+}
+
+/**
+ * Directory name for an issue title, e.g. "Login fails on Safari!" -> "login-fails-on-safari"
+ */
+export function bugSlug(title: string, maxLength = 50): string {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  if (slug.length <= maxLength) {
+    return slug;
+  }
+  const cut = slug.slice(0, maxLength + 1);
+  return (cut.lastIndexOf('-') > 0 ? cut.slice(0, cut.lastIndexOf('-')) : slug.slice(0, maxLength)).replace(/-+$/, '');
+}
+
+/** Bugs already imported, keyed by external ID */
+function findImportedBugs(bugsDir: string): Map<string, string> {
+  const imported = new Map<string, string>();
+  if (!existsSync(bugsDir)) {
+    return imported;
+  }
+  for (const entry of readdirSync(bugsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+    const content = getCachedFileContent(path.join(bugsDir, entry.name, 'report.md'));
+    const externalId = content === null ? null : readFrontMatterValue(content, BUG_EXTERNAL_ID_KEY);
+    if (externalId && !imported.has(externalId)) {
+      imported.set(externalId, entry.name);
+    }
+  }
+  return imported;
+}
+
+/**
+ * Create a bug workflow for every issue of a tracker export file
+ *
+ * Each issue becomes `.claude/bugs/<slug>/report.md`, filled from the bug report
+ * template and tagged with the issue's external ID in front-matter. Issues that
+ * were imported before are skipped, so the same export can be imported again
+ * after it has grown.
+ */
+export function importBugsData(source: BugImportSource, file: string, projectPath?: string): BugImportResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const bugsDir = path.join(workingDir, '.claude', 'bugs');
+  const exportPath = path.resolve(file);
+
+  let content: string;
+  try {
+    content = readFileSync(exportPath, 'utf-8');
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not read ${exportPath}: ${error instanceof Error ? error.message : error}`,
+      { path: exportPath }
+    );
+  }
+
+  const issues = parseIssueExport(source, content);
+  const imported = findImportedBugs(bugsDir);
+  const result: BugImportResult = { source, file: exportPath, created: [], skipped: [] };
+
+  for (const issue of issues) {
+    const existing = imported.get(issue.externalId);
+    if (existing) {
+      result.skipped.push({ bug: existing, externalId: issue.externalId, title: issue.title });
+      continue;
+    }
+
+    const base = bugSlug(issue.title) || bugSlug(issue.externalId);
+    let bug = base;
+    for (let suffix = 2; existsSync(path.join(bugsDir, bug)); suffix++) {
+      bug = `${base}-${suffix}`;
+    }
+
+    const reportPath = path.join(bugsDir, bug, 'report.md');
+    try {
+      mkdirSync(path.dirname(reportPath), { recursive: true });
+      writeFileSync(reportPath, renderImportedReport(issue), 'utf-8');
+      clearCache(reportPath);
+    } catch (error) {
+      throw new FileAccessError(
+        `Could not write report.md at ${reportPath}: ${error instanceof Error ? error.message : error}`,
+        { path: reportPath }
+      );
+    }
+
+    imported.set(issue.externalId, bug);
+    result.created.push({ bug, externalId: issue.externalId, title: issue.title });
+  }
+
+  return result;
+}
+
+/**
+ * Import issues from a tracker export file and print the bugs created
+ */
+export async function importBugs(
+  source: BugImportSource,
+  file: string,
+  projectPath?: string,
+  format: OutputFormat = 'text'
+): Promise<void> {
+  await runCommand(format, () => importBugsData(source, file, projectPath), (result) => {
+    for (const bug of result.created) {
+      console.log(chalk.green(`✓ ${bug.externalId} → .claude/bugs/${bug.bug}/report.md`));
+    }
+    for (const bug of result.skipped) {
+      console.log(chalk.gray(`- ${bug.externalId} already imported as ${bug.bug}`));
+    }
+    console.log(`Imported ${result.created.length} of ${result.created.length + result.skipped.length} issues from ${result.file}`);
+    if (result.created.length > 0) {
+      console.log(chalk.gray('Continue each bug with /bug-analyze <bug-name>'));
+    }
+  });
+}
@@ -0,0 +1,210 @@
+import { writeFileSync } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { getCachedFileContent, cachedFileExists, clearCache } from './file-cache';
+import { setFrontMatterValue } from './approval';
+import { getReportedBug } from './bug-status';
+import { SpecParser, Spec, BugLink, BUG_LINK_KEYS } from './dashboard/parser';
+import { appendTask, findTask, flattenTasks, parseTaskDocument, serializeTaskDocument } from './tasks';
+import { FileAccessError, NotFoundError, OutputFormat, ValidationError, runCommand } from './output';
+
+export interface BugLinkOptions {
+  /** Requirement or acceptance criterion ID */
+  requirement?: string;
+  /** Task ID */
+  task?: string;
+  /** Whether the bug is a regression; derived from the linked work when omitted */
+  regression?: boolean;
+}
+
+export interface BugLinkResult {
+  bug: string;
+  link: BugLink;
+}
+
+export interface RegressionTaskResult {
+  bug: string;
+  spec: string;
+  taskId: string;
+  description: string;
+  /** False when the spec already had a regression task for the bug */
+  created: boolean;
+}
+
+/** Metadata key of a regression task naming the bug it guards against */
+const REGRESSION_TASK_BUG_KEY = 'Bug';
+
+function writeFile(filePath: string, content: string): void {
+  try {
+    writeFileSync(filePath, content, 'utf-8');
+    clearCache(filePath);
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not write ${path.basename(filePath)} at ${filePath}: ${error instanceof Error ? error.message : error}`,
+      { path: filePath }
+    );
+  }
+}
+
+function readFile(filePath: string): string {
+  const content = getCachedFileContent(filePath);
+  if (content === null) {
+    throw new FileAccessError(`Could not read ${path.basename(filePath)} at ${filePath}`, { path: filePath });
+  }
+  return content;
+}
+
+/**
+ * Whether the linked work had been delivered: the task is completed, every
+ * criterion of the requirement is implemented, or the whole spec is completed
+ */
+function isDelivered(spec: Spec, requirement: string | undefined, taskDone: boolean | undefined): boolean {
+  if (taskDone !== undefined) {
+    return taskDone;
+  }
+  if (requirement) {
+    const criteria = spec.trace?.requirements.flatMap((entry) =>
+      entry.id === requirement ? entry.criteria : entry.criteria.filter((criterion) => criterion.id === requirement)
+    ) || [];
+    return criteria.length > 0 && criteria.every((criterion) => criterion.implemented);
+  }
+  return spec.status === 'completed';
+}
+
+/**
+ * Link a bug to the spec, requirement or task whose behavior it breaks
+ *
+ * The link is stored as front-matter in the bug's report.md. A bug linked to
+ * work that was already done when it was linked counts as a regression of the
+ * spec, unless `regression` says otherwise.
+ */
+export async function linkBugData(
+  bugName: string,
+  specName: string,
+  projectPath?: string,
+  options: BugLinkOptions = {}
+): Promise<BugLinkResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const { reportPath } = await getReportedBug(bugName, workingDir);
+
+  const spec = /[\\/]/.test(specName) || specName.startsWith('.') ? null : await new SpecParser(workingDir).getSpec(specName);
+  if (!spec) {
+    throw new NotFoundError(`Spec ${specName} not found`, { spec: specName });
+  }
+
+  const requirement = options.requirement?.trim();
+  if (requirement) {
+    const known = spec.trace?.requirements.some((entry) =>
+      entry.id === requirement || entry.criteria.some((criterion) => criterion.id === requirement)
+    );
+    if (!known) {
+      throw new NotFoundError(`Requirement ${requirement} not found in spec ${specName}`, { spec: specName, requirement });
+    }
+  }
+
+  const taskId = options.task?.trim();
+  let taskDone: boolean | undefined;
+  if (taskId) {
+    const tasksPath = path.join(workingDir, '.claude', 'specs', specName, 'tasks.md');
+    const task = cachedFileExists(tasksPath) ? findTask(parseTaskDocument(readFile(tasksPath)), taskId) : undefined;
+    if (!task) {
+      throw new NotFoundError(`Task ${taskId} not found in spec ${specName}`, { spec: specName, taskId });
+    }
+    taskDone = task.status === 'completed';
+  }
+
+  const link: BugLink = {
+    spec: specName,
+    ...(requirement && { requirement }),
+    ...(taskId && { task: taskId }),
+    regression: options.regression ?? isDelivered(spec, requirement, taskDone),
+  };
+
+  let content = readFile(reportPath);
+  content = setFrontMatterValue(content, BUG_LINK_KEYS.spec, link.spec);
+  content = setFrontMatterValue(content, BUG_LINK_KEYS.requirement, link.requirement ?? null);
+  content = setFrontMatterValue(content, BUG_LINK_KEYS.task, link.task ?? null);
+  content = setFrontMatterValue(content, BUG_LINK_KEYS.regression, link.regression ? 'true' : null);
+  writeFile(reportPath, content);
+
+  return { bug: bugName, link };
+}
+
+/**
+ * Append a task to the linked spec's tasks.md that adds a regression test for the bug
+ *
+ * The task carries a `_Bug: <name>_` line, so running this again for the same
+ * bug returns the existing task instead of adding another one.
+ */
+export async function addRegressionTaskData(bugName: string, projectPath?: string): Promise<RegressionTaskResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const { bug } = await getReportedBug(bugName, workingDir);
+  if (!bug.link) {
+    throw new ValidationError(`Bug ${bugName} is not linked to a spec (use bug link)`, { bug: bugName });
+  }
+
+  const specName = bug.link.spec;
+  const tasksPath = path.join(workingDir, '.claude', 'specs', specName, 'tasks.md');
+  if (!cachedFileExists(tasksPath)) {
+    throw new NotFoundError(`tasks.md not found at ${tasksPath}`, { spec: specName, path: tasksPath });
+  }
+  const document = parseTaskDocument(readFile(tasksPath));
+
+  const existing = flattenTasks(document.tasks).find((task) => task.metadata.bug === bugName);
+  if (existing) {
+    return { bug: bugName, spec: specName, taskId: existing.id, description: existing.description, created: false };
+  }
+
+  const linkedTask = bug.link.task ? findTask(document, bug.link.task) : undefined;
+  const requirements = bug.link.requirement ? [bug.link.requirement] : linkedTask?.requirements || [];
+  const description = `Add a regression test for bug ${bugName}: ${bug.displayName}`;
+  const taskId = appendTask(document, description, {
+    [REGRESSION_TASK_BUG_KEY]: bugName,
+    ...(requirements.length > 0 && { Requirements: requirements.join(', ') }),
+  });
+  writeFile(tasksPath, serializeTaskDocument(document));
+
+  return { bug: bugName, spec: specName, taskId, description, created: true };
+}
+
+function renderLink(result: BugLinkResult): void {
+  const target = [
+    result.link.spec,
+    ...(result.link.requirement ? [`requirement ${result.link.requirement}`] : []),
+    ...(result.link.task ? [`task ${result.link.task}`] : []),
+  ].join(', ');
+  console.log(chalk.green(`✓ Linked bug ${result.bug} to ${target}`));
+  if (result.link.regression) {
+    console.log(chalk.yellow(`  Counted as a regression of ${result.link.spec}`));
+  }
+}
+
+function renderRegressionTask(result: RegressionTaskResult): void {
+  if (result.created) {
+    console.log(chalk.green(`✓ Added task ${result.taskId} to ${result.spec}: ${result.description}`));
+  } else {
+    console.log(chalk.gray(`Task ${result.taskId} of ${result.spec} already covers bug ${result.bug}`));
+  }
+}
+
+/**
+ * Link a bug to a spec and print the link
+ */
+export async function linkBug(
+  bugName: string,
+  specName: string,
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  options: BugLinkOptions = {}
+): Promise<void> {
+  await runCommand(format, () => linkBugData(bugName, specName, projectPath, options), renderLink);
+}
+
+/**
+ * Add a regression task for a bug to its linked spec and print it
+ */
+export async function addRegressionTask(bugName: string, projectPath?: string, format: OutputFormat = 'text'): Promise<void> {
+  await runCommand(format, () => addRegressionTaskData(bugName, projectPath), renderRegressionTask);
+}
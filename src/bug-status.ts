@@ -0,0 +1,229 @@
+import { appendFileSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import chalk from 'chalk';
+import { getCachedFileContent, cachedFileExists, clearCache } from './file-cache';
+import { setFrontMatterValue } from './approval';
+import {
+  SpecParser,
+  BugStatus,
+  BugTransition,
+  BUG_STATUSES,
+  BUG_TRANSITIONS,
+  BUG_STATUS_KEY,
+  BUG_DUPLICATE_OF_KEY,
+  BUG_HISTORY_FILE,
+} from './dashboard/parser';
+import { FileAccessError, NotFoundError, OutputFormat, UsageError, ValidationError, runCommand } from './output';
+
+export interface BugStatusResult {
+  bug: string;
+  from: BugStatus;
+  to: BugStatus;
+}
+
+export interface BugTransitionOptions {
+  /** Why the bug moved, kept in its history */
+  reason?: string;
+  /** Who moved it; defaults to the current OS user */
+  by?: string;
+  /** The bug a duplicate duplicates; required when moving to duplicate */
+  duplicateOf?: string;
+}
+
+export interface BugTransitionResult extends BugStatusResult {
+  /** False when the bug already had the status */
+  changed: boolean;
+  /** The recorded transition; absent when nothing changed */
+  transition?: BugTransition;
+  duplicateOf?: string;
+}
+
+function defaultActor(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
+
+function writeBugStatus(reportPath: string, status: BugStatus, duplicateOf: string | null): void {
+  const content = getCachedFileContent(reportPath);
+  if (content === null) {
+    throw new FileAccessError(`Could not read report.md at ${reportPath}`, { path: reportPath });
+  }
+  try {
+    const updated = setFrontMatterValue(content, BUG_STATUS_KEY, status);
+    writeFileSync(reportPath, setFrontMatterValue(updated, BUG_DUPLICATE_OF_KEY, duplicateOf), 'utf-8');
+    clearCache(reportPath);
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not write report.md at ${reportPath}: ${error instanceof Error ? error.message : error}`,
+      { path: reportPath }
+    );
+  }
+}
+
+function appendBugHistory(historyPath: string, transition: BugTransition): void {
+  try {
+    appendFileSync(historyPath, JSON.stringify(transition) + '\n', 'utf-8');
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not write ${BUG_HISTORY_FILE} at ${historyPath}: ${error instanceof Error ? error.message : error}`,
+      { path: historyPath }
+    );
+  }
+}
+
+/**
+ * Parse a bug that has a report.md, rejecting names that leave .claude/bugs
+ */
+export async function getReportedBug(bugName: string, workingDir: string) {
+  const reportPath = path.join(workingDir, '.claude', 'bugs', bugName, 'report.md');
+  const bug = /[\\/]/.test(bugName) ? null : await new SpecParser(workingDir).getBug(bugName);
+  if (!bug) {
+    throw new NotFoundError(`Bug ${bugName} not found`, { bug: bugName });
+  }
+  if (!cachedFileExists(reportPath)) {
+    throw new NotFoundError(`report.md not found at ${reportPath}`, { bug: bugName, path: reportPath });
+  }
+  return { bug, reportPath };
+}
+
+/**
+ * Move a bug to another status
+ *
+ * The status is kept as `status` front-matter in report.md and may only move
+ * along BUG_TRANSITIONS. Each transition is appended to the bug's
+ * status-history.jsonl. Moving a bug to the status it already has changes
+ * nothing, so a phase can be started again.
+ */
+export async function transitionBugData(
+  bugName: string,
+  status: BugStatus,
+  projectPath?: string,
+  options: BugTransitionOptions = {}
+): Promise<BugTransitionResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  if (!BUG_STATUSES.includes(status)) {
+    throw new UsageError(`Invalid bug status ${status}. Use: ${BUG_STATUSES.join(', ')}`, { status });
+  }
+  const { bug, reportPath } = await getReportedBug(bugName, workingDir);
+
+  const from = bug.status;
+  const duplicateOf = options.duplicateOf?.trim();
+  if (from === status && (status !== 'duplicate' || !duplicateOf || duplicateOf === bug.duplicateOf)) {
+    return { bug: bugName, from, to: status, changed: false, ...(bug.duplicateOf && { duplicateOf: bug.duplicateOf }) };
+  }
+  if (!BUG_TRANSITIONS[from].includes(status)) {
+    throw new ValidationError(
+      `Bug ${bugName} cannot move from ${from} to ${status}; allowed: ${BUG_TRANSITIONS[from].join(', ')}`,
+      { bug: bugName, from, to: status, allowed: BUG_TRANSITIONS[from] }
+    );
+  }
+
+  if (status === 'duplicate') {
+    if (!duplicateOf) {
+      throw new UsageError(`Marking bug ${bugName} as a duplicate needs the bug it duplicates`, { bug: bugName });
+    }
+    if (duplicateOf === bugName) {
+      throw new ValidationError(`Bug ${bugName} cannot duplicate itself`, { bug: bugName });
+    }
+    if (/[\\/]/.test(duplicateOf) || !(await new SpecParser(workingDir).getBug(duplicateOf))) {
+      throw new NotFoundError(`Bug ${duplicateOf} not found`, { bug: duplicateOf });
+    }
+  }
+
+  const reason = options.reason?.trim();
+  const transition: BugTransition = {
+    from,
+    to: status,
+    at: new Date().toISOString(),
+    by: options.by?.trim() || defaultActor(),
+    ...(reason && { reason }),
+  };
+  writeBugStatus(reportPath, status, status === 'duplicate' ? duplicateOf! : null);
+  appendBugHistory(path.join(path.dirname(reportPath), BUG_HISTORY_FILE), transition);
+
+  return {
+    bug: bugName,
+    from,
+    to: status,
+    changed: true,
+    transition,
+    ...(status === 'duplicate' && { duplicateOf: duplicateOf! }),
+  };
+}
+
+/**
+ * Move a bug to the next status of the fix workflow
+ */
+export async function advanceBugData(bugName: string, projectPath?: string): Promise<BugStatusResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const { bug } = await getReportedBug(bugName, workingDir);
+
+  const next = BUG_TRANSITIONS[bug.status][0];
+  if (next === undefined || BUG_STATUSES.indexOf(next) < BUG_STATUSES.indexOf(bug.status)) {
+    throw new ValidationError(`Bug ${bugName} is already ${bug.status}`, { bug: bugName, status: bug.status });
+  }
+
+  const { from, to } = await transitionBugData(bugName, next, workingDir);
+  return { bug: bugName, from, to };
+}
+
+/**
+ * Record a bug status in report.md, e.g. one pulled from an issue tracker
+ *
+ * The tracker is trusted to have its own workflow, so the transition is not
+ * validated, but it is still recorded in the bug's history.
+ */
+export async function setBugStatusData(
+  bugName: string,
+  status: BugStatus,
+  projectPath?: string,
+  options: BugTransitionOptions = {}
+): Promise<BugStatusResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const { bug, reportPath } = await getReportedBug(bugName, workingDir);
+
+  if (bug.status !== status) {
+    writeBugStatus(reportPath, status, status === 'duplicate' ? bug.duplicateOf ?? null : null);
+    const reason = options.reason?.trim();
+    appendBugHistory(path.join(path.dirname(reportPath), BUG_HISTORY_FILE), {
+      from: bug.status,
+      to: status,
+      at: new Date().toISOString(),
+      by: options.by?.trim() || defaultActor(),
+      ...(reason && { reason }),
+    });
+  }
+  return { bug: bugName, from: bug.status, to: status };
+}
+
+function renderTransition(result: BugTransitionResult): void {
+  const duplicate = result.duplicateOf ? ` of ${result.duplicateOf}` : '';
+  if (!result.changed) {
+    console.log(chalk.yellow(`Bug ${result.bug} is already ${result.to}${duplicate}`));
+    return;
+  }
+  console.log(chalk.green(`✓ Bug ${result.bug}: ${result.from} → ${result.to}${duplicate}`));
+  if (result.transition?.reason) {
+    console.log(chalk.gray(`  ${result.transition.reason}`));
+  }
+}
+
+/**
+ * Move a bug to another status and print the transition
+ */
+export async function transitionBug(
+  bugName: string,
+  status: BugStatus,
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  options: BugTransitionOptions = {}
+): Promise<void> {
+  await runCommand(format, () => transitionBugData(bugName, status, projectPath, options), renderTransition);
+}
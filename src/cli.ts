@@ -1,35 +1,53 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Argument, Command, CommanderError, Option } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import ora from 'ora';
 import { SpecWorkflowSetup } from './setup';
 import { detectProjectType, validateClaudeCode } from './utils';
-import { parseTasksFromMarkdown, generateTaskCommand } from './task-generator';
+import { generateSpecTaskCommands } from './task-generator';
 import { getFileContent } from './get-content';
 import { getSteeringContext } from './get-steering-context';
 import { getSpecContext } from './get-spec-context';
 import { getTemplateContext } from './get-template-context';
-import { getTasks } from './get-tasks';
+import { getTasks, TasksMode, TASKS_MODES } from './get-tasks';
+import { traceSpec, TraceOutput, TRACE_OUTPUTS } from './trace';
+import { showTaskHistory } from './task-history';
+import { lintSpecs } from './lint';
+import { approveSpec, unapproveSpec } from './approve';
+import { SpecPhase, SPEC_PHASES } from './approval';
+import { archiveSpec, restoreSpec } from './archive';
+import { importBugs, BugImportSource, BUG_IMPORT_SOURCES } from './bug-import';
+import { transitionBug } from './bug-status';
+import { linkBug, addRegressionTask } from './bug-link';
+import { BugStatus, BUG_STATUSES } from './dashboard/parser';
+import { listWorkflows, approveWorkflowPhase, unapproveWorkflowPhase, generateWorkflows } from './workflow';
+import { diffTemplates, applyTemplateOverrides } from './template-overrides';
+import { resolveSteering } from './steering-resolve';
+import { syncTracker } from './sync';
+import { TRACKER_PROVIDERS } from './tracker';
+import { exportSpecs, SpecExportOutput, SPEC_EXPORT_OUTPUTS } from './export';
 import { autoUpdate } from './auto-update';
-import { readFileSync, promises as fs } from 'fs';
-import * as path from 'path';
-import { join } from 'path';
-
-// Read version from package.json
-// Use require.resolve to find package.json in both dev and production
-let packageJson: { version: string };
-try {
-  const packageJsonPath = path.join(__dirname, '..', 'package.json');
-  packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
-} catch {
-  // Fallback for edge cases
-  packageJson = { version: '1.3.0' };
-}
+import {
+  OutputFormat,
+  OUTPUT_FORMATS,
+  UsageError,
+  createEnvelope,
+  getPackageVersion,
+  runCommand,
+  toCliError
+} from './output';
 
 const program = new Command();
 
+/**
+ * Output format selected with the global --format option
+ */
+function getOutputFormat(): OutputFormat {
+  return program.opts().format === 'json' ? 'json' : 'text';
+}
+
 // Debug logging for WSL issues
 if (process.env.DEBUG_CLI) {
   console.log('process.argv:', process.argv);
@@ -40,7 +58,9 @@ if (process.env.DEBUG_CLI) {
 program
   .name('claude-spec-setup')
   .description('Set up Claude Code Spec Workflow with automated orchestration in your project')
-  .version(packageJson.version)
+  .version(getPackageVersion())
+  .addOption(new Option('--format <format>', 'Output format for command results').choices(OUTPUT_FORMATS).default('text'))
+  .exitOverride()
   .addHelpText('after', `
 Examples:
   npx @pimzino/claude-code-spec-workflow@latest           # Run setup (default)
@@ -51,6 +71,7 @@ Examples:
   claude-code-spec-workflow get-spec-context <spec> # Get formatted spec documents
   claude-code-spec-workflow get-template-context [type] # Get formatted templates
   claude-code-spec-workflow get-tasks <spec>   # Get tasks from spec
+  claude-code-spec-workflow get-tasks <spec> --format json # Machine-readable output
 
 For help with a specific command:
   npx @pimzino/claude-code-spec-workflow@latest <command> --help
@@ -65,6 +86,14 @@ program
   .option('-y, --yes', 'Skip confirmation prompts')
   .option('--no-update', 'Skip automatic update check')
   .action(async (options) => {
+    if (getOutputFormat() === 'json') {
+      // Setup is interactive and only reports progress for humans
+      await runCommand('json', () => {
+        throw new UsageError('The setup command does not support --format json');
+      }, () => undefined);
+      return;
+    }
+
     console.log(chalk.cyan.bold('Claude Code Spec Workflow Setup'));
     console.log(chalk.gray('Automated spec-driven development with intelligent task execution'));
     console.log();
@@ -216,26 +245,29 @@ program
   .command('test')
   .description('Test the setup in a temporary directory')
   .action(async () => {
-    console.log(chalk.cyan('Testing setup...'));
+    const format = getOutputFormat();
+    if (format === 'text') {
+      console.log(chalk.cyan('Testing setup...'));
+    }
 
     const os = await import('os');
     const path = await import('path');
     const fs = await import('fs/promises');
 
-    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-spec-test-'));
-
-    try {
+    await runCommand(format, async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claude-spec-test-'));
       const setup = new SpecWorkflowSetup(tempDir);
-      await setup.runSetup();
-
+      try {
+        await setup.runSetup();
+      } catch (error) {
+        throw new Error(`Test failed: ${error instanceof Error ? error.message : error}`);
+      }
+      return { directory: path.resolve(tempDir) };
+    }, (result) => {
       console.log(chalk.green('Test completed successfully!'));
-      console.log(chalk.gray(`Test directory: ${path.resolve(tempDir)}`));
+      console.log(chalk.gray(`Test directory: ${result.directory}`));
       console.log(chalk.blue('You can inspect the generated files in the test directory.'));
-
-    } catch (error) {
-      console.error(chalk.red('Test failed:'), error);
-      process.exit(1);
-    }
+    });
   });
 
 // Add generate-task-commands command
@@ -245,43 +277,22 @@ program
   .argument('<spec-name>', 'Name of the spec to generate commands for')
   .option('-p, --project <path>', 'Project directory', process.cwd())
   .action(async (specName, options) => {
-    console.log(chalk.cyan('Generating task commands...'));
-    
-    const path = await import('path');
-    const fs = await import('fs/promises');
-    
-    const projectPath = options.project;
-    const specDir = path.join(projectPath, '.claude', 'specs', specName);
-    const tasksFile = path.join(specDir, 'tasks.md');
-    const commandsSpecDir = path.join(projectPath, '.claude', 'commands', specName);
-    
-    const spinner = ora(`Generating commands for spec: ${specName}`).start();
+    const format = getOutputFormat();
+    let spinner: ReturnType<typeof ora> | null = null;
+    if (format === 'text') {
+      console.log(chalk.cyan('Generating task commands...'));
+      spinner = ora(`Generating commands for spec: ${specName}`).start();
+    }
     
-    try {
-      // Check if tasks.md exists
+    await runCommand(format, async () => {
       try {
-        await fs.access(tasksFile);
-      } catch {
-        spinner.fail(`tasks.md not found at ${tasksFile}`);
-        process.exit(1);
-      }
-      
-      // Read tasks.md
-      const tasksContent = await fs.readFile(tasksFile, 'utf8');
-      
-      // Create spec commands directory
-      await fs.mkdir(commandsSpecDir, { recursive: true });
-      
-      // Parse tasks and generate commands
-      const tasks = parseTasksFromMarkdown(tasksContent);
-      
-      let taskCount = 0;
-      for (const task of tasks) {
-        await generateTaskCommand(commandsSpecDir, specName, task);
-        taskCount++;
+        return await generateSpecTaskCommands(options.project, specName);
+      } catch (error) {
+        spinner?.fail('Command generation failed');
+        throw error;
       }
-      
-      spinner.succeed(`Generated ${taskCount} task commands for spec: ${specName}`);
+    }, ({ tasks }) => {
+      spinner?.succeed(`Generated ${tasks.length} task commands for spec: ${specName}`);
       
       console.log();
       console.log(chalk.green('Generated commands:'));
@@ -306,12 +317,7 @@ program
         }
         console.log(chalk.gray('  etc.'));
       }
-      
-    } catch (error) {
-      spinner.fail('Command generation failed');
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
-    }
+    });
   });
 
 // Add get-content command
@@ -320,16 +326,25 @@ program
   .description('Read and print the contents of a file')
   .argument('<file-path>', 'Full path to the file to read')
   .action(async (filePath) => {
-    await getFileContent(filePath);
+    await getFileContent(filePath, getOutputFormat());
   });
 
 // Add get-steering-context command
 program
   .command('get-steering-context')
-  .description('Load and format all steering documents for context passing')
+  .description('Load and format the steering documents that apply, for context passing')
   .option('-p, --project <path>', 'Project directory', process.cwd())
+  .option('--phase <phase...>', 'Phases the context is for, e.g. design or implementation')
+  .option('--path <path...>', 'Project paths the work touches')
+  .option('--spec <spec-name>', 'Spec of --task')
+  .option('--task <id>', 'Task whose paths select path-specific documents, e.g. 3.1')
   .action(async (options) => {
-    await getSteeringContext(options.project);
+    await getSteeringContext(options.project, getOutputFormat(), {
+      phases: options.phase,
+      paths: options.path,
+      spec: options.spec,
+      task: options.task,
+    });
   });
 
 // Add get-spec-context command
@@ -339,7 +354,7 @@ program
   .argument('<spec-name>', 'Name of the specification')
   .option('-p, --project <path>', 'Project directory', process.cwd())
   .action(async (specName, options) => {
-    await getSpecContext(specName, options.project);
+    await getSpecContext(specName, options.project, getOutputFormat());
   });
 
 // Add get-template-context command
@@ -349,7 +364,7 @@ program
   .argument('[template-type]', 'Template type: spec, steering, bug, or all (default: all)')
   .option('-p, --project <path>', 'Project directory', process.cwd())
   .action(async (templateType, options) => {
-    await getTemplateContext(templateType, options.project);
+    await getTemplateContext(templateType, options.project, getOutputFormat());
   });
 
 // Add get-tasks command
@@ -358,21 +373,295 @@ program
   .description('Get tasks from a specification')
   .argument('<spec-name>', 'Name of the spec to get tasks from')
   .argument('[task-id]', 'Specific task ID to retrieve')
-  .option('-m, --mode <mode>', 'Mode: all, single, next-pending, or complete', 'all')
+  .option('-m, --mode <mode>', 'Mode: all, single, next-pending, runnable, complete, start, block, or skip', 'all')
+  .option('-r, --reason <text>', 'Reason recorded when blocking a task (block mode)')
+  .option('-c, --commit <ref>', 'Commit to link to the completed task (complete mode, default: HEAD)')
+  .option('--no-commit', 'Do not link a commit to the completed task')
   .option('-p, --project <path>', 'Project directory', process.cwd())
   .action(async (specName, taskId, options) => {
-    let mode = options.mode as 'all' | 'single' | 'next-pending' | 'complete';
+    let mode = options.mode as TasksMode;
     
     // Auto-detect mode if taskId is provided and mode is default
     if (taskId && mode === 'all') {
       mode = 'single';
     }
     
-    if (!['all', 'single', 'next-pending', 'complete'].includes(mode)) {
-      console.error(chalk.red('Error: Invalid mode. Use: all, single, next-pending, or complete'));
-      process.exit(1);
+    if (!TASKS_MODES.includes(mode)) {
+      await runCommand(getOutputFormat(), () => {
+        throw new UsageError(`Invalid mode. Use: ${TASKS_MODES.join(', ')}`);
+      }, () => undefined);
+      return;
     }
-    await getTasks(specName, taskId, mode, options.project);
+    await getTasks(specName, taskId, mode, options.project, getOutputFormat(), {
+      reason: options.reason,
+      commitRef: options.commit,
+    });
+  });
+
+// Add trace command
+program
+  .command('trace')
+  .description('Show which requirements and acceptance criteria are covered by tasks')
+  .argument('<spec-name>', 'Name of the spec to trace')
+  .addOption(
+    new Option('-o, --output <type>', 'Text layout (use --format json for JSON)')
+      .choices(TRACE_OUTPUTS)
+      .default('markdown')
+  )
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (specName, options) => {
+    await traceSpec(specName, options.project, getOutputFormat(), options.output as TraceOutput);
+  });
+
+// Add history command
+program
+  .command('history')
+  .description('Show which commits changed the status of each task, by whom and when')
+  .argument('<spec-name>', 'Name of the spec')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (specName, options) => {
+    await showTaskHistory(specName, options.project, getOutputFormat());
+  });
+
+// Add lint command
+program
+  .command('lint')
+  .description('Check spec documents against the templates and task conventions')
+  .argument('[spec-name]', 'Spec to lint (defaults to all specs)')
+  .option('--fix', 'Fix mechanical problems such as task checkbox formatting')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (specName, options) => {
+    await lintSpecs(specName, options.project, getOutputFormat(), { fix: !!options.fix });
+  });
+
+// Add approve command
+program
+  .command('approve')
+  .description('Record approval of a spec phase in its document front-matter')
+  .argument('<spec-name>', 'Name of the spec')
+  .addArgument(new Argument('<phase>', 'Phase to approve').choices(SPEC_PHASES))
+  .option('--by <name>', 'Approver name (defaults to the current OS user)')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (specName, phase, options) => {
+    await approveSpec(specName, phase as SpecPhase, options.project, getOutputFormat(), { by: options.by });
+  });
+
+// Add unapprove command
+program
+  .command('unapprove')
+  .description('Remove the approval of a spec phase')
+  .argument('<spec-name>', 'Name of the spec')
+  .addArgument(new Argument('<phase>', 'Phase to unapprove').choices(SPEC_PHASES))
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (specName, phase, options) => {
+    await unapproveSpec(specName, phase as SpecPhase, options.project, getOutputFormat());
+  });
+
+// Add spec lifecycle commands
+const specCommand = program
+  .command('spec')
+  .description('Archive finished specs or restore archived ones');
+
+specCommand
+  .command('archive')
+  .description('Move a spec and its task commands to .claude/specs/.archive')
+  .argument('<spec-name>', 'Name of the spec to archive')
+  .option('--force', 'Archive even if the spec is not completed')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (specName, options) => {
+    await archiveSpec(specName, options.project, getOutputFormat(), { force: !!options.force });
+  });
+
+specCommand
+  .command('restore')
+  .description('Move an archived spec and its task commands back')
+  .argument('<spec-name>', 'Name of the archived spec')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (specName, options) => {
+    await restoreSpec(specName, options.project, getOutputFormat());
+  });
+
+// Add bug workflow commands
+const bugCommand = program
+  .command('bug')
+  .description('Manage bug fix workflows in .claude/bugs');
+
+bugCommand
+  .command('import')
+  .description('Create bug reports from an issue tracker export file; issues imported before are skipped')
+  .argument('<file>', 'Export file to read')
+  .addOption(
+    new Option('--from <source>', 'Export file layout')
+      .choices(BUG_IMPORT_SOURCES)
+      .makeOptionMandatory()
+  )
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (file, options) => {
+    await importBugs(options.from as BugImportSource, file, options.project, getOutputFormat());
+  });
+
+bugCommand
+  .command('transition')
+  .description('Move a bug to another status of its fix workflow and record the transition')
+  .argument('<bug-name>', 'Name of the bug')
+  .addArgument(new Argument('<status>', 'Status to move to').choices(BUG_STATUSES))
+  .option('--reason <text>', 'Why the bug moved, kept in its status history')
+  .option('--of <bug-name>', 'Bug this one duplicates (required for duplicate)')
+  .option('--by <name>', 'Who moved the bug (defaults to the current OS user)')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (bugName, status, options) => {
+    await transitionBug(bugName, status as BugStatus, options.project, getOutputFormat(), {
+      reason: options.reason,
+      by: options.by,
+      duplicateOf: options.of,
+    });
+  });
+
+bugCommand
+  .command('link')
+  .description('Link a bug to the spec, requirement or task whose behavior it breaks')
+  .argument('<bug-name>', 'Name of the bug')
+  .argument('<spec-name>', 'Name of the spec')
+  .option('--requirement <id>', 'Requirement or acceptance criterion ID, e.g. 2 or 2.1')
+  .option('--task <id>', 'Task ID, e.g. 3.1')
+  .option('--regression', 'Count the bug as a regression (default: when the linked work is already done)')
+  .option('--no-regression', 'Do not count the bug as a regression')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (bugName, specName, options) => {
+    await linkBug(bugName, specName, options.project, getOutputFormat(), {
+      requirement: options.requirement,
+      task: options.task,
+      regression: options.regression,
+    });
+  });
+
+bugCommand
+  .command('regression-task')
+  .description("Append a task adding a regression test for a bug to its linked spec's tasks.md")
+  .argument('<bug-name>', 'Name of the bug')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (bugName, options) => {
+    await addRegressionTask(bugName, options.project, getOutputFormat());
+  });
+
+// Add user-defined workflow commands
+const workflowCommand = program
+  .command('workflow')
+  .description('Manage user-defined workflows declared in .claude/workflows');
+
+workflowCommand
+  .command('list')
+  .description('List user-defined workflows and the status of their items')
+  .argument('[workflow]', 'Only list this workflow')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (workflowName, options) => {
+    await listWorkflows(workflowName, options.project, getOutputFormat());
+  });
+
+workflowCommand
+  .command('approve')
+  .description('Record approval of a phase of a workflow item in its document front-matter')
+  .argument('<workflow>', 'Name of the workflow')
+  .argument('<item-name>', 'Name of the item')
+  .argument('<phase>', 'Phase to approve')
+  .option('--by <name>', 'Approver name (defaults to the current OS user)')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (workflowName, itemName, phase, options) => {
+    await approveWorkflowPhase(workflowName, itemName, phase, options.project, getOutputFormat(), { by: options.by });
+  });
+
+workflowCommand
+  .command('unapprove')
+  .description('Remove the approval of a phase of a workflow item')
+  .argument('<workflow>', 'Name of the workflow')
+  .argument('<item-name>', 'Name of the item')
+  .argument('<phase>', 'Phase to unapprove')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (workflowName, itemName, phase, options) => {
+    await unapproveWorkflowPhase(workflowName, itemName, phase, options.project, getOutputFormat());
+  });
+
+workflowCommand
+  .command('generate')
+  .description('Regenerate the slash commands of every workflow definition')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (options) => {
+    await generateWorkflows(options.project, getOutputFormat());
+  });
+
+// Add steering pack commands
+const steeringCommand = program
+  .command('steering')
+  .description('Inspect steering documents merged from .claude/steering and the packs of .claude/packs.json');
+
+steeringCommand
+  .command('resolve')
+  .description('Show the effective steering documents and the layers they come from')
+  .argument('[document]', 'Only resolve this document, e.g. tech or security')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (documentName, options) => {
+    await resolveSteering(documentName, options.project, getOutputFormat());
+  });
+
+// Add template override commands
+const templatesCommand = program
+  .command('templates')
+  .description('Manage project template overrides in .claude/templates/overrides');
+
+templatesCommand
+  .command('diff')
+  .description('Show how the project templates differ from the packaged ones')
+  .argument('[template]', 'Only compare this template, e.g. design-template.md')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (templateName, options) => {
+    await diffTemplates(templateName, options.project, getOutputFormat());
+  });
+
+templatesCommand
+  .command('apply')
+  .description('Merge the template overrides into the project templates')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (options) => {
+    await applyTemplateOverrides(options.project, getOutputFormat());
+  });
+
+// Add tracker sync command
+program
+  .command('sync')
+  .description('Mirror spec tasks and bugs to an issue tracker and pull tracker status changes back')
+  .addOption(
+    new Option('--provider <name>', 'Tracker provider')
+      .choices(Object.keys(TRACKER_PROVIDERS))
+      .default('file')
+  )
+  .option('--location <path>', 'Provider-specific location (file provider: JSON file, default .claude/tracker.json)')
+  .option('--dry-run', 'Show what would change without changing anything')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (options) => {
+    await syncTracker(options.provider, options.project, getOutputFormat(), {
+      location: options.location,
+      dryRun: !!options.dryRun,
+    });
+  });
+
+// Add export command
+program
+  .command('export')
+  .description('Export specs, bugs and steering documents for people who do not run the dashboard')
+  .argument('[spec-name]', 'Spec to export as a single file')
+  .option('--html <outdir>', 'Write a static HTML site that can be viewed offline')
+  .addOption(
+    new Option('-o, --output <type>', 'Single-file layout of the spec; not --format, which is the global text/JSON switch')
+      .choices(SPEC_EXPORT_OUTPUTS)
+  )
+  .option('--file <path>', 'File to write the spec to (default: <spec-name>.docx, .md or .html)')
+  .option('-p, --project <path>', 'Project directory', process.cwd())
+  .action(async (specName, options) => {
+    await exportSpecs(specName, options.project, getOutputFormat(), {
+      html: options.html,
+      output: options.output as SpecExportOutput | undefined,
+      file: options.file,
+    });
   });
 
 // Add error handling for unknown commands
@@ -402,4 +691,22 @@ if (args.length === 0 || (args.length > 0 && !args[0].startsWith('-') && !progra
 }
 
 // Parse arguments normally - let Commander.js handle everything
-program.parse();
\ No newline at end of file
+program.parseAsync().catch((error) => {
+  if (error instanceof CommanderError) {
+    // Help and version output exit with code 0
+    if (error.exitCode === 0) {
+      return;
+    }
+    // Commander has already printed the message to stderr
+    const usageError = new UsageError(error.message.replace(/^error: /, ''));
+    if (getOutputFormat() === 'json') {
+      console.log(JSON.stringify(createEnvelope(null, usageError), null, 2));
+    }
+    process.exitCode = usageError.exitCode;
+    return;
+  }
+
+  const cliError = toCliError(error);
+  console.error(chalk.red('Error:'), cliError.message);
+  process.exitCode = cliError.exitCode;
+});
\ No newline at end of file
@@ -0,0 +1,395 @@
+/**
+ * User-defined workflows
+ *
+ * Besides the built-in spec and bug workflows, a project can declare its own
+ * document workflows (RFCs, spikes, …) as JSON files in `.claude/workflows/`:
+ *
+ * ```json
+ * {
+ *   "title": "RFC",
+ *   "description": "Propose and decide on a significant change",
+ *   "phases": [
+ *     { "name": "draft", "template": "rfc-draft-template.md", "status": "drafting" },
+ *     { "name": "review", "status": "in-review" },
+ *     { "name": "decision", "approval": false, "status": "deciding" }
+ *   ],
+ *   "completedStatus": "decided"
+ * }
+ * ```
+ *
+ * The file name (`rfc.json`) names the workflow. Each item of the workflow is
+ * a directory under `.claude/workflows/<workflow>/` holding one document per
+ * phase. Setup generates a `/<workflow>-<phase>` slash command per phase and a
+ * `/<workflow>-status` command; the dashboard renders the items generically.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ValidationError } from './output';
+
+/** Directory under .claude that holds workflow definitions and their items */
+export const WORKFLOWS_DIR = 'workflows';
+
+/** Status of an item that has no phase documents yet */
+export const WORKFLOW_NOT_STARTED = 'not-started';
+
+/** Workflow names taken by the built-in workflows and their commands */
+const RESERVED_WORKFLOW_NAMES = ['spec', 'bug'];
+
+/** Phase names taken by the generated commands of every workflow */
+const RESERVED_PHASE_NAMES = ['status'];
+
+/** First line of every generated command, so regeneration can recognise its own files */
+const GENERATED_MARKER = '<!-- Generated from .claude/workflows/';
+
+/** CLI the generated commands run: the installed package, so they match its version */
+const CLI = 'claude-code-spec-workflow';
+
+const NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const FILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*\.md$/;
+
+export interface WorkflowPhase {
+  /** Kebab-case identifier, used in the command name */
+  name: string;
+  title: string;
+  /** Document written in this phase, relative to the item directory */
+  document: string;
+  /** Template in .claude/templates the document follows */
+  template?: string;
+  /** Whether the document must be approved before the next phase starts */
+  approval: boolean;
+  /** Item status while this phase is the current one */
+  status: string;
+  /** Extra guidance for the phase, included in its command */
+  instructions?: string;
+}
+
+export interface WorkflowDefinition {
+  /** From the definition file name */
+  name: string;
+  title: string;
+  description?: string;
+  phases: WorkflowPhase[];
+  /** Item status once every phase is done */
+  completedStatus: string;
+}
+
+export interface WorkflowDefinitionError {
+  /** Definition file, relative to the project */
+  file: string;
+  message: string;
+}
+
+export interface WorkflowDefinitions {
+  workflows: WorkflowDefinition[];
+  errors: WorkflowDefinitionError[];
+}
+
+export interface WorkflowCommandsResult {
+  /** Command files written, relative to .claude/commands */
+  written: string[];
+  /** Generated command files removed because their workflow or phase is gone */
+  removed: string[];
+  errors: WorkflowDefinitionError[];
+}
+
+function formatTitle(name: string): string {
+  return name
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function optionalString(value: unknown, field: string, problems: string[]): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    problems.push(`${field} must be a non-empty string`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+/**
+ * Validate a parsed definition file and fill in defaults
+ *
+ * A phase's document defaults to `<phase>.md`, its status to its name and its
+ * approval gate to on. Every problem found is collected into one message.
+ * @throws ValidationError listing the problems when the definition is invalid
+ */
+export function parseWorkflowDefinition(name: string, raw: unknown): WorkflowDefinition {
+  const problems: string[] = [];
+  if (!NAME_PATTERN.test(name)) {
+    problems.push(`workflow name ${name} must be kebab-case`);
+  } else if (RESERVED_WORKFLOW_NAMES.includes(name)) {
+    problems.push(`workflow name ${name} is reserved for the built-in workflow`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ValidationError([...problems, 'definition must be a JSON object'].join('; '), { workflow: name });
+  }
+
+  const data = raw as Record<string, unknown>;
+  const title = optionalString(data.title, 'title', problems) || formatTitle(name);
+  const description = optionalString(data.description, 'description', problems);
+  const completedStatus = optionalString(data.completedStatus, 'completedStatus', problems) || 'completed';
+
+  const phases: WorkflowPhase[] = [];
+  if (!Array.isArray(data.phases) || data.phases.length === 0) {
+    problems.push('phases must be a non-empty array');
+  } else {
+    data.phases.forEach((entry: unknown, index) => {
+      const field = `phases[${index}]`;
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        problems.push(`${field} must be an object`);
+        return;
+      }
+      const phase = entry as Record<string, unknown>;
+      if (typeof phase.name !== 'string' || !NAME_PATTERN.test(phase.name)) {
+        problems.push(`${field}.name must be a kebab-case string`);
+        return;
+      }
+      if (RESERVED_PHASE_NAMES.includes(phase.name)) {
+        problems.push(`${field}.name ${phase.name} is reserved for a generated command`);
+      }
+      const document = optionalString(phase.document, `${field}.document`, problems) || `${phase.name}.md`;
+      if (!FILE_NAME_PATTERN.test(document)) {
+        problems.push(`${field}.document must be a markdown file name without a directory`);
+      }
+      const template = optionalString(phase.template, `${field}.template`, problems);
+      if (template && !FILE_NAME_PATTERN.test(template)) {
+        problems.push(`${field}.template must be a markdown file name in .claude/templates`);
+      }
+      if (phase.approval !== undefined && typeof phase.approval !== 'boolean') {
+        problems.push(`${field}.approval must be true or false`);
+      }
+      const status = optionalString(phase.status, `${field}.status`, problems) || phase.name;
+      if (status === WORKFLOW_NOT_STARTED || status === completedStatus) {
+        problems.push(`${field}.status ${status} is reserved for items before or after the workflow`);
+      }
+      const instructions = optionalString(phase.instructions, `${field}.instructions`, problems);
+
+      phases.push({
+        name: phase.name,
+        title: optionalString(phase.title, `${field}.title`, problems) || formatTitle(phase.name),
+        document,
+        ...(template && { template }),
+        approval: phase.approval !== false,
+        status,
+        ...(instructions && { instructions }),
+      });
+    });
+  }
+
+  for (const key of ['name', 'document'] as const) {
+    const seen = new Set<string>();
+    for (const phase of phases) {
+      if (seen.has(phase[key])) {
+        problems.push(`phase ${key} ${phase[key]} is used more than once`);
+      }
+      seen.add(phase[key]);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ValidationError(problems.join('; '), { workflow: name });
+  }
+  return { name, title, ...(description && { description }), phases, completedStatus };
+}
+
+/**
+ * Read every workflow definition of a project
+ *
+ * Invalid definitions are reported in `errors` instead of failing the whole
+ * load, so one broken file does not hide the other workflows.
+ */
+export async function loadWorkflowDefinitions(projectPath: string): Promise<WorkflowDefinitions> {
+  const workflowsDir = join(projectPath, '.claude', WORKFLOWS_DIR);
+  const result: WorkflowDefinitions = { workflows: [], errors: [] };
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(workflowsDir, { withFileTypes: true }))
+      .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
+      .map((entry) => entry.name)
+      .sort();
+  } catch {
+    // No workflows directory, no custom workflows
+    return result;
+  }
+
+  for (const file of files) {
+    const relativePath = `.claude/${WORKFLOWS_DIR}/${file}`;
+    try {
+      const raw: unknown = JSON.parse(await fs.readFile(join(workflowsDir, file), 'utf-8'));
+      result.workflows.push(parseWorkflowDefinition(file.slice(0, -'.json'.length), raw));
+    } catch (error) {
+      result.errors.push({ file: relativePath, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Build the slash command that walks an item through one phase
+ */
+export function renderPhaseCommand(workflow: WorkflowDefinition, phaseIndex: number): string {
+  const phase = workflow.phases[phaseIndex];
+  if (!phase) {
+    throw new RangeError(`Workflow ${workflow.name} has no phase ${phaseIndex + 1}`);
+  }
+  const previous = workflow.phases.slice(0, phaseIndex);
+  const next = workflow.phases[phaseIndex + 1];
+  const itemDir = `.claude/${WORKFLOWS_DIR}/${workflow.name}/{item-name}`;
+  const lines = [
+    `${GENERATED_MARKER}${workflow.name}.json; run \`${CLI} workflow generate\` after editing the definition -->`,
+    `# ${workflow.title}: ${phase.title}`,
+    '',
+    `Phase ${phaseIndex + 1} of ${workflow.phases.length} of the ${workflow.title} workflow.`,
+    ...(workflow.description ? ['', workflow.description] : []),
+    '',
+    '## Usage',
+    '```',
+    `/${workflow.name}-${phase.name} <item-name>`,
+    '```',
+    '',
+    '## Instructions',
+    '',
+    '1. **Prerequisites**',
+  ];
+  if (previous.length === 0) {
+    lines.push(
+      `   - Use a kebab-case item name; the item's documents live in \`${itemDir}/\``,
+      `   - Create the directory if it does not exist yet`
+    );
+  } else {
+    lines.push(`   - Read the documents of the earlier phases in \`${itemDir}/\`:`);
+    for (const earlier of previous) {
+      lines.push(`     - \`${earlier.document}\` (${earlier.title}${earlier.approval ? ', must be approved' : ''})`);
+    }
+    lines.push(`   - Check the item's status with \`${CLI} workflow list ${workflow.name}\`; stop if an earlier phase is not done`);
+  }
+  lines.push(
+    `   - Load the steering documents that apply: \`${CLI} get-steering-context --phase ${workflow.name}-${phase.name}\``,
+    '',
+    '2. **Write the document**',
+    `   - Create or update \`${itemDir}/${phase.document}\``
+  );
+  if (phase.template) {
+    lines.push(`   - Follow the structure of \`.claude/templates/${phase.template}\` precisely`);
+  }
+  if (phase.instructions) {
+    lines.push(`   - ${phase.instructions}`);
+  }
+  lines.push('', '3. **Review**', '   - Present the complete document to the user', '   - Incorporate feedback and revisions');
+  if (phase.approval) {
+    lines.push(
+      `   - Ask: "Does the ${phase.title.toLowerCase()} look good? If so, ${next ? `we can move on to ${next.title.toLowerCase()}` : 'the workflow is complete'}."`,
+      '   - Continue until explicit approval',
+      `   - Once approved, record it: \`${CLI} workflow approve ${workflow.name} {item-name} ${phase.name}\``,
+      '   - **CRITICAL**: Do not proceed without explicit approval'
+    );
+  }
+  lines.push(
+    '',
+    '4. **Next step**',
+    next
+      ? `   - Continue with \`/${workflow.name}-${next.name} {item-name}\``
+      : `   - The item is done; its status becomes \`${workflow.completedStatus}\``,
+    ''
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Build the slash command that reports the status of a workflow's items
+ */
+export function renderStatusCommand(workflow: WorkflowDefinition): string {
+  const statuses = [WORKFLOW_NOT_STARTED, ...workflow.phases.map((phase) => phase.status), workflow.completedStatus];
+  return [
+    `${GENERATED_MARKER}${workflow.name}.json; run \`${CLI} workflow generate\` after editing the definition -->`,
+    `# ${workflow.title} Status`,
+    '',
+    `Show the status of ${workflow.title} items.`,
+    '',
+    '## Usage',
+    '```',
+    `/${workflow.name}-status [item-name]`,
+    '```',
+    '',
+    '## Instructions',
+    '',
+    `1. Run \`${CLI} workflow list ${workflow.name}\``,
+    '2. **If no item-name provided:** show every item with its status',
+    '3. **If item-name provided:** show which phase documents exist, which are approved, and the next command to run',
+    '',
+    `Statuses, in order: ${statuses.map((status) => `\`${status}\``).join(' → ')}`,
+    '',
+  ].join('\n');
+}
+
+async function isGeneratedCommand(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.readFile(filePath, 'utf-8')).startsWith(GENERATED_MARKER);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write the slash commands of every valid workflow definition to .claude/commands
+ *
+ * Generated commands left over from removed workflows or phases are deleted.
+ * A command file that was not generated is never overwritten; its workflow is
+ * reported as an error and skipped instead.
+ */
+export async function generateWorkflowCommands(projectPath: string): Promise<WorkflowCommandsResult> {
+  const commandsDir = join(projectPath, '.claude', 'commands');
+  const { workflows, errors } = await loadWorkflowDefinitions(projectPath);
+  const result: WorkflowCommandsResult = { written: [], removed: [], errors };
+  await fs.mkdir(commandsDir, { recursive: true });
+
+  for (const workflow of workflows) {
+    const commands = new Map<string, string>(workflow.phases.map((phase, index) => [
+      `${workflow.name}-${phase.name}.md`,
+      renderPhaseCommand(workflow, index),
+    ]));
+    commands.set(`${workflow.name}-status.md`, renderStatusCommand(workflow));
+
+    const taken: string[] = [];
+    for (const file of commands.keys()) {
+      const filePath = join(commandsDir, file);
+      if (!(await isGeneratedCommand(filePath)) && (await fs.stat(filePath).catch(() => null))) {
+        taken.push(file);
+      }
+    }
+    if (taken.length > 0) {
+      result.errors.push({
+        file: `.claude/${WORKFLOWS_DIR}/${workflow.name}.json`,
+        message: `${taken.join(', ')} ${taken.length === 1 ? 'exists' : 'exist'} and ${taken.length === 1 ? 'was' : 'were'} not generated from a workflow`,
+      });
+      continue;
+    }
+
+    for (const [file, content] of commands) {
+      await fs.writeFile(join(commandsDir, file), content, 'utf-8');
+      result.written.push(file);
+    }
+  }
+
+  const failed = new Set(result.errors.map((error) => error.file));
+  const entries = (await fs.readdir(commandsDir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    if (!entry.isFile() || !entry.name.endsWith('.md') || result.written.includes(entry.name)) continue;
+    const filePath = join(commandsDir, entry.name);
+    const content = await fs.readFile(filePath, 'utf-8');
+    if (!content.startsWith(GENERATED_MARKER)) continue;
+    // Keep the commands of a definition that failed to load until it is fixed
+    const source = content.slice(GENERATED_MARKER.length).split(';')[0];
+    if (failed.has(`.claude/${WORKFLOWS_DIR}/${source}`)) continue;
+    await fs.unlink(filePath);
+    result.removed.push(entry.name);
+  }
+
+  return result;
+}
@@ -5,6 +5,11 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { MultiProjectDashboardServer } from './multi-server';
 import { TunnelProviderError } from './tunnel';
+import { loadDiscoveryConfig, resolveDiscoveryConfig, getDashboardConfigPath } from './discovery-config';
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
 
 const program = new Command();
 
@@ -21,6 +26,11 @@ program
   .option('--tunnel-provider <provider>', 'Tunnel provider to use (cloudflare, ngrok, auto)', 'ngrok')
   .option('--ngrok', 'Create a secure tunnel using Ngrok (alias for --tunnel --tunnel-provider ngrok)')
   .option('--cloudflare', 'Create a secure tunnel using Cloudflare (alias for --tunnel --tunnel-provider cloudflare)')
+  .option('--config <path>', `Discovery config file (default: ${getDashboardConfigPath()})`)
+  .option('--root <path>', 'Directory to search for projects; repeat for several (replaces the configured roots)', collect, [])
+  .option('--exclude <glob>', 'Directory pattern to skip during discovery; repeat for several', collect, [])
+  .option('--max-depth <n>', 'How many levels below each root to search')
+  .option('--project [path]', 'Serve only this project (default: current directory) without discovering others')
   .action(async (options) => {
     // Handle alias options
     if (options.ngrok) {
@@ -39,12 +49,32 @@ program
     const spinner = ora(options.tunnel ? 'Starting dashboard server and creating tunnel...' : 'Starting dashboard server...').start();
 
     try {
+      const project: string | undefined = options.project === true ? process.cwd() : options.project;
+      const usesDiscovery = options.config !== undefined || options.root.length > 0 ||
+        options.exclude.length > 0 || options.maxDepth !== undefined;
+      if (project && usesDiscovery) {
+        throw new Error('--project cannot be combined with --config, --root, --exclude or --max-depth');
+      }
+
+      const maxDepth = options.maxDepth !== undefined ? parseInt(options.maxDepth, 10) : undefined;
+      if (maxDepth !== undefined && (isNaN(maxDepth) || maxDepth < 0)) {
+        throw new Error(`Invalid --max-depth ${options.maxDepth}: expected a non-negative integer`);
+      }
+      // Single-project mode doesn't need the discovery config file
+      const discovery = project ? undefined : resolveDiscoveryConfig(loadDiscoveryConfig(options.config), {
+        roots: options.root,
+        exclude: options.exclude,
+        maxDepth,
+      });
+
       const server = new MultiProjectDashboardServer({
         port: parseInt(options.port),
         autoOpen: options.open,
         tunnel: options.tunnel,
         tunnelPassword: options.tunnelPassword,
         tunnelProvider: options.tunnelProvider,
+        discovery,
+        project,
       });
 
       await server.start();
@@ -8,13 +8,23 @@ import type {
   Spec,
   Bug,
   Task,
+  UITask,
   WebSocketMessage,
   AppState,
   ActiveSession,
   ColorScheme,
   ProjectTabData,
   TunnelStatus,
-  StatusType
+  StatusType,
+  DocumentApproval,
+  ProgressPoint,
+  ProgressChart,
+  TaskStatus,
+  TaskHistoryEntry,
+  TaskStatusChange,
+  TaskCommit,
+  Workflow,
+  WorkflowItem
 } from '../shared/dashboard.types';
 
 import { dashboardShared } from './shared-components';
@@ -164,6 +174,11 @@ interface MultiAppState extends AppState {
   cycleTheme(): void;
   showModal(specName: string, docType: string): void;
   closeMarkdownPreview(): void;
+  resetMarkdownEditor(projectPath?: string, documentPath?: string, etag?: string | null): void;
+  startEditingMarkdown(): void;
+  cancelEditingMarkdown(): void;
+  saveMarkdown(): Promise<void>;
+  resolveMarkdownConflict(keep: 'mine' | 'theirs'): Promise<void>;
   setupKeyboardHandlers(): void;
   setupCodeBlockCopyHandlers(): void;
   copyCodeBlock(event: Event): void;
@@ -193,8 +208,14 @@ interface MultiAppState extends AppState {
   getProjectSlug(project: Project): string;
   updateURL(): void;
   getOpenBugsCount(project: Project): number;
+  isBugClosed(bug: Bug): boolean;
+  getSpecOpenBugs(project: Project, specName: string): Bug[];
+  getSpecRegressionCount(project: Project, specName: string): number;
+  getWorkflowStatusClass(workflow: Workflow, item: WorkflowItem): string;
   selectProjectFromSession(session: ActiveSession): void;
   findFirstIncompleteTask(tasks: Task[]): Task | null;
+  getTaskRows(spec: Spec): UITask[];
+  findTaskById(tasks: Task[], taskId: string): Task | null;
   handleRouteChange(): void;
   initializeSelectedTask(spec: Spec): void;
   getProjectAtIndex(index: number): Project | null;
@@ -211,6 +232,8 @@ interface MultiAppState extends AppState {
   isDesignExpanded(specName: string): boolean;
   toggleTasksExpanded(specName: string): void;
   isTasksExpanded(specName: string): boolean;
+  toggleTraceExpanded(specName: string): void;
+  isTraceExpanded(specName: string): boolean;
   toggleRequirementAccordion(specName: string, requirementId: string): void;
   isRequirementExpanded(specName: string, requirementId: string): boolean;
   selectTask(specName: string, taskId: string): void;
@@ -229,6 +252,25 @@ interface MultiAppState extends AppState {
   copyNextTaskCommand(spec: Spec, event: Event): void;
   copyOrchestrateCommand(spec: Spec, event: Event): void;
   toggleShowCompleted(): void;
+  getArchivedSpecs(project: Project): Spec[];
+  loadArchivedSpecs(projectPath: string): Promise<void>;
+  toggleShowArchived(): void;
+  getSpecKey(projectPath: string, specName?: string): string;
+  getTaskHistory(projectPath: string, specName: string, taskId: string): TaskHistoryEntry | null;
+  loadTaskHistory(projectPath: string, specName: string): Promise<void>;
+  describeTaskStatusChange(change: TaskStatusChange): string;
+  getTaskCommit(projectPath: string, hash: string): TaskCommit | null;
+  loadTaskCommit(projectPath: string, hash: string): Promise<void>;
+  getProgressHistory(projectPath: string, specName?: string): ProgressPoint[];
+  loadProgressHistory(projectPath: string, specName?: string): Promise<void>;
+  getProgressChart(projectPath: string, specName?: string): ProgressChart | null;
+  toggleProgressExpanded(specName: string): void;
+  isProgressExpanded(specName: string): boolean;
+  toggleProjectProgress(): void;
+  postAction(projectPath: string, action: string, body?: Record<string, unknown>): Promise<void>;
+  toggleTaskCompleted(projectPath: string, specName: string, task: Task, event: Event): Promise<void>;
+  setPhaseApproval(projectPath: string, specName: string, phase: string, approved: boolean, event: Event): Promise<void>;
+  advanceBug(projectPath: string, bugName: string, event: Event): Promise<void>;
   selectedTaskId(specName: string): string | undefined;
   sortSpecs(specs: Spec[]): void;
   sortBugs(bugs: Bug[]): void;
@@ -240,7 +282,8 @@ interface MultiAppState extends AppState {
   hasBugDocument(bugName: string, docType: string): boolean;
   viewBugDocument(projectPath: string, bugName: string, docType: string): Promise<void>;
   getSpecStatus(session: ActiveSession): StatusType | null;
-  getTaskTooltip(task: any): string;
+  getTaskTooltip(task: any, projectPath?: string, specName?: string): string;
+  getApprovalTooltip(approval?: DocumentApproval): string;
   copyTaskCommand(specName: string, taskId: string, event: Event): void;
   copyOrchestrationCommand(specName: string, taskId: string, event: Event): void;
   formatTunnelExpiry(expiresAt: string): string;
@@ -248,6 +291,8 @@ interface MultiAppState extends AppState {
   // Shared utility methods from dashboardShared
   getStatusLabel(status: StatusType): string;
   getStatusClass(status: StatusType): string;
+  getTaskStatusIcon(task: Task): string;
+  getTaskStatusLabel(task: Task): string;
   formatDate(dateString: string): string;
   copyCommand(command: string, event?: globalThis.Event): Promise<void>;
   renderMarkdown(content: string): string;
@@ -284,6 +329,15 @@ function initApp(): void {
       rawContent: '',
       loading: false
     },
+    markdownEditor: {
+      projectPath: '',
+      documentPath: '',
+      etag: null,
+      editing: false,
+      draft: '',
+      saving: false,
+      conflict: null
+    },
 
     // Computed properties for markdown preview (for template compatibility)
     get markdownShow(): boolean {
@@ -314,10 +368,21 @@ function initApp(): void {
     expandedRequirements: {},
     expandedDesigns: {},
     expandedTasks: {},
+    expandedTraces: {},
+    expandedProgress: {},
+    showProjectProgress: localStorage.getItem('showProjectProgress') === 'true',
+    progressHistory: {},
+    progressChartMode: 'burndown',
+    taskHistory: {},
+    taskCommits: {},
     selectedTasks: {},
     expandedRequirementAccordions: {},
     pendingProjectRoute: null,
+    singleProject: false,
+    writeToken: null,
     showCompleted: localStorage.getItem('showCompleted') !== 'false',
+    showArchived: localStorage.getItem('showArchived') === 'true',
+    archivedSpecs: {},
     tunnelStatus: null,
     _groupedProjectsCache: null,
     _colorValueCache: {},
@@ -363,12 +428,34 @@ function initApp(): void {
       return project.specs.filter(s => s?.status !== 'completed');
     },
 
+    getArchivedSpecs(project: Project): Spec[] {
+      if (!project?.path || !this.showArchived) return [];
+      if (!(project.path in this.archivedSpecs)) {
+        this.loadArchivedSpecs(project.path);
+      }
+      return this.archivedSpecs[project.path] || [];
+    },
+
+    async loadArchivedSpecs(projectPath: string): Promise<void> {
+      // Mark as loading so the template doesn't request the list again
+      this.archivedSpecs[projectPath] = [];
+      try {
+        const response = await fetch(`/api/projects/${encodeURIComponent(projectPath)}/archived-specs`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch archived specs: ${response.status}`);
+        }
+        this.archivedSpecs[projectPath] = await response.json();
+      } catch (error) {
+        console.error('Error fetching archived specs:', error);
+      }
+    },
+
     getVisibleBugs(project: Project): Bug[] {
       if (!project?.bugs) return [];
       if (this.showCompleted) {
         return project.bugs;
       }
-      return project.bugs.filter(b => b?.status !== 'resolved');
+      return project.bugs.filter(b => !this.isBugClosed(b));
     },
 
     // ========================================================================
@@ -844,6 +931,8 @@ function initApp(): void {
           let projectsData: Project[] = [];
           let sessionsData: ActiveSession[] = [];
           let username = 'User';
+          let singleProject = false;
+          let writeToken: string | null = null;
           
           if ('data' in message) {
             // Handle the case where data contains projects directly
@@ -858,6 +947,11 @@ function initApp(): void {
             if ('username' in message && typeof (message as any).username === 'string') {
               username = (message as any).username;
             }
+            singleProject = message.singleProject === true;
+            // Only sent to browsers on the dashboard's machine, never to tunnel viewers
+            if (typeof message.writeToken === 'string') {
+              writeToken = message.writeToken;
+            }
           }
           
           this.projects = this.normalizeProjects(projectsData);
@@ -867,6 +961,8 @@ function initApp(): void {
             projectColorValue: this.getProjectColorValue(session.projectPath)
           }));
           this.username = username;
+          this.singleProject = singleProject;
+          this.writeToken = writeToken;
           // Clear caches when projects change
           this._groupedProjectsCache = null;
           // Clear external color cache
@@ -884,8 +980,15 @@ function initApp(): void {
           // Sort projects: active first, then by activity
           this.sortProjects();
           
+          // A single-project dashboard has no active sessions view, so always show the project
+          if (this.singleProject && this.projects.length > 0) {
+            this.selectedProject = this.projects[0] || null;
+            this.activeTab = 'projects';
+            this.pendingProjectRoute = null;
+            this.updateURL();
+          }
           // Handle pending route if we were waiting for projects to load
-          if (this.pendingProjectRoute && this.projects.length > 0) {
+          else if (this.pendingProjectRoute && this.projects.length > 0) {
             const project = this.projects.find(p => this.getProjectSlug(p) === this.pendingProjectRoute);
             if (project) {
               this.selectedProject = project;
@@ -946,6 +1049,15 @@ function initApp(): void {
           }
           break;
 
+        case 'workflow-update': {
+          // Every workflow of the project is re-sent on any change
+          const workflowProject = this.projects.find((p) => p.path === message.projectPath);
+          if (workflowProject) {
+            workflowProject.workflows = message.data;
+          }
+          break;
+        }
+
         case 'tunnel:started':
           const tunnelData = (message as any).data;
           this.tunnelStatus = {
@@ -986,15 +1098,28 @@ function initApp(): void {
             console.log(`Project update for ${project.name}:`, updateEvent);
             
             // Handle spec updates
-            if (updateEvent.type === 'spec-update' && updateEvent.spec && updateEvent.data) {
+            if (updateEvent.type === 'spec-update' && updateEvent.spec && !updateEvent.data) {
+              // Spec directory removed, e.g. archived
+              project.specs = project.specs.filter(s => s.name !== updateEvent.spec);
+              delete this.archivedSpecs[project.path];
+              console.log(`Removed spec ${updateEvent.spec} from project ${project.name}`);
+            } else if (updateEvent.type === 'spec-update' && updateEvent.spec && updateEvent.data) {
+              // Task counts may have changed, so refetch the progress charts being shown
+              for (const key of Object.keys(this.progressHistory)) {
+                if (key.startsWith(`${project.path}\n`)) {
+                  delete this.progressHistory[key];
+                }
+              }
+              delete this.taskHistory[this.getSpecKey(project.path, updateEvent.spec)];
               const specIndex = project.specs.findIndex(s => s.name === updateEvent.spec);
               if (specIndex !== -1) {
                 // Update existing spec
                 project.specs[specIndex] = updateEvent.data;
                 console.log(`Updated spec ${updateEvent.spec} for project ${project.name}`);
               } else {
-                // Add new spec
+                // Add new spec (possibly restored from the archive)
                 project.specs.push(updateEvent.data);
+                delete this.archivedSpecs[project.path];
                 console.log(`Added new spec ${updateEvent.spec} for project ${project.name}`);
               }
             } else if (updateEvent.type === 'added' || updateEvent.type === 'changed' || updateEvent.type === 'removed') {
@@ -1021,6 +1146,12 @@ function initApp(): void {
           if (gitProject) {
             gitProject.gitBranch = gitUpdate.gitBranch;
             gitProject.gitCommit = gitUpdate.gitCommit;
+            // New commits may have changed task statuses
+            for (const key of Object.keys(this.taskHistory)) {
+              if (key.startsWith(`${gitProject.path}\n`)) {
+                delete this.taskHistory[key];
+              }
+            }
             console.log(`Git updated for ${gitProject.name}: ${gitUpdate.gitBranch} (${gitUpdate.gitCommit})`);
           }
           break;
@@ -1250,6 +1381,18 @@ function initApp(): void {
       return !!this.expandedTasks[specName];
     },
 
+    toggleTraceExpanded(specName: string): void {
+      if (this.expandedTraces[specName]) {
+        delete this.expandedTraces[specName];
+      } else {
+        this.expandedTraces[specName] = true;
+      }
+    },
+
+    isTraceExpanded(specName: string): boolean {
+      return !!this.expandedTraces[specName];
+    },
+
     toggleRequirementAccordion(specName: string, requirementId: string): void {
       const key = `${specName}-${requirementId}`;
       const isCurrentlyExpanded = this.expandedRequirementAccordions[key];
@@ -1304,7 +1447,7 @@ function initApp(): void {
       const spec = project.specs.find(s => s.name === specName);
       if (!spec || !spec.tasks || !spec.tasks.taskList) return null;
       
-      return spec.tasks.taskList.find(task => task.id === taskId) || null;
+      return this.findTaskById(spec.tasks.taskList, taskId);
     },
 
     initializeSelectedTask(spec: Spec): void {
@@ -1318,7 +1461,7 @@ function initApp(): void {
 
     findFirstIncompleteTask(tasks: Task[]): Task | null {
       for (const task of tasks) {
-        if (!task.completed) {
+        if (dashboardShared.isTaskActionable(task)) {
           return task;
         }
         if (task.subtasks) {
@@ -1329,6 +1472,31 @@ function initApp(): void {
       return null;
     },
 
+    getTaskRows(spec: Spec): UITask[] {
+      const rows: UITask[] = [];
+      const visit = (tasks: Task[], indentLevel: number): void => {
+        for (const task of tasks) {
+          rows.push({ ...task, indentLevel });
+          if (task.subtasks) {
+            visit(task.subtasks, indentLevel + 1);
+          }
+        }
+      };
+      visit(spec?.tasks?.taskList || [], 0);
+      return rows;
+    },
+
+    findTaskById(tasks: Task[], taskId: string): Task | null {
+      for (const task of tasks) {
+        if (task.id === taskId) return task;
+        if (task.subtasks) {
+          const subtask = this.findTaskById(task.subtasks, taskId);
+          if (subtask) return subtask;
+        }
+      }
+      return null;
+    },
+
     // ========================================================================
     // Active Session Helpers
     // ========================================================================
@@ -1384,21 +1552,19 @@ function initApp(): void {
       const taskId = activeSession?.task?.id;
       if (!taskId) return null;
       
-      const taskList = spec.tasks.taskList;  // TypeScript now knows this is defined
+      const taskList: Task[] = this.getTaskRows(spec);
       const currentIndex = taskList.findIndex((t) => t?.id === taskId);
       if (currentIndex >= 0 && currentIndex < taskList.length - 1) {
         const nextTask = taskList[currentIndex + 1];
-        if (nextTask && !nextTask.completed) return nextTask;
+        if (nextTask && dashboardShared.isTaskActionable(nextTask)) return nextTask;
       }
       
-      return taskList.find((t) => t && !t.completed && t.id !== taskId) || null;
+      return taskList.find((t) => t && dashboardShared.isTaskActionable(t) && t.id !== taskId) || null;
     },
 
     getCurrentTask(spec: Spec): Task | null {
       if (!spec?.tasks?.taskList || !spec.tasks.inProgress) return null;
-      const taskList = spec.tasks.taskList;
-      const inProgressId = spec.tasks.inProgress;
-      return taskList.find(task => task?.id === inProgressId) || null;
+      return this.findTaskById(spec.tasks.taskList, spec.tasks.inProgress);
     },
 
     // ========================================================================
@@ -1429,7 +1595,31 @@ function initApp(): void {
 
     getOpenBugsCount(project: Project): number {
       if (!project?.bugs) return 0;
-      return project.bugs.filter((b) => b?.status !== 'resolved').length;
+      return project.bugs.filter((b) => !this.isBugClosed(b)).length;
+    },
+
+    isBugClosed(bug: Bug): boolean {
+      return !!bug && ['resolved', 'wontfix', 'duplicate'].includes(bug.status);
+    },
+
+    getSpecOpenBugs(project: Project, specName: string): Bug[] {
+      if (!project?.bugs) return [];
+      return project.bugs.filter((b) => b?.link?.spec === specName && !this.isBugClosed(b));
+    },
+
+    getSpecRegressionCount(project: Project, specName: string): number {
+      if (!project?.bugs) return 0;
+      return project.bugs.filter((b) => b?.link?.spec === specName && b.link.regression).length;
+    },
+
+    getWorkflowStatusClass(workflow: Workflow, item: WorkflowItem): string {
+      if (item.status === workflow.completedStatus) {
+        return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+      }
+      if (item.status === 'not-started') {
+        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200';
+      }
+      return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
     },
 
     getBugsInProgress(project: Project): number {
@@ -1458,6 +1648,14 @@ function initApp(): void {
 
     handleRouteChange(): void {
       const path = window.location.pathname;
+
+      // There is nothing but the one project to navigate to in single-project mode
+      if (this.singleProject && this.projects[0]) {
+        this.selectedProject = this.projects[0];
+        this.activeTab = 'projects';
+        window.history.replaceState(null, '', '/project/' + this.getProjectSlug(this.projects[0]));
+        return;
+      }
       
       // Handle base path - if we're at the dashboard root or common dashboard paths
       if (path === '/' || path === '/active' || path === '/dashboard' || path === '/dashboard/' || path.includes('/dashboard/public')) {
@@ -1605,9 +1803,10 @@ function initApp(): void {
           'reported': 1,    // New bugs need immediate attention
           'analyzing': 2,   // Being investigated
           'fixing': 3,      // Being worked on
-          'fixed': 4,       // Fixed but not verified
-          'verifying': 5,   // Being tested
-          'resolved': 6     // Completed bugs at bottom
+          'verifying': 4,   // Being tested
+          'resolved': 5,    // Completed bugs at bottom
+          'wontfix': 6,
+          'duplicate': 7
         };
         
         const priorityA = statusPriority[a.status] || 99;
@@ -1680,6 +1879,223 @@ function initApp(): void {
       localStorage.setItem('showCompleted', this.showCompleted.toString());
     },
 
+    toggleShowArchived(): void {
+      this.showArchived = !this.showArchived;
+      localStorage.setItem('showArchived', this.showArchived.toString());
+      if (this.showArchived) {
+        // Refetch, as specs may have been archived or restored meanwhile
+        this.archivedSpecs = {};
+      }
+    },
+
+    // ========================================================================
+    // Progress History
+    // ========================================================================
+
+    /** Key of per-spec data fetched on demand; an empty spec name stands for the whole project */
+    getSpecKey(projectPath: string, specName = ''): string {
+      return `${projectPath}\n${specName}`;
+    },
+
+    getProgressHistory(projectPath: string, specName?: string): ProgressPoint[] {
+      const key = this.getSpecKey(projectPath, specName);
+      if (!(key in this.progressHistory)) {
+        this.loadProgressHistory(projectPath, specName);
+      }
+      return this.progressHistory[key] || [];
+    },
+
+    async loadProgressHistory(projectPath: string, specName?: string): Promise<void> {
+      const key = this.getSpecKey(projectPath, specName);
+      // Mark as loading so the template doesn't request the history again
+      this.progressHistory[key] = [];
+      try {
+        const query = specName ? `?spec=${encodeURIComponent(specName)}` : '';
+        const response = await fetch(`/api/projects/${encodeURIComponent(projectPath)}/progress${query}`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch progress history: ${response.status}`);
+        }
+        this.progressHistory[key] = await response.json();
+      } catch (error) {
+        console.error('Error fetching progress history:', error);
+      }
+    },
+
+    /**
+     * Step chart of the recorded task counts, from the first snapshot until now
+     */
+    getProgressChart(projectPath: string, specName?: string): ProgressChart | null {
+      const points = this.getProgressHistory(projectPath, specName);
+      const first = points[0];
+      const last = points[points.length - 1];
+      if (!first || !last) return null;
+
+      const width = 600;
+      const height = 160;
+      const startTime = new Date(first.timestamp).getTime();
+      const endTime = Math.max(Date.now(), new Date(last.timestamp).getTime(), startTime + 1);
+      const max = Math.max(1, ...points.map((point) => point.total));
+      const round = (value: number) => Math.round(value * 10) / 10;
+      const xs = points.map((point) => round(((new Date(point.timestamp).getTime() - startTime) / (endTime - startTime)) * width));
+      const y = (count: number) => round(height - (count / max) * height);
+
+      // Counts hold until the next snapshot, so the lines are drawn as steps
+      const line = (values: number[]) =>
+        values.map((value, index) => (index === 0 ? `M0,${y(value)}` : `H${xs[index]}V${y(value)}`)).join('') + `H${width}`;
+      const area = (lower: number[], upper: number[]) => {
+        let d = `${line(upper)}V${y(lower[lower.length - 1] ?? 0)}`;
+        for (let index = lower.length - 1; index > 0; index--) {
+          d += `H${xs[index]}V${y(lower[index - 1] ?? 0)}`;
+        }
+        return `${d}H0Z`;
+      };
+
+      // Done work at the bottom, open work on top
+      const bands: { status: TaskStatus; color: string }[] = [
+        { status: 'completed', color: '#22c55e' },
+        { status: 'skipped', color: '#9ca3af' },
+        { status: 'in-progress', color: '#6366f1' },
+        { status: 'blocked', color: '#ef4444' },
+        { status: 'pending', color: '#cbd5e1' }
+      ];
+      let lower = points.map(() => 0);
+      const areas = bands.map((band) => {
+        const upper = points.map((point, index) => (lower[index] ?? 0) + point.statusCounts[band.status]);
+        const d = area(lower, upper);
+        lower = upper;
+        return { ...band, d };
+      });
+
+      return {
+        areas,
+        remaining: line(points.map((point) => point.statusCounts.pending + point.statusCounts['in-progress'] + point.statusCounts.blocked)),
+        scope: line(points.map((point) => point.total)),
+        max,
+        start: first.timestamp,
+        end: new Date(endTime).toISOString()
+      };
+    },
+
+    toggleProgressExpanded(specName: string): void {
+      if (this.expandedProgress[specName]) {
+        delete this.expandedProgress[specName];
+      } else {
+        this.expandedProgress[specName] = true;
+      }
+    },
+
+    isProgressExpanded(specName: string): boolean {
+      return !!this.expandedProgress[specName];
+    },
+
+    toggleProjectProgress(): void {
+      this.showProjectProgress = !this.showProjectProgress;
+      localStorage.setItem('showProjectProgress', this.showProjectProgress.toString());
+    },
+
+    // ========================================================================
+    // Task History
+    // ========================================================================
+
+    getTaskHistory(projectPath: string, specName: string, taskId: string): TaskHistoryEntry | null {
+      const key = this.getSpecKey(projectPath, specName);
+      if (!(key in this.taskHistory)) {
+        this.loadTaskHistory(projectPath, specName);
+      }
+      return this.taskHistory[key]?.find((entry) => entry.id === taskId) || null;
+    },
+
+    async loadTaskHistory(projectPath: string, specName: string): Promise<void> {
+      const key = this.getSpecKey(projectPath, specName);
+      // Mark as loading so tooltips don't request the history again
+      this.taskHistory[key] = [];
+      try {
+        const response = await fetch(
+          `/api/projects/${encodeURIComponent(projectPath)}/specs/${encodeURIComponent(specName)}/task-history`
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to fetch task history: ${response.status}`);
+        }
+        this.taskHistory[key] = (await response.json()).tasks;
+      } catch (error) {
+        console.error('Error fetching task history:', error);
+      }
+    },
+
+    describeTaskStatusChange(change: TaskStatusChange): string {
+      if (!change.commit) return 'not committed yet';
+      return `${dashboardShared.formatDate(change.date || '')} by ${change.author || 'unknown'} (${change.commit})`;
+    },
+
+    getTaskCommit(projectPath: string, hash: string): TaskCommit | null {
+      const key = `${projectPath}\n${hash}`;
+      if (!(key in this.taskCommits)) {
+        this.loadTaskCommit(projectPath, hash);
+      }
+      return this.taskCommits[key] || null;
+    },
+
+    async loadTaskCommit(projectPath: string, hash: string): Promise<void> {
+      const key = `${projectPath}\n${hash}`;
+      // Mark as loading so the task details don't request the commit again
+      this.taskCommits[key] = null;
+      try {
+        const response = await fetch(
+          `/api/projects/${encodeURIComponent(projectPath)}/commits/${encodeURIComponent(hash)}`
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to fetch commit: ${response.status}`);
+        }
+        this.taskCommits[key] = await response.json();
+      } catch (error) {
+        console.error('Error fetching commit:', error);
+      }
+    },
+
+    // ========================================================================
+    // Write Actions
+    // ========================================================================
+
+    async postAction(projectPath: string, action: string, body: Record<string, unknown> = {}): Promise<void> {
+      if (!this.writeToken) return;
+      try {
+        const response = await fetch(`/api/projects/${encodeURIComponent(projectPath)}/${action}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${this.writeToken}`
+          },
+          body: JSON.stringify(body)
+        });
+        if (!response.ok) {
+          const error = await response.json().catch(() => ({}));
+          console.error(`Dashboard action ${action} failed:`, response.status, error);
+          alert(error.error || `Action failed (${response.status}). Check the console for details.`);
+        }
+        // The updated spec or bug arrives over the WebSocket
+      } catch (error) {
+        console.error(`Error running dashboard action ${action}:`, error);
+        alert('Error updating the project. Check the console for details.');
+      }
+    },
+
+    async toggleTaskCompleted(projectPath: string, specName: string, task: Task, event: Event): Promise<void> {
+      event.stopPropagation();
+      await this.postAction(projectPath, `specs/${encodeURIComponent(specName)}/tasks/${encodeURIComponent(task.id)}`, {
+        status: task.completed ? 'pending' : 'completed'
+      });
+    },
+
+    async setPhaseApproval(projectPath: string, specName: string, phase: string, approved: boolean, event: Event): Promise<void> {
+      event.stopPropagation();
+      await this.postAction(projectPath, `specs/${encodeURIComponent(specName)}/${approved ? 'approve' : 'unapprove'}`, { phase });
+    },
+
+    async advanceBug(projectPath: string, bugName: string, event: Event): Promise<void> {
+      event.stopPropagation();
+      await this.postAction(projectPath, `bugs/${encodeURIComponent(bugName)}/advance`);
+    },
+
     // ========================================================================
     // Tunnel Management
     // ========================================================================
@@ -1781,6 +2197,7 @@ function initApp(): void {
         content: '',
         rawContent: ''
       };
+      this.resetMarkdownEditor();
       
       try {
         const encodedPath = encodeURIComponent(projectPath);
@@ -1796,6 +2213,7 @@ function initApp(): void {
         this.markdownPreview.content = data.content;
         this.markdownPreview.rawContent = data.content;  // Store raw markdown
         console.log('markdownPreview.rawContent is now:', this.markdownPreview.rawContent?.substring(0, 100));
+        this.resetMarkdownEditor(projectPath, `bugs/${bugName}/${docType}`, data.etag);
       } catch (error) {
         console.error(`Error fetching ${docType} content:`, error);
         this.markdownPreview.content = `# Error loading ${docType} content\n\n${(error as Error).message}`;
@@ -1860,7 +2278,7 @@ function initApp(): void {
       return spec?.status || null;
     },
 
-    getTaskTooltip(task: any): string {
+    getTaskTooltip(task: any, projectPath?: string, specName?: string): string {
       if (!task) return '';
       
       const parts: string[] = [];
@@ -1869,25 +2287,53 @@ function initApp(): void {
         parts.push(`Task ${task.id}: ${task.description}`);
       }
       
-      if (task.completed) {
-        parts.push('Status: Completed ✅');
-      } else if (task.inProgress) {
-        parts.push('Status: In Progress');
-      } else {
-        parts.push('Status: Not Started');
+      parts.push(`Status: ${dashboardShared.getTaskStatusLabel(task)} ${dashboardShared.getTaskStatusIcon(task)}`);
+      
+      if (task.blockedReason) {
+        parts.push(`Blocked: ${task.blockedReason}`);
+      }
+      
+      if (task.commit) {
+        parts.push(`Commit: ${task.commit}`);
       }
       
       if (task.requirements && task.requirements.length > 0) {
         parts.push(`Requirements: ${task.requirements.join(', ')}`);
       }
       
+      if (task.dependencies && task.dependencies.length > 0) {
+        parts.push(`Depends on: ${task.dependencies.join(', ')}`);
+      }
+      
       if (task.leverage) {
         parts.push(`Leverage: ${task.leverage}`);
       }
       
+      const history = projectPath && specName ? this.getTaskHistory(projectPath, specName, task.id) : null;
+      const lastChange = history?.changes[history.changes.length - 1];
+      if (history?.completed) {
+        parts.push(`Completed: ${this.describeTaskStatusChange(history.completed)}`);
+      } else if (lastChange) {
+        parts.push(`Last change: ${lastChange.to}, ${this.describeTaskStatusChange(lastChange)}`);
+      }
+      
       return parts.join('\n');
     },
 
+    getApprovalTooltip(approval?: DocumentApproval): string {
+      if (!approval || approval.state === 'unapproved') return '';
+      if (approval.legacy) return 'Approved (legacy marker)';
+      
+      const parts = [`Approved by ${approval.approvedBy}`];
+      if (approval.approvedAt) {
+        parts.push(dashboardShared.formatDate(approval.approvedAt));
+      }
+      if (approval.state === 'modified') {
+        parts.push('- modified since approval');
+      }
+      return parts.join(' ');
+    },
+
     copyTaskCommand(specName: string, taskId: string, event: Event): void {
       const command = `/spec-execute ${specName} ${taskId}`;
       void dashboardShared.copyCommand(command, event);
@@ -1939,12 +2385,101 @@ function initApp(): void {
     },
     
     closeMarkdownPreview(): void {
+      if (this.markdownEditor.editing && this.markdownEditor.draft !== this.markdownPreview.rawContent &&
+          !confirm('Discard your unsaved changes?')) {
+        return;
+      }
+      this.resetMarkdownEditor();
       this.markdownPreview.show = false;
       this.markdownPreview.title = '';
       this.markdownPreview.content = '';
       this.markdownPreview.rawContent = '';
     },
 
+    resetMarkdownEditor(projectPath = '', documentPath = '', etag: string | null = null): void {
+      this.markdownEditor = {
+        projectPath,
+        documentPath,
+        etag,
+        editing: false,
+        draft: '',
+        saving: false,
+        conflict: null
+      };
+    },
+
+    startEditingMarkdown(): void {
+      this.markdownEditor.draft = this.markdownPreview.rawContent;
+      this.markdownEditor.conflict = null;
+      this.markdownEditor.editing = true;
+    },
+
+    cancelEditingMarkdown(): void {
+      if (this.markdownEditor.draft !== this.markdownPreview.rawContent && !confirm('Discard your unsaved changes?')) {
+        return;
+      }
+      this.markdownEditor.editing = false;
+      this.markdownEditor.draft = '';
+      this.markdownEditor.conflict = null;
+    },
+
+    async saveMarkdown(): Promise<void> {
+      const editor = this.markdownEditor;
+      if (!this.writeToken || !editor.documentPath || !editor.etag || editor.saving) return;
+
+      editor.saving = true;
+      try {
+        const response = await fetch(`/api/projects/${encodeURIComponent(editor.projectPath)}/${editor.documentPath}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${this.writeToken}`,
+            'If-Match': editor.etag
+          },
+          body: JSON.stringify({ content: editor.draft })
+        });
+        const data = await response.json().catch(() => ({}));
+
+        if (response.status === 412) {
+          // The file changed on disk (e.g. rewritten by Claude) since the editor loaded it
+          editor.conflict = { content: data.content, etag: data.etag };
+          return;
+        }
+        if (!response.ok) {
+          console.error('Failed to save document:', response.status, data);
+          alert(data.error || `Failed to save document (${response.status}). Check the console for details.`);
+          return;
+        }
+
+        this.markdownPreview.content = editor.draft;
+        this.markdownPreview.rawContent = editor.draft;
+        editor.etag = data.etag;
+        editor.editing = false;
+        editor.conflict = null;
+      } catch (error) {
+        console.error('Error saving document:', error);
+        alert('Error saving document. Check the console for details.');
+      } finally {
+        editor.saving = false;
+      }
+    },
+
+    async resolveMarkdownConflict(keep: 'mine' | 'theirs'): Promise<void> {
+      const conflict = this.markdownEditor.conflict;
+      if (!conflict) return;
+
+      this.markdownEditor.conflict = null;
+      this.markdownEditor.etag = conflict.etag;
+      if (keep === 'mine') {
+        // Overwrite the version on disk, which the user has now seen
+        await this.saveMarkdown();
+      } else {
+        this.markdownPreview.content = conflict.content;
+        this.markdownPreview.rawContent = conflict.content;
+        this.markdownEditor.draft = conflict.content;
+      }
+    },
+
     setupKeyboardHandlers(): void {
       document.addEventListener('keydown', (e) => {
         if (e.key === 'Escape' && this.markdownPreview.show) {
@@ -2002,6 +2537,7 @@ function initApp(): void {
       this.markdownPreview.title = `${specName} - ${docType}.md`;
       this.markdownPreview.content = '';
       this.markdownPreview.rawContent = '';
+      this.resetMarkdownEditor();
       
       console.log('After setting show=true, markdownPreview state:', JSON.parse(JSON.stringify(this.markdownPreview)));
       
@@ -2029,6 +2565,7 @@ function initApp(): void {
         console.log('Received data, setting content');
         this.markdownPreview.content = data.content;
         this.markdownPreview.rawContent = data.content;
+        this.resetMarkdownEditor(projectPath, `specs/${specName}/${docType}`, data.etag);
       } catch (error) {
         console.error(`Error fetching ${docType} content:`, error);
         this.markdownPreview.content = `# Error loading ${docType} content\n\n${(error as Error).message}`;
@@ -2045,6 +2582,8 @@ function initApp(): void {
     
     getStatusLabel: dashboardShared.getStatusLabel,
     getStatusClass: dashboardShared.getStatusClass,
+    getTaskStatusIcon: dashboardShared.getTaskStatusIcon,
+    getTaskStatusLabel: dashboardShared.getTaskStatusLabel,
     formatDate: dashboardShared.formatDate,
     copyCommand: dashboardShared.copyCommand,
     renderMarkdown: dashboardShared.renderMarkdown,
@@ -8,7 +8,9 @@
 
 import type { 
   StatusType, 
-  SteeringStatus
+  SteeringStatus,
+  Task,
+  TaskStatus
 } from '../shared/dashboard.types';
 
 import type {
@@ -122,6 +124,46 @@ export function getStatusLabel(status: StatusType): string {
   return STATUS_LABELS[status] || status;
 }
 
+/**
+ * Task checkbox state display mapping
+ */
+const TASK_STATUS_DISPLAY: Record<TaskStatus, { icon: string; label: string }> = {
+  'pending': { icon: '🔲', label: 'Not Started' },
+  'in-progress': { icon: '🔄', label: 'In Progress' },
+  'completed': { icon: '✅', label: 'Completed' },
+  'blocked': { icon: '⛔', label: 'Blocked' },
+  'skipped': { icon: '⏭️', label: 'Skipped' },
+};
+
+/**
+ * Resolve a task's state, falling back to the completed flag for older payloads
+ */
+export function getTaskStatus(task: Pick<Task, 'completed' | 'status'>): TaskStatus {
+  return task.status || (task.completed ? 'completed' : 'pending');
+}
+
+/**
+ * Get the icon shown next to a task for its state
+ */
+export function getTaskStatusIcon(task: Pick<Task, 'completed' | 'status'>): string {
+  return TASK_STATUS_DISPLAY[getTaskStatus(task)].icon;
+}
+
+/**
+ * Get the display label for a task's state
+ */
+export function getTaskStatusLabel(task: Pick<Task, 'completed' | 'status'>): string {
+  return TASK_STATUS_DISPLAY[getTaskStatus(task)].label;
+}
+
+/**
+ * Whether a task still needs work (pending or in progress)
+ */
+export function isTaskActionable(task: Pick<Task, 'completed' | 'status'>): boolean {
+  const status = getTaskStatus(task);
+  return status === 'pending' || status === 'in-progress';
+}
+
 /**
  * Copy a command to clipboard with visual feedback and type safety
  */
@@ -205,7 +247,7 @@ interface MarkedRenderer {
   code: (_codeContent: string | { text?: string; raw?: string }, _lang?: string) => string;
 }
 
-interface MarkedLib {
+export interface MarkedLib {
   // eslint-disable-next-line no-unused-vars
   parse: (_markdownContent: string, _opts?: { renderer?: MarkedRenderer }) => string;
   Renderer: new () => MarkedRenderer;
@@ -217,21 +259,26 @@ declare global {
 
 /**
  * Render markdown content using marked library with enhanced code blocks
+ *
+ * The dashboard uses the marked global its page loads; callers outside the
+ * browser, such as the HTML export, pass the marked package instead.
  */
-export function renderMarkdown(content: string): string {
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function renderMarkdown(content: string, markedLib: MarkedLib | undefined = (globalThis as any).marked): string {
   if (!content?.trim()) return '';
   
   // Check if marked library is available
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const markedLib = (globalThis as any).marked as MarkedLib | undefined;
   if (!markedLib?.parse) {
     console.error('Marked library not loaded or incomplete');
     return content;
   }
   
+  // Drop the front-matter block (approval metadata) so it isn't rendered as text
+  const body = content.replace(/^\uFEFF?---\r?\n(?:[\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/, '');
+  
   // Preprocess the content to preserve task numbers
   // Convert "- [ ] 1. Task" to "- [ ] **1.** Task" to make the number stand out
-  const preprocessedContent = content.replace(
+  const preprocessedContent = body.replace(
     /^(\s*)-\s*\[([ x])\]\s*(\d+(?:\.\d+)*)\.(\s*)(.*?)$/gm,
     (_, indent, check, taskNum, space, taskText) => {
       const emoji = check === 'x' ? ' ✅' : '';
@@ -425,6 +472,10 @@ export interface DashboardShared {
   safeFormatDate: typeof safeFormatDate;
   getStatusClass: typeof getStatusClass;
   getStatusLabel: typeof getStatusLabel;
+  getTaskStatus: typeof getTaskStatus;
+  getTaskStatusIcon: typeof getTaskStatusIcon;
+  getTaskStatusLabel: typeof getTaskStatusLabel;
+  isTaskActionable: typeof isTaskActionable;
   copyCommand: typeof copyCommand;
   renderMarkdown: typeof renderMarkdown;
   formatAcceptanceCriteria: typeof formatAcceptanceCriteria;
@@ -443,6 +494,10 @@ export const dashboardShared: DashboardShared = {
   safeFormatDate,
   getStatusClass,
   getStatusLabel,
+  getTaskStatus,
+  getTaskStatusIcon,
+  getTaskStatusLabel,
+  isTaskActionable,
   copyCommand,
   renderMarkdown,
   formatAcceptanceCriteria,
@@ -33,6 +33,11 @@ export type {
   AppState,
   ActiveSession,
   MarkdownPreviewState,
+  MarkdownEditorState,
+  ProgressChart,
+  ProgressPoint,
+  TaskHistoryEntry,
+  TaskStatusChange,
   GroupedProjectsCache,
   ProjectTabData,
   ExpandedStates,
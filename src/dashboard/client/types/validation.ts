@@ -11,6 +11,7 @@ import type {
   RequirementDetail,
   CodeReuseCategory,
   SteeringStatus,
+  SteeringDocumentInfo,
   WebSocketMessage,
   InitialData,
   UpdateData,
@@ -278,6 +279,17 @@ export function isCodeReuseCategory(obj: unknown): obj is CodeReuseCategory {
   );
 }
 
+export function isSteeringDocumentInfo(obj: unknown): obj is SteeringDocumentInfo {
+  if (!isObject(obj)) return false;
+
+  return (
+    isString(obj.name) &&
+    isString(obj.title) &&
+    (obj.phases === undefined || (isArray(obj.phases) && obj.phases.every(isString))) &&
+    (obj.paths === undefined || (isArray(obj.paths) && obj.paths.every(isString)))
+  );
+}
+
 export function isSteeringStatus(obj: unknown): obj is SteeringStatus {
   if (!isObject(obj)) return false;
   
@@ -285,14 +297,16 @@ export function isSteeringStatus(obj: unknown): obj is SteeringStatus {
     isBoolean(obj.exists) &&
     isBoolean(obj.hasProduct) &&
     isBoolean(obj.hasTech) &&
-    isBoolean(obj.hasStructure)
+    isBoolean(obj.hasStructure) &&
+    isArray(obj.documents) &&
+    obj.documents.every(isSteeringDocumentInfo)
   );
 }
 
 export function isBug(obj: unknown): obj is Bug {
   if (!isObject(obj)) return false;
   
-  const validStatuses = ['reported', 'analyzing', 'fixing', 'fixed', 'verifying', 'resolved'] as const;
+  const validStatuses = ['reported', 'analyzing', 'fixing', 'verifying', 'resolved', 'wontfix', 'duplicate'] as const;
   
   return (
     isString(obj.name) &&
@@ -728,6 +742,7 @@ export const ValidationUtils = {
   isTask,
   isRequirementDetail,
   isCodeReuseCategory,
+  isSteeringDocumentInfo,
   isSteeringStatus,
   isBug,
   isSpec,
@@ -0,0 +1,171 @@
+/**
+ * Project discovery settings for the multi-project dashboard
+ * Read from `~/.config/claude-spec/dashboard.json` (or `$XDG_CONFIG_HOME`),
+ * then overridden by the `--root`, `--exclude` and `--max-depth` flags:
+ *
+ * ```json
+ * {
+ *   "roots": ["/work", "~/Projects"],
+ *   "maxDepth": 4,
+ *   "exclude": ["dist", "/work/legacy/**"],
+ *   "pinned": ["/work/monorepo/services/api"]
+ * }
+ * ```
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { homedir } from 'os';
+
+export interface DiscoveryConfig {
+  /** Directories searched for projects with a .claude folder */
+  roots: string[];
+  /** How many directory levels below a root are searched */
+  maxDepth: number;
+  /** Glob patterns of directories to skip (matched against the full path, or the name for patterns without "/") */
+  exclude: string[];
+  /** Projects always shown, even outside the roots or without specs and bugs */
+  pinned: string[];
+}
+
+export interface DiscoveryOverrides {
+  /** Replace the configured roots */
+  roots?: string[];
+  /** Added to the configured exclude patterns */
+  exclude?: string[];
+  maxDepth?: number;
+}
+
+export const DEFAULT_DISCOVERY_CONFIG: DiscoveryConfig = {
+  roots: ['~/Projects', '~/Documents', '~/Development', '~/Code', '~/repos', '~/workspace', '~/src'],
+  maxDepth: 4,
+  exclude: ['node_modules', 'venv', '__pycache__'],
+  pinned: [],
+};
+
+/**
+ * Default location of the dashboard config file
+ */
+export function getDashboardConfigPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(configHome, 'claude-spec', 'dashboard.json');
+}
+
+/** Expand a leading "~" and make the path absolute */
+export function expandPath(path: string): string {
+  const expanded = path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+  return resolve(expanded);
+}
+
+function readStringList(value: unknown, key: string, configPath: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`Invalid "${key}" in ${configPath}: expected an array of strings`);
+  }
+  return value as string[];
+}
+
+/**
+ * Read a dashboard config file, falling back to the defaults for missing settings
+ * @param configPath - Defaults to getDashboardConfigPath(); a missing default file is not an error
+ * @throws Error when the file is not valid JSON or a setting has the wrong type
+ */
+export function loadDiscoveryConfig(configPath?: string): DiscoveryConfig {
+  const path = configPath ? expandPath(configPath) : getDashboardConfigPath();
+  if (!existsSync(path)) {
+    if (configPath) {
+      throw new Error(`Dashboard config not found: ${path}`);
+    }
+    return { ...DEFAULT_DISCOVERY_CONFIG };
+  }
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid dashboard config in ${path}: expected a JSON object`);
+  }
+
+  const maxDepth = raw.maxDepth;
+  if (maxDepth !== undefined && (typeof maxDepth !== 'number' || !Number.isInteger(maxDepth) || maxDepth < 0)) {
+    throw new Error(`Invalid "maxDepth" in ${path}: expected a non-negative integer`);
+  }
+
+  return {
+    roots: readStringList(raw.roots, 'roots', path) ?? DEFAULT_DISCOVERY_CONFIG.roots,
+    maxDepth: maxDepth ?? DEFAULT_DISCOVERY_CONFIG.maxDepth,
+    exclude: readStringList(raw.exclude, 'exclude', path) ?? DEFAULT_DISCOVERY_CONFIG.exclude,
+    pinned: readStringList(raw.pinned, 'pinned', path) ?? [],
+  };
+}
+
+/**
+ * Apply command line overrides and expand every path
+ */
+export function resolveDiscoveryConfig(config: DiscoveryConfig, overrides: DiscoveryOverrides = {}): DiscoveryConfig {
+  const roots = overrides.roots && overrides.roots.length > 0 ? overrides.roots : config.roots;
+  return {
+    roots: [...new Set(roots.map(expandPath))],
+    maxDepth: overrides.maxDepth ?? config.maxDepth,
+    exclude: [...config.exclude, ...(overrides.exclude || [])].map((pattern) =>
+      pattern.startsWith('~') ? expandPath(pattern) : pattern
+    ),
+    pinned: [...new Set(config.pinned.map(expandPath))],
+  };
+}
+
+function globToRegExp(glob: string): RegExp {
+  // "dir/**" matches the directory itself as well as everything below it
+  const subtree = glob.endsWith('/**');
+  const pattern = subtree ? glob.slice(0, -3) : glob;
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern.charAt(i);
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches no directories at all
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}${subtree ? '(?:/.*)?' : ''}$`);
+}
+
+/** A compiled exclude pattern (see compileExcludePatterns) */
+export interface ExcludePattern {
+  regex: RegExp;
+  /** Matched against the directory name instead of the full path */
+  nameOnly: boolean;
+}
+
+/**
+ * Compile exclude globs for isExcludedPath
+ *
+ * Patterns containing "/" are matched against the full directory path
+ * (relative patterns may match anywhere, e.g. "legacy/*"); other patterns are
+ * matched against the directory name.
+ */
+export function compileExcludePatterns(patterns: string[]): ExcludePattern[] {
+  return patterns.map((pattern) => {
+    const normalized = pattern.replace(/\\/g, '/').replace(/\/+$/, '');
+    if (!normalized.includes('/')) {
+      return { regex: globToRegExp(normalized), nameOnly: true };
+    }
+    return { regex: globToRegExp(normalized.startsWith('/') ? normalized : `**/${normalized}`), nameOnly: false };
+  });
+}
+
+export function isExcludedPath(dirPath: string, patterns: ExcludePattern[]): boolean {
+  const path = dirPath.replace(/\\/g, '/');
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return patterns.some((pattern) => pattern.regex.test(pattern.nameOnly ? name : path));
+}
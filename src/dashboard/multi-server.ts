@@ -1,14 +1,25 @@
-import fastify, { FastifyInstance } from 'fastify';
+import fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import fastifyStatic from '@fastify/static';
 import fastifyWebsocket from '@fastify/websocket';
 import { join, resolve, normalize } from 'path';
-import { readFile } from 'fs/promises';
+import { readFile, writeFile } from 'fs/promises';
 import { SpecWatcher } from './watcher';
-import { SpecParser, Task } from './parser';
+import { SpecParser, Task, BugStatus, CLOSED_BUG_STATUSES } from './parser';
 import { ProjectDiscovery, DiscoveredProject } from './project-discovery';
+import { ProgressHistory } from './progress-history';
+import { DiscoveryConfig } from './discovery-config';
 import open from 'open';
 import { WebSocket } from 'ws';
 import { userInfo } from 'os';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { updateTaskStatusData, resolveTaskCommit } from '../get-tasks';
+import { approveSpecPhase, unapproveSpecPhase } from '../approve';
+import { advanceBugData } from '../bug-status';
+import { getTaskHistoryData } from '../task-history';
+import { SpecPhase, SPEC_PHASES } from '../approval';
+import { TaskStatus, TASK_STATUS_MARKERS } from '../tasks';
+import { GitUtils } from '../git';
+import { CliError, CliErrorCode } from '../output';
 import { isPortAvailable, findAvailablePort } from '../utils';
 import { debug } from './logger';
 import { TunnelManager, TunnelOptions, TunnelProviderError } from './tunnel';
@@ -19,6 +30,7 @@ interface ProjectState {
   project: DiscoveredProject;
   parser: SpecParser;
   watcher: SpecWatcher;
+  history: ProgressHistory;
 }
 
 interface WebSocketConnection {
@@ -54,17 +66,43 @@ interface ActiveSpecSession extends BaseActiveSession {
 interface ActiveBugSession extends BaseActiveSession {
   type: 'bug';
   bugName: string;
-  bugStatus: 'reported' | 'analyzing' | 'fixing' | 'fixed' | 'verifying' | 'resolved';
+  bugStatus: BugStatus;
   bugSeverity?: 'critical' | 'high' | 'medium' | 'low';
   nextCommand: string;  // e.g., '/bug-fix bug-name'
 }
 
+/** HTTP status for each CLI error class raised by a write action */
+const ERROR_STATUS: Record<CliErrorCode, number> = {
+  INTERNAL: 500,
+  USAGE: 400,
+  NOT_FOUND: 404,
+  VALIDATION: 409,
+  IO: 500,
+};
+
+const TASK_STATUSES = Object.keys(TASK_STATUS_MARKERS) as TaskStatus[];
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+/** Documents the dashboard can show and edit */
+const SPEC_DOCUMENTS = ['requirements', 'design', 'tasks'];
+const BUG_DOCUMENTS = ['report', 'analysis', 'fix', 'verification'];
+
+/** Entity tag for a document version, used to detect edits made while a document is open in the editor */
+function getContentEtag(content: string): string {
+  return `"${createHash('sha256').update(content, 'utf8').digest('hex')}"`;
+}
+
 export interface MultiDashboardOptions {
   port: number;
   autoOpen?: boolean;
   tunnel?: boolean;
   tunnelPassword?: string;
   tunnelProvider?: string;
+  /** Where to look for projects; defaults to the common project folders in the home directory */
+  discovery?: DiscoveryConfig;
+  /** Serve only this project: no discovery, rescans or Claude process scanning */
+  project?: string;
 }
 
 export class MultiProjectDashboardServer {
@@ -75,23 +113,19 @@ export class MultiProjectDashboardServer {
   private discovery: ProjectDiscovery;
   private rescanInterval?: ReturnType<typeof setInterval>;
   private tunnelManager?: TunnelManager;
+  /** Required by the write endpoints; only sent to browsers on this machine */
+  private writeToken = randomBytes(24).toString('hex');
 
   constructor(options: MultiDashboardOptions) {
     this.options = options;
-    this.discovery = new ProjectDiscovery();
+    this.discovery = new ProjectDiscovery(options.discovery);
     this.app = fastify({ logger: false });
   }
 
   async start() {
-    // Discover projects
-    console.log('Starting project discovery...');
-    const discoveredProjects = await this.discovery.discoverProjects();
-
-    // Projects are already filtered by discovery
-    console.log(`Found ${discoveredProjects.length} projects:`);
-    discoveredProjects.forEach(p => {
-      console.log(`  - ${p.name} at ${p.path} (specs: ${p.specCount}, bugs: ${p.bugCount}, active: ${p.hasActiveSession})`);
-    });
+    const discoveredProjects = this.options.project
+      ? [await this.loadSingleProject(this.options.project)]
+      : await this.discoverProjects();
 
     // Initialize watchers for each project
     for (const project of discoveredProjects) {
@@ -108,6 +142,16 @@ export class MultiProjectDashboardServer {
 
     await this.app.register(fastifyWebsocket);
 
+    // Tunnel viewers get read-only access
+    this.app.addHook('preHandler', async (request, reply) => {
+      if (this.tunnelManager && this.isRemoteRequest(request)) {
+        await this.tunnelManager.getAccessController().enforceReadOnly(request, reply);
+        if (reply.sent) {
+          return reply;
+        }
+      }
+    });
+
     // Register static file serving FIRST (before other routes)
     // In development, files are in src/dashboard, in production they're in dist/dashboard
     // We need to handle app.js specially since it might be in dist/dashboard even in dev mode
@@ -122,14 +166,14 @@ export class MultiProjectDashboardServer {
     // WebSocket endpoint
     const self = this;
     this.app.register(async function (fastify) {
-      fastify.get('/ws', { websocket: true }, (connection: WebSocketConnection) => {
+      fastify.get('/ws', { websocket: true }, (connection: WebSocketConnection, request: FastifyRequest) => {
         const socket = connection.socket;
         debug('Multi-project WebSocket client connected');
 
         self.clients.add(socket);
 
         // Send initial state with all projects
-        self.sendInitialState(socket);
+        self.sendInitialState(socket, !self.isRemoteRequest(request));
 
         socket.on('close', () => {
           self.clients.delete(socket);
@@ -165,6 +209,19 @@ export class MultiProjectDashboardServer {
       return specs;
     });
 
+    this.app.get('/api/projects/:projectPath/archived-specs', async (request, reply) => {
+      const { projectPath } = request.params as { projectPath: string };
+      const decodedPath = normalize(resolve(decodeURIComponent(projectPath)));
+      const projectState = this.projects.get(decodedPath);
+
+      if (!projectState) {
+        reply.code(404).send({ error: 'Project not found' });
+        return;
+      }
+
+      return projectState.parser.getArchivedSpecs();
+    });
+
     this.app.get('/api/projects/:projectPath/bugs', async (request, reply) => {
       const { projectPath } = request.params as { projectPath: string };
       const decodedPath = normalize(resolve(decodeURIComponent(projectPath)));
@@ -179,6 +236,58 @@ export class MultiProjectDashboardServer {
       return bugs;
     });
 
+    // Task progress over time, for one spec or summed over the project
+    this.app.get('/api/projects/:projectPath/progress', async (request, reply) => {
+      const { projectPath } = request.params as { projectPath: string };
+      const { spec, since } = request.query as { spec?: string; since?: string };
+      const projectState = this.getProjectState(projectPath, reply);
+      if (!projectState) return;
+
+      const sinceDate = since ? new Date(since) : undefined;
+      if (sinceDate && isNaN(sinceDate.getTime())) {
+        reply.code(400).send({ error: `Invalid since date ${since}` });
+        return;
+      }
+      return projectState.history.getSeries({ spec, since: sinceDate });
+    });
+
+    // Which commits changed each task's status, from the git history of tasks.md
+    this.app.get('/api/projects/:projectPath/specs/:name/task-history', async (request, reply) => {
+      const { projectPath, name } = request.params as { projectPath: string; name: string };
+      const projectState = this.getProjectState(projectPath, reply);
+      if (!projectState || !this.isValidItemName(name, reply)) return;
+
+      try {
+        return await getTaskHistoryData(name, projectState.project.path);
+      } catch (error) {
+        this.sendActionError(reply, error);
+      }
+    });
+
+    // A commit linked to a task, with its diffstat and, for local clients, a preview of the diff
+    this.app.get('/api/projects/:projectPath/commits/:hash', async (request, reply) => {
+      const { projectPath, hash } = request.params as { projectPath: string; hash: string };
+      const projectState = this.getProjectState(projectPath, reply);
+      if (!projectState) return;
+
+      if (!/^[0-9a-f]{4,40}$/i.test(hash)) {
+        reply.code(400).send({ error: 'Invalid commit hash' });
+        return;
+      }
+
+      const commit = await GitUtils.getCommit(projectState.project.path, hash);
+      if (!commit) {
+        reply.code(404).send({ error: `Commit ${hash} not found` });
+        return;
+      }
+      // Tunnel viewers get the diffstat only, not the source of the change
+      if (this.isRemoteRequest(request)) {
+        return commit;
+      }
+      const patch = await GitUtils.getCommitPatch(projectState.project.path, commit.hash);
+      return { ...commit, patch: patch?.patch || '', truncated: patch?.truncated || false };
+    });
+
     // Get raw markdown content for a specific document
     this.app.get('/api/projects/:projectPath/specs/:name/:document', async (request, reply) => {
       const { projectPath, name, document } = request.params as { projectPath: string; name: string; document: string };
@@ -190,8 +299,7 @@ export class MultiProjectDashboardServer {
         return;
       }
 
-      const allowedDocs = ['requirements', 'design', 'tasks'];
-      if (!allowedDocs.includes(document)) {
+      if (!SPEC_DOCUMENTS.includes(document)) {
         reply.code(400).send({ error: 'Invalid document type' });
         return;
       }
@@ -200,12 +308,29 @@ export class MultiProjectDashboardServer {
       
       try {
         const content = await readFile(docPath, 'utf-8');
-        return { content };
+        const etag = getContentEtag(content);
+        reply.header('ETag', etag);
+        return { content, etag };
       } catch {
         reply.code(404).send({ error: 'Document not found' });
       }
     });
 
+    // Save a spec document edited in the dashboard
+    this.app.put('/api/projects/:projectPath/specs/:name/:document', { preHandler: this.authorizeWrite }, async (request, reply) => {
+      const { projectPath, name, document } = request.params as { projectPath: string; name: string; document: string };
+      const projectState = this.getProjectState(projectPath, reply);
+      if (!projectState) return;
+
+      if (!SPEC_DOCUMENTS.includes(document)) {
+        reply.code(400).send({ error: 'Invalid document type' });
+        return;
+      }
+      if (await this.saveDocument(request, reply, projectState, 'specs', name, document)) {
+        await this.broadcastSpecUpdate(projectState, name, `${document}.md`);
+      }
+    });
+
     // Get raw markdown content for bug documents
     this.app.get('/api/projects/:projectPath/bugs/:name/:document', async (request, reply) => {
       const { projectPath, name, document } = request.params as { projectPath: string; name: string; document: string };
@@ -217,8 +342,7 @@ export class MultiProjectDashboardServer {
         return;
       }
 
-      const allowedDocs = ['report', 'analysis', 'fix', 'verification'];
-      if (!allowedDocs.includes(document)) {
+      if (!BUG_DOCUMENTS.includes(document)) {
         reply.code(400).send({ error: 'Invalid document type' });
         return;
       }
@@ -227,12 +351,94 @@ export class MultiProjectDashboardServer {
       
       try {
         const content = await readFile(docPath, 'utf-8');
-        return { content };
+        const etag = getContentEtag(content);
+        reply.header('ETag', etag);
+        return { content, etag };
       } catch {
         reply.code(404).send({ error: 'Document not found' });
       }
     });
 
+    // Save a bug document edited in the dashboard
+    this.app.put('/api/projects/:projectPath/bugs/:name/:document', { preHandler: this.authorizeWrite }, async (request, reply) => {
+      const { projectPath, name, document } = request.params as { projectPath: string; name: string; document: string };
+      const projectState = this.getProjectState(projectPath, reply);
+      if (!projectState) return;
+
+      if (!BUG_DOCUMENTS.includes(document)) {
+        reply.code(400).send({ error: 'Invalid document type' });
+        return;
+      }
+      if (await this.saveDocument(request, reply, projectState, 'bugs', name, document)) {
+        await this.broadcastBugUpdate(projectState, name, `${document}.md`);
+      }
+    });
+
+    // Write endpoints, authorized with the token sent to local clients
+    this.app.post('/api/projects/:projectPath/specs/:name/tasks/:taskId', { preHandler: this.authorizeWrite }, async (request, reply) => {
+      const { projectPath, name, taskId } = request.params as { projectPath: string; name: string; taskId: string };
+      const { status, reason, commit: commitRef } = (request.body || {}) as { status?: string; reason?: string; commit?: string };
+      const projectState = this.getProjectState(projectPath, reply);
+      if (!projectState || !this.isValidItemName(name, reply)) return;
+
+      if (!TASK_STATUSES.includes(status as TaskStatus)) {
+        reply.code(400).send({ error: `Invalid task status. Use: ${TASK_STATUSES.join(', ')}` });
+        return;
+      }
+
+      try {
+        // Completing a task links it to HEAD, or to the commit given in the body
+        const commit = status === 'completed' ? await resolveTaskCommit(projectState.project.path, commitRef) : undefined;
+        const result = updateTaskStatusData(name, taskId, status as TaskStatus, projectState.project.path, {
+          reason,
+          commit,
+          relinkCommit: !!commitRef,
+        });
+        await this.broadcastSpecUpdate(projectState, name, 'tasks.md');
+        return result;
+      } catch (error) {
+        this.sendActionError(reply, error);
+      }
+    });
+
+    for (const action of ['approve', 'unapprove'] as const) {
+      this.app.post(`/api/projects/:projectPath/specs/:name/${action}`, { preHandler: this.authorizeWrite }, async (request, reply) => {
+        const { projectPath, name } = request.params as { projectPath: string; name: string };
+        const { phase } = (request.body || {}) as { phase?: string };
+        const projectState = this.getProjectState(projectPath, reply);
+        if (!projectState || !this.isValidItemName(name, reply)) return;
+
+        if (!SPEC_PHASES.includes(phase as SpecPhase)) {
+          reply.code(400).send({ error: `Invalid phase. Use: ${SPEC_PHASES.join(', ')}` });
+          return;
+        }
+
+        try {
+          const result = action === 'approve'
+            ? approveSpecPhase(name, phase as SpecPhase, projectState.project.path)
+            : unapproveSpecPhase(name, phase as SpecPhase, projectState.project.path);
+          await this.broadcastSpecUpdate(projectState, name, `${phase}.md`);
+          return result;
+        } catch (error) {
+          this.sendActionError(reply, error);
+        }
+      });
+    }
+
+    this.app.post('/api/projects/:projectPath/bugs/:name/advance', { preHandler: this.authorizeWrite }, async (request, reply) => {
+      const { projectPath, name } = request.params as { projectPath: string; name: string };
+      const projectState = this.getProjectState(projectPath, reply);
+      if (!projectState || !this.isValidItemName(name, reply)) return;
+
+      try {
+        const result = await advanceBugData(name, projectState.project.path);
+        await this.broadcastBugUpdate(projectState, name, 'report.md');
+        return result;
+      } catch (error) {
+        this.sendActionError(reply, error);
+      }
+    });
+
     // Tunnel API endpoints
     this.app.get('/api/tunnel/status', async () => {
       const status = this.getTunnelStatus();
@@ -375,7 +581,9 @@ export class MultiProjectDashboardServer {
 
     // Start periodic rescan for new active projects and cleanup removed ones
     // This complements file watching by detecting removed projects
-    this.startPeriodicRescan();
+    if (!this.options.project) {
+      this.startPeriodicRescan();
+    }
 
     // Open browser if requested (always use localhost for local user)
     if (this.options.autoOpen) {
@@ -383,6 +591,27 @@ export class MultiProjectDashboardServer {
     }
   }
 
+  private async discoverProjects(): Promise<DiscoveredProject[]> {
+    console.log(`Starting project discovery in ${this.discovery.getConfig().roots.join(', ')}...`);
+    const discoveredProjects = await this.discovery.discoverProjects();
+
+    // Projects are already filtered by discovery
+    console.log(`Found ${discoveredProjects.length} projects:`);
+    discoveredProjects.forEach(p => {
+      console.log(`  - ${p.name} at ${p.path} (specs: ${p.specCount}, bugs: ${p.bugCount}, active: ${p.hasActiveSession})`);
+    });
+    return discoveredProjects;
+  }
+
+  private async loadSingleProject(projectPath: string): Promise<DiscoveredProject> {
+    const project = await this.discovery.getProject(projectPath);
+    if (!project) {
+      throw new Error(`No .claude directory found in ${resolve(projectPath)}`);
+    }
+    console.log(`Serving ${project.name} at ${project.path} (specs: ${project.specCount}, bugs: ${project.bugCount})`);
+    return project;
+  }
+
   private async initializeProject(project: DiscoveredProject) {
     // Normalize and resolve the project path to handle different path formats
     const normalizedPath = normalize(resolve(project.path));
@@ -390,10 +619,17 @@ export class MultiProjectDashboardServer {
     
     const parser = new SpecParser(normalizedPath);
     const watcher = new SpecWatcher(normalizedPath, parser);
+    const history = new ProgressHistory(normalizedPath);
 
     // Set up watcher events
     watcher.on('change', async (event) => {
       debug(`[Multi-server] Watcher change event received for project ${project.name}:`, event);
+      // Record before broadcasting, so clients refetching the history see the new counts
+      if (event.data) {
+        await history.record(event.data).catch((error) => {
+          console.error(`Could not record progress history for ${project.name}/${event.spec}:`, error);
+        });
+      }
       // Transform the watcher event into the format expected by the client
       const projectUpdateEvent = {
         type: 'spec-update',
@@ -484,6 +720,23 @@ export class MultiProjectDashboardServer {
       });
     });
 
+    // Handle user-defined workflow change events
+    watcher.on('workflow-change', async (event) => {
+      debug(`[Multi-server] Workflow change detected for ${project.name}: ${event.type} ${event.file}`);
+
+      const message = JSON.stringify({
+        type: 'workflow-update',
+        projectPath: project.path,
+        data: event.workflows,
+      });
+
+      this.clients.forEach((client) => {
+        if (client.readyState === 1) {
+          client.send(message);
+        }
+      });
+    });
+
     // Handle bug change events
     watcher.on('bug-change', async (event) => {
       debug(`[Multi-server] Bug change detected for ${project.name}:`, event);
@@ -510,19 +763,143 @@ export class MultiProjectDashboardServer {
       project,
       parser,
       watcher,
+      history,
+    });
+  }
+
+  /** Tunnel traffic carries forwarding headers; other machines on the network have a non-loopback address */
+  private isRemoteRequest(request: FastifyRequest): boolean {
+    const { headers } = request;
+    if (headers['x-forwarded-for'] || headers['cf-connecting-ip'] || headers['x-real-ip']) {
+      return true;
+    }
+    return !LOOPBACK_ADDRESSES.includes(request.ip);
+  }
+
+  private authorizeWrite = async (request: FastifyRequest, reply: FastifyReply) => {
+    const header = request.headers.authorization || '';
+    const token = Buffer.from(header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '');
+    const expected = Buffer.from(this.writeToken);
+    if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+      reply.code(401).send({ error: 'Unauthorized', message: 'A valid dashboard write token is required' });
+      return reply;
+    }
+  };
+
+  private getProjectState(projectPath: string, reply: FastifyReply): ProjectState | undefined {
+    const projectState = this.projects.get(normalize(resolve(decodeURIComponent(projectPath))));
+    if (!projectState) {
+      reply.code(404).send({ error: 'Project not found' });
+    }
+    return projectState;
+  }
+
+  /**
+   * Check a spec or bug name from the URL before it is used in a path;
+   * replies 400 for names that could leave the specs or bugs directory
+   */
+  private isValidItemName(name: string, reply: FastifyReply): boolean {
+    if (!name || name.startsWith('.') || /[\\/]/.test(name)) {
+      reply.code(400).send({ error: `Invalid name ${name}` });
+      return false;
+    }
+    return true;
+  }
+
+  private sendActionError(reply: FastifyReply, error: unknown) {
+    if (error instanceof CliError) {
+      reply.code(ERROR_STATUS[error.code]).send({ error: error.message, code: error.code, details: error.details });
+      return;
+    }
+    console.error('Dashboard action failed:', error);
+    reply.code(500).send({ error: 'Action failed', details: error instanceof Error ? error.message : String(error) });
+  }
+
+  /** Send the spec to clients right away rather than waiting for the file watcher */
+  private async broadcastSpecUpdate(state: ProjectState, specName: string, file: string) {
+    this.broadcast({
+      type: 'project-update',
+      projectPath: state.project.path,
+      data: { type: 'spec-update', spec: specName, file, data: await state.parser.getSpec(specName) },
+    });
+  }
+
+  private async broadcastBugUpdate(state: ProjectState, bugName: string, file: string) {
+    this.broadcast({
+      type: 'bug-update',
+      projectPath: state.project.path,
+      data: { type: 'changed', bug: bugName, file, data: await state.parser.getBug(bugName) },
     });
   }
 
-  private async sendInitialState(socket: WebSocket) {
+  /**
+   * Write an edited document if it is unchanged since the editor loaded it
+   *
+   * The request must send the document's ETag in `If-Match`. When the file
+   * changed in the meantime the reply is 412 with the current content and
+   * ETag, so the editor can show both versions.
+   * @returns Whether the document was written
+   */
+  private async saveDocument(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    state: ProjectState,
+    folder: 'specs' | 'bugs',
+    name: string,
+    document: string
+  ): Promise<boolean> {
+    const { content } = (request.body || {}) as { content?: unknown };
+    const ifMatch = request.headers['if-match'];
+    if (!this.isValidItemName(name, reply)) {
+      return false;
+    }
+    if (typeof content !== 'string') {
+      reply.code(400).send({ error: 'Missing document content' });
+      return false;
+    }
+    if (!ifMatch) {
+      reply.code(428).send({ error: 'If-Match header required' });
+      return false;
+    }
+
+    const docPath = join(state.project.path, '.claude', folder, name, `${document}.md`);
+    let current: string;
+    try {
+      current = await readFile(docPath, 'utf-8');
+    } catch {
+      reply.code(404).send({ error: 'Document not found' });
+      return false;
+    }
+
+    const currentEtag = getContentEtag(current);
+    if (ifMatch !== currentEtag) {
+      reply.code(412).send({ error: 'The document changed since it was opened', content: current, etag: currentEtag });
+      return false;
+    }
+
+    try {
+      await writeFile(docPath, content, 'utf-8');
+    } catch (error) {
+      reply.code(500).send({ error: 'Failed to save document', details: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+    const etag = getContentEtag(content);
+    reply.header('ETag', etag).send({ etag });
+    return true;
+  }
+
+  private async sendInitialState(socket: WebSocket, local = false) {
     const projects = await Promise.all(
       Array.from(this.projects.entries()).map(async ([path, state]) => {
         const specs = await state.parser.getAllSpecs();
         const bugs = await state.parser.getAllBugs();
+        const workflows = await state.parser.getAllWorkflows();
         const steeringStatus = await state.parser.getProjectSteeringStatus();
         const projectData = {
           ...state.project,
           specs,
           bugs,
+          workflows,
           steering: steeringStatus,
         };
         debug(`Sending project ${projectData.name} (${path}) with ${specs.length} specs, ${bugs.length} bugs`);
@@ -544,6 +921,8 @@ export class MultiProjectDashboardServer {
         data: projects,
         activeSessions,
         username: this.getUsername(),
+        singleProject: !!this.options.project,
+        ...(local && { writeToken: this.writeToken }),
       })
     );
   }
@@ -569,7 +948,7 @@ export class MultiProjectDashboardServer {
         priority: number; // Higher priority = more active
       }> = [];
 
-      // Collect specs with active tasks (highest priority)
+      // Collect specs with a task marked in progress (highest priority)
       for (const spec of specs) {
         if (spec.tasks && spec.tasks.inProgress) {
           activeWorkItems.push({
@@ -607,9 +986,9 @@ export class MultiProjectDashboardServer {
           }
         }
 
-        // Add most recently modified bugs that are not resolved
+        // Add most recently modified bugs that are still open
         for (const bug of bugs) {
-          if (bug.status !== 'resolved') {
+          if (!CLOSED_BUG_STATUSES.includes(bug.status)) {
             activeWorkItems.push({
               type: 'bug',
               item: bug,
@@ -635,7 +1014,7 @@ export class MultiProjectDashboardServer {
         
         if (mostRecent.type === 'spec') {
           const spec = mostRecent.item;
-          // For specs, try to find an active task, otherwise use a placeholder
+          // For specs, use the task marked in progress, otherwise a placeholder
           let activeTask = null;
           if (spec.tasks && spec.tasks.inProgress) {
             activeTask = this.findTaskById(spec.tasks.taskList, spec.tasks.inProgress);
@@ -647,6 +1026,7 @@ export class MultiProjectDashboardServer {
               id: 'session',
               description: `${spec.displayName || spec.name}`,
               completed: false,
+              status: 'pending',
               requirements: []
             };
           }
@@ -687,11 +1067,10 @@ export class MultiProjectDashboardServer {
             case 'verifying':
               nextCommand = `/bug-verify ${bug.name}`;
               break;
-            case 'fixed':
-              nextCommand = `/bug-verify ${bug.name}`;
-              break;
             case 'resolved':
-              nextCommand = ''; // Bug is complete, no next command
+            case 'wontfix':
+            case 'duplicate':
+              nextCommand = ''; // Bug is closed, no next command
               break;
             default:
               nextCommand = `/bug-analyze ${bug.name}`;
@@ -703,7 +1082,7 @@ export class MultiProjectDashboardServer {
             projectName: state.project.name,
             displayName: bug.displayName || bug.name,
             bugName: bug.name,
-            bugStatus: bug.status, // Use the actual bug status, including 'fixed' and 'resolved'
+            bugStatus: bug.status, // Use the actual bug status, including the closed ones
             bugSeverity: bug.report?.severity,
             nextCommand,
             lastModified: mostRecent.lastModified,
@@ -726,6 +1105,7 @@ export class MultiProjectDashboardServer {
             id: 'session',
             description: 'Active Claude session',
             completed: false,
+            status: 'pending',
             requirements: []
           },
           lastModified: new Date(),
@@ -785,8 +1165,9 @@ export class MultiProjectDashboardServer {
           const parser = this.projects.get(project.path)?.parser;
           const specs = (await parser?.getAllSpecs()) || [];
           const bugs = (await parser?.getAllBugs()) || [];
+          const workflows = (await parser?.getAllWorkflows()) || [];
           const steeringStatus = await parser?.getProjectSteeringStatus();
-          const projectData = { ...project, specs, bugs, steering: steeringStatus };
+          const projectData = { ...project, specs, bugs, workflows, steering: steeringStatus };
 
           const message = JSON.stringify({
             type: 'new-project',
@@ -951,7 +1332,7 @@ export class MultiProjectDashboardServer {
     return this.tunnelManager?.getStatus() || { active: false };
   }
 
-  private broadcast(message: { type: string; data: unknown }) {
+  private broadcast(message: { type: string; data: unknown; projectPath?: string }) {
     const jsonMessage = JSON.stringify(message);
     this.clients.forEach((client) => {
       if (client.readyState === 1) {
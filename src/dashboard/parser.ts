@@ -2,14 +2,28 @@ import { readFile, readdir, access } from 'fs/promises';
 import { join, resolve, normalize } from 'path';
 import { constants } from 'fs';
 import { debug } from './logger';
-import { SteeringLoader } from '../steering';
+import { SteeringLoader, resolveSteeringDocuments } from '../steering';
+import { parseTaskDocument, flattenTasks, countTasksByStatus, TaskNode, TaskStatus, TaskStatusCounts } from '../tasks';
+import { buildTraceMatrix, TraceMatrix } from '../traceability';
+import { getDocumentApproval, readFrontMatterValue, DocumentApproval } from '../approval';
+import { loadWorkflowDefinitions, WorkflowDefinition, WORKFLOWS_DIR, WORKFLOW_NOT_STARTED } from '../custom-workflows';
+
+export type { TaskStatus, TaskStatusCounts, DocumentApproval };
 
 export interface Task {
   id: string;
   description: string;
   completed: boolean;
+  /** Checkbox state; `completed` is true only for 'completed' */
+  status?: TaskStatus;
+  blockedReason?: string;
+  /** Hash of the commit linked to a completed task by its `_Commit:_` line */
+  commit?: string;
   requirements: string[];
+  /** IDs from the task's `_Depends:` line */
+  dependencies?: string[];
   leverage?: string;
+  details?: string[];
   subtasks?: Task[];
 }
 
@@ -25,17 +39,85 @@ export interface CodeReuseCategory {
   items: string[];
 }
 
+/** A steering document and when agents load it */
+export interface SteeringDocumentInfo {
+  name: string;
+  title: string;
+  /** Phases the document is loaded for; absent when it is loaded for every phase */
+  phases?: string[];
+  /** Globs of the paths the document is loaded for; absent when it is not path-specific */
+  paths?: string[];
+}
+
 export interface SteeringStatus {
   exists: boolean;
   hasProduct: boolean;
   hasTech: boolean;
   hasStructure: boolean;
+  /** Core documents first, then the additional ones by name; includes those of packs */
+  documents: SteeringDocumentInfo[];
+}
+
+export type BugStatus = 'reported' | 'analyzing' | 'fixing' | 'verifying' | 'resolved' | 'wontfix' | 'duplicate';
+
+/** Bug statuses: the workflow in order, then the statuses that close a bug without a fix */
+export const BUG_STATUSES: BugStatus[] = ['reported', 'analyzing', 'fixing', 'verifying', 'resolved', 'wontfix', 'duplicate'];
+
+/** Statuses a bug may move to from each status; closed bugs can only be reopened */
+export const BUG_TRANSITIONS: Record<BugStatus, BugStatus[]> = {
+  reported: ['analyzing', 'wontfix', 'duplicate'],
+  analyzing: ['fixing', 'reported', 'wontfix', 'duplicate'],
+  fixing: ['verifying', 'analyzing', 'wontfix'],
+  verifying: ['resolved', 'fixing'],
+  resolved: ['reported'],
+  wontfix: ['reported'],
+  duplicate: ['reported'],
+};
+
+/** Statuses in which a bug needs no more work */
+export const CLOSED_BUG_STATUSES: BugStatus[] = ['resolved', 'wontfix', 'duplicate'];
+
+/** report.md front-matter key holding the bug's status */
+export const BUG_STATUS_KEY = 'status';
+
+/** report.md front-matter key naming the bug a duplicate duplicates */
+export const BUG_DUPLICATE_OF_KEY = 'duplicateOf';
+
+/** File in a bug's directory recording its status transitions, one JSON object per line */
+export const BUG_HISTORY_FILE = 'status-history.jsonl';
+
+/** report.md front-matter keys linking a bug to the spec work whose behavior it breaks */
+export const BUG_LINK_KEYS = {
+  spec: 'linkedSpec',
+  requirement: 'linkedRequirement',
+  task: 'linkedTask',
+  regression: 'regression',
+} as const;
+
+/** Spec, and optionally the requirement or task, a bug is linked to */
+export interface BugLink {
+  spec: string;
+  /** Requirement or acceptance criterion ID, e.g. "2" or "2.1" */
+  requirement?: string;
+  task?: string;
+  /** The linked behavior had already been delivered when the bug was linked */
+  regression: boolean;
+}
+
+/** One status transition of a bug */
+export interface BugTransition {
+  from: BugStatus;
+  to: BugStatus;
+  /** ISO 8601 */
+  at: string;
+  by: string;
+  reason?: string;
 }
 
 export interface Bug {
   name: string;
   displayName: string;
-  status: 'reported' | 'analyzing' | 'fixing' | 'fixed' | 'verifying' | 'resolved';
+  status: BugStatus;
   report?: {
     exists: boolean;
     severity?: 'critical' | 'high' | 'medium' | 'low';
@@ -44,6 +126,11 @@ export interface Bug {
     actualBehavior?: string;
     impact?: string;
   };
+  /** Bug this one duplicates, while its status is duplicate */
+  duplicateOf?: string;
+  link?: BugLink;
+  /** Status transitions, oldest first */
+  history?: BugTransition[];
   analysis?: {
     exists: boolean;
     rootCause?: string;
@@ -64,6 +151,48 @@ export interface Bug {
   lastModified?: Date;
 }
 
+export interface WorkflowPhaseState {
+  name: string;
+  exists: boolean;
+  approval?: DocumentApproval;
+  /** Document exists and, when the phase has an approval gate, has been approved */
+  done: boolean;
+}
+
+/** An item of a user-defined workflow, e.g. one RFC */
+export interface WorkflowItem {
+  workflow: string;
+  name: string;
+  displayName: string;
+  /** "not-started", the status of the current phase, or the workflow's completed status */
+  status: string;
+  /** First phase that is not done; absent once every phase is done */
+  currentPhase?: string;
+  /** One entry per phase of the definition, in order */
+  phases: WorkflowPhaseState[];
+  lastModified?: Date;
+}
+
+/** A user-defined workflow with its items */
+export interface Workflow extends WorkflowDefinition {
+  items: WorkflowItem[];
+}
+
+/** Directory under .claude/specs that holds archived specs */
+export const SPEC_ARCHIVE_DIR = '.archive';
+
+/** Record written next to an archived spec's documents */
+export const SPEC_ARCHIVE_INFO_FILE = 'archive.json';
+
+export interface SpecArchiveInfo {
+  /** ISO 8601 timestamp of the archive command */
+  archivedAt: string;
+  /** Last change to the spec documents, when the spec was completed at archive time */
+  completedAt?: string;
+  /** Whether generated task commands were moved into the archive with the spec */
+  commandsArchived: boolean;
+}
+
 export interface Spec {
   name: string;
   displayName: string;
@@ -71,23 +200,34 @@ export interface Spec {
   requirements?: {
     exists: boolean;
     userStories: number;
+    /** True once approved, even if the document changed afterwards (see approval.state) */
     approved: boolean;
+    approval?: DocumentApproval;
     content?: RequirementDetail[];
   };
   design?: {
     exists: boolean;
     approved: boolean;
+    approval?: DocumentApproval;
     hasCodeReuseAnalysis: boolean;
     codeReuseContent?: CodeReuseCategory[];
   };
   tasks?: {
     exists: boolean;
     approved: boolean;
+    approval?: DocumentApproval;
     total: number;
     completed: number;
+    /** Number of tasks (including subtasks) in each state */
+    statusCounts?: TaskStatusCounts;
+    /** ID of the first task marked in progress ("[-]") */
     inProgress?: string;
     taskList: Task[];
   };
+  /** Requirement-to-task coverage, when requirements.md exists */
+  trace?: TraceMatrix;
+  /** Set for specs read from the archive */
+  archive?: SpecArchiveInfo;
   lastModified?: Date;
 }
 
@@ -95,6 +235,7 @@ export class SpecParser {
   private projectPath: string;
   private specsPath: string;
   private bugsPath: string;
+  private workflowsPath: string;
   private steeringLoader: SteeringLoader;
 
   constructor(projectPath: string) {
@@ -103,6 +244,7 @@ export class SpecParser {
     this.projectPath = normalize(resolve(normalizedInput));
     this.specsPath = join(this.projectPath, '.claude', 'specs');
     this.bugsPath = join(this.projectPath, '.claude', 'bugs');
+    this.workflowsPath = join(this.projectPath, '.claude', WORKFLOWS_DIR);
     this.steeringLoader = new SteeringLoader(this.projectPath);
   }
 
@@ -141,6 +283,88 @@ export class SpecParser {
     }
   }
 
+  /**
+   * User-defined workflows with their items, newest item first
+   * Invalid definitions are left out; `workflow generate` reports them.
+   */
+  async getAllWorkflows(): Promise<Workflow[]> {
+    const { workflows, errors } = await loadWorkflowDefinitions(this.projectPath);
+    for (const error of errors) {
+      debug(`Skipping workflow definition ${error.file}: ${error.message}`);
+    }
+
+    return Promise.all(workflows.map(async (definition) => {
+      let dirs: string[] = [];
+      try {
+        dirs = await readdir(join(this.workflowsPath, definition.name));
+      } catch {
+        // No items yet
+      }
+      const items = await Promise.all(
+        dirs.filter((dir) => !dir.startsWith('.')).map((dir) => this.getWorkflowItem(definition, dir))
+      );
+      const validItems = items.filter((item) => item !== null) as WorkflowItem[];
+      validItems.sort((a, b) => (b.lastModified?.getTime() || 0) - (a.lastModified?.getTime() || 0));
+      return { ...definition, items: validItems };
+    }));
+  }
+
+  /**
+   * Read an item of a user-defined workflow
+   *
+   * The item is at the first phase whose document is missing, or not yet
+   * approved when the phase has an approval gate.
+   */
+  async getWorkflowItem(definition: WorkflowDefinition, name: string): Promise<WorkflowItem | null> {
+    const itemPath = join(this.workflowsPath, definition.name, name);
+    try {
+      if (!(await import('fs').then((fs) => fs.promises.stat(itemPath))).isDirectory()) {
+        return null;
+      }
+    } catch {
+      return null;
+    }
+
+    let lastModified = new Date(0);
+    const phases: WorkflowPhaseState[] = [];
+    for (const phase of definition.phases) {
+      const filePath = join(itemPath, phase.document);
+      if (!(await this.fileExists(filePath))) {
+        phases.push({ name: phase.name, exists: false, done: false });
+        continue;
+      }
+      const approval = getDocumentApproval(await readFile(filePath, 'utf-8'));
+      phases.push({
+        name: phase.name,
+        exists: true,
+        approval,
+        done: !phase.approval || approval.state !== 'unapproved',
+      });
+      const stats = await import('fs').then((fs) => fs.promises.stat(filePath));
+      if (stats.mtime > lastModified) {
+        lastModified = stats.mtime;
+      }
+    }
+
+    const current = definition.phases.find((_, index) => !phases[index]?.done);
+    let status = definition.completedStatus;
+    if (!phases.some((phase) => phase.exists)) {
+      status = WORKFLOW_NOT_STARTED;
+    } else if (current) {
+      status = current.status;
+    }
+
+    return {
+      workflow: definition.name,
+      name,
+      displayName: this.formatDisplayName(name),
+      status,
+      ...(current && { currentPhase: current.name }),
+      phases,
+      lastModified,
+    };
+  }
+
   async getAllSpecs(): Promise<Spec[]> {
     try {
       // Check if specs directory exists first
@@ -172,9 +396,54 @@ export class SpecParser {
     }
   }
 
+  /**
+   * Specs moved to .claude/specs/.archive by the `spec archive` command, most recently archived first
+   */
+  async getArchivedSpecs(): Promise<Spec[]> {
+    const archivePath = join(this.specsPath, SPEC_ARCHIVE_DIR);
+    let dirs: string[];
+    try {
+      dirs = await readdir(archivePath);
+    } catch {
+      return [];
+    }
+
+    const specs = await Promise.all(
+      dirs.filter((dir) => !dir.startsWith('.')).map((dir) => this.getArchivedSpec(dir))
+    );
+    const archived = specs.filter((spec) => spec !== null) as Spec[];
+    archived.sort((a, b) => (b.archive?.archivedAt || '').localeCompare(a.archive?.archivedAt || ''));
+    return archived;
+  }
+
+  async getArchivedSpec(name: string): Promise<Spec | null> {
+    const specPath = join(this.specsPath, SPEC_ARCHIVE_DIR, name);
+    const spec = await this.readSpec(specPath, name);
+    if (!spec) {
+      return null;
+    }
+
+    try {
+      const info = JSON.parse(await readFile(join(specPath, SPEC_ARCHIVE_INFO_FILE), 'utf-8')) as Partial<SpecArchiveInfo>;
+      spec.archive = {
+        archivedAt: String(info.archivedAt || ''),
+        commandsArchived: !!info.commandsArchived,
+      };
+      if (info.completedAt) {
+        spec.archive.completedAt = String(info.completedAt);
+      }
+    } catch {
+      // Moved into the archive by hand, without a record
+      spec.archive = { archivedAt: spec.lastModified?.toISOString() || '', commandsArchived: false };
+    }
+    return spec;
+  }
+
   async getSpec(name: string): Promise<Spec | null> {
-    const specPath = join(this.specsPath, name);
+    return this.readSpec(join(this.specsPath, name), name);
+  }
 
+  private async readSpec(specPath: string, name: string): Promise<Spec | null> {
     try {
       await access(specPath, constants.F_OK);
     } catch {
@@ -201,11 +470,13 @@ export class SpecParser {
 
       const extractedRequirements = this.extractRequirements(content);
       const extractedStories = this.extractUserStories(content);
+      const approval = getDocumentApproval(content);
       
       spec.requirements = {
         exists: true,
         userStories: extractedStories.length,
-        approved: content.includes('✅ APPROVED') || content.includes('**Approved:** ✓'),
+        approved: approval.state !== 'unapproved',
+        approval,
         content: extractedRequirements,
       };
       // Set initial status
@@ -232,10 +503,12 @@ export class SpecParser {
       }
       
       const codeReuseContent = this.extractCodeReuseAnalysis(content);
+      const approval = getDocumentApproval(content);
       
       spec.design = {
         exists: true,
-        approved: content.includes('✅ APPROVED'),
+        approved: approval.state !== 'unapproved',
+        approval,
         hasCodeReuseAnalysis: content.includes('## Code Reuse Analysis') || 
                              content.includes('### Existing Components to Reuse') ||
                              content.includes('## Existing Components') ||
@@ -250,12 +523,14 @@ export class SpecParser {
     }
 
     // Check tasks
+    let taskNodes: TaskNode[] = [];
     const tasksPath = join(specPath, 'tasks.md');
     if (await this.fileExists(tasksPath)) {
       debug(`Reading tasks from: ${tasksPath}`);
       const content = await readFile(tasksPath, 'utf-8');
       debug('Tasks file content length:', content.length);
-      debug('Tasks file includes APPROVED:', content.includes('✅ APPROVED'));
+      const approval = getDocumentApproval(content, 'tasks');
+      debug('Tasks file approval:', approval.state);
       
       // If we still haven't found a display name, try to extract from tasks
       if (spec.displayName === this.formatDisplayName(name)) {
@@ -268,36 +543,47 @@ export class SpecParser {
         }
       }
 
-      const taskList = this.parseTasks(content);
-      const completed = this.countCompletedTasks(taskList);
-      const total = this.countTotalTasks(taskList);
+      const document = parseTaskDocument(content);
+      taskNodes = document.tasks;
+      const taskList = document.tasks.map((node) => this.toTask(node));
+      const statusCounts = countTasksByStatus(document.tasks);
+      const total = flattenTasks(document.tasks).length;
+      const completed = statusCounts.completed;
+      const done = completed + statusCounts.skipped;
 
-      debug('Parsed task counts - Total:', total, 'Completed:', completed);
+      debug('Parsed task counts - Total:', total, 'By status:', statusCounts);
 
       spec.tasks = {
         exists: true,
-        approved: content.includes('✅ APPROVED'),
+        approved: approval.state !== 'unapproved',
+        approval,
         total,
         completed,
+        statusCounts,
         taskList,
       };
 
+      const inProgressTask = flattenTasks(document.tasks).find((task) => task.status === 'in-progress');
+      if (inProgressTask) {
+        spec.tasks.inProgress = inProgressTask.id;
+      }
+
       if (spec.tasks.approved) {
-        if (completed === 0) {
+        if (total > 0 && done === total) {
+          // Skipped tasks count as done
+          spec.status = 'completed';
+        } else if (done === 0 && statusCounts['in-progress'] === 0 && statusCounts.blocked === 0) {
           spec.status = 'tasks';
-        } else if (completed < total) {
-          spec.status = 'in-progress';
-          // Always use the first uncompleted task as in-progress
-          const inProgressTask = this.findInProgressTask(taskList);
-          if (inProgressTask) {
-            spec.tasks.inProgress = inProgressTask;
-          }
         } else {
-          spec.status = 'completed';
+          spec.status = 'in-progress';
         }
       }
     }
 
+    if (spec.requirements?.content) {
+      spec.trace = buildTraceMatrix(spec.requirements.content, taskNodes);
+    }
+
     // Get last modified time
     const files = ['requirements.md', 'design.md', 'tasks.md'];
     let lastModified = new Date(0);
@@ -332,8 +618,16 @@ export class SpecParser {
 
     // Check report
     const reportPath = join(bugPath, 'report.md');
+    let recordedStatus: string | null = null;
+    let duplicateOf: string | null = null;
     if (await this.fileExists(reportPath)) {
       const content = await readFile(reportPath, 'utf-8');
+      recordedStatus = readFrontMatterValue(content, BUG_STATUS_KEY);
+      duplicateOf = readFrontMatterValue(content, BUG_DUPLICATE_OF_KEY);
+      const link = this.readBugLink(content);
+      if (link) {
+        bug.link = link;
+      }
 
       // Try to extract title from the first heading
       const titleMatch = content.match(/^#\s+(?:Bug Report\s*[-:]\s+)?(.+?)(?:\s+Bug Report)?$/m);
@@ -370,28 +664,6 @@ export class SpecParser {
         ...(proposedFix && { proposedFix }),
         filesAffected: this.extractFilesAffected(content),
       };
-      // Only set to analyzing if there's actual analysis content
-      // Check for content in the actual analysis sections (not just headers)
-      const hasRootCauseContent = this.hasContentAfterSection(content, 'Root Cause Analysis') ||
-                                this.hasContentAfterSection(content, 'Investigation Summary') ||
-                                this.hasContentAfterSection(content, 'Root Cause');
-      const hasImplementationPlan = this.hasContentAfterSection(content, 'Implementation Plan') ||
-                                  this.hasContentAfterSection(content, 'Changes Required');
-      
-      if (hasRootCauseContent || hasImplementationPlan) {
-        bug.status = 'analyzing';
-        
-        // If analysis is complete (all required sections have content), we're ready to fix
-        const hasAllAnalysisContent = hasRootCauseContent && hasImplementationPlan;
-        const analysisApproved = content.includes('✅ APPROVED') || 
-                               content.includes('**Approved:** ✓') ||
-                               content.includes('## Next Phase') ||
-                               content.includes('proceed to');
-        
-        if (hasAllAnalysisContent && analysisApproved) {
-          bug.status = 'fixing';
-        }
-      }
     }
 
     // Check if fix has been implemented
@@ -406,8 +678,6 @@ export class SpecParser {
                            this.hasContentAfterSection(content, 'Code Changes');
       
       if (hasFixContent) {
-        bug.status = 'fixed';
-        
         // Add fix information to bug object
         const summary = this.extractSection(content, 'Fix Summary');
         
@@ -435,28 +705,20 @@ export class SpecParser {
         ...(testsPassed !== undefined && { testsPassed }),
         regressionChecks: this.extractRegressionChecks(content),
       };
-      
-      // Only set to verifying if there's actual verification content AND we're past the fixing phase
-      const hasTestResults = this.hasContentAfterSection(content, 'Test Results') ||
-                           this.hasContentAfterSection(content, 'Verification Steps') ||
-                           this.hasContentAfterSection(content, 'Fix Verification');
-      const hasRegressionChecks = this.hasContentAfterSection(content, 'Regression Testing') ||
-                                this.hasContentAfterSection(content, 'Regression Checks') ||
-                                this.hasContentAfterSection(content, 'Side Effects Check');
-      
-      // Only set to verifying if:
-      // 1. There's actual verification content (not just template)
-      // 2. Bug is in 'fixed' status (fix has been implemented)
-      if ((hasTestResults || hasRegressionChecks) && bug.status === 'fixed') {
-        bug.status = 'verifying';
-        
-        // Check if verification is complete
-        if (bug.verification?.verified) {
-          bug.status = 'resolved';
-        }
-      }
     }
 
+    // The status lives in front-matter; a bug without one has just been reported
+    if (BUG_STATUSES.includes(recordedStatus as BugStatus)) {
+      bug.status = recordedStatus as BugStatus;
+    } else if (recordedStatus === 'fixed') {
+      // Recorded before 'fixed' was folded into verifying
+      bug.status = 'verifying';
+    }
+    if (bug.status === 'duplicate' && duplicateOf) {
+      bug.duplicateOf = duplicateOf;
+    }
+    bug.history = await this.getBugHistory(bugPath);
+
     // Get last modified time
     const files = ['report.md', 'analysis.md', 'verification.md'];
     let lastModified = new Date(0);
@@ -474,112 +736,69 @@ export class SpecParser {
     return bug;
   }
 
-  private parseTasks(content: string): Task[] {
-    debug('Parsing tasks from content...');
-    const tasks: Task[] = [];
-    const lines = content.split('\n');
-    debug('Total lines:', lines.length);
-
-    // Let's test what the actual lines look like
-    lines.slice(0, 20).forEach((line, i) => {
-      if (line.includes('[') && line.includes(']')) {
-        debug(`Line ${i}: "${line}"`);
-      }
-    });
-
-    // Match the actual format: "- [x] 1. Create GraphQL queries..." or "- [ ] **1. Task description**"
-    const taskRegex = /^(\s*)- \[([ x])\] (?:\*\*)?(\d+(?:\.\d+)*)\. (.+?)(?:\*\*)?$/;
-    const requirementsRegex = /_Requirements: ([\d., ]+)/;
-    const leverageRegex = /_Leverage: (.+)$/;
-    // Removed _In Progress: parsing - now automatically using first uncompleted task
-
-    let currentTask: Task | null = null;
-    let parentStack: { level: number; task: Task }[] = [];
-
-    for (const line of lines) {
-      const match = line.match(taskRegex);
-      if (match) {
-        const indent = match[1] || '';
-        const checked = match[2] || '';
-        const id = match[3] || '';
-        const description = match[4] || '';
-        const level = indent.length / 2;
-
-        currentTask = {
-          id,
-          description: description?.trim() || '',
-          completed: checked === 'x',
-          requirements: [],
-        };
-
-        // Find parent based on level
-        while (parentStack.length > 0 && parentStack[parentStack.length - 1]!.level >= level) {
-          parentStack.pop();
-        }
-
-        if (parentStack.length > 0) {
-          const parent = parentStack[parentStack.length - 1]!.task;
-          if (!parent.subtasks) parent.subtasks = [];
-          parent.subtasks.push(currentTask);
-        } else {
-          tasks.push(currentTask);
-        }
-
-        parentStack.push({ level, task: currentTask });
-      } else if (currentTask) {
-        // Check for requirements
-        const reqMatch = line.match(requirementsRegex);
-        if (reqMatch?.[1]) {
-          currentTask.requirements = reqMatch[1].split(',').map((r) => r.trim());
-        }
-
-        // Check for leverage
-        const levMatch = line.match(leverageRegex);
-        if (levMatch?.[1]) {
-          currentTask.leverage = levMatch[1].trim();
-        }
-
-        // Removed in-progress marker check - now using first uncompleted task automatically
-      }
+  private readBugLink(content: string): BugLink | null {
+    const spec = readFrontMatterValue(content, BUG_LINK_KEYS.spec);
+    if (!spec) {
+      return null;
     }
-
-    // No longer storing in-progress task ID - automatically determined by first uncompleted task
-
-    return tasks;
+    const requirement = readFrontMatterValue(content, BUG_LINK_KEYS.requirement);
+    const task = readFrontMatterValue(content, BUG_LINK_KEYS.task);
+    return {
+      spec,
+      ...(requirement && { requirement }),
+      ...(task && { task }),
+      regression: readFrontMatterValue(content, BUG_LINK_KEYS.regression) === 'true',
+    };
   }
 
-  private countCompletedTasks(tasks: Task[]): number {
-    let count = 0;
-    for (const task of tasks) {
-      if (task.completed) count++;
-      if (task.subtasks) {
-        count += this.countCompletedTasks(task.subtasks);
-      }
+  /**
+   * Status transitions recorded in a bug's history file; malformed lines are skipped
+   */
+  private async getBugHistory(bugPath: string): Promise<BugTransition[]> {
+    const historyPath = join(bugPath, BUG_HISTORY_FILE);
+    if (!(await this.fileExists(historyPath))) {
+      return [];
     }
-    return count;
-  }
-
-  private countTotalTasks(tasks: Task[]): number {
-    let count = tasks.length;
-    for (const task of tasks) {
-      if (task.subtasks) {
-        count += this.countTotalTasks(task.subtasks);
+    const history: BugTransition[] = [];
+    for (const line of (await readFile(historyPath, 'utf-8')).split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as BugTransition;
+        if (BUG_STATUSES.includes(entry.to) && typeof entry.at === 'string') {
+          history.push(entry);
+        }
+      } catch {
+        debug(`Skipping malformed line in ${historyPath}`);
       }
     }
-    return count;
+    return history;
   }
 
-  private findInProgressTask(tasks: Task[]): string | undefined {
-    for (const task of tasks) {
-      if (!task.completed) {
-        return task.id;
-      }
-      if (task.subtasks) {
-        const subTaskId = this.findInProgressTask(task.subtasks);
-        if (subTaskId) return subTaskId;
-      }
+  private toTask(node: TaskNode): Task {
+    const task: Task = {
+      id: node.id,
+      description: node.description,
+      completed: node.completed,
+      status: node.status,
+      requirements: node.requirements,
+      details: node.details,
+    };
+    if (node.blockedReason) {
+      task.blockedReason = node.blockedReason;
     }
-    return undefined;
+    if (node.commit) {
+      task.commit = node.commit;
+    }
+    if (node.dependencies.length > 0) {
+      task.dependencies = node.dependencies;
+    }
+    if (node.leverage) {
+      task.leverage = node.leverage;
+    }
+    if (node.children.length > 0) {
+      task.subtasks = node.children.map((child) => this.toTask(child));
+    }
+    return task;
   }
 
   private formatDisplayName(name: string): string {
@@ -589,10 +808,14 @@ export class SpecParser {
       .join(' ');
   }
 
-  private extractRequirements(content: string): RequirementDetail[] {
+  /**
+   * Extract numbered requirements (with user stories and acceptance criteria) from requirements.md
+   */
+  extractRequirements(content: string): RequirementDetail[] {
     const requirements: RequirementDetail[] = [];
     const lines = content.split('\n');
     let currentRequirement: RequirementDetail | null = null;
+    let currentHeadingLevel = 0;
     let inAcceptanceCriteria = false;
 
     debug('Extracting requirements from content...');
@@ -608,8 +831,8 @@ export class SpecParser {
 
       // Check if line contains a numbered requirement - try multiple patterns
       const requirementPatterns = [
-        /^### Requirement (\d+): (.+)$/,           // ### Requirement 1: Title
-        /^## Requirement (\d+): (.+)$/,            // ## Requirement 1: Title
+        /^### Requirement (\d+)(?::\s*(.+))?$/,     // ### Requirement 1: Title, or ### Requirement 1
+        /^## Requirement (\d+)(?::\s*(.+))?$/,      // ## Requirement 1: Title, or ## Requirement 1
         /^### (\d+)\. (.+)$/,                      // ### 1. Title
         /^## (\d+)\. (.+)$/,                       // ## 1. Title
         /^### (FR-\d+): (.+)$/,                    // ### FR-1: Title (Functional Requirement)
@@ -633,12 +856,21 @@ export class SpecParser {
             acceptanceCriteria: [],
           };
           debug(`Found requirement ${match[1]}: ${match[2]?.trim()}`);
+          currentHeadingLevel = line.match(/^#+/)?.[0].length ?? 0;
           inAcceptanceCriteria = false;
           matchFound = true;
           break;
         }
       }
 
+      // A heading at the requirement's level or above (e.g. "## Non-Functional Requirements") ends it
+      const headingLevel = line.match(/^(#+)\s/)?.[1]?.length ?? 0;
+      if (!matchFound && currentRequirement && headingLevel > 0 && headingLevel <= currentHeadingLevel) {
+        requirements.push(currentRequirement);
+        currentRequirement = null;
+        continue;
+      }
+
       if (!matchFound && currentRequirement) {
         // Debug every line to see what we're getting
         if (line.trim()) {
@@ -663,6 +895,21 @@ export class SpecParser {
           inAcceptanceCriteria = true;
           debug(`Found acceptance criteria section for ${currentRequirement.id}`);
         }
+        // Collect acceptance criteria items (numbered format), one per item so tasks can reference them as X.Y
+        else if (currentRequirement && inAcceptanceCriteria && line?.match(/^\d+\. /)) {
+          const criterion = line.replace(/^\d+\. /, '').trim();
+          if (criterion) {
+            currentRequirement.acceptanceCriteria.push(criterion);
+            debug(`Found acceptance criterion for ${currentRequirement.id}: ${criterion}`);
+          }
+        }
+        // Also collect bullet point acceptance criteria (- WHEN...)
+        else if (currentRequirement && inAcceptanceCriteria && line?.match(/^[-•]\s+/)) {
+          const criterion = line.replace(/^[-•]\s+/, '').trim();
+          if (criterion) {
+            currentRequirement.acceptanceCriteria.push(criterion);
+          }
+        }
         // Look for GIVEN/WHEN/THEN format in new style (might be direct under requirement)
         else if (line?.includes('GIVEN') || line?.includes('WHEN') || line?.includes('THEN')) {
           if (!currentRequirement.acceptanceCriteria) {
@@ -702,21 +949,6 @@ export class SpecParser {
           currentRequirement.acceptanceCriteria.push(scenario);
           i = j - 1; // Skip lines we've already processed
         }
-        // Collect acceptance criteria items (numbered format)
-        else if (currentRequirement && inAcceptanceCriteria && line?.match(/^\d+\. /)) {
-          const criterion = line.replace(/^\d+\. /, '').trim();
-          if (criterion) {
-            currentRequirement.acceptanceCriteria.push(criterion);
-            debug(`Found acceptance criterion for ${currentRequirement.id}: ${criterion}`);
-          }
-        }
-        // Also collect bullet point acceptance criteria (- WHEN...)
-        else if (currentRequirement && inAcceptanceCriteria && line?.match(/^[-•]\s+/)) {
-          const criterion = line.replace(/^[-•]\s+/, '').trim();
-          if (criterion) {
-            currentRequirement.acceptanceCriteria.push(criterion);
-          }
-        }
         // For FR/NFR requirements, collect bullet points directly as acceptance criteria
         else if (currentRequirement && !inAcceptanceCriteria && line?.match(/^[-•]\s+/) && 
                  currentRequirement.id && (currentRequirement.id.startsWith('FR-') || currentRequirement.id.startsWith('NFR-'))) {
@@ -938,30 +1170,23 @@ export class SpecParser {
 
   private async getSteeringStatus(): Promise<SteeringStatus> {
     const steeringPath = join(this.projectPath, '.claude', 'steering');
-    
-    try {
-      await access(steeringPath, constants.F_OK);
-      
-      const status: SteeringStatus = {
-        exists: true,
-        hasProduct: await this.fileExists(join(steeringPath, 'product.md')),
-        hasTech: await this.fileExists(join(steeringPath, 'tech.md')),
-        hasStructure: await this.fileExists(join(steeringPath, 'structure.md'))
-      };
-      
-      return status;
-    } catch {
-      return {
-        exists: false,
-        hasProduct: false,
-        hasTech: false,
-        hasStructure: false
-      };
-    }
+    const documents = resolveSteeringDocuments(this.projectPath).documents
+      .map(({ name, title, phases, paths }) => ({ name, title, ...(phases ? { phases } : {}), ...(paths ? { paths } : {}) }));
+    const has = (name: string) => documents.some((document) => document.name === name);
+
+    return {
+      exists: documents.length > 0 || await this.fileExists(steeringPath),
+      hasProduct: has('product.md'),
+      hasTech: has('tech.md'),
+      hasStructure: has('structure.md'),
+      documents
+    };
   }
 
   private extractBugSeverity(content: string): 'critical' | 'high' | 'medium' | 'low' | undefined {
-    const severityMatch = content.match(/\*\*Severity\*\*:\s*(critical|high|medium|low)/i);
+    // "**Severity**: High", or the checked option of the report template's severity checklist
+    const severityMatch = content.match(/\*\*Severity\*\*:\s*(critical|high|medium|low)/i) ||
+      content.match(/^\s*[-*]\s+\[[xX]\]\s+(critical|high|medium|low)\s+-/im);
     if (severityMatch?.[1]) {
       return severityMatch[1].toLowerCase() as 'critical' | 'high' | 'medium' | 'low';
     }
@@ -0,0 +1,186 @@
+/**
+ * Task progress history for the dashboard's burndown and cumulative flow charts
+ *
+ * Whenever a spec's task counts change, the dashboard appends a snapshot to
+ * `.claude/.history/progress.jsonl`, one JSON object per line:
+ *
+ * ```json
+ * {"timestamp":"2025-02-01T10:00:00.000Z","spec":"user-auth","total":8,"statusCounts":{"pending":5,"in-progress":1,"completed":2,"blocked":0,"skipped":0}}
+ * ```
+ */
+
+import { readFile, appendFile, mkdir } from 'fs/promises';
+import { join, dirname } from 'path';
+import type { Spec, TaskStatusCounts } from './parser';
+import { debug } from './logger';
+
+export const PROGRESS_HISTORY_FILE = join('.claude', '.history', 'progress.jsonl');
+
+export interface ProgressSnapshot {
+  /** ISO 8601 time the counts were recorded */
+  timestamp: string;
+  spec: string;
+  total: number;
+  statusCounts: TaskStatusCounts;
+}
+
+/** Task counts of a spec, or of all specs in a project, at one point in time */
+export interface ProgressPoint {
+  timestamp: string;
+  total: number;
+  statusCounts: TaskStatusCounts;
+}
+
+export interface ProgressQuery {
+  /** Only this spec; all specs of the project are summed when omitted */
+  spec?: string;
+  /** Drop points before this time (the last earlier point is kept as the starting value) */
+  since?: Date;
+}
+
+function emptyCounts(): TaskStatusCounts {
+  return { 'pending': 0, 'in-progress': 0, 'completed': 0, 'blocked': 0, 'skipped': 0 };
+}
+
+function countsKey(total: number, counts: TaskStatusCounts): string {
+  return JSON.stringify([total, counts.pending, counts['in-progress'], counts.completed, counts.blocked, counts.skipped]);
+}
+
+function isSnapshot(value: unknown): value is ProgressSnapshot {
+  const snapshot = value as ProgressSnapshot;
+  return (
+    !!snapshot &&
+    typeof snapshot.timestamp === 'string' &&
+    typeof snapshot.spec === 'string' &&
+    typeof snapshot.total === 'number' &&
+    !!snapshot.statusCounts &&
+    typeof snapshot.statusCounts === 'object'
+  );
+}
+
+/**
+ * Turn snapshots into a time series
+ *
+ * For a project-wide series each point holds the sum of every spec's latest
+ * counts at that time. Snapshots recorded at the same time are merged.
+ */
+export function buildProgressSeries(snapshots: ProgressSnapshot[], query: ProgressQuery = {}): ProgressPoint[] {
+  const latest = new Map<string, ProgressSnapshot>();
+  const points: ProgressPoint[] = [];
+  const sorted = snapshots
+    .filter((snapshot) => !query.spec || snapshot.spec === query.spec)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const snapshot of sorted) {
+    latest.set(snapshot.spec, snapshot);
+
+    const point: ProgressPoint = { timestamp: snapshot.timestamp, total: 0, statusCounts: emptyCounts() };
+    for (const { total, statusCounts } of latest.values()) {
+      point.total += total;
+      for (const status of Object.keys(point.statusCounts) as (keyof TaskStatusCounts)[]) {
+        point.statusCounts[status] += statusCounts[status] || 0;
+      }
+    }
+
+    if (points[points.length - 1]?.timestamp === point.timestamp) {
+      points[points.length - 1] = point;
+    } else {
+      points.push(point);
+    }
+  }
+
+  if (!query.since) {
+    return points;
+  }
+  const since = query.since.toISOString();
+  const start = points.findIndex((point) => point.timestamp >= since);
+  if (start === -1) {
+    return points.slice(-1);
+  }
+  return points.slice(Math.max(0, start - 1));
+}
+
+/**
+ * Append-only store of task progress snapshots for one project
+ */
+export class ProgressHistory {
+  private historyPath: string;
+  /** Counts last written for each spec, loaded from the file on first use */
+  private lastCounts?: Promise<Map<string, string>>;
+
+  constructor(projectPath: string) {
+    this.historyPath = join(projectPath, PROGRESS_HISTORY_FILE);
+  }
+
+  /**
+   * Read all snapshots, skipping lines that are not valid snapshots
+   */
+  async getSnapshots(): Promise<ProgressSnapshot[]> {
+    let content: string;
+    try {
+      content = await readFile(this.historyPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const snapshots: ProgressSnapshot[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const snapshot = JSON.parse(line);
+        if (isSnapshot(snapshot)) {
+          snapshots.push(snapshot);
+        }
+      } catch {
+        debug(`[ProgressHistory] Skipping invalid line in ${this.historyPath}: ${line}`);
+      }
+    }
+    return snapshots;
+  }
+
+  async getSeries(query: ProgressQuery = {}): Promise<ProgressPoint[]> {
+    return buildProgressSeries(await this.getSnapshots(), query);
+  }
+
+  /**
+   * Append a snapshot of the spec's task counts if they changed since the last one
+   * @returns The recorded snapshot, or null when nothing changed
+   */
+  async record(spec: Spec, now: Date = new Date()): Promise<ProgressSnapshot | null> {
+    if (!spec.tasks) {
+      return null;
+    }
+
+    const lastCounts = await this.getLastCounts();
+    const statusCounts = { ...emptyCounts(), ...spec.tasks.statusCounts };
+    const key = countsKey(spec.tasks.total, statusCounts);
+    if (lastCounts.get(spec.name) === key) {
+      return null;
+    }
+    lastCounts.set(spec.name, key);
+
+    const snapshot: ProgressSnapshot = {
+      timestamp: now.toISOString(),
+      spec: spec.name,
+      total: spec.tasks.total,
+      statusCounts,
+    };
+    await mkdir(dirname(this.historyPath), { recursive: true });
+    await appendFile(this.historyPath, JSON.stringify(snapshot) + '\n', 'utf-8');
+    debug(`[ProgressHistory] Recorded progress for ${spec.name}:`, snapshot);
+    return snapshot;
+  }
+
+  private getLastCounts(): Promise<Map<string, string>> {
+    if (!this.lastCounts) {
+      this.lastCounts = this.getSnapshots().then((snapshots) => {
+        const counts = new Map<string, string>();
+        for (const snapshot of snapshots.sort((a, b) => a.timestamp.localeCompare(b.timestamp))) {
+          counts.set(snapshot.spec, countsKey(snapshot.total, { ...emptyCounts(), ...snapshot.statusCounts }));
+        }
+        return counts;
+      });
+    }
+    return this.lastCounts;
+  }
+}
@@ -1,10 +1,17 @@
 import { promises as fs } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
+import { join, resolve } from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { simpleGit, SimpleGit } from 'simple-git';
 import { debug } from './logger';
+import {
+  DiscoveryConfig,
+  DEFAULT_DISCOVERY_CONFIG,
+  resolveDiscoveryConfig,
+  compileExcludePatterns,
+  isExcludedPath,
+  ExcludePattern
+} from './discovery-config';
 
 const execAsync = promisify(exec);
 
@@ -18,50 +25,77 @@ export interface DiscoveredProject {
   hasSteeringDocs?: boolean;
   gitBranch?: string;
   gitCommit?: string;
+  pinned?: boolean; // Listed in the config's pinned projects
   parentPath?: string; // Path to parent project if this is a nested project
   children?: DiscoveredProject[]; // Child projects
 }
 
 export class ProjectDiscovery {
-  private searchPaths: string[] = [];
-
-  constructor() {
-    // Common project directories
-    this.searchPaths = [
-      join(homedir(), 'Projects'),
-      join(homedir(), 'Documents'),
-      join(homedir(), 'Development'),
-      join(homedir(), 'Code'),
-      join(homedir(), 'repos'),
-      join(homedir(), 'workspace'),
-      join(homedir(), 'src'),
-    ];
+  private config: DiscoveryConfig;
+  private excludePatterns: ExcludePattern[];
+
+  /**
+   * @param config - Search roots, depth, exclude patterns and pinned projects (see loadDiscoveryConfig)
+   */
+  constructor(config: DiscoveryConfig = DEFAULT_DISCOVERY_CONFIG) {
+    this.config = resolveDiscoveryConfig(config);
+    this.excludePatterns = compileExcludePatterns(this.config.exclude);
+  }
+
+  getConfig(): DiscoveryConfig {
+    return this.config;
+  }
+
+  /**
+   * Analyze a single project without searching the roots or scanning for Claude processes
+   * @returns null when the directory has no .claude folder
+   */
+  async getProject(projectPath: string): Promise<DiscoveredProject | null> {
+    return this.checkProject(resolve(projectPath), []);
   }
 
   async discoverProjects(): Promise<DiscoveredProject[]> {
-    const allProjects: DiscoveredProject[] = [];
+    const allProjects = new Map<string, DiscoveredProject>();
     const activeClaudes = await this.getActiveClaudeSessions();
     debug(`Starting project discovery with ${activeClaudes.length} active Claude sessions`);
 
     // Search for .claude directories
-    for (const searchPath of this.searchPaths) {
+    for (const searchPath of this.config.roots) {
       try {
         await fs.access(searchPath);
-        debug(`Searching in: ${searchPath}`);
-        const found = await this.searchDirectory(searchPath, activeClaudes);
-        debug(`Found ${found.length} projects in ${searchPath}`);
-        allProjects.push(...found);
       } catch {
         debug(`Directory doesn't exist: ${searchPath}`);
         // Directory doesn't exist, skip it
+        continue;
+      }
+
+      debug(`Searching in: ${searchPath}`);
+      // A root can itself be a project (e.g. a monorepo)
+      const rootProject = await this.checkProject(searchPath, activeClaudes);
+      const found = await this.searchDirectory(searchPath, activeClaudes);
+      debug(`Found ${found.length} projects in ${searchPath}`);
+      // Overlapping roots find the same project more than once
+      for (const project of rootProject ? [rootProject, ...found] : found) {
+        allProjects.set(project.path, project);
+      }
+    }
+
+    // Pinned projects are kept even without specs or bugs
+    for (const pinnedPath of this.config.pinned) {
+      const project = allProjects.get(pinnedPath) || await this.checkProject(pinnedPath, activeClaudes);
+      if (project) {
+        project.pinned = true;
+        allProjects.set(project.path, project);
+      } else {
+        debug(`Pinned project has no .claude directory: ${pinnedPath}`);
       }
     }
 
     // Filter out projects that have a .claude directory but no specs or bugs
     // (unless they have an active session)
-    const filteredProjects = allProjects.filter(project => {
+    const filteredProjects = Array.from(allProjects.values()).filter(project => {
       const hasContent = (project.specCount || 0) > 0 || (project.bugCount || 0) > 0;
-      const keep = hasContent || project.hasActiveSession;
+      const keep = hasContent || project.hasActiveSession || !!project.pinned;
       if (!keep) {
         debug(`Filtering out project ${project.name} at ${project.path} - no specs/bugs and no active session`);
       }
@@ -113,7 +147,7 @@ export class ProjectDiscovery {
     activeSessions: string[],
     depth = 0
   ): Promise<DiscoveredProject[]> {
-    if (depth > 4) return []; // Search up to 4 directories deep
+    if (depth > this.config.maxDepth) return [];
 
     const projects: DiscoveredProject[] = [];
 
@@ -123,10 +157,12 @@ export class ProjectDiscovery {
       for (const entry of entries) {
         if (!entry.isDirectory()) continue;
         if (entry.name.startsWith('.') && entry.name !== '.claude') continue;
-        if (entry.name === 'node_modules' || entry.name === 'venv' || entry.name === '__pycache__')
-          continue;
 
         const fullPath = join(dir, entry.name);
+        if (isExcludedPath(fullPath, this.excludePatterns)) {
+          debug(`Skipping excluded directory: ${fullPath}`);
+          continue;
+        }
         
         // Special debug for phenix paths
         if (fullPath.includes('phenix')) {
@@ -134,21 +170,14 @@ export class ProjectDiscovery {
         }
 
         // Check if this directory has a .claude folder
-        const claudePath = join(fullPath, '.claude');
-        try {
-          const claudeStat = await fs.stat(claudePath);
-          if (claudeStat.isDirectory()) {
-            const project = await this.analyzeProject(fullPath, claudePath, activeSessions);
-            projects.push(project);
-            debug(`Found project with .claude dir: ${fullPath}`);
-          }
-        } catch {
-          // No .claude directory
+        const project = await this.checkProject(fullPath, activeSessions);
+        if (project) {
+          projects.push(project);
         }
 
         // Always check subdirectories if we haven't reached max depth
         // This ensures we find nested projects like phenix/phenix/public-api
-        if (depth < 4) {
+        if (depth < this.config.maxDepth) {
           debug(`Searching subdirectory: ${fullPath} (depth: ${depth})`);
           const subProjects = await this.searchDirectory(fullPath, activeSessions, depth + 1);
           if (subProjects.length > 0) {
@@ -164,6 +193,23 @@ export class ProjectDiscovery {
     return projects;
   }
 
+  /** Analyze a directory as a project if it has a .claude folder */
+  private async checkProject(projectPath: string, activeSessions: string[]): Promise<DiscoveredProject | null> {
+    const claudePath = join(projectPath, '.claude');
+    try {
+      const claudeStat = await fs.stat(claudePath);
+      if (!claudeStat.isDirectory()) {
+        return null;
+      }
+    } catch {
+      // No .claude directory
+      return null;
+    }
+
+    debug(`Found project with .claude dir: ${projectPath}`);
+    return this.analyzeProject(projectPath, claudePath, activeSessions);
+  }
+
   private async analyzeProject(
     projectPath: string,
     claudePath: string,
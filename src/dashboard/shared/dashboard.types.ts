@@ -7,13 +7,22 @@
 // Import and re-export core types from parser
 import type {
   Task,
+  TaskStatus,
+  TaskStatusCounts,
   RequirementDetail,
   CodeReuseCategory,
   SteeringStatus,
+  SteeringDocumentInfo,
   Bug,
-  Spec
+  Spec,
+  DocumentApproval,
+  Workflow,
+  WorkflowItem
 } from '../parser';
 
+import type { ProgressPoint } from '../progress-history';
+import type { TaskHistoryEntry, TaskStatusChange } from '../../tasks';
+
 // Import tunnel types for dashboard use
 import type {
   TunnelStatus,
@@ -24,11 +33,20 @@ import type {
 // Re-export for external consumers
 export type {
   Task,
+  TaskStatus,
+  TaskStatusCounts,
   RequirementDetail,
   CodeReuseCategory,
   SteeringStatus,
+  SteeringDocumentInfo,
   Bug,
   Spec,
+  DocumentApproval,
+  Workflow,
+  WorkflowItem,
+  ProgressPoint,
+  TaskHistoryEntry,
+  TaskStatusChange,
   TunnelStatus,
   TunnelInfo,
   TunnelOptions
@@ -51,6 +69,8 @@ export interface Project {
   specs: Spec[];
   /** All bugs found in this project (optional as not all projects have bugs) */
   bugs?: Bug[];
+  /** User-defined workflows declared in .claude/workflows, with their items */
+  workflows?: Workflow[];
   /** Steering document status (if available) */
   steeringStatus?: SteeringStatus;
   /** Current git branch (if git repo) */
@@ -68,6 +88,7 @@ export type WebSocketMessage =
   | UpdateDataMessage
   | BugUpdateMessage
   | SteeringUpdateMessage
+  | WorkflowUpdateMessage
   | ErrorDataMessage
   | TunnelStartedMessage
   | TunnelStoppedMessage
@@ -82,6 +103,10 @@ export type WebSocketMessage =
 export interface InitialDataMessage {
   type: 'initial';
   data: InitialData;
+  /** The dashboard serves one project (`--project`) rather than discovered projects */
+  singleProject?: boolean;
+  /** Token for the write endpoints; only sent to browsers on the dashboard's machine */
+  writeToken?: string;
 }
 
 export interface UpdateDataMessage {
@@ -99,6 +124,12 @@ export interface SteeringUpdateMessage {
   data: SteeringStatus;
 }
 
+export interface WorkflowUpdateMessage {
+  type: 'workflow-update';
+  projectPath: string;
+  data: Workflow[];
+}
+
 export interface ErrorDataMessage {
   type: 'error';
   data: ErrorData;
@@ -261,8 +292,14 @@ export interface AppState {
   activeTab: 'active' | 'projects';
   /** Whether to show completed specs/tasks */
   showCompleted: boolean;
+  /** Whether to show archived specs below the project's specs */
+  showArchived: boolean;
   /** Pending project route (when projects haven't loaded yet) */
   pendingProjectRoute: string | null;
+  /** Whether the server runs with --project and only serves one project */
+  singleProject: boolean;
+  /** Token for the write endpoints; only sent to browsers on the dashboard's machine */
+  writeToken: string | null;
   
   // Expansion State Management
   /** Expanded state for requirements sections (spec name -> expanded) */
@@ -271,9 +308,31 @@ export interface AppState {
   expandedDesigns: Record<string, boolean>;
   /** Expanded state for task sections (spec name -> expanded) */
   expandedTasks: Record<string, boolean>;
+  /** Expanded state for traceability sections (spec name -> expanded) */
+  expandedTraces: Record<string, boolean>;
+  /** Expanded state for progress history sections (spec name -> expanded) */
+  expandedProgress: Record<string, boolean>;
+  /** Whether the project-wide progress chart is shown */
+  showProjectProgress: boolean;
   /** Expanded state for requirement accordions (specName-reqId -> expanded) */
   expandedRequirementAccordions: Record<string, boolean>;
   
+  // Archived Specs
+  /** Archived specs fetched on demand (project path -> specs) */
+  archivedSpecs: Record<string, Spec[]>;
+  
+  // Progress History
+  /** Progress series fetched on demand (see getSpecKey) */
+  progressHistory: Record<string, ProgressPoint[]>;
+  /** Whether progress charts show remaining tasks or the cumulative flow of task states */
+  progressChartMode: 'burndown' | 'flow';
+  
+  // Task History
+  /** Task status changes reconstructed from git, fetched on demand (see getSpecKey) */
+  taskHistory: Record<string, TaskHistoryEntry[]>;
+  /** Commits linked to completed tasks, fetched on demand (project path + hash; null while loading or missing) */
+  taskCommits: Record<string, TaskCommit | null>;
+  
   // Selection State Management
   /** Selected task IDs (spec name -> task ID) */
   selectedTasks: Record<string, string>;
@@ -285,6 +344,8 @@ export interface AppState {
   // Markdown Preview State
   /** Markdown preview modal state */
   markdownPreview: MarkdownPreviewState;
+  /** Edit mode of the markdown preview modal */
+  markdownEditor: MarkdownEditorState;
   
   // Cache Management (Non-reactive)
   /** Cache for grouped projects (invalidated when projects change) */
@@ -295,6 +356,23 @@ export interface AppState {
   projectTabsData: ProjectTabData[];
 }
 
+/**
+ * A commit linked to a task by its `_Commit:_` line, as returned by the commits API
+ */
+export interface TaskCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+  files: { path: string; insertions: number; deletions: number }[];
+  insertions: number;
+  deletions: number;
+  /** Diff of the commit, cut off when `truncated`; only sent to local clients */
+  patch?: string;
+  truncated?: boolean;
+}
+
 /**
  * Active session representing a spec or bug being worked on
  */
@@ -335,6 +413,42 @@ export interface MarkdownPreviewState {
   loading: boolean;
 }
 
+/**
+ * Edit mode of the markdown preview modal
+ */
+export interface MarkdownEditorState {
+  /** Project of the previewed document */
+  projectPath: string;
+  /** API path of the previewed document below the project (e.g. "specs/user-auth/design"), empty when it can't be edited */
+  documentPath: string;
+  /** ETag of the document version shown and edited */
+  etag: string | null;
+  /** Whether the modal shows the editor instead of the preview */
+  editing: boolean;
+  /** Markdown in the editor */
+  draft: string;
+  /** Whether a save is in flight */
+  saving: boolean;
+  /** Version on disk when a save was rejected because the document changed after it was opened */
+  conflict: { content: string; etag: string } | null;
+}
+
+/**
+ * SVG geometry of a progress chart, in a 600x160 viewBox
+ */
+export interface ProgressChart {
+  /** Filled areas, bottom to top (cumulative flow mode) */
+  areas: { status: TaskStatus; color: string; d: string }[];
+  /** Remaining tasks (burndown mode) */
+  remaining: string;
+  /** Total tasks, i.e. the scope */
+  scope: string;
+  /** Task count at the top of the chart */
+  max: number;
+  start: string;
+  end: string;
+}
+
 /**
  * Cache for grouped projects to avoid expensive re-computation
  */
@@ -723,6 +837,10 @@ export interface AppStateMethods {
   getVisibleBugs(_project: Project): Bug[];
   /** Toggle show/hide completed items */
   toggleShowCompleted(): void;
+  /** Archived specs of a project, fetched the first time they are shown */
+  getArchivedSpecs(_project: Project): Spec[];
+  /** Toggle show/hide archived specs */
+  toggleShowArchived(): void;
 
   // Cache Management Methods
   /** Get cached grouped projects, rebuilding if necessary */
@@ -755,6 +873,14 @@ export interface AppStateMethods {
   getOpenSpecsCount(_project: Project): number;
   /** Get number of open bugs for a project */
   getOpenBugsCount(_project: Project): number;
+  /** Whether a bug is resolved, won't be fixed or is a duplicate */
+  isBugClosed(_bug: Bug): boolean;
+  /** Open bugs linked to a spec */
+  getSpecOpenBugs(_project: Project, _specName: string): Bug[];
+  /** Number of bugs, open or closed, counted as regressions of a spec */
+  getSpecRegressionCount(_project: Project, _specName: string): number;
+  /** Status pill colors of a workflow item: completed, not started or in a phase */
+  getWorkflowStatusClass(_workflow: Workflow, _item: WorkflowItem): string;
   /** Get number of bugs in progress for a project */
   getBugsInProgress(_project: Project): number;
   /** Get number of resolved bugs for a project */
@@ -868,7 +994,8 @@ export const BUG_STATUS_PRIORITY: Record<Bug['status'], number> = {
   'reported': 1,
   'analyzing': 2,
   'fixing': 3,
-  'fixed': 4,
-  'verifying': 5,
-  'resolved': 6
+  'verifying': 4,
+  'resolved': 5,
+  'wontfix': 6,
+  'duplicate': 7
 };
\ No newline at end of file
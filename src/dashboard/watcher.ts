@@ -1,7 +1,8 @@
 import { watch, FSWatcher } from 'chokidar';
 import { EventEmitter } from 'events';
 import { join } from 'path';
-import { SpecParser, Spec, Bug, SteeringStatus } from './parser';
+import { SpecParser, Spec, Bug, SteeringStatus, Workflow } from './parser';
+import { WORKFLOWS_DIR } from '../custom-workflows';
 import { simpleGit, SimpleGit } from 'simple-git';
 import { debug } from './logger';
 
@@ -31,11 +32,20 @@ export interface SteeringChangeEvent {
   steeringStatus?: SteeringStatus;
 }
 
+export interface WorkflowChangeEvent {
+  type: 'added' | 'changed' | 'removed';
+  /** Path relative to .claude/workflows */
+  file: string;
+  /** Every workflow of the project after the change */
+  workflows: Workflow[];
+}
+
 export class SpecWatcher extends EventEmitter {
   private watcher?: FSWatcher;
   private bugWatcher?: FSWatcher;
   private gitWatcher?: FSWatcher;
   private steeringWatcher?: FSWatcher;
+  private workflowWatcher?: FSWatcher;
   private projectPath: string;
   private parser: SpecParser;
   private git: SimpleGit;
@@ -217,6 +227,9 @@ export class SpecWatcher extends EventEmitter {
     
     // Start watching steering documents
     await this.startSteeringWatcher();
+
+    // Start watching user-defined workflows
+    this.startWorkflowWatcher();
   }
 
   private async startGitWatcher() {
@@ -279,7 +292,7 @@ export class SpecWatcher extends EventEmitter {
     // Try to use FSEvents on macOS, fall back to polling if needed
     const isMacOS = process.platform === 'darwin';
 
-    this.steeringWatcher = watch(['product.md', 'tech.md', 'structure.md'], {
+    this.steeringWatcher = watch('*.md', {
       cwd: steeringPath,
       persistent: true,
       ignoreInitial: true,
@@ -320,6 +333,49 @@ export class SpecWatcher extends EventEmitter {
       });
   }
 
+  private startWorkflowWatcher() {
+    const workflowsPath = join(this.projectPath, '.claude', WORKFLOWS_DIR);
+
+    debug(`[WorkflowWatcher] Starting to watch: ${workflowsPath}`);
+
+    const isMacOS = process.platform === 'darwin';
+
+    // Definitions and item documents both live here; any change re-reads every workflow
+    this.workflowWatcher = watch('.', {
+      cwd: workflowsPath,
+      ignored: /(^|[\\/])\.DS_Store/,
+      persistent: true,
+      ignoreInitial: true,
+      usePolling: !isMacOS,
+      useFsEvents: isMacOS,
+      interval: isMacOS ? 100 : 1000,
+      binaryInterval: 300,
+      awaitWriteFinish: false,
+      followSymlinks: true,
+      ignorePermissionErrors: true, // Don't fail if the workflows directory doesn't exist yet
+      atomic: true,
+    });
+
+    this.workflowWatcher
+      .on('add', (path) => this.handleWorkflowChange('added', path))
+      .on('change', (path) => this.handleWorkflowChange('changed', path))
+      .on('unlink', (path) => this.handleWorkflowChange('removed', path))
+      .on('unlinkDir', (path) => this.handleWorkflowChange('removed', path))
+      .on('ready', () => debug('[WorkflowWatcher] Initial scan complete. Ready for changes.'))
+      .on('error', (error) => {
+        // Don't log error if workflows directory doesn't exist yet
+        if (!error.message.includes('ENOENT')) {
+          console.error('[WorkflowWatcher] Error:', error);
+        }
+      });
+  }
+
+  private async handleWorkflowChange(type: 'added' | 'changed' | 'removed', file: string) {
+    debug(`[WorkflowWatcher] Workflow change detected: ${type} - ${file}`);
+    const workflows = await this.parser.getAllWorkflows();
+    this.emit('workflow-change', { type, file, workflows } as WorkflowChangeEvent);
+  }
+
   private async checkGitChanges() {
     try {
       const branchSummary = await this.git.branchLocal();
@@ -472,5 +528,8 @@ export class SpecWatcher extends EventEmitter {
     if (this.steeringWatcher) {
       await this.steeringWatcher.close();
     }
+    if (this.workflowWatcher) {
+      await this.workflowWatcher.close();
+    }
   }
 }
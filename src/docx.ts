@@ -0,0 +1,292 @@
+/**
+ * Word (.docx) writer for markdown documents, without third-party dependencies
+ *
+ * A .docx file is a ZIP archive of WordprocessingML parts. This module writes
+ * the minimum Word, LibreOffice and Google Docs need: content types, package
+ * relationships, core properties, styles and the document body. Markdown is
+ * split into blocks by parseBlocks and inline formatting comes from
+ * parseInline.
+ */
+
+import { deflateRawSync } from 'zlib';
+import { parseBlocks, parseInline, MarkdownBlock } from './markdown-html';
+
+export interface DocxOptions {
+  /** Document title stored in the file properties */
+  title?: string;
+  /** Time stored in the file properties and ZIP entries */
+  now?: Date;
+}
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] || 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Pack entries into a ZIP archive (deflate, no ZIP64)
+ */
+export function createZip(entries: ZipEntry[], now: Date = new Date()): Buffer {
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((Math.max(now.getFullYear(), 1980) - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const compressed = deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(8, 8); // Deflate
+    local.writeUInt16LE(dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    localParts.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(dosTime, 12);
+    central.writeUInt16LE(dosDate, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, ...centralParts, end]);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeHtml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function textRun(text: string, properties = ''): string {
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+/**
+ * Turn inline markdown into runs, using the tags parseInline emits for formatting
+ */
+function inlineRuns(text: string, baseProperties = ''): string {
+  const runs: string[] = [];
+  const active = { strong: 0, em: 0, code: 0, del: 0, a: 0 };
+  const tokens = parseInline(text).match(/<(\/?)(strong|em|code|del|a|img|br)\b[^>]*>|[^<]+|</g) || [];
+
+  for (const token of tokens) {
+    const tag = token.match(/^<(\/?)(strong|em|code|del|a|img|br)\b([^>]*)>$/);
+    if (!tag) {
+      const properties = [
+        baseProperties,
+        active.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : '',
+        active.strong ? '<w:b/>' : '',
+        active.em ? '<w:i/>' : '',
+        active.del ? '<w:strike/>' : '',
+        active.a ? '<w:color w:val="4F46E5"/><w:u w:val="single"/>' : '',
+      ].join('');
+      const lines = unescapeHtml(token).split('\n');
+      lines.forEach((line, index) => {
+        if (index > 0) runs.push('<w:r><w:br/></w:r>');
+        if (line) runs.push(textRun(line, properties));
+      });
+      continue;
+    }
+
+    const [, closing, name = '', attributes = ''] = tag;
+    if (name === 'br') {
+      runs.push('<w:r><w:br/></w:r>');
+    } else if (name === 'img') {
+      const alt = attributes.match(/alt="([^"]*)"/)?.[1] || 'image';
+      runs.push(textRun(`[${unescapeHtml(alt)}]`, baseProperties));
+    } else {
+      active[name as keyof typeof active] += closing ? -1 : 1;
+    }
+  }
+
+  return runs.join('');
+}
+
+function paragraph(runs: string, properties = ''): string {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function style(id: string): string {
+  return `<w:pStyle w:val="${id}"/>`;
+}
+
+function blocksToXml(blocks: MarkdownBlock[], depth = 0): string[] {
+  return blocks.flatMap((block): string[] => {
+    switch (block.type) {
+      case 'heading':
+        return [paragraph(inlineRuns(block.text), style(`Heading${Math.min(block.level, 4)}`))];
+      case 'paragraph':
+        return [paragraph(inlineRuns(block.text), depth > 0 ? `<w:ind w:left="${depth * 360}"/>` : '')];
+      case 'code':
+        return [paragraph(
+          block.code.split('\n').map((line, index) => (index > 0 ? '<w:r><w:br/></w:r>' : '') + (line ? textRun(line) : '')).join(''),
+          style('Code')
+        )];
+      case 'rule':
+        return [paragraph('', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="D1D5DB"/></w:pBdr>')];
+      case 'quote':
+        // Quoted paragraphs take the Quote style in place of their own
+        return blocksToXml(block.blocks, depth).map((xml) => xml
+          .replace(/^<w:p><w:pPr><w:pStyle w:val="[^"]*"\/>/, `<w:p><w:pPr>${style('Quote')}`)
+          .replace(/^<w:p>(?!<w:pPr>)/, `<w:p><w:pPr>${style('Quote')}</w:pPr>`)
+          .replace(/^<w:p><w:pPr>(?!<w:pStyle)/, `<w:p><w:pPr>${style('Quote')}`));
+      case 'table': {
+        const cell = (text: string, header: boolean) =>
+          `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(inlineRuns(text, header ? '<w:b/>' : ''))}</w:tc>`;
+        const row = (cells: string[], header: boolean) =>
+          `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells.map((text) => cell(text, header)).join('')}</w:tr>`;
+        return [
+          '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>' +
+          row(block.header, true) + block.rows.map((cells) => row(cells, false)).join('') + '</w:tbl>',
+          paragraph(''),
+        ];
+      }
+      case 'list':
+        return block.items.flatMap((item, index) => {
+          const marker = item.checked !== undefined
+            ? (item.checked ? '☑' : '☐')
+            : block.ordered ? `${block.start + index}.` : '•';
+          const indent = `<w:ind w:left="${(depth + 1) * 360}" w:hanging="360"/>`;
+          return [
+            paragraph(textRun(`${marker}\t`) + inlineRuns(item.text), `${style('ListParagraph')}<w:tabs><w:tab w:val="left" w:pos="${(depth + 1) * 360}"/></w:tabs>${indent}`),
+            ...blocksToXml(item.blocks, depth + 1),
+          ];
+        });
+    }
+  });
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+function headingStyle(level: number, size: number, pageBreak: boolean): string {
+  return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/>${pageBreak ? '<w:pageBreakBefore/>' : ''}<w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="111827"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+}
+
+// Each level 1 heading starts a new page, so the title page and every section stand alone
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:before="2400" w:after="480"/></w:pPr><w:rPr><w:b/><w:color w:val="111827"/><w:sz w:val="56"/></w:rPr></w:style>
+${headingStyle(1, 36, true)}
+${headingStyle(2, 30, false)}
+${headingStyle(3, 26, false)}
+${headingStyle(4, 22, false)}
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="120" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D1D5DB"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:color w:val="4B5563"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>
+<w:top w:val="single" w:sz="4" w:color="D1D5DB"/><w:left w:val="single" w:sz="4" w:color="D1D5DB"/><w:bottom w:val="single" w:sz="4" w:color="D1D5DB"/>
+<w:right w:val="single" w:sz="4" w:color="D1D5DB"/><w:insideH w:val="single" w:sz="4" w:color="D1D5DB"/><w:insideV w:val="single" w:sz="4" w:color="D1D5DB"/>
+</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+/**
+ * Convert a markdown document to a .docx file
+ */
+export function markdownToDocx(markdown: string, options: DocxOptions = {}): Buffer {
+  const now = options.now || new Date();
+  // A leading level 1 heading is the document title; later ones start new pages
+  const [first, ...rest] = parseBlocks(markdown);
+  const body = (first?.type === 'heading' && first.level === 1
+    ? [paragraph(inlineRuns(first.text), style('Title')), ...blocksToXml(rest)]
+    : blocksToXml(first ? [first, ...rest] : [])
+  ).join('\n');
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>
+${body}
+<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`;
+  const created = now.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(options.title || '')}</dc:title>
+<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>
+</cp:coreProperties>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: Buffer.from(CONTENT_TYPES, 'utf-8') },
+    { name: '_rels/.rels', data: Buffer.from(PACKAGE_RELS, 'utf-8') },
+    { name: 'docProps/core.xml', data: Buffer.from(core, 'utf-8') },
+    { name: 'word/_rels/document.xml.rels', data: Buffer.from(DOCUMENT_RELS, 'utf-8') },
+    { name: 'word/styles.xml', data: Buffer.from(STYLES, 'utf-8') },
+    { name: 'word/document.xml', data: Buffer.from(document, 'utf-8') },
+  ], now);
+}
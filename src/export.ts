@@ -0,0 +1,666 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { marked, MarkedOptions, Renderer, Tokens } from 'marked';
+import { getCachedFileContent } from './file-cache';
+import { SpecParser, Spec, Bug, BugStatus, SPEC_ARCHIVE_DIR } from './dashboard/parser';
+import { renderMarkdown, MarkedLib, StatusBadgeTemplate, ProgressBarTemplate } from './dashboard/client/shared-components';
+import { resolveSteeringDocuments } from './steering';
+import { DocumentApproval, getDocumentApproval, splitFrontMatter, SPEC_PHASES, PHASE_DOCUMENTS } from './approval';
+import { getSpecContextData } from './get-spec-context';
+import { getTraceData, formatTraceMarkdown } from './trace';
+import { markdownToDocx } from './docx';
+import { escapeHtml, slugify } from './markdown-html';
+import { FileAccessError, NotFoundError, OutputFormat, UsageError, runCommand } from './output';
+
+/** Single-file layouts of a spec export */
+export type SpecExportOutput = 'docx' | 'md-bundle' | 'pdf-html';
+
+export const SPEC_EXPORT_OUTPUTS: SpecExportOutput[] = ['docx', 'md-bundle', 'pdf-html'];
+
+const SPEC_EXPORT_EXTENSIONS: Record<SpecExportOutput, string> = {
+  'docx': '.docx',
+  'md-bundle': '.md',
+  'pdf-html': '.html',
+};
+
+export interface ExportOptions {
+  /** Directory to write the static HTML site to */
+  html?: string;
+  /** Layout of a single spec export */
+  output?: SpecExportOutput;
+  /** File to write a single spec export to */
+  file?: string;
+}
+
+export interface SpecExportResult {
+  spec: string;
+  output: SpecExportOutput;
+  /** Absolute path of the written file */
+  file: string;
+  /** Top-level sections of the document, in order */
+  sections: string[];
+}
+
+export interface HtmlExportResult {
+  /** Absolute path of the site */
+  outDir: string;
+  /** Written files, relative to outDir */
+  files: string[];
+  specs: number;
+  archivedSpecs: number;
+  bugs: number;
+  steering: number;
+}
+
+const SPEC_DOCUMENTS = [
+  { file: 'requirements.md', title: 'Requirements' },
+  { file: 'design.md', title: 'Design' },
+  { file: 'tasks.md', title: 'Tasks' },
+] as const;
+
+const BUG_DOCUMENTS = [
+  { file: 'report.md', title: 'Report' },
+  { file: 'analysis.md', title: 'Analysis' },
+  { file: 'fix.md', title: 'Fix' },
+  { file: 'verification.md', title: 'Verification' },
+] as const;
+
+/** Page titles of the core steering documents; additional ones use their own title */
+const STEERING_TITLES: Record<string, string> = {
+  product: 'Product',
+  tech: 'Technology',
+  structure: 'Structure',
+};
+
+/** Same colours as the dashboard's bug status pill */
+const BUG_STATUS_CLASSES: Record<BugStatus, string> = {
+  'reported': 'bg-red-100 text-red-800',
+  'analyzing': 'bg-yellow-100 text-yellow-800',
+  'fixing': 'bg-blue-100 text-blue-800',
+  'verifying': 'bg-purple-100 text-purple-800',
+  'resolved': 'bg-green-100 text-green-800',
+  'wontfix': 'bg-gray-100 text-gray-800',
+  'duplicate': 'bg-gray-100 text-gray-800',
+};
+
+/**
+ * Stylesheet of the static site: page layout plus the Tailwind utility classes
+ * used by the dashboard's badge and progress bar templates, so the site needs
+ * neither the Tailwind CDN nor any other network access
+ */
+const SITE_CSS = `* { box-sizing: border-box; }
+body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111827; background: #f9fafb; line-height: 1.5; }
+a { color: #4f46e5; text-decoration: none; }
+a:hover { text-decoration: underline; }
+.layout { display: flex; min-height: 100vh; }
+nav { width: 260px; flex-shrink: 0; padding: 1.5rem 1rem; background: #fff; border-right: 1px solid #e5e7eb; font-size: 0.875rem; }
+nav h2 { margin: 1.25rem 0 0.5rem; font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; }
+nav ul { list-style: none; margin: 0; padding: 0; }
+nav li { margin: 0.25rem 0; }
+nav a.current { font-weight: 600; color: #111827; }
+nav .project { font-size: 1rem; font-weight: 600; color: #111827; }
+main { flex: 1; min-width: 0; max-width: 960px; padding: 2rem; }
+main > header { margin-bottom: 1.5rem; }
+main > header h1 { margin: 0 0 0.5rem; }
+.meta { color: #6b7280; font-size: 0.875rem; }
+.card { background: #fff; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1.25rem 1.5rem; margin-bottom: 1.5rem; }
+.summary { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+.summary th, .summary td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: middle; }
+.progress { display: flex; align-items: center; gap: 0.5rem; min-width: 160px; }
+.progress .count { white-space: nowrap; color: #6b7280; font-size: 0.75rem; }
+.markdown h1, .markdown h2, .markdown h3 { line-height: 1.25; }
+.markdown table { border-collapse: collapse; margin: 1rem 0; }
+.markdown th, .markdown td { border: 1px solid #e5e7eb; padding: 0.375rem 0.75rem; }
+.markdown pre { background: #f3f4f6; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; }
+.markdown code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.875em; }
+.markdown blockquote { margin: 0; padding-left: 1rem; border-left: 4px solid #e5e7eb; color: #4b5563; }
+.markdown li:has(> input[type="checkbox"]) { list-style: none; }
+.code-copy-btn { display: none; }
+.ears-keyword { font-weight: 600; color: #4f46e5; }
+.inline-flex { display: inline-flex; }
+.items-center { align-items: center; }
+.px-3 { padding-left: 0.75rem; padding-right: 0.75rem; }
+.py-1 { padding-top: 0.25rem; padding-bottom: 0.25rem; }
+.rounded-full { border-radius: 9999px; }
+.text-sm { font-size: 0.875rem; }
+.font-medium { font-weight: 500; }
+.w-full { width: 100%; }
+.h-2 { height: 0.5rem; }
+.bg-gray-100 { background: #f3f4f6; } .text-gray-800 { color: #1f2937; }
+.bg-gray-200 { background: #e5e7eb; }
+.bg-blue-100 { background: #dbeafe; } .text-blue-800 { color: #1e40af; }
+.bg-purple-100 { background: #f3e8ff; } .text-purple-800 { color: #6b21a8; }
+.bg-yellow-100 { background: #fef9c3; } .text-yellow-800 { color: #854d0e; }
+.bg-indigo-100 { background: #e0e7ff; } .text-indigo-800 { color: #3730a3; }
+.bg-green-100 { background: #dcfce7; } .text-green-800 { color: #166534; }
+.bg-red-100 { background: #fee2e2; } .text-red-800 { color: #991b1b; }
+.bg-indigo-600 { background: #4f46e5; }
+@media print { nav { display: none; } main { max-width: none; } }
+`;
+
+/** A page of the site: its path relative to the site root and its rendered HTML */
+interface SitePage {
+  file: string;
+  html: string;
+}
+
+interface SiteContent {
+  projectName: string;
+  generatedAt: string;
+  specs: Spec[];
+  archivedSpecs: Spec[];
+  bugs: Bug[];
+  steering: { key: string; title: string; content: string }[];
+}
+
+function specPage(spec: Spec, archived: boolean): string {
+  return `${archived ? 'archive' : 'specs'}/${spec.name}.html`;
+}
+
+function bugPage(bug: Bug): string {
+  return `bugs/${bug.name}.html`;
+}
+
+function steeringPage(key: string): string {
+  return `steering/${key}.html`;
+}
+
+/** Link target of a page, with spec and bug names URL-encoded */
+function pageHref(file: string): string {
+  return file.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Renderer of exported pages: headings get the IDs the bundle's table of
+ * contents links to, and raw HTML in documents is shown as text
+ */
+class ExportRenderer extends Renderer {
+  heading({ tokens, depth }: Tokens.Heading): string {
+    const text = this.parser.parseInline(tokens);
+    return `<h${depth} id="${slugify(text)}">${text}</h${depth}>\n`;
+  }
+
+  html({ text }: Tokens.HTML | Tokens.Tag): string {
+    return escapeHtml(text);
+  }
+}
+
+/** The marked package with the export renderer, in the shape renderMarkdown takes */
+const exportMarked = {
+  parse: (markdown: string, options?: MarkedOptions) => marked.parse(markdown, { ...options, async: false }),
+  Renderer: ExportRenderer,
+} as unknown as MarkedLib;
+
+/**
+ * Render markdown with the dashboard's renderMarkdown and the marked package
+ */
+function renderDocument(content: string): string {
+  return renderMarkdown(content, exportMarked);
+}
+
+function bugStatusBadge(status: BugStatus): string {
+  return `<span class="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${BUG_STATUS_CLASSES[status]}">` +
+    `${status.charAt(0).toUpperCase() + status.slice(1)}</span>`;
+}
+
+function taskProgress(spec: Spec): string {
+  if (!spec.tasks || spec.tasks.total === 0) {
+    return '<span class="meta">No tasks</span>';
+  }
+  return `<div class="progress">${ProgressBarTemplate(spec.tasks.completed, spec.tasks.total)}` +
+    `<span class="count">${spec.tasks.completed}/${spec.tasks.total} tasks</span></div>`;
+}
+
+function describeApproval(approval: DocumentApproval | undefined): string {
+  if (!approval || approval.state === 'unapproved') {
+    return 'Not approved';
+  }
+  const by = approval.approvedBy ? ` by ${escapeHtml(approval.approvedBy)}` : '';
+  const at = approval.approvedAt ? ` on ${escapeHtml(approval.approvedAt.slice(0, 10))}` : '';
+  return `Approved${by}${at}${approval.state === 'modified' ? ' (modified since approval)' : ''}`;
+}
+
+function renderNav(site: SiteContent, current: string, root: string): string {
+  const link = (file: string, label: string) =>
+    `<li><a href="${root}${pageHref(file)}"${file === current ? ' class="current"' : ''}>${escapeHtml(label)}</a></li>`;
+  const section = (title: string, items: string[]) =>
+    items.length > 0 ? `<h2>${title}</h2>\n<ul>\n${items.join('\n')}\n</ul>` : '';
+
+  return [
+    `<a class="project" href="${root}index.html">${escapeHtml(site.projectName)}</a>`,
+    section('Steering', site.steering.map((doc) => link(steeringPage(doc.key), doc.title))),
+    section('Specs', site.specs.map((spec) => link(specPage(spec, false), spec.displayName))),
+    section('Archived Specs', site.archivedSpecs.map((spec) => link(specPage(spec, true), spec.displayName))),
+    section('Bugs', site.bugs.map((bug) => link(bugPage(bug), bug.displayName))),
+  ].filter(Boolean).join('\n');
+}
+
+function renderPage(site: SiteContent, file: string, title: string, body: string): SitePage {
+  const root = '../'.repeat(file.split('/').length - 1);
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} - ${escapeHtml(site.projectName)}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+<div class="layout">
+<nav>
+${renderNav(site, file, root)}
+</nav>
+<main>
+${body}
+<p class="meta">Exported ${escapeHtml(site.generatedAt)}</p>
+</main>
+</div>
+</body>
+</html>
+`;
+  return { file, html };
+}
+
+function renderIndex(site: SiteContent): SitePage {
+  const specRows = (specs: Spec[], archived: boolean) => specs.map((spec) =>
+    `<tr><td><a href="${pageHref(specPage(spec, archived))}">${escapeHtml(spec.displayName)}</a></td>` +
+    `<td>${StatusBadgeTemplate(spec.status)}</td><td>${taskProgress(spec)}</td></tr>`
+  ).join('\n');
+  const specTable = (title: string, specs: Spec[], archived: boolean) => specs.length === 0 ? '' : `<section class="card">
+<h2>${title}</h2>
+<table class="summary">
+<thead><tr><th>Spec</th><th>Status</th><th>Progress</th></tr></thead>
+<tbody>
+${specRows(specs, archived)}
+</tbody>
+</table>
+</section>`;
+
+  const body = [
+    `<header><h1>${escapeHtml(site.projectName)}</h1>` +
+      `<p class="meta">${site.specs.length} specs, ${site.bugs.length} bugs</p></header>`,
+    site.steering.length === 0 ? '' : `<section class="card">
+<h2>Steering Documents</h2>
+<ul>
+${site.steering.map((doc) => `<li><a href="${steeringPage(doc.key)}">${doc.title}</a></li>`).join('\n')}
+</ul>
+</section>`,
+    site.specs.length === 0 ? '<section class="card"><p>No specs found.</p></section>' : specTable('Specs', site.specs, false),
+    specTable('Archived Specs', site.archivedSpecs, true),
+    site.bugs.length === 0 ? '' : `<section class="card">
+<h2>Bugs</h2>
+<table class="summary">
+<thead><tr><th>Bug</th><th>Status</th><th>Severity</th></tr></thead>
+<tbody>
+${site.bugs.map((bug) =>
+    `<tr><td><a href="${pageHref(bugPage(bug))}">${escapeHtml(bug.displayName)}</a></td>` +
+    `<td>${bugStatusBadge(bug.status)}</td><td>${escapeHtml(bug.report?.severity || '-')}</td></tr>`
+  ).join('\n')}
+</tbody>
+</table>
+</section>`,
+  ].filter(Boolean).join('\n');
+
+  return renderPage(site, 'index.html', 'Overview', body);
+}
+
+function renderDocuments(dir: string, documents: readonly { file: string; title: string }[]): string {
+  return documents.map(({ file, title }) => {
+    const content = getCachedFileContent(path.join(dir, file));
+    if (content === null) {
+      return '';
+    }
+    return `<section class="card markdown">\n<h2>${title}</h2>\n${renderDocument(content)}</section>`;
+  }).filter(Boolean).join('\n');
+}
+
+function renderSpec(site: SiteContent, spec: Spec, specDir: string, archived: boolean): SitePage {
+  const counts = spec.tasks?.statusCounts;
+  const countsText = counts
+    ? Object.entries(counts).filter(([, count]) => count > 0).map(([status, count]) => `${count} ${status}`).join(', ')
+    : '';
+  const phases = [
+    { title: 'Requirements', document: spec.requirements },
+    { title: 'Design', document: spec.design },
+    { title: 'Tasks', document: spec.tasks },
+  ].filter(({ document }) => document?.exists);
+  const archivedText = spec.archive ? `<p class="meta">Archived ${escapeHtml(spec.archive.archivedAt.slice(0, 10))}</p>` : '';
+
+  const body = `<header>
+<h1>${escapeHtml(spec.displayName)}</h1>
+${StatusBadgeTemplate(spec.status)}
+${archivedText}
+</header>
+<section class="card">
+${taskProgress(spec)}
+${countsText ? `<p class="meta">${escapeHtml(countsText)}</p>` : ''}
+${spec.trace ? `<p class="meta">${spec.trace.summary.coveredCriteria}/${spec.trace.summary.criteria} acceptance criteria covered by tasks, ${spec.trace.summary.implementedPercent}% implemented</p>` : ''}
+<table class="summary">
+<tbody>
+${phases.map(({ title, document }) => `<tr><th>${title}</th><td>${describeApproval(document?.approval)}</td></tr>`).join('\n')}
+</tbody>
+</table>
+</section>
+${renderDocuments(specDir, SPEC_DOCUMENTS)}`;
+
+  return renderPage(site, specPage(spec, archived), spec.displayName, body);
+}
+
+function renderBug(site: SiteContent, bug: Bug, bugDir: string): SitePage {
+  const severity = bug.report?.severity ? `<p class="meta">Severity: ${escapeHtml(bug.report.severity)}</p>` : '';
+  const body = `<header>
+<h1>${escapeHtml(bug.displayName)}</h1>
+${bugStatusBadge(bug.status)}
+${severity}
+</header>
+${renderDocuments(bugDir, BUG_DOCUMENTS)}`;
+
+  return renderPage(site, bugPage(bug), bug.displayName, body);
+}
+
+function renderSteering(site: SiteContent, doc: SiteContent['steering'][number]): SitePage {
+  const body = `<header><h1>${doc.title}</h1></header>
+<section class="card markdown">
+${renderDocument(doc.content)}
+</section>`;
+  return renderPage(site, steeringPage(doc.key), doc.title, body);
+}
+
+/**
+ * Write every spec, bug and steering document of a project as a static HTML site
+ *
+ * Pages are rendered with the dashboard's markdown renderer and badge and progress
+ * bar templates. The site links a local stylesheet only, so it can be opened from
+ * disk or any static file host without network access.
+ */
+export async function exportHtmlData(outDir: string, projectPath?: string): Promise<HtmlExportResult> {
+  // Use provided project path or current working directory
+  const workingDir = path.resolve(projectPath || process.cwd());
+  const siteDir = path.resolve(workingDir, outDir);
+  const specsDir = path.join(workingDir, '.claude', 'specs');
+  const bugsDir = path.join(workingDir, '.claude', 'bugs');
+
+  const parser = new SpecParser(workingDir);
+  const byName = <T extends { name: string }>(items: T[]) => items.sort((a, b) => a.name.localeCompare(b.name));
+  const site: SiteContent = {
+    projectName: path.basename(workingDir),
+    generatedAt: new Date().toISOString(),
+    specs: byName(await parser.getAllSpecs()),
+    archivedSpecs: byName(await parser.getArchivedSpecs()),
+    bugs: byName(await parser.getAllBugs()),
+    steering: resolveSteeringDocuments(workingDir).documents
+      .map(({ key, title, content }) => ({ key, title: STEERING_TITLES[key] || title, content })),
+  };
+
+  const pages: SitePage[] = [
+    { file: 'style.css', html: SITE_CSS },
+    renderIndex(site),
+    ...site.steering.map((doc) => renderSteering(site, doc)),
+    ...site.specs.map((spec) => renderSpec(site, spec, path.join(specsDir, spec.name), false)),
+    ...site.archivedSpecs.map((spec) => renderSpec(site, spec, path.join(specsDir, SPEC_ARCHIVE_DIR, spec.name), true)),
+    ...site.bugs.map((bug) => renderBug(site, bug, path.join(bugsDir, bug.name))),
+  ];
+
+  for (const page of pages) {
+    const target = path.join(siteDir, page.file);
+    try {
+      mkdirSync(path.dirname(target), { recursive: true });
+      writeFileSync(target, page.html, 'utf-8');
+    } catch (error) {
+      throw new FileAccessError(
+        `Could not write ${target}: ${error instanceof Error ? error.message : error}`,
+        { path: target }
+      );
+    }
+  }
+
+  return {
+    outDir: siteDir,
+    files: pages.map((page) => page.file),
+    specs: site.specs.length,
+    archivedSpecs: site.archivedSpecs.length,
+    bugs: site.bugs.length,
+    steering: site.steering.length,
+  };
+}
+
+/** Print stylesheet of a single-file spec export; every top-level section starts a new page */
+const PRINT_CSS = `body { margin: 0 auto; max-width: 800px; padding: 2rem; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111827; line-height: 1.5; }
+a { color: #4f46e5; text-decoration: none; }
+h1, h2, h3, h4 { line-height: 1.25; page-break-after: avoid; }
+h1 { margin-top: 3rem; page-break-before: always; break-before: page; }
+.markdown > h1:first-child { margin-top: 0; font-size: 2.5rem; page-break-before: avoid; break-before: avoid; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #e5e7eb; padding: 0.375rem 0.75rem; text-align: left; vertical-align: top; }
+tr, pre, blockquote { page-break-inside: avoid; }
+pre { background: #f3f4f6; padding: 0.75rem; border-radius: 0.375rem; white-space: pre-wrap; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.875em; }
+blockquote { margin: 0; padding-left: 1rem; border-left: 4px solid #e5e7eb; color: #4b5563; }
+li:has(> input[type="checkbox"]) { list-style: none; }
+.code-copy-btn { display: none; }
+.ears-keyword { font-weight: 600; color: #4f46e5; }
+@page { size: A4; margin: 2cm; }
+@media print { body { max-width: none; padding: 0; } }
+`;
+
+export interface SpecBundle {
+  spec: string;
+  title: string;
+  /** The whole export as one markdown document */
+  markdown: string;
+  /** Top-level sections, in order */
+  sections: string[];
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Fit a spec document under a section heading of the bundle: strip front-matter,
+ * drop the document's own title and move every other heading down a level
+ */
+function nestDocument(content: string): string {
+  const lines = splitFrontMatter(content).body.split(/\r?\n/);
+  const result: string[] = [];
+  let fence: string | null = null;
+  let titleDropped = false;
+
+  for (const line of lines) {
+    const fenceMarker = line.match(/^\s{0,3}(```+|~~~+)/)?.[1];
+    if (fenceMarker) {
+      if (!fence) {
+        fence = fenceMarker;
+      } else if (fenceMarker.startsWith(fence)) {
+        fence = null;
+      }
+    }
+
+    const heading = fence || fenceMarker ? null : line.match(/^(\s{0,3})(#{1,6})(\s.*)?$/);
+    if (!heading) {
+      result.push(line);
+      continue;
+    }
+
+    const [, indent = '', hashes = '', text = ''] = heading;
+    if (!titleDropped && hashes.length === 1 && result.every((previous) => !previous.trim())) {
+      titleDropped = true;
+      continue;
+    }
+    result.push(`${indent}${'#'.repeat(Math.min(hashes.length + 1, 6))}${text}`);
+  }
+
+  return result.join('\n').trim();
+}
+
+/** Link to a heading, matching the IDs the HTML renderer gives headings */
+function headingLink(text: string): string {
+  return `[${text}](#${slugify(marked.parseInline(text, { async: false, renderer: new ExportRenderer() }))})`;
+}
+
+/**
+ * Stitch a spec's documents into one markdown document with a cover page,
+ * table of contents and traceability and approval appendices
+ *
+ * Documents come in the order of get-spec-context: requirements, design, tasks.
+ */
+export async function buildSpecBundle(specName: string, projectPath?: string, now: Date = new Date()): Promise<SpecBundle> {
+  // Use provided project path or current working directory
+  const workingDir = path.resolve(projectPath || process.cwd());
+  const context = /[\\/]/.test(specName) ? undefined : getSpecContextData(specName, workingDir);
+  if (!context?.exists) {
+    throw new NotFoundError(`Spec ${specName} not found`, { spec: specName });
+  }
+
+  const spec = await new SpecParser(workingDir).getSpec(specName);
+  const title = spec?.displayName || specName;
+  const sections: { title: string; body: string }[] = context.documents.map((doc) => ({
+    title: doc.title,
+    body: nestDocument(doc.content),
+  }));
+
+  const hasRequirements = context.documents.some((doc) => doc.name === 'requirements.md');
+  sections.push({
+    title: 'Appendix A: Traceability',
+    body: hasRequirements
+      ? nestDocument(formatTraceMarkdown(getTraceData(specName, workingDir)))
+      : 'This spec has no requirements.md, so there is nothing to trace.',
+  });
+
+  const approvalRows = SPEC_PHASES.map((phase) => {
+    const file = PHASE_DOCUMENTS[phase];
+    const doc = context.documents.find((candidate) => candidate.name === file);
+    const content = doc ? getCachedFileContent(doc.path) : null;
+    if (content === null) {
+      return `| ${phase} | ${file} | missing | - | - |`;
+    }
+    const approval = getDocumentApproval(content, phase);
+    return `| ${phase} | ${file} | ${approval.state} | ${markdownCell(approval.approvedBy || '-')} | ${approval.approvedAt || '-'} |`;
+  });
+  sections.push({
+    title: 'Appendix B: Approval Status',
+    body: [
+      '| Phase | Document | State | Approved By | Approved At |',
+      '|-------|----------|-------|-------------|-------------|',
+      ...approvalRows,
+    ].join('\n'),
+  });
+
+  const tasks = spec?.tasks && spec.tasks.total > 0 ? `${spec.tasks.completed} of ${spec.tasks.total} completed` : 'none';
+  const cover = [
+    `# ${title}`,
+    '',
+    `- **Project:** ${path.basename(workingDir)}`,
+    `- **Spec:** ${specName}`,
+    `- **Status:** ${spec?.status || 'not-started'}`,
+    `- **Tasks:** ${tasks}`,
+    `- **Exported:** ${now.toISOString().slice(0, 10)}`,
+  ];
+
+  const contents = ['# Contents', ''];
+  for (const section of sections) {
+    contents.push(`- ${headingLink(section.title)}`);
+    const headings = marked.lexer(section.body).flatMap((token) => (token.type === 'heading' ? [token as Tokens.Heading] : []));
+    const topLevel = Math.min(...headings.map((heading) => heading.depth));
+    contents.push(...headings.filter((heading) => heading.depth === topLevel).map((heading) => `  - ${headingLink(heading.text)}`));
+  }
+
+  const markdown = [
+    cover.join('\n'),
+    contents.join('\n'),
+    ...sections.map((section) => `# ${section.title}\n\n${section.body}`),
+  ].join('\n\n') + '\n';
+
+  return { spec: specName, title, markdown, sections: sections.map((section) => section.title) };
+}
+
+/**
+ * Write a spec as a single Word document, markdown bundle or print-ready HTML file
+ */
+export async function exportSpecDocumentData(
+  specName: string,
+  output: SpecExportOutput,
+  projectPath?: string,
+  file?: string
+): Promise<SpecExportResult> {
+  // Use provided project path or current working directory
+  const workingDir = path.resolve(projectPath || process.cwd());
+  const bundle = await buildSpecBundle(specName, workingDir);
+  const target = path.resolve(workingDir, file || `${specName}${SPEC_EXPORT_EXTENSIONS[output]}`);
+
+  let data: string | Buffer;
+  if (output === 'docx') {
+    data = markdownToDocx(bundle.markdown, { title: bundle.title });
+  } else if (output === 'pdf-html') {
+    data = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(bundle.title)}</title>
+<style>
+${PRINT_CSS}</style>
+</head>
+<body>
+<div class="markdown">
+${renderDocument(bundle.markdown)}</div>
+</body>
+</html>
+`;
+  } else {
+    data = bundle.markdown;
+  }
+
+  try {
+    mkdirSync(path.dirname(target), { recursive: true });
+    writeFileSync(target, data);
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not write ${target}: ${error instanceof Error ? error.message : error}`,
+      { path: target }
+    );
+  }
+
+  return { spec: specName, output, file: target, sections: bundle.sections };
+}
+
+/**
+ * Export a project's specs for people who don't run the dashboard
+ *
+ * Either the whole project as a static site (--html) or one spec as a single file (--output).
+ */
+export async function exportSpecs(
+  specName: string | undefined,
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  options: ExportOptions = {}
+): Promise<void> {
+  await runCommand(format, async (): Promise<HtmlExportResult | SpecExportResult> => {
+    if (options.html) {
+      if (specName || options.output) {
+        throw new UsageError('--html exports the whole project; drop the spec name and --output');
+      }
+      return exportHtmlData(options.html, projectPath);
+    }
+    if (!specName && !options.output) {
+      throw new UsageError('Choose what to export: --html <outdir> or <spec-name> --output <type>');
+    }
+    if (!specName) {
+      throw new UsageError('--output needs the name of the spec to export');
+    }
+    if (!options.output) {
+      throw new UsageError(`Choose an export layout: --output ${SPEC_EXPORT_OUTPUTS.join('|')}`);
+    }
+    return exportSpecDocumentData(specName, options.output, projectPath, options.file);
+  }, (result) => {
+    if ('output' in result) {
+      console.log(chalk.green(`✓ Exported ${result.spec} as ${result.output} to ${result.file}`));
+      return;
+    }
+    console.log(chalk.green(
+      `✓ Exported ${result.specs} specs, ${result.archivedSpecs} archived specs, ${result.bugs} bugs and ` +
+      `${result.steering} steering documents to ${result.outDir}`
+    ));
+    console.log(chalk.gray(`Open ${path.join(result.outDir, 'index.html')} in a browser`));
+  });
+}
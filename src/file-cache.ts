@@ -113,3 +113,32 @@ export function cleanExpiredCache(): void {
     }
   }
 }
+
+export interface ContextDocument {
+  /** File name relative to its directory */
+  name: string;
+  title: string;
+  path: string;
+  /** Trimmed file content */
+  content: string;
+}
+
+/**
+ * Load a fixed list of documents from a directory, skipping missing or empty files
+ * @param dir - Directory containing the documents
+ * @param files - File names and display titles, in output order
+ * @returns Documents with content, in the order given
+ */
+export function loadContextDocuments(dir: string, files: { name: string; title: string }[]): ContextDocument[] {
+  const documents: ContextDocument[] = [];
+
+  for (const file of files) {
+    const filePath = path.join(dir, file.name);
+    const content = getCachedFileContent(filePath);
+    if (content && content.trim()) {
+      documents.push({ name: file.name, title: file.title, path: filePath, content: content.trim() });
+    }
+  }
+
+  return documents;
+}
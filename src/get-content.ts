@@ -3,23 +3,29 @@
 import * as path from 'path';
 import chalk from 'chalk';
 import { getCachedFileContent } from './file-cache';
+import { NotFoundError, OutputFormat, runCommand } from './output';
 
-export async function getFileContent(filePath: string): Promise<void> {
-  try {
-    // Use shared caching utility
-    const content = getCachedFileContent(filePath);
-
-    if (content === null) {
-      console.error(chalk.red(`Error: File not found: ${path.resolve(filePath)}`));
-      process.exit(1);
-    }
+export interface FileContentResult {
+  path: string;
+  content: string;
+}
 
-    console.log(content);
+export function getFileContentData(filePath: string): FileContentResult {
+  // Use shared caching utility
+  const content = getCachedFileContent(filePath);
+  const resolvedPath = path.resolve(filePath);
 
-  } catch (error) {
-    console.error(chalk.red('Error reading file:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+  if (content === null) {
+    throw new NotFoundError(`File not found: ${resolvedPath}`, { path: resolvedPath });
   }
+
+  return { path: resolvedPath, content };
+}
+
+export async function getFileContent(filePath: string, format: OutputFormat = 'text'): Promise<void> {
+  await runCommand(format, () => getFileContentData(filePath), (result) => {
+    console.log(result.content);
+  });
 }
 
 // If this file is run directly (not imported)
@@ -34,4 +40,4 @@ if (require.main === module) {
   
   const filePath = args[0];
   getFileContent(filePath);
-}
\ No newline at end of file
+}
@@ -2,57 +2,58 @@
 
 import * as path from 'path';
 import chalk from 'chalk';
-import { getCachedFileContent, cachedFileExists } from './file-cache';
-
-export async function getSpecContext(specName: string, projectPath?: string): Promise<void> {
-  try {
-    // Use provided project path or current working directory
-    const workingDir = projectPath || process.cwd();
-
-    // Path to spec directory
-    const specDir = path.join(workingDir, '.claude', 'specs', specName);
-
-    // Check if spec directory exists
-    if (!cachedFileExists(specDir)) {
-      console.log(`## Specification Context\n\nNo specification found for: ${specName}`);
-      return;
-    }
-
-    const specFiles = [
-      { name: 'requirements.md', title: 'Requirements' },
-      { name: 'design.md', title: 'Design' },
-      { name: 'tasks.md', title: 'Tasks' }
-    ];
-
-    const sections: string[] = [];
-    let hasContent = false;
-
-    for (const file of specFiles) {
-      const filePath = path.join(specDir, file.name);
-
-      if (cachedFileExists(filePath)) {
-        const content = getCachedFileContent(filePath);
-        if (content && content.trim()) {
-          sections.push(`### ${file.title}\n${content.trim()}`);
-          hasContent = true;
-        }
-      }
-    }
-
-    if (!hasContent) {
-      console.log(`## Specification Context\n\nNo specification documents found for: ${specName}`);
-      return;
-    }
-
-    // Output formatted spec context
-    console.log(`## Specification Context (Pre-loaded): ${specName}`);
-    console.log('\n' + sections.join('\n\n---\n\n'));
-    console.log('\n**Note**: Specification documents have been pre-loaded. Do not use get-content to fetch them again.');
-
-  } catch (error) {
-    console.error(chalk.red('Error loading specification context:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+import { cachedFileExists, loadContextDocuments, ContextDocument } from './file-cache';
+import { OutputFormat, runCommand } from './output';
+
+export interface SpecContextResult {
+  spec: string;
+  /** False when the spec directory does not exist */
+  exists: boolean;
+  documents: ContextDocument[];
+}
+
+export function getSpecContextData(specName: string, projectPath?: string): SpecContextResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+
+  // Path to spec directory
+  const specDir = path.join(workingDir, '.claude', 'specs', specName);
+
+  // Check if spec directory exists
+  if (!cachedFileExists(specDir)) {
+    return { spec: specName, exists: false, documents: [] };
+  }
+
+  const specFiles = [
+    { name: 'requirements.md', title: 'Requirements' },
+    { name: 'design.md', title: 'Design' },
+    { name: 'tasks.md', title: 'Tasks' }
+  ];
+
+  return { spec: specName, exists: true, documents: loadContextDocuments(specDir, specFiles) };
+}
+
+function renderSpecContext(result: SpecContextResult): void {
+  if (!result.exists) {
+    console.log(`## Specification Context\n\nNo specification found for: ${result.spec}`);
+    return;
   }
+
+  if (result.documents.length === 0) {
+    console.log(`## Specification Context\n\nNo specification documents found for: ${result.spec}`);
+    return;
+  }
+
+  const sections = result.documents.map(doc => `### ${doc.title}\n${doc.content}`);
+
+  // Output formatted spec context
+  console.log(`## Specification Context (Pre-loaded): ${result.spec}`);
+  console.log('\n' + sections.join('\n\n---\n\n'));
+  console.log('\n**Note**: Specification documents have been pre-loaded. Do not use get-content to fetch them again.');
+}
+
+export async function getSpecContext(specName: string, projectPath?: string, format: OutputFormat = 'text'): Promise<void> {
+  await runCommand(format, () => getSpecContextData(specName, projectPath), renderSpecContext);
 }
 
 // If this file is run directly (not imported)
@@ -69,4 +70,4 @@ if (require.main === module) {
   const projectPath = args[1]; // Optional project path argument
 
   getSpecContext(specName, projectPath);
-}
\ No newline at end of file
+}
@@ -1,64 +1,148 @@
 #!/usr/bin/env node
 
 import * as path from 'path';
-import chalk from 'chalk';
-import { getCachedFileContent, cachedFileExists } from './file-cache';
+import { cachedFileExists, getCachedFileContent, ContextDocument } from './file-cache';
+import { NotFoundError, OutputFormat, UsageError, runCommand } from './output';
+import { describeSteeringInclusion, isSteeringDocumentIncluded, resolveSteeringDocuments, SteeringInclusion } from './steering';
+import { findTask, getTaskPaths, parseTaskDocument } from './tasks';
 
-export async function getSteeringContext(projectPath?: string): Promise<void> {
-  try {
-    // Use provided project path or current working directory
-    const workingDir = projectPath || process.cwd();
+export interface SteeringContextOptions {
+  /** Phases the context is for, e.g. design or implementation */
+  phases?: string[];
+  /** Project paths the work touches */
+  paths?: string[];
+  /** Spec and ID of a task whose mentioned paths are added to paths */
+  spec?: string;
+  task?: string;
+}
 
-    // Path to steering directory
-    const steeringDir = path.join(workingDir, '.claude', 'steering');
+export type SteeringContextDocument = ContextDocument & SteeringInclusion;
 
-    // Check if steering directory exists
-    if (!cachedFileExists(steeringDir)) {
-      console.log('## Steering Documents Context\n\nNo steering documents found.');
-      return;
-    }
+export interface SteeringContextResult {
+  /** False when neither the .claude/steering directory nor a pack has steering documents */
+  exists: boolean;
+  /** Documents merged with those of the project's packs, that apply to the phases and paths */
+  documents: SteeringContextDocument[];
+  phases?: string[];
+  paths?: string[];
+  /** Documents left out because their phases or paths do not apply */
+  excluded?: SteeringContextDocument[];
+}
 
-    const steeringFiles = [
-      { name: 'product.md', title: 'Product Context' },
-      { name: 'tech.md', title: 'Technology Context' },
-      { name: 'structure.md', title: 'Structure Context' }
-    ];
-
-    const sections: string[] = [];
-    let hasContent = false;
-
-    for (const file of steeringFiles) {
-      const filePath = path.join(steeringDir, file.name);
-
-      if (cachedFileExists(filePath)) {
-        const content = getCachedFileContent(filePath);
-        if (content && content.trim()) {
-          sections.push(`### ${file.title}\n${content.trim()}`);
-          hasContent = true;
-        }
-      }
-    }
+/**
+ * Paths the task mentions in its description, details and leverage line
+ */
+function readTaskPaths(workingDir: string, specName: string, taskId: string): string[] {
+  const tasksPath = path.join(workingDir, '.claude', 'specs', specName, 'tasks.md');
+  const content = getCachedFileContent(tasksPath);
+  if (content === null) {
+    throw new NotFoundError(`tasks.md not found at ${tasksPath}`, { spec: specName, path: tasksPath });
+  }
+  const task = findTask(parseTaskDocument(content), taskId);
+  if (!task) {
+    throw new NotFoundError(`Task ${taskId} not found in ${specName}`, { spec: specName, task: taskId });
+  }
+  return getTaskPaths(task);
+}
+
+/**
+ * Steering documents that apply to the given phases and paths
+ *
+ * Documents without `phases` or `paths` front-matter are always included;
+ * conditional ones only when their phases or paths apply (see
+ * isSteeringDocumentIncluded), so without options only the unconditional
+ * documents are.
+ */
+export function getSteeringContextData(projectPath?: string, options: SteeringContextOptions = {}): SteeringContextResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+
+  // Path to steering directory
+  const steeringDir = path.join(workingDir, '.claude', 'steering');
+
+  if (Boolean(options.spec) !== Boolean(options.task)) {
+    throw new UsageError('--spec and --task must be given together', { spec: options.spec, task: options.task });
+  }
+  const phases = options.phases || [];
+  const paths = [
+    ...(options.paths || []),
+    ...(options.spec && options.task ? readTaskPaths(workingDir, options.spec, options.task) : [])
+  ];
+
+  const resolved = resolveSteeringDocuments(workingDir).documents;
+
+  // Check if steering directory exists or a pack provides steering
+  if (!cachedFileExists(steeringDir) && resolved.length === 0) {
+    return { exists: false, documents: [] };
+  }
 
-    if (!hasContent) {
-      console.log('## Steering Documents Context\n\nNo steering documents found or all are empty.');
-      return;
+  const result: SteeringContextResult = { exists: true, documents: [] };
+  const excluded: SteeringContextDocument[] = [];
+  for (const document of resolved.filter((doc) => doc.content.trim())) {
+    const contextDocument: SteeringContextDocument = {
+      name: document.name,
+      title: document.title,
+      path: document.path,
+      content: document.content.trim(),
+      ...(document.phases ? { phases: document.phases } : {}),
+      ...(document.paths ? { paths: document.paths } : {})
+    };
+    if (isSteeringDocumentIncluded(document, { phases, paths })) {
+      result.documents.push(contextDocument);
+    } else {
+      excluded.push(contextDocument);
     }
+  }
+
+  if (phases.length > 0) {
+    result.phases = phases;
+  }
+  if (paths.length > 0) {
+    result.paths = [...new Set(paths)];
+  }
+  if (excluded.length > 0) {
+    result.excluded = excluded;
+  }
+  return result;
+}
+
+function renderSteeringContext(result: SteeringContextResult): void {
+  if (!result.exists) {
+    console.log('## Steering Documents Context\n\nNo steering documents found.');
+    return;
+  }
+
+  if (result.documents.length === 0) {
+    console.log('## Steering Documents Context\n\nNo steering documents found or all are empty.');
+  } else {
+    const sections = result.documents.map(doc => `### ${doc.title}\n${doc.content}`);
 
     // Output formatted steering context
     console.log('## Steering Documents Context (Pre-loaded)');
     console.log('\n' + sections.join('\n\n---\n\n'));
     console.log('\n**Note**: Steering documents have been pre-loaded. Do not use get-content to fetch them again.');
+  }
 
-  } catch (error) {
-    console.error(chalk.red('Error loading steering context:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+  if (result.excluded) {
+    console.log('\n**Not loaded** (they do not apply to this phase or these paths):');
+    for (const doc of result.excluded) {
+      console.log(`- ${doc.title} (${doc.name}; ${describeSteeringInclusion(doc)})`);
+    }
   }
 }
 
+export async function getSteeringContext(
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  options: SteeringContextOptions = {}
+): Promise<void> {
+  await runCommand(format, () => getSteeringContextData(projectPath, options), renderSteeringContext);
+}
+
 // If this file is run directly (not imported)
 if (require.main === module) {
   const args = process.argv.slice(2);
   const projectPath = args[0]; // Optional project path argument
 
   getSteeringContext(projectPath);
-}
\ No newline at end of file
+}
@@ -3,14 +3,34 @@
 import { writeFileSync } from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
-import { getCachedFileContent, cachedFileExists } from './file-cache';
+import { getCachedFileContent, cachedFileExists, clearCache } from './file-cache';
+import {
+  parseTaskDocument,
+  serializeTaskDocument,
+  flattenTasks,
+  findTask,
+  setTaskStatus,
+  setTaskMetadata,
+  validateTaskDependencies,
+  getRunnableTasks,
+  TaskDocument,
+  TaskNode,
+  TaskStatus
+} from './tasks';
+import { GitUtils, CommitInfo } from './git';
+import { FileAccessError, NotFoundError, OutputFormat, UsageError, ValidationError, runCommand } from './output';
 
 export interface TaskInfo {
   id: string;
   description: string;
   leverage?: string;
   requirements?: string;
+  dependencies?: string[];
+  status: TaskStatus;
   completed: boolean;
+  blockedReason?: string;
+  /** Hash of the commit linked to a completed task */
+  commit?: string;
   details?: string[];
 }
 
@@ -19,205 +39,331 @@ export interface TaskInfo {
  * Handles various formats agents might produce:
  * - [ ] 1. Task description (pending)
  * - [x] 2. Task description (completed)
+ * - [-] 3. Task description (in progress)
+ * - [!] 4. Task description (blocked, with a _Blocked: reason_ line)
+ * - [~] 5. Task description (skipped)
  * - [ ] 2.1 Subtask description  
  *   - Details
  *   - _Requirements: 1.1, 2.2_
+ *   - _Depends: 1, 2_
  *   - _Leverage: existing component X_
  */
 export function parseAllTasksFromMarkdown(content: string): TaskInfo[] {
-  const tasks: TaskInfo[] = [];
-  const lines = content.split('\n');
-  
-  let currentTask: TaskInfo | null = null;
-  let isCollectingTaskContent = false;
+  return flattenTasks(parseTaskDocument(content).tasks).map(toTaskInfo);
+}
+
+function toTaskInfo(task: TaskNode): TaskInfo {
+  const info: TaskInfo = {
+    id: task.id,
+    description: task.description,
+    status: task.status,
+    completed: task.completed,
+    details: task.details
+  };
+  if (task.blockedReason) {
+    info.blockedReason = task.blockedReason;
+  }
+  if (task.commit) {
+    info.commit = task.commit;
+  }
+  if (task.metadata.requirements) {
+    info.requirements = task.metadata.requirements;
+  }
+  if (task.dependencies.length > 0) {
+    info.dependencies = task.dependencies;
+  }
+  if (task.leverage) {
+    info.leverage = task.leverage;
+  }
+  return info;
+}
+
+export type TasksMode = 'all' | 'single' | 'next-pending' | 'runnable' | 'complete' | 'start' | 'block' | 'skip';
+
+export const TASKS_MODES: TasksMode[] = ['all', 'single', 'next-pending', 'runnable', 'complete', 'start', 'block', 'skip'];
+
+/** Modes that rewrite a task's checkbox, and the status each one sets */
+const UPDATE_MODE_STATUS = {
+  'complete': 'completed',
+  'start': 'in-progress',
+  'block': 'blocked',
+  'skip': 'skipped'
+} as const;
+
+type TasksUpdateMode = keyof typeof UPDATE_MODE_STATUS;
+
+export interface TasksOptions {
+  /** Reason recorded when blocking a task */
+  reason?: string;
+  /** `_Commit:_` value recorded when completing a task, e.g. `abc1234 (3 files, +45 -12)` */
+  commit?: string;
+  /** Replace the commit of a task that is already completed */
+  relinkCommit?: boolean;
+}
+
+export interface GetTasksOptions extends TasksOptions {
+  /**
+   * Commit to link when completing a task; HEAD when omitted, none when false.
+   * An unknown ref is an error, while a missing HEAD (no repository) is ignored.
+   */
+  commitRef?: string | false;
+}
+
+export type TasksResult =
+  | { mode: 'all'; spec: string; tasks: TaskInfo[] }
+  | { mode: 'single'; spec: string; task: TaskInfo }
+  | { mode: 'next-pending'; spec: string; task: TaskInfo | null }
+  | { mode: 'runnable'; spec: string; tasks: TaskInfo[] }
+  | { mode: TasksUpdateMode; spec: string; task: TaskInfo; changed: boolean };
+
+export interface TaskUpdateResult {
+  spec: string;
+  task: TaskInfo;
+  changed: boolean;
+}
+
+function getTasksPath(specName: string, projectPath?: string): string {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  return path.join(workingDir, '.claude', 'specs', specName, 'tasks.md');
+}
+
+function readTaskDocument(specName: string, tasksPath: string): TaskDocument {
+  // Check if tasks file exists and get content with caching
+  if (!cachedFileExists(tasksPath)) {
+    throw new NotFoundError(`tasks.md not found at ${tasksPath}`, { spec: specName, path: tasksPath });
+  }
+
+  // Read and parse tasks file with caching
+  const tasksContent = getCachedFileContent(tasksPath);
+  if (tasksContent === null) {
+    throw new FileAccessError(`Could not read tasks.md at ${tasksPath}`, { path: tasksPath });
+  }
+  return parseTaskDocument(tasksContent);
+}
+
+/**
+ * Rewrite a task's checkbox in tasks.md
+ *
+ * Used by the complete/start/block/skip modes and by the dashboard, which can
+ * also set a task back to pending. Only the task's own lines are changed.
+ */
+export function updateTaskStatusData(
+  specName: string,
+  taskId: string,
+  status: TaskStatus,
+  projectPath?: string,
+  options: TasksOptions = {}
+): TaskUpdateResult {
+  const tasksPath = getTasksPath(specName, projectPath);
+  const document = readTaskDocument(specName, tasksPath);
+  const node = findTask(document, taskId);
+  if (!node) {
+    throw new NotFoundError(`Task ${taskId} not found`, { spec: specName, taskId });
+  }
+  const task = toTaskInfo(node);
+
+  const reason = options.reason?.trim();
+  if (status === 'blocked' && !reason) {
+    throw new UsageError('A reason is required to block a task (use --reason)');
+  }
+  const commit = status === 'completed' ? options.commit?.trim() : undefined;
+  const linkCommit = !!commit && (task.status !== 'completed' || (!!options.relinkCommit && node.metadata.commit !== commit));
+  if (task.status === status && (status !== 'blocked' || task.blockedReason === reason) && !linkCommit) {
+    return { spec: specName, task, changed: false };
+  }
+
+  // Rewrite the task's checkbox in tasks.md
+  if (!setTaskStatus(document, task.id, status, reason)) {
+    throw new NotFoundError(`Could not find task ${task.id} to update`);
+  }
+  if (linkCommit) {
+    setTaskMetadata(document, task.id, 'Commit', commit);
+  }
+
+  try {
+    writeFileSync(tasksPath, serializeTaskDocument(document), 'utf-8');
+    clearCache(tasksPath);
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not write tasks.md at ${tasksPath}: ${error instanceof Error ? error.message : error}`,
+      { path: tasksPath }
+    );
+  }
+  return { spec: specName, task: toTaskInfo(findTask(document, task.id)!), changed: true };
+}
+
+/**
+ * Format a commit as a `_Commit:_` metadata value: short hash and diffstat
+ */
+export function formatCommitMetadata(commit: CommitInfo): string {
+  const files = `${commit.files.length} file${commit.files.length === 1 ? '' : 's'}`;
+  return `${commit.shortHash} (${files}, +${commit.insertions} -${commit.deletions})`;
+}
+
+/**
+ * Look up the commit to link to a completed task
+ *
+ * @param ref - Commit to link, or undefined for HEAD
+ * @returns The `_Commit:_` value, or undefined when there is no HEAD commit
+ */
+export async function resolveTaskCommit(projectPath: string | undefined, ref?: string): Promise<string | undefined> {
+  const commit = await GitUtils.getCommit(projectPath || process.cwd(), ref || 'HEAD');
+  if (!commit) {
+    if (ref) {
+      throw new NotFoundError(`Commit ${ref} not found`, { commit: ref });
+    }
+    return undefined;
+  }
+  return formatCommitMetadata(commit);
+}
+
+/**
+ * Run a get-tasks query (or a status update) and return its result
+ */
+export function getTasksData(
+  specName: string,
+  taskId?: string,
+  mode: TasksMode = 'all',
+  projectPath?: string,
+  options: TasksOptions = {}
+): TasksResult {
+  const document = readTaskDocument(specName, getTasksPath(specName, projectPath));
+  const tasks = flattenTasks(document.tasks).map(toTaskInfo);
+
+  const requireTask = (id: string | undefined): TaskInfo => {
+    if (!id) {
+      throw new UsageError(`Task ID required for ${mode} task mode`);
+    }
+    const task = tasks.find(t => t.id === id);
+    if (!task) {
+      throw new NotFoundError(`Task ${id} not found`, { spec: specName, taskId: id });
+    }
+    return task;
+  };
   
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmedLine = line.trim();
-    
-    // Match task lines with flexible format for both pending and completed:
-    // Supports: "- [ ] 1. Task", "- [x] 1. Task", "- [] 1 Task", etc.
-    // Also handles various spacing and punctuation
-    const taskMatch = trimmedLine.match(/^-\s*\[\s*([x\s]*)\s*\]\s*([0-9]+(?:\.[0-9]+)*)\s*\.?\s*(.+)$/);
-    
-    if (taskMatch) {
-      // If we have a previous task, save it
-      if (currentTask) {
-        tasks.push(currentTask);
-      }
+  // Handle different modes
+  switch (mode) {
+    case 'all':
+      return { mode, spec: specName, tasks };
       
-      // Determine if task is completed
-      const checkboxContent = taskMatch[1].trim();
-      const isCompleted = checkboxContent.toLowerCase() === 'x';
-      const taskId = taskMatch[2];
-      const taskDescription = taskMatch[3].trim();
+    case 'single':
+      return { mode, spec: specName, task: requireTask(taskId) };
       
-      currentTask = {
-        id: taskId,
-        description: taskDescription,
-        completed: isCompleted,
-        details: []
-      };
-      isCollectingTaskContent = true;
-    } 
-    // If we're in a task, look for metadata anywhere in the task block
-    else if (currentTask && isCollectingTaskContent) {
-      // Check if this line starts a new task section (to stop collecting)
-      if (trimmedLine.match(/^-\s*\[\s*[x\s]*\s*\]\s*[0-9]/)) {
-        // This is the start of a new task, process it in the next iteration
-        i--;
-        isCollectingTaskContent = false;
-        continue;
-      }
+    case 'next-pending': {
+      // Find the first task that still needs work and whose dependencies are done
+      const [next] = getValidatedRunnableTasks(specName, document);
+      return { mode, spec: specName, task: next ? toTaskInfo(next) : null };
+    }
+      
+    case 'runnable':
+      return { mode, spec: specName, tasks: getValidatedRunnableTasks(specName, document).map(toTaskInfo) };
       
-      // Check for _Requirements: anywhere in the line
-      const requirementsMatch = line.match(/_Requirements:\s*(.+?)(?:_|$)/);
-      if (requirementsMatch) {
-        currentTask.requirements = requirementsMatch[1].trim();
+    case 'complete':
+    case 'start':
+    case 'block':
+    case 'skip': {
+      const task = requireTask(taskId);
+      return { mode, ...updateTaskStatusData(specName, task.id, UPDATE_MODE_STATUS[mode], projectPath, options) };
+    }
+      
+    default:
+      throw new UsageError(`Unknown mode ${mode}`);
+  }
+}
+
+/**
+ * Runnable tasks of a document, refusing to guess when the dependency graph is broken
+ */
+function getValidatedRunnableTasks(specName: string, document: TaskDocument): TaskNode[] {
+  const issues = validateTaskDependencies(document.tasks);
+  if (issues.length > 0) {
+    throw new ValidationError(
+      `Invalid task dependencies in ${specName}/tasks.md:\n${issues.map(issue => `  - ${issue.message}`).join('\n')}`,
+      { spec: specName, issues: issues.map(({ type, taskId, ids }) => ({ type, taskId, ids })) }
+    );
+  }
+  return getRunnableTasks(document.tasks);
+}
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  'pending': 'pending',
+  'in-progress': 'in progress',
+  'completed': 'complete',
+  'blocked': 'blocked',
+  'skipped': 'skipped'
+};
+
+function renderTasks(result: TasksResult): void {
+  switch (result.mode) {
+    case 'all':
+      if (result.tasks.length === 0) {
+        console.log('No tasks found');
+      } else {
+        // Return all tasks as JSON
+        console.log(JSON.stringify(result.tasks, null, 2));
       }
+      break;
       
-      // Check for _Leverage: anywhere in the line
-      const leverageMatch = line.match(/_Leverage:\s*(.+?)(?:_|$)/);
-      if (leverageMatch) {
-        currentTask.leverage = leverageMatch[1].trim();
+    case 'single':
+      console.log(JSON.stringify(result.task, null, 2));
+      break;
+      
+    case 'next-pending':
+      if (result.task) {
+        console.log(JSON.stringify(result.task, null, 2));
+      } else {
+        console.log('No pending tasks found');
       }
+      break;
       
-      // Collect all detail lines (indented content that's not metadata)
-      if (trimmedLine && 
-          !requirementsMatch && 
-          !leverageMatch && 
-          (line.startsWith('  ') || line.startsWith('\t')) &&
-          !trimmedLine.startsWith('_') &&
-          currentTask.details) {
-        currentTask.details.push(trimmedLine);
+    case 'runnable':
+      if (result.tasks.length === 0) {
+        console.log('No runnable tasks found');
+      } else {
+        console.log(JSON.stringify(result.tasks, null, 2));
       }
+      break;
       
-      // Stop collecting if we hit an empty line followed by non-indented content
-      if (trimmedLine === '' && i + 1 < lines.length) {
-        const nextLine = lines[i + 1];
-        if (nextLine.length > 0 && nextLine[0] !== ' ' && nextLine[0] !== '\t' && !nextLine.startsWith('  -')) {
-          isCollectingTaskContent = false;
-        }
+    default: {
+      const { task } = result;
+      const label = STATUS_LABELS[task.status];
+      if (result.changed) {
+        const reasonText = task.blockedReason ? `: ${task.blockedReason}` : '';
+        const commitText = task.commit ? ` (commit ${task.commit})` : '';
+        console.log(chalk.green(`✓ Task ${task.id} marked as ${label}${reasonText}${commitText}`));
+      } else {
+        console.log(chalk.yellow(`Task ${task.id} is already ${label}`));
       }
+      break;
     }
   }
-  
-  // Don't forget the last task
-  if (currentTask) {
-    tasks.push(currentTask);
-  }
-  
-  return tasks;
 }
 
 /**
  * Get tasks from a specification's tasks.md file
+ *
+ * Completing a task links it to a commit (HEAD unless options.commitRef says otherwise).
  */
 export async function getTasks(
   specName: string,
   taskId?: string,
-  mode: 'all' | 'single' | 'next-pending' | 'complete' = 'all',
-  projectPath?: string
+  mode: TasksMode = 'all',
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  options: GetTasksOptions = {}
 ): Promise<void> {
-  try {
-    // Use provided project path or current working directory
-    const workingDir = projectPath || process.cwd();
-    
-    // Path to tasks.md
-    const tasksPath = path.join(workingDir, '.claude', 'specs', specName, 'tasks.md');
-    
-    // Check if tasks file exists and get content with caching
-    if (!cachedFileExists(tasksPath)) {
-      console.error(chalk.red(`Error: tasks.md not found at ${tasksPath}`));
-      process.exit(1);
-    }
-
-    // Read and parse tasks file with caching
-    const tasksContent = getCachedFileContent(tasksPath);
-    if (!tasksContent) {
-      console.error(chalk.red(`Error: Could not read tasks.md at ${tasksPath}`));
-      process.exit(1);
-    }
-    const tasks = parseAllTasksFromMarkdown(tasksContent);
-    
-    if (tasks.length === 0) {
-      console.log('No tasks found');
-      return;
-    }
-    
-    // Handle different modes
-    switch (mode) {
-      case 'all':
-        // Return all tasks as JSON
-        console.log(JSON.stringify(tasks, null, 2));
-        break;
-        
-      case 'single': {
-        if (!taskId) {
-          console.error(chalk.red('Error: Task ID required for single task mode'));
-          process.exit(1);
-        }
-        const singleTask = tasks.find(t => t.id === taskId);
-        if (singleTask) {
-          console.log(JSON.stringify(singleTask, null, 2));
-        } else {
-          console.error(chalk.red(`Error: Task ${taskId} not found`));
-          process.exit(1);
-        }
-        break;
+  await runCommand(format, async () => {
+    const { commitRef, ...taskOptions } = options;
+    if (mode === 'complete' && commitRef !== false) {
+      const commit = await resolveTaskCommit(projectPath, commitRef);
+      if (commit) {
+        taskOptions.commit = commit;
+        taskOptions.relinkCommit = !!commitRef;
       }
-        
-      case 'next-pending': {
-        // Find the first pending task
-        const nextTask = tasks.find(t => !t.completed);
-        if (nextTask) {
-          console.log(JSON.stringify(nextTask, null, 2));
-        } else {
-          console.log('No pending tasks found');
-        }
-        break;
-      }
-        
-      case 'complete': {
-        if (!taskId) {
-          console.error(chalk.red('Error: Task ID required for complete task mode'));
-          process.exit(1);
-        }
-        const taskToComplete = tasks.find(t => t.id === taskId);
-        if (!taskToComplete) {
-          console.error(chalk.red(`Error: Task ${taskId} not found`));
-          process.exit(1);
-        }
-        if (taskToComplete.completed) {
-          console.log(chalk.yellow(`Task ${taskId} is already completed`));
-          return;
-        }
-        
-        // Update the tasks.md file to mark task as complete
-        const updatedContent = tasksContent.replace(
-          new RegExp(`^(\\s*-\\s*\\[)\\s*(\\]\\s*${taskId.replace(/\./g, '\\.')}\\s*\\.?\\s*.+)$`, 'm'),
-          '$1x$2'
-        );
-        
-        if (updatedContent === tasksContent) {
-          console.error(chalk.red(`Error: Could not find task ${taskId} to mark as complete`));
-          process.exit(1);
-        }
-        
-        writeFileSync(tasksPath, updatedContent, 'utf-8');
-        console.log(chalk.green(`✓ Task ${taskId} marked as complete`));
-        break;
-      }
-        
-      default:
-        console.error(chalk.red(`Error: Unknown mode ${mode}`));
-        process.exit(1);
     }
-    
-  } catch (error) {
-    console.error(chalk.red('Error reading tasks:'), error instanceof Error ? error.message : error);
-    process.exit(1);
-  }
+    return getTasksData(specName, taskId, mode, projectPath, taskOptions);
+  }, renderTasks);
 }
 
 // If this file is run directly (not imported)
@@ -226,19 +372,24 @@ if (require.main === module) {
   
   if (args.length === 0) {
     console.error(chalk.red('Error: Please provide a spec name'));
-    console.log(chalk.gray('Usage: get-tasks <spec-name> [task-id] [--mode all|single|next-pending|complete] [--project /path/to/project]'));
+    console.log(chalk.gray('Usage: get-tasks <spec-name> [task-id] [--mode all|single|next-pending|runnable|complete|start|block|skip] [--reason text] [--commit ref|--no-commit] [--project /path/to/project]'));
     console.log(chalk.gray('Examples:'));
     console.log(chalk.gray('  get-tasks user-auth                    # Get all tasks'));
     console.log(chalk.gray('  get-tasks user-auth 1.2                # Get specific task'));
     console.log(chalk.gray('  get-tasks user-auth --mode next-pending # Get next pending task'));
+    console.log(chalk.gray('  get-tasks user-auth --mode runnable     # Get all tasks whose dependencies are done'));
     console.log(chalk.gray('  get-tasks user-auth 1.2 --mode complete # Mark task 1.2 as complete'));
+    console.log(chalk.gray('  get-tasks user-auth 1.2 --mode start    # Mark task 1.2 as in progress'));
+    console.log(chalk.gray('  get-tasks user-auth 1.2 --mode block --reason "Waiting on API keys"'));
     process.exit(1);
   }
   
   const specName = args[0];
   let taskId: string | undefined;
-  let mode: 'all' | 'single' | 'next-pending' | 'complete' = 'all';
+  let mode: TasksMode = 'all';
   let projectPath: string | undefined;
+  let reason: string | undefined;
+  let commitRef: string | false | undefined;
   
   // Parse arguments
   for (let i = 1; i < args.length; i++) {
@@ -246,13 +397,21 @@ if (require.main === module) {
     
     if (arg === '--mode') {
       const modeValue = args[i + 1];
-      if (modeValue && ['all', 'single', 'next-pending', 'complete'].includes(modeValue)) {
-        mode = modeValue as 'all' | 'single' | 'next-pending' | 'complete';
+      if (modeValue && (TASKS_MODES as string[]).includes(modeValue)) {
+        mode = modeValue as TasksMode;
         i++; // Skip next arg since we consumed it
       } else {
-        console.error(chalk.red('Error: Invalid mode. Use: all, single, next-pending, or complete'));
+        console.error(chalk.red(`Error: Invalid mode. Use: ${TASKS_MODES.join(', ')}`));
         process.exit(1);
       }
+    } else if (arg === '--reason') {
+      reason = args[i + 1];
+      i++; // Skip next arg since we consumed it
+    } else if (arg === '--commit') {
+      commitRef = args[i + 1];
+      i++; // Skip next arg since we consumed it
+    } else if (arg === '--no-commit') {
+      commitRef = false;
     } else if (arg === '--project') {
       projectPath = args[i + 1];
       if (!projectPath) {
@@ -271,11 +430,11 @@ if (require.main === module) {
     mode = 'single';
   }
   
-  // If complete mode is used, task ID is required
-  if (mode === 'complete' && !taskId) {
-    console.error(chalk.red('Error: Task ID required for complete mode'));
+  // Status update modes require a task ID
+  if (mode in UPDATE_MODE_STATUS && !taskId) {
+    console.error(chalk.red(`Error: Task ID required for ${mode} mode`));
     process.exit(1);
   }
   
-  getTasks(specName, taskId, mode, projectPath);
+  getTasks(specName, taskId, mode, projectPath, 'text', { reason, commitRef });
 }
\ No newline at end of file
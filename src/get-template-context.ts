@@ -1,86 +1,97 @@
 #!/usr/bin/env node
 
 import * as path from 'path';
-import chalk from 'chalk';
-import { getCachedFileContent, cachedFileExists } from './file-cache';
-
-export async function getTemplateContext(templateType?: string, projectPath?: string): Promise<void> {
-  try {
-    // Use provided project path or current working directory
-    const workingDir = projectPath || process.cwd();
+import { cachedFileExists, loadContextDocuments, ContextDocument } from './file-cache';
+import { OutputFormat, runCommand } from './output';
+import { resolveTemplate } from './template-overrides';
+
+export interface TemplateContextResult {
+  /** Requested template category, or null when all templates were loaded */
+  type: string | null;
+  /** False when the .claude/templates directory does not exist */
+  exists: boolean;
+  templates: ContextDocument[];
+}
 
-    // Path to templates directory
-    const templatesDir = path.join(workingDir, '.claude', 'templates');
+export function getTemplateContextData(templateType?: string, projectPath?: string): TemplateContextResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
 
-    // Check if templates directory exists
-    if (!cachedFileExists(templatesDir)) {
-      console.log('## Template Context\n\nNo templates directory found.');
-      return;
-    }
+  // Path to templates directory
+  const templatesDir = path.join(workingDir, '.claude', 'templates');
+  const type = templateType || null;
 
-    // Define template categories
-    const templateCategories = {
-      'spec': [
-        { name: 'requirements-template.md', title: 'Requirements Template' },
-        { name: 'design-template.md', title: 'Design Template' },
-        { name: 'tasks-template.md', title: 'Tasks Template' }
-      ],
-      'steering': [
-        { name: 'product-template.md', title: 'Product Template' },
-        { name: 'tech-template.md', title: 'Technology Template' },
-        { name: 'structure-template.md', title: 'Structure Template' }
-      ],
-      'bug': [
-        { name: 'bug-report-template.md', title: 'Bug Report Template' },
-        { name: 'bug-analysis-template.md', title: 'Bug Analysis Template' },
-        { name: 'bug-verification-template.md', title: 'Bug Verification Template' }
-      ],
-      'all': [] as { name: string; title: string; }[] // Will be populated with all templates
-    };
-
-    // Populate 'all' category with all templates
-    templateCategories.all = [
-      ...templateCategories.spec,
-      ...templateCategories.steering,
-      ...templateCategories.bug
-    ];
-
-    // Determine which templates to load
-    const templatesToLoad = templateType && templateCategories[templateType as keyof typeof templateCategories]
-      ? templateCategories[templateType as keyof typeof templateCategories]
-      : templateCategories.all;
-
-    const sections: string[] = [];
-    let hasContent = false;
-
-    for (const template of templatesToLoad) {
-      const filePath = path.join(templatesDir, template.name);
-
-      if (cachedFileExists(filePath)) {
-        const content = getCachedFileContent(filePath);
-        if (content && content.trim()) {
-          sections.push(`### ${template.title}\n${content.trim()}`);
-          hasContent = true;
-        }
-      }
-    }
+  // Check if templates directory exists
+  if (!cachedFileExists(templatesDir)) {
+    return { type, exists: false, templates: [] };
+  }
 
-    if (!hasContent) {
-      const typeText = templateType ? ` for type: ${templateType}` : '';
-      console.log(`## Template Context\n\nNo templates found${typeText}.`);
-      return;
-    }
+  // Define template categories
+  const templateCategories = {
+    'spec': [
+      { name: 'requirements-template.md', title: 'Requirements Template' },
+      { name: 'design-template.md', title: 'Design Template' },
+      { name: 'tasks-template.md', title: 'Tasks Template' }
+    ],
+    'steering': [
+      { name: 'product-template.md', title: 'Product Template' },
+      { name: 'tech-template.md', title: 'Technology Template' },
+      { name: 'structure-template.md', title: 'Structure Template' }
+    ],
+    'bug': [
+      { name: 'bug-report-template.md', title: 'Bug Report Template' },
+      { name: 'bug-analysis-template.md', title: 'Bug Analysis Template' },
+      { name: 'bug-verification-template.md', title: 'Bug Verification Template' }
+    ],
+    'all': [] as { name: string; title: string; }[] // Will be populated with all templates
+  };
+
+  // Populate 'all' category with all templates
+  templateCategories.all = [
+    ...templateCategories.spec,
+    ...templateCategories.steering,
+    ...templateCategories.bug
+  ];
+
+  // Determine which templates to load
+  const templatesToLoad = templateType && templateCategories[templateType as keyof typeof templateCategories]
+    ? templateCategories[templateType as keyof typeof templateCategories]
+    : templateCategories.all;
+
+  // Packs and overrides win over the copied templates, even before they have been applied
+  const templates = loadContextDocuments(templatesDir, templatesToLoad).map((template) => {
+    const resolved = resolveTemplate(template.name, workingDir);
+    return resolved && (resolved.override || resolved.packs.length > 0)
+      ? { ...template, content: resolved.content.trim() }
+      : template;
+  });
+
+  return { type, exists: true, templates };
+}
 
-    // Output formatted template context
-    const typeText = templateType ? ` (${templateType})` : '';
-    console.log(`## Template Context (Pre-loaded)${typeText}`);
-    console.log('\n' + sections.join('\n\n---\n\n'));
-    console.log('\n**Note**: Templates have been pre-loaded. Do not use get-content to fetch them again.');
+function renderTemplateContext(result: TemplateContextResult): void {
+  if (!result.exists) {
+    console.log('## Template Context\n\nNo templates directory found.');
+    return;
+  }
 
-  } catch (error) {
-    console.error(chalk.red('Error loading template context:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+  if (result.templates.length === 0) {
+    const typeText = result.type ? ` for type: ${result.type}` : '';
+    console.log(`## Template Context\n\nNo templates found${typeText}.`);
+    return;
   }
+
+  const sections = result.templates.map(template => `### ${template.title}\n${template.content}`);
+
+  // Output formatted template context
+  const typeText = result.type ? ` (${result.type})` : '';
+  console.log(`## Template Context (Pre-loaded)${typeText}`);
+  console.log('\n' + sections.join('\n\n---\n\n'));
+  console.log('\n**Note**: Templates have been pre-loaded. Do not use get-content to fetch them again.');
+}
+
+export async function getTemplateContext(templateType?: string, projectPath?: string, format: OutputFormat = 'text'): Promise<void> {
+  await runCommand(format, () => getTemplateContextData(templateType, projectPath), renderTemplateContext);
 }
 
 // If this file is run directly (not imported)
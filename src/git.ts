@@ -6,7 +6,153 @@ export interface GitInfo {
   githubUrl?: string;
 }
 
+/** A committed version of a file */
+export interface FileRevision {
+  hash: string;
+  author: string;
+  email: string;
+  /** Author date, ISO 8601 */
+  date: string;
+  /** Path of the file in this commit, relative to the repository root */
+  path: string;
+  content: string;
+}
+
+/** Lines changed in one file of a commit; binary files count as 0 */
+export interface CommitFileChange {
+  path: string;
+  insertions: number;
+  deletions: number;
+}
+
+export interface CommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  /** Author date, ISO 8601 */
+  date: string;
+  subject: string;
+  files: CommitFileChange[];
+  insertions: number;
+  deletions: number;
+}
+
+export interface CommitPatch {
+  patch: string;
+  /** Whether the patch was cut off at the requested length */
+  truncated: boolean;
+}
+
 export class GitUtils {
+  /**
+   * A commit with its diffstat
+   *
+   * Returns null outside a git repository or when the ref does not resolve to a commit.
+   */
+  static async getCommit(projectPath: string, ref = 'HEAD'): Promise<CommitInfo | null> {
+    if (ref.startsWith('-')) {
+      return null;
+    }
+
+    try {
+      const git: SimpleGit = simpleGit(projectPath);
+      if (!(await git.checkIsRepo())) {
+        return null;
+      }
+
+      const output = await git.raw(['show', '--numstat', '--format=%H%x1f%h%x1f%an%x1f%ae%x1f%aI%x1f%s', `${ref}^{commit}`, '--']);
+      const [header = '', ...stats] = output.split('\n');
+      const [hash = '', shortHash = '', author = '', email = '', date = '', subject = ''] = header.split('\x1f');
+      const files = stats
+        .map((line) => line.split('\t'))
+        .filter((fields): fields is [string, string, string] => fields.length === 3)
+        .map(([insertions, deletions, path]) => ({
+          path,
+          insertions: parseInt(insertions, 10) || 0,
+          deletions: parseInt(deletions, 10) || 0,
+        }));
+
+      return {
+        hash,
+        shortHash,
+        author,
+        email,
+        date,
+        subject,
+        files,
+        insertions: files.reduce((sum, file) => sum + file.insertions, 0),
+        deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+      };
+    } catch {
+      // Not a git repository, git not available or unknown ref
+      return null;
+    }
+  }
+
+  /**
+   * The diff a commit introduced, cut off after maxLength characters
+   *
+   * Returns null outside a git repository or when the ref does not resolve to a commit.
+   */
+  static async getCommitPatch(projectPath: string, ref: string, maxLength = 20000): Promise<CommitPatch | null> {
+    if (ref.startsWith('-')) {
+      return null;
+    }
+
+    try {
+      const git: SimpleGit = simpleGit(projectPath);
+      const patch = await git.raw(['show', '--format=', '--patch', `${ref}^{commit}`, '--']);
+      const trimmed = patch.replace(/^\n+/, '');
+      return trimmed.length > maxLength
+        ? { patch: trimmed.slice(0, maxLength), truncated: true }
+        : { patch: trimmed, truncated: false };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Every committed version of a file, oldest first, following renames
+   *
+   * Returns an empty list outside a git repository or for untracked files.
+   * Commits that deleted the file are left out.
+   */
+  static async getFileRevisions(projectPath: string, filePath: string): Promise<FileRevision[]> {
+    const revisions: FileRevision[] = [];
+
+    try {
+      const git: SimpleGit = simpleGit(projectPath);
+      if (!(await git.checkIsRepo())) {
+        return revisions;
+      }
+
+      // One record per commit: header fields, then the file's path in that commit
+      const log = await git.raw(['log', '--follow', '--format=%x1e%H%x1f%an%x1f%ae%x1f%aI', '--name-only', '--', filePath]);
+      const commits = log
+        .split('\x1e')
+        .filter((record) => record.trim())
+        .map((record) => {
+          const [header = '', ...names] = record.split('\n').filter((line) => line.trim());
+          const [hash = '', author = '', email = '', date = ''] = header.split('\x1f');
+          return { hash, author, email, date, path: names[names.length - 1] || '' };
+        })
+        .reverse();
+
+      for (const commit of commits) {
+        try {
+          revisions.push({ ...commit, content: await git.show([`${commit.hash}:${commit.path}`]) });
+        } catch {
+          // The file was deleted in this commit
+        }
+      }
+    } catch {
+      // Not a git repository or git not available
+    }
+
+    return revisions;
+  }
+
   static async getGitInfo(projectPath: string): Promise<GitInfo> {
     const info: GitInfo = {};
 
@@ -0,0 +1,474 @@
+/**
+ * Deterministic spec linting
+ * Checks requirements.md, design.md and tasks.md against the section headings
+ * of the spec templates and the task conventions the workflow relies on. This
+ * covers the mechanical part of what the spec validator agents check, so it
+ * can run in CI and fix simple formatting problems without an LLM.
+ */
+
+import { readdirSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { getCachedFileContent, cachedFileExists, clearCache } from './file-cache';
+import { getRequirementsTemplate, getDesignTemplate, getTasksTemplate, TEMPLATE_GUIDANCE_SECTIONS } from './templates';
+import { parseTaskDocument, flattenTasks, validateTaskDependencies, TASK_STATUS_MARKERS } from './tasks';
+import { buildTraceMatrix, TraceableRequirement } from './traceability';
+import { SpecParser } from './dashboard/parser';
+import { EXIT_CODES, FileAccessError, NotFoundError, OutputFormat, runCommand } from './output';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintRule =
+  | 'missing-section'
+  | 'checkbox-format'
+  | 'task-id'
+  | 'duplicate-task-id'
+  | 'missing-requirements'
+  | 'unknown-requirement'
+  | 'task-dependency'
+  | 'metadata-format'
+  | 'acceptance-criteria';
+
+export interface LintDiagnostic {
+  /** Path relative to the project root, with forward slashes */
+  file: string;
+  /** 1-based line number */
+  line: number;
+  severity: LintSeverity;
+  rule: LintRule;
+  message: string;
+  /** Whether `--fix` can correct the problem */
+  fixable: boolean;
+}
+
+export interface LintOptions {
+  /** Rewrite files to correct fixable problems */
+  fix?: boolean;
+}
+
+export interface LintResult {
+  /** Specs that were linted */
+  specs: string[];
+  /** Problems remaining after any fixes */
+  diagnostics: LintDiagnostic[];
+  errorCount: number;
+  warningCount: number;
+  /** Number of problems corrected by `--fix` */
+  fixed: number;
+}
+
+interface DocumentLint {
+  diagnostics: Omit<LintDiagnostic, 'file'>[];
+  /** Corrected text for fixable lines, keyed by 0-based line index */
+  fixes: Map<number, string>;
+}
+
+const SPEC_DOCUMENTS = [
+  { name: 'requirements.md', template: 'requirements-template.md', fallback: getRequirementsTemplate },
+  { name: 'design.md', template: 'design-template.md', fallback: getDesignTemplate },
+  { name: 'tasks.md', template: 'tasks-template.md', fallback: getTasksTemplate }
+];
+
+// A list item starting with a short bracketed marker (but not a markdown link)
+const TASK_ITEM_REGEX = /^(\s*)([-*+])(\s*)\[([^\]]{0,3})\](?!\()(\s*)(.*)$/;
+const TASK_ID_REGEX = /^(\*\*)?(\d+(?:\.\d+)*)(\.?)(\*\*)?(\s+)/;
+const OPEN_METADATA_REGEX = /^(\s*(?:[-*+]\s+)?)_([A-Za-z][A-Za-z -]*):\s*(.*?)\s*$/;
+const REQUIREMENT_HEADING_REGEX = /^(#{2,3})\s+(?:Requirement\s+(\d+)\b|(\d+)\.\s|((?:FR|NFR)-\d+):)/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const EARS_REGEX = /\bshall\b/i;
+const VALID_MARKERS = Object.values(TASK_STATUS_MARKERS);
+
+function splitLines(content: string): string[] {
+  return content.split(/\r?\n/);
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.replace(/^#+\s*/, '').trim().toLowerCase();
+}
+
+/**
+ * Level-2 section headings of a template, in order, leaving out the guidance sections given
+ */
+export function getTemplateSections(template: string, guidance: string[] = []): string[] {
+  const skipped = new Set(guidance.map((section) => section.toLowerCase()));
+  return splitLines(template)
+    .filter((line) => /^##\s+\S/.test(line))
+    .map((line) => line.replace(/^##\s+/, '').trim())
+    .filter((section) => !skipped.has(section.toLowerCase()));
+}
+
+/**
+ * Report template sections missing from a document
+ */
+export function lintSections(content: string, sections: string[]): DocumentLint {
+  const present = new Set(
+    splitLines(content)
+      .filter((line) => /^##\s+\S/.test(line))
+      .map(normalizeHeading)
+  );
+
+  return {
+    diagnostics: sections
+      .filter((section) => !present.has(section.toLowerCase()))
+      .map((section) => ({
+        line: 1,
+        severity: 'warning' as const,
+        rule: 'missing-section' as const,
+        message: `Missing template section "## ${section}"`,
+        fixable: false
+      })),
+    fixes: new Map()
+  };
+}
+
+/**
+ * Check that requirements with a user story have EARS-style acceptance criteria
+ * ("WHEN/IF ... THEN the system SHALL ...")
+ */
+export function lintRequirements(content: string): DocumentLint {
+  const lines = splitLines(content);
+  const diagnostics: DocumentLint['diagnostics'] = [];
+
+  interface Block { id: string; line: number; level: number; hasUserStory: boolean; criteria: { line: number; text: string }[] }
+  let block: Block | null = null;
+  let inCriteria = false;
+
+  const finish = (): void => {
+    if (!block || !block.hasUserStory) return;
+    const ears = block.criteria.filter((criterion) => EARS_REGEX.test(criterion.text));
+    if (ears.length === 0) {
+      diagnostics.push({
+        line: block.line,
+        severity: 'error',
+        rule: 'acceptance-criteria',
+        message: `Requirement ${block.id} has a user story but no EARS-style acceptance criteria (WHEN/IF ... THEN ... SHALL ...)`,
+        fixable: false
+      });
+      return;
+    }
+    for (const criterion of block.criteria) {
+      if (!EARS_REGEX.test(criterion.text)) {
+        diagnostics.push({
+          line: criterion.line,
+          severity: 'warning',
+          rule: 'acceptance-criteria',
+          message: `Acceptance criterion of requirement ${block.id} is not in EARS format (missing SHALL)`,
+          fixable: false
+        });
+      }
+    }
+  };
+
+  lines.forEach((line, index) => {
+    const heading = line.match(REQUIREMENT_HEADING_REGEX);
+    const headingLevel = line.match(/^(#+)\s/)?.[1]?.length ?? 0;
+
+    if (heading) {
+      finish();
+      block = {
+        id: heading[2] || heading[3] || heading[4] || '',
+        line: index + 1,
+        level: heading[1]?.length ?? 0,
+        hasUserStory: false,
+        criteria: []
+      };
+      inCriteria = false;
+      return;
+    }
+
+    if (!block) return;
+
+    if (headingLevel > 0 && headingLevel <= block.level) {
+      finish();
+      block = null;
+      return;
+    }
+
+    if (line.includes('**User Story:**')) {
+      block.hasUserStory = true;
+    } else if (/Acceptance Criteria/i.test(line) && (headingLevel > 0 || line.includes('**'))) {
+      inCriteria = true;
+    } else if (inCriteria && /^\s*(?:\d+\.|[-*+])\s+\S/.test(line)) {
+      block.criteria.push({ line: index + 1, text: line.replace(/^\s*(?:\d+\.|[-*+])\s+/, '').trim() });
+    }
+  });
+  finish();
+
+  return { diagnostics, fixes: new Map() };
+}
+
+/**
+ * Check task lines, IDs, metadata and references of a tasks.md document
+ *
+ * @param content - tasks.md content
+ * @param requirements - Requirements from requirements.md, or null to skip reference checks
+ */
+export function lintTasks(content: string, requirements: TraceableRequirement[] | null): DocumentLint {
+  const lines = splitLines(content);
+  const diagnostics: DocumentLint['diagnostics'] = [];
+  const fixes = new Map<number, string>();
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (FENCE_REGEX.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+
+    const report = (rule: LintRule, message: string, fixed?: string): void => {
+      diagnostics.push({ line: index + 1, severity: 'error', rule, message, fixable: fixed !== undefined });
+      if (fixed !== undefined) fixes.set(index, fixed);
+    };
+
+    const item = line.match(TASK_ITEM_REGEX);
+    if (item) {
+      const [, indent = '', bullet = '', bulletSpace = '', rawMarker = '', markerSpace = '', rest = ''] = item;
+      const marker = rawMarker.trim().toLowerCase();
+
+      if (marker.length > 1 || !VALID_MARKERS.includes(marker || ' ')) {
+        report('checkbox-format', `Unknown checkbox marker "[${rawMarker}]"; use [ ], [-], [x], [!] or [~]`);
+        return;
+      }
+
+      const idMatch = rest.match(TASK_ID_REGEX);
+      if (!idMatch) {
+        report('task-id', 'Task has no number; use "- [ ] 1. Task description"');
+        return;
+      }
+
+      const [idText = '', leadingBold, id = '', dot, closingBold] = idMatch;
+      const canonicalMarker = marker || ' ';
+      const needsDot = !dot && !id.includes('.') && !(leadingBold && !closingBold);
+      const canonicalRest = needsDot
+        ? `${leadingBold || ''}${id}.${closingBold || ''} ${rest.slice(idText.length)}`
+        : rest;
+      const canonical = `${indent}- [${canonicalMarker}] ${canonicalRest}`;
+
+      if (canonical !== line) {
+        const problems: string[] = [];
+        if (bullet !== '-' || bulletSpace !== ' ') problems.push('list items start with "- "');
+        if (rawMarker !== canonicalMarker) problems.push(`checkboxes are written "[${canonicalMarker}]"`);
+        if (markerSpace !== ' ') problems.push('one space follows the checkbox');
+        if (needsDot) problems.push(`task numbers end with a dot ("${id}.")`);
+        report('checkbox-format', `Invalid task format: ${problems.join(', ') || 'expected "- [ ] 1. Task description"'}`, canonical);
+      }
+      return;
+    }
+
+    const metadata = line.match(OPEN_METADATA_REGEX);
+    if (metadata && !metadata[3]?.endsWith('_')) {
+      const [, prefix = '', key = '', value = ''] = metadata;
+      diagnostics.push({
+        line: index + 1,
+        severity: 'warning',
+        rule: 'metadata-format',
+        message: `"_${key}:" metadata is not closed with "_"`,
+        fixable: true
+      });
+      fixes.set(index, `${prefix}_${key}: ${value}_`);
+    }
+  });
+
+  const document = parseTaskDocument(content);
+  const tasks = flattenTasks(document.tasks);
+
+  const seen = new Map<string, number>();
+  for (const task of tasks) {
+    const first = seen.get(task.id);
+    if (first !== undefined) {
+      diagnostics.push({
+        line: task.line,
+        severity: 'error',
+        rule: 'duplicate-task-id',
+        message: `Duplicate task ID ${task.id} (first used on line ${first})`,
+        fixable: false
+      });
+    } else {
+      seen.set(task.id, task.line);
+    }
+
+    if (task.children.length === 0 && task.requirements.length === 0) {
+      diagnostics.push({
+        line: task.line,
+        severity: 'warning',
+        rule: 'missing-requirements',
+        message: `Task ${task.id} has no _Requirements:_ reference`,
+        fixable: false
+      });
+    }
+  }
+
+  const lineOf = (id: string): number => seen.get(id) ?? 1;
+  for (const issue of validateTaskDependencies(document.tasks)) {
+    diagnostics.push({ line: lineOf(issue.taskId), severity: 'error', rule: 'task-dependency', message: issue.message, fixable: false });
+  }
+
+  if (requirements) {
+    for (const ref of buildTraceMatrix(requirements, document.tasks).unknownReferences) {
+      diagnostics.push({
+        line: lineOf(ref.taskId),
+        severity: 'error',
+        rule: 'unknown-requirement',
+        message: `Task ${ref.taskId} references unknown requirement ${ref.reference}`,
+        fixable: false
+      });
+    }
+  }
+
+  return { diagnostics, fixes };
+}
+
+/**
+ * Apply line fixes to a document, keeping its line endings
+ */
+export function applyLintFixes(content: string, fixes: Map<number, string>): string {
+  const parts = content.split(/(\r?\n)/);
+  fixes.forEach((text, index) => {
+    if (parts[index * 2] !== undefined) {
+      parts[index * 2] = text;
+    }
+  });
+  return parts.join('');
+}
+
+function listSpecs(specsDir: string): string[] {
+  if (!cachedFileExists(specsDir)) return [];
+  return readdirSync(specsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * Lint one spec, or every spec of the project
+ *
+ * Templates are read from the project's .claude/templates directory when
+ * present, so customised templates define the expected sections; otherwise
+ * the bundled templates are used. With `fix`, fixable problems are corrected
+ * in place and the returned diagnostics are those that remain.
+ *
+ * @param specName - Spec to lint; all specs when omitted
+ * @param projectPath - Project root (defaults to the working directory)
+ * @param options - Lint options
+ */
+export function lintSpecsData(specName?: string, projectPath?: string, options: LintOptions = {}): LintResult {
+  const workingDir = projectPath || process.cwd();
+  const specsDir = path.join(workingDir, '.claude', 'specs');
+
+  let specs: string[];
+  if (specName) {
+    if (!cachedFileExists(path.join(specsDir, specName))) {
+      throw new NotFoundError(`Spec ${specName} not found`, { spec: specName });
+    }
+    specs = [specName];
+  } else {
+    specs = listSpecs(specsDir);
+  }
+
+  const parser = new SpecParser(workingDir);
+  const diagnostics: LintDiagnostic[] = [];
+  let fixed = 0;
+
+  for (const spec of specs) {
+    const specDir = path.join(specsDir, spec);
+    const requirementsContent = getCachedFileContent(path.join(specDir, 'requirements.md'));
+    const requirements = requirementsContent !== null ? parser.extractRequirements(requirementsContent) : null;
+
+    for (const document of SPEC_DOCUMENTS) {
+      const filePath = path.join(specDir, document.name);
+      const content = getCachedFileContent(filePath);
+      if (content === null) continue;
+
+      const template = getCachedFileContent(path.join(workingDir, '.claude', 'templates', document.template)) ?? document.fallback();
+      const lint = (text: string): DocumentLint => {
+        const results = [lintSections(text, getTemplateSections(template, TEMPLATE_GUIDANCE_SECTIONS[document.template]))];
+        if (document.name === 'requirements.md') results.push(lintRequirements(text));
+        if (document.name === 'tasks.md') results.push(lintTasks(text, requirements));
+        return {
+          diagnostics: results.flatMap((result) => result.diagnostics),
+          fixes: new Map(results.flatMap((result) => [...result.fixes]))
+        };
+      };
+
+      let result = lint(content);
+      if (options.fix && result.fixes.size > 0) {
+        const fixable = result.diagnostics.filter((d) => d.fixable).length;
+        try {
+          writeFileSync(filePath, applyLintFixes(content, result.fixes), 'utf-8');
+          clearCache(filePath);
+        } catch (error) {
+          throw new FileAccessError(
+            `Could not write ${filePath}: ${error instanceof Error ? error.message : error}`,
+            { path: filePath }
+          );
+        }
+        result = lint(getCachedFileContent(filePath) ?? '');
+        fixed += fixable - result.diagnostics.filter((d) => d.fixable).length;
+      }
+
+      const file = path.relative(workingDir, filePath).split(path.sep).join('/');
+      diagnostics.push(...result.diagnostics
+        .sort((a, b) => a.line - b.line)
+        .map((diagnostic) => ({ file, ...diagnostic })));
+    }
+  }
+
+  return {
+    specs,
+    diagnostics,
+    errorCount: diagnostics.filter((d) => d.severity === 'error').length,
+    warningCount: diagnostics.filter((d) => d.severity === 'warning').length,
+    fixed
+  };
+}
+
+function renderLint(result: LintResult): void {
+  if (result.specs.length === 0) {
+    console.log('No specs found');
+    return;
+  }
+
+  for (const d of result.diagnostics) {
+    const severity = d.severity === 'error' ? chalk.red('error') : chalk.yellow('warning');
+    console.log(`${d.file}:${d.line}  ${severity}  ${d.message}  ${chalk.gray(d.rule)}`);
+  }
+
+  if (result.fixed > 0) {
+    console.log(chalk.green(`✓ Fixed ${result.fixed} problem${result.fixed === 1 ? '' : 's'}`));
+  }
+
+  const total = result.errorCount + result.warningCount;
+  if (total === 0) {
+    console.log(chalk.green(`✓ No problems found in ${result.specs.length} spec${result.specs.length === 1 ? '' : 's'}`));
+    return;
+  }
+
+  console.log();
+  const summary = `✖ ${total} problem${total === 1 ? '' : 's'} (${result.errorCount} error${result.errorCount === 1 ? '' : 's'}, ${result.warningCount} warning${result.warningCount === 1 ? '' : 's'})`;
+  console.log(result.errorCount > 0 ? chalk.red(summary) : chalk.yellow(summary));
+  const fixable = result.diagnostics.filter((d) => d.fixable).length;
+  if (fixable > 0) {
+    console.log(chalk.gray(`  ${fixable} fixable with --fix`));
+  }
+}
+
+/**
+ * Lint specs and print the diagnostics; exits with the VALIDATION code when errors remain
+ */
+export async function lintSpecs(
+  specName?: string,
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  options: LintOptions = {}
+): Promise<void> {
+  let hasErrors = false;
+  await runCommand(format, () => {
+    const result = lintSpecsData(specName, projectPath, options);
+    hasErrors = result.errorCount > 0;
+    return result;
+  }, renderLint);
+  if (hasErrors) {
+    process.exitCode = EXIT_CODES.VALIDATION;
+  }
+}
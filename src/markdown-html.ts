@@ -0,0 +1,262 @@
+/**
+ * Markdown parsing for the Word export
+ *
+ * parseBlocks splits a document into headings, paragraphs, nested and task
+ * lists, fenced code, blockquotes, tables and rules, and parseInline renders
+ * emphasis, code spans and links as the HTML tags the docx writer turns into
+ * runs. Raw HTML in the markdown is escaped rather than passed through. HTML
+ * exports render markdown with marked, like the dashboard.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (match) => HTML_ESCAPES[match] || match);
+}
+
+/**
+ * Anchor ID for a heading, e.g. "Requirement 1: Login" -> "requirement-1-login"
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, '')
+    .replace(/&[a-z0-9#]+;/g, '')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-');
+}
+
+const FENCE_REGEX = /^\s{0,3}(```+|~~~+)\s*([\w+-]*)/;
+const HEADING_REGEX = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_REGEX = /^\s{0,3}(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,})$/;
+const QUOTE_REGEX = /^\s{0,3}>\s?/;
+const LIST_REGEX = /^(\s*)([-*+]|\d+[.)])\s+/;
+const TABLE_DIVIDER_REGEX = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function indentOf(line: string): number {
+  return (line.match(/^\s*/)?.[0] || '').replace(/\t/g, '    ').length;
+}
+
+function isBlank(line: string | undefined): boolean {
+  return line === undefined || !line.trim();
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return (lines[index] || '').includes('|') && TABLE_DIVIDER_REGEX.test(lines[index + 1] || '');
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index] || '';
+  return FENCE_REGEX.test(line) || HEADING_REGEX.test(line) || RULE_REGEX.test(line) ||
+    QUOTE_REGEX.test(line) || LIST_REGEX.test(line) || isTableStart(lines, index);
+}
+
+function safeUrl(url: string): string {
+  return /^(?:https?:|mailto:|#|\.{0,2}\/|[\w.-]+(?:[/#?]|$))/i.test(url) ? url : '#';
+}
+
+/**
+ * Render inline markdown: code spans, links, emphasis and hard line breaks
+ */
+export function parseInline(text: string): string {
+  const codeSpans: string[] = [];
+  const withoutCode = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => {
+    codeSpans.push(`<code>${escapeHtml(code.trim())}</code>`);
+    return `\uE000${codeSpans.length - 1}\uE001`;
+  });
+
+  const html = escapeHtml(withoutCode)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (_, alt: string, url: string) =>
+      `<img src="${safeUrl(url)}" alt="${alt}">`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (_, label: string, url: string) =>
+      `<a href="${safeUrl(url)}">${label}</a>`)
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*([^\s*](?:[^*]*[^\s*])?)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_([^\s_](?:[^_]*[^\s_])?)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/ {2,}\n/g, '<br>\n');
+
+  return html.replace(/\uE000(\d+)\uE001/g, (_, index: string) => codeSpans[Number(index)] || '');
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/** A block of a markdown document; inline markdown is kept as text for parseInline */
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'code'; code: string; language?: string }
+  | { type: 'rule' }
+  | { type: 'quote'; blocks: MarkdownBlock[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] };
+
+export interface MarkdownListItem {
+  text: string;
+  /** Set for task list items (`- [ ]` / `- [x]`) */
+  checked?: boolean;
+  /** Nested lists and other blocks of the item */
+  blocks: MarkdownBlock[];
+}
+
+/**
+ * Split markdown into blocks
+ */
+export function parseBlocks(markdown: string): MarkdownBlock[] {
+  return parseLines(markdown.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function parseLines(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i] || '';
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      const marker = fence[1] || '```';
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i] || '').trim().startsWith(marker)) {
+        code.push(lines[i] || '');
+        i++;
+      }
+      i++; // Closing fence
+      blocks.push(fence[2] ? { type: 'code', code: code.join('\n'), language: fence[2] } : { type: 'code', code: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      blocks.push({ type: 'heading', level: (heading[1] || '#').length, text: heading[2] || '' });
+      i++;
+      continue;
+    }
+
+    if (RULE_REGEX.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_REGEX.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_REGEX.test(lines[i] || '')) {
+        quoted.push((lines[i] || '').replace(QUOTE_REGEX, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', blocks: parseLines(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && (lines[i] || '').includes('|')) {
+        const row = splitTableRow(lines[i] || '');
+        rows.push(header.map((_, column) => row[column] || ''));
+        i++;
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    if (LIST_REGEX.test(line)) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines, i))) {
+      paragraph.push((lines[i] || '').replace(/^\s+/, ''));
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse the list starting at lines[start]
+ * @returns The index of the first line after the list
+ */
+function parseList(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+  const first = (lines[start] || '').match(LIST_REGEX)!;
+  const indent = indentOf(first[1] || '');
+  const ordered = /\d/.test(first[2] || '');
+  const items: string[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i] || '';
+    if (isBlank(line)) {
+      // A blank line only ends the list when nothing belonging to it follows
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      const following = lines[next];
+      if (following === undefined || indentOf(following) < indent ||
+          (indentOf(following) === indent && !LIST_REGEX.test(following))) {
+        break;
+      }
+      i = next;
+      continue;
+    }
+
+    const marker = line.match(LIST_REGEX);
+    const lineIndent = indentOf(line);
+    if (marker && lineIndent === indent && /\d/.test(marker[2] || '') === ordered) {
+      items.push([line.slice(marker[0].length)]);
+    } else if (lineIndent > indent && items.length > 0) {
+      items[items.length - 1]!.push(line);
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  blocks.push({
+    type: 'list',
+    ordered,
+    start: ordered ? parseInt(first[2] || '1', 10) : 1,
+    items: items.map(parseListItem),
+  });
+  return i;
+}
+
+function parseListItem([text = '', ...rest]: string[]): MarkdownListItem {
+  // Lines of the item up to the first nested block belong to its text
+  const textLines = [text];
+  while (rest.length > 0 && !LIST_REGEX.test(rest[0] || '') && !FENCE_REGEX.test(rest[0] || '') && !isTableStart(rest, 0)) {
+    textLines.push(rest.shift()!.trim());
+  }
+
+  const nestedIndent = Math.min(...rest.filter((line) => !isBlank(line)).map(indentOf));
+  const item: MarkdownListItem = {
+    text: textLines.join('\n'),
+    blocks: rest.length > 0 ? parseLines(rest.map((line) => line.slice(Math.min(nestedIndent, indentOf(line))))) : [],
+  };
+  const checkbox = item.text.match(/^\[([ xX])\]\s+/);
+  if (checkbox) {
+    item.checked = checkbox[1] !== ' ';
+    item.text = item.text.slice(checkbox[0].length);
+  }
+  return item;
+}
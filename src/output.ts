@@ -0,0 +1,175 @@
+/**
+ * CLI output utilities
+ * Every command produces its result as plain data and renders it either as
+ * human-readable text (the default) or, with `--format json`, as a stable
+ * JSON envelope. Failures are thrown as CliError subclasses, which map to an
+ * error code in the envelope and a process exit code.
+ */
+
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+
+export type OutputFormat = 'text' | 'json';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json'];
+
+export type CliErrorCode = 'INTERNAL' | 'USAGE' | 'NOT_FOUND' | 'VALIDATION' | 'IO';
+
+/**
+ * Process exit code for each error class. These values are part of the
+ * documented CLI contract (docs/cli-json-output.md) and must not change.
+ */
+export const EXIT_CODES: Record<CliErrorCode, number> = {
+  INTERNAL: 1,
+  USAGE: 2,
+  NOT_FOUND: 3,
+  VALIDATION: 4,
+  IO: 5
+};
+
+export class CliError extends Error {
+  readonly code: CliErrorCode;
+  readonly details: Record<string, unknown> | undefined;
+
+  constructor(code: CliErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'CliError';
+    this.code = code;
+    this.details = details;
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.code];
+  }
+}
+
+/** Invalid arguments or options */
+export class UsageError extends CliError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('USAGE', message, details);
+    this.name = 'UsageError';
+  }
+}
+
+/** A spec, task, file or other requested item does not exist */
+export class NotFoundError extends CliError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('NOT_FOUND', message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** Input exists but is malformed or violates a workflow rule */
+export class ValidationError extends CliError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('VALIDATION', message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+/** Reading or writing a file failed */
+export class FileAccessError extends CliError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('IO', message, details);
+    this.name = 'FileAccessError';
+  }
+}
+
+export interface OutputError {
+  code: CliErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface OutputEnvelope<T> {
+  ok: boolean;
+  data: T | null;
+  errors: OutputError[];
+  version: string;
+}
+
+let cachedVersion: string | undefined;
+
+/**
+ * Get the package version reported by the CLI
+ */
+export function getPackageVersion(): string {
+  if (!cachedVersion) {
+    try {
+      const packageJsonPath = path.join(__dirname, '..', 'package.json');
+      cachedVersion = (JSON.parse(readFileSync(packageJsonPath, 'utf-8')) as { version: string }).version;
+    } catch {
+      // Don't report a made-up version when package.json cannot be read
+      cachedVersion = 'unknown';
+    }
+  }
+  return cachedVersion;
+}
+
+/**
+ * Convert any thrown value to a CliError, treating unknown errors as INTERNAL
+ */
+export function toCliError(error: unknown): CliError {
+  if (error instanceof CliError) {
+    return error;
+  }
+  return new CliError('INTERNAL', error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Build the JSON envelope for a successful result or a failure
+ */
+export function createEnvelope<T>(data: T | null, error?: CliError): OutputEnvelope<T> {
+  if (error) {
+    const outputError: OutputError = { code: error.code, message: error.message };
+    if (error.details) {
+      outputError.details = error.details;
+    }
+    return { ok: false, data: null, errors: [outputError], version: getPackageVersion() };
+  }
+  return { ok: true, data, errors: [], version: getPackageVersion() };
+}
+
+/**
+ * Run a command action and render its result in the requested format
+ *
+ * In text mode the result is passed to `renderText` and errors are printed in
+ * red to stderr. In JSON mode the envelope is the only thing written to stdout.
+ * Failures set `process.exitCode` from the error class rather than exiting
+ * immediately, so piped output is always flushed.
+ *
+ * @param format - Output format selected with `--format`
+ * @param action - Produces the command's data; throws CliError on failure
+ * @param renderText - Prints the data for humans
+ *
+ * @example
+ * ```typescript
+ * await runCommand('json', () => getSpecContextData('user-auth'), renderSpecContext);
+ * ```
+ */
+export async function runCommand<T>(
+  format: OutputFormat,
+  action: () => T | Promise<T>,
+  renderText: (data: T) => void
+): Promise<void> {
+  let data: T;
+  try {
+    data = await action();
+  } catch (error) {
+    const cliError = toCliError(error);
+    if (format === 'json') {
+      console.log(JSON.stringify(createEnvelope<T>(null, cliError), null, 2));
+    } else {
+      console.error(chalk.red(`Error: ${cliError.message}`));
+    }
+    process.exitCode = cliError.exitCode;
+    return;
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify(createEnvelope(data), null, 2));
+  } else {
+    renderText(data);
+  }
+}
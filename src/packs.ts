@@ -0,0 +1,224 @@
+/**
+ * Organization-wide steering and template packs
+ *
+ * A pack is a directory, or a tar archive (optionally gzipped) of one, with
+ * shared documents in `steering/` and `templates/`. Projects reference packs
+ * in `.claude/packs.json`:
+ *
+ * ```json
+ * { "packs": ["../acme-standards", "/opt/acme/backend-pack.tgz"] }
+ * ```
+ *
+ * Relative sources are resolved against the project root. Later packs take
+ * precedence over earlier ones, and the project's own documents over every
+ * pack; see resolveSteeringDocuments and resolveTemplate for how the layers
+ * are merged.
+ */
+
+import { readdirSync, statSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+import { getCachedFileContent, cachedFileExists } from './file-cache';
+
+/** Pack configuration file in .claude */
+export const PACKS_CONFIG_FILE = 'packs.json';
+
+/** Directories of a pack that hold documents */
+export type PackDirectory = 'steering' | 'templates';
+
+export interface Pack {
+  /** Source as written in packs.json */
+  source: string;
+  /** Absolute path of the directory or archive */
+  path: string;
+  kind: 'directory' | 'archive';
+  /** Markdown files of each pack directory, sorted */
+  files: Record<PackDirectory, string[]>;
+  /** Content of a file in a pack directory, or null when the pack does not have it */
+  read(directory: PackDirectory, file: string): string | null;
+}
+
+export interface PackError {
+  /** Pack source, or the configuration file when it cannot be read */
+  source: string;
+  message: string;
+}
+
+export interface LoadedPacks {
+  /** Lowest precedence first */
+  packs: Pack[];
+  errors: PackError[];
+}
+
+const PACK_DIRECTORIES: PackDirectory[] = ['steering', 'templates'];
+
+interface ArchiveCacheEntry {
+  mtime: number;
+  size: number;
+  files: Map<string, string>;
+}
+
+// Parsed archives, keyed by path and checked against the archive's mtime and size
+const archiveCache = new Map<string, ArchiveCacheEntry>();
+
+function readTarString(buffer: Buffer, offset: number, length: number): string {
+  const field = buffer.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+/**
+ * Regular files of a tar archive, by path
+ */
+export function readTarEntries(archive: Buffer): Map<string, Buffer> {
+  const data = archive[0] === 0x1f && archive[1] === 0x8b ? gunzipSync(archive) : archive;
+  const entries = new Map<string, Buffer>();
+  let longName: string | null = null;
+  let offset = 0;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const body = data.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      // GNU long name for the next entry
+      longName = readTarString(body, 0, body.length);
+      continue;
+    }
+    if (type === 'x') {
+      // PAX extended header; only the path is used
+      const pathRecord = body.toString('utf-8').match(/^\d+ path=(.*)$/m);
+      longName = pathRecord?.[1] ?? longName;
+      continue;
+    }
+
+    const prefix = readTarString(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100));
+    longName = null;
+    if (type === '0') {
+      entries.set(name.replace(/^\.\//, ''), body);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Markdown files of the pack directories in an archive, keyed "steering/product.md".
+ * Archives with everything under one top-level directory, as `tar czf pack.tgz pack/`
+ * and `npm pack` create them, are read from inside that directory.
+ */
+function readArchive(archivePath: string): Map<string, string> {
+  const stats = statSync(archivePath);
+  const cached = archiveCache.get(archivePath);
+  if (cached && cached.mtime === stats.mtimeMs && cached.size === stats.size) {
+    return cached.files;
+  }
+
+  const entries = readTarEntries(readFileSync(archivePath));
+  const names = [...entries.keys()];
+  const isPackRoot = (name: string) => PACK_DIRECTORIES.some((directory) => name.startsWith(`${directory}/`));
+  let root = '';
+  const top = names[0]?.split('/')[0];
+  if (!names.some(isPackRoot) && top && names.every((name) => name.startsWith(`${top}/`))) {
+    root = `${top}/`;
+  }
+
+  const files = new Map<string, string>();
+  for (const [name, body] of entries) {
+    const relative = name.slice(root.length);
+    const [directory, file, ...rest] = relative.split('/');
+    if (name.startsWith(root) && rest.length === 0 && file?.endsWith('.md') && PACK_DIRECTORIES.includes(directory as PackDirectory)) {
+      files.set(relative, body.toString('utf-8'));
+    }
+  }
+  archiveCache.set(archivePath, { mtime: stats.mtimeMs, size: stats.size, files });
+  return files;
+}
+
+function loadPack(source: string, workingDir: string): Pack {
+  const packPath = path.resolve(workingDir, source);
+  const stats = statSync(packPath);
+
+  if (stats.isDirectory()) {
+    const files = {} as Record<PackDirectory, string[]>;
+    for (const directory of PACK_DIRECTORIES) {
+      try {
+        files[directory] = readdirSync(path.join(packPath, directory)).filter((file) => file.endsWith('.md')).sort();
+      } catch {
+        files[directory] = [];
+      }
+    }
+    return {
+      source,
+      path: packPath,
+      kind: 'directory',
+      files,
+      read: (directory, file) => files[directory].includes(file)
+        ? getCachedFileContent(path.join(packPath, directory, file))
+        : null,
+    };
+  }
+
+  const archive = readArchive(packPath);
+  const files = {} as Record<PackDirectory, string[]>;
+  for (const directory of PACK_DIRECTORIES) {
+    files[directory] = [...archive.keys()]
+      .filter((name) => name.startsWith(`${directory}/`))
+      .map((name) => name.slice(directory.length + 1))
+      .sort();
+  }
+  return {
+    source,
+    path: packPath,
+    kind: 'archive',
+    files,
+    read: (directory, file) => archive.get(`${directory}/${file}`) ?? null,
+  };
+}
+
+/**
+ * Load the packs listed in .claude/packs.json
+ *
+ * Packs that cannot be read are left out and reported in errors, so one
+ * unreachable pack does not hide the project's own documents.
+ */
+export function loadPacks(projectPath?: string): LoadedPacks {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const configFile = `.claude/${PACKS_CONFIG_FILE}`;
+  const raw = getCachedFileContent(path.join(workingDir, '.claude', PACKS_CONFIG_FILE));
+  if (raw === null) {
+    return { packs: [], errors: [] };
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    return { packs: [], errors: [{ source: configFile, message: `Invalid JSON: ${error instanceof Error ? error.message : error}` }] };
+  }
+  const sources = (config as { packs?: unknown } | null)?.packs;
+  if (!Array.isArray(sources) || !sources.every((source) => typeof source === 'string' && source.trim())) {
+    return { packs: [], errors: [{ source: configFile, message: 'packs must be an array of directory or archive paths' }] };
+  }
+
+  const result: LoadedPacks = { packs: [], errors: [] };
+  for (const source of sources as string[]) {
+    if (!cachedFileExists(path.resolve(workingDir, source))) {
+      result.errors.push({ source, message: 'No such directory or archive' });
+      continue;
+    }
+    try {
+      result.packs.push(loadPack(source, workingDir));
+    } catch (error) {
+      result.errors.push({ source, message: `Could not read the pack: ${error instanceof Error ? error.message : error}` });
+    }
+  }
+  return result;
+}
@@ -1,6 +1,8 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { parseTasksFromMarkdown, generateTaskCommand } from './task-generator';
+import { generateWorkflowCommands, WORKFLOWS_DIR } from './custom-workflows';
+import { applyTemplateOverridesData } from './template-overrides';
 // CLAUDE.md generation removed - all workflow instructions now in individual commands
 // Script imports removed in v1.2.5 - task command generation now uses NPX command
 
@@ -24,6 +26,7 @@ export class SpecWorkflowSetup {
   private steeringDir: string;
   private bugsDir: string;
   private agentsDir: string;
+  private workflowsDir: string;
   
   // Source markdown directories
   private markdownDir: string;
@@ -41,6 +44,7 @@ export class SpecWorkflowSetup {
     this.steeringDir = join(this.claudeDir, 'steering');
     this.bugsDir = join(this.claudeDir, 'bugs');
     this.agentsDir = join(this.claudeDir, 'agents');
+    this.workflowsDir = join(this.claudeDir, WORKFLOWS_DIR);
     // Agents are now mandatory - no longer configurable
     
     // Initialize source markdown directories
@@ -163,7 +167,9 @@ export class SpecWorkflowSetup {
       this.templatesDir,
       // scriptsDir removed from directory creation
       this.steeringDir,
-      this.bugsDir
+      this.bugsDir,
+      // Optional: not checked by isInstallationComplete
+      this.workflowsDir
     ];
 
     // Agents are now mandatory
@@ -241,6 +247,24 @@ export class SpecWorkflowSetup {
         throw error;
       }
     }
+
+    this.applyTemplateOverrides();
+  }
+
+  /**
+   * Merge the project's overrides in .claude/templates/overrides into the copied templates
+   */
+  applyTemplateOverrides(): void {
+    const result = applyTemplateOverridesData(this.projectRoot);
+    for (const applied of result.applied) {
+      console.log(`Applied template override ${applied.template}`);
+      for (const warning of applied.warnings) {
+        console.warn(`  ${warning}`);
+      }
+    }
+    for (const skipped of result.skipped) {
+      console.warn(`Skipped template override ${skipped.file}: ${skipped.message}`);
+    }
   }
 
   // NOTE: Script creation removed in v1.2.5 - task command generation now uses NPX command
@@ -294,7 +318,8 @@ export class SpecWorkflowSetup {
     try {
       const specsEntries = await fs.readdir(this.specsDir, { withFileTypes: true });
       const specDirs = specsEntries
-        .filter(entry => entry.isDirectory())
+        // Skip .archive and other hidden folders
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
         .map(entry => entry.name);
 
       if (specDirs.length === 0) {
@@ -349,9 +374,23 @@ export class SpecWorkflowSetup {
     }
   }
 
+  /**
+   * Generate slash commands for the user-defined workflows in .claude/workflows
+   */
+  async createWorkflowCommands(): Promise<void> {
+    const result = await generateWorkflowCommands(this.projectRoot);
+    if (result.written.length > 0) {
+      console.log(`Generated ${result.written.length} workflow command(s)`);
+    }
+    for (const error of result.errors) {
+      console.warn(`Skipped workflow ${error.file}: ${error.message}`);
+    }
+  }
+
   async runSetup(): Promise<void> {
     await this.setupDirectories();
     await this.createSlashCommands();
+    await this.createWorkflowCommands();
     await this.createTemplates();
     await this.setupAgents();
     // Script creation removed in v1.2.5 - using NPX command instead
@@ -0,0 +1,88 @@
+import chalk from 'chalk';
+import { loadPacks, Pack, PackError } from './packs';
+import { describeSteeringInclusion, resolveSteeringDocuments, ResolvedSteeringDocument } from './steering';
+import { EXIT_CODES, NotFoundError, OutputFormat, runCommand } from './output';
+
+export interface SteeringResolveResult {
+  /** Packs of .claude/packs.json that could be read, lowest precedence first */
+  packs: Pick<Pack, 'source' | 'path' | 'kind' | 'files'>[];
+  documents: ResolvedSteeringDocument[];
+  errors: PackError[];
+}
+
+/**
+ * The effective steering documents and the layers they come from
+ * @param documentName Only resolve this document, e.g. tech or security.md
+ */
+export function resolveSteeringData(documentName?: string, projectPath?: string): SteeringResolveResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const name = documentName && (documentName.endsWith('.md') ? documentName : `${documentName}.md`);
+
+  const { packs, errors } = loadPacks(workingDir);
+  const resolved = resolveSteeringDocuments(workingDir).documents;
+  const documents = resolved.filter((document) => !name || document.name === name);
+  if (name && documents.length === 0) {
+    throw new NotFoundError(`Neither .claude/steering nor a pack has ${name}`, {
+      document: name,
+      available: resolved.map((document) => document.name),
+    });
+  }
+
+  return {
+    packs: packs.map(({ source, path, kind, files }) => ({ source, path, kind, files })),
+    documents,
+    errors,
+  };
+}
+
+function renderResolve(result: SteeringResolveResult): void {
+  if (result.packs.length > 0) {
+    console.log(chalk.bold('Packs') + chalk.gray(' (lowest precedence first)'));
+    for (const pack of result.packs) {
+      const steering = pack.files.steering.length > 0 ? pack.files.steering.join(', ') : 'none';
+      const templates = pack.files.templates.length > 0 ? pack.files.templates.join(', ') : 'none';
+      console.log(`  ${pack.source} ${chalk.gray(`(${pack.kind})`)}`);
+      console.log(chalk.gray(`    steering: ${steering}; templates: ${templates}`));
+    }
+    console.log();
+  }
+  for (const error of result.errors) {
+    console.log(chalk.red(`✗ ${error.source}: ${error.message}`));
+  }
+  if (result.errors.length > 0) {
+    console.log();
+  }
+
+  if (result.documents.length === 0) {
+    console.log(chalk.gray('No steering documents in .claude/steering or the packs'));
+    return;
+  }
+  for (const document of result.documents) {
+    console.log(`${chalk.cyan(`### ${document.title}`)} ${chalk.gray(`(${document.sources.join(' < ')})`)}`);
+    if (document.phases || document.paths) {
+      console.log(chalk.gray(`Loaded for ${describeSteeringInclusion(document)}`));
+    }
+    for (const warning of document.warnings) {
+      console.log(chalk.yellow(warning));
+    }
+    console.log(document.content.trim());
+    console.log();
+  }
+}
+
+/**
+ * Print the effective steering documents; exits with the validation code
+ * when packs.json or one of its packs cannot be read
+ */
+export async function resolveSteering(documentName?: string, projectPath?: string, format: OutputFormat = 'text'): Promise<void> {
+  let hasErrors = false;
+  await runCommand(format, () => {
+    const result = resolveSteeringData(documentName, projectPath);
+    hasErrors = result.errors.length > 0;
+    return result;
+  }, renderResolve);
+  if (hasErrors) {
+    process.exitCode = EXIT_CODES.VALIDATION;
+  }
+}
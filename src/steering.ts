@@ -1,64 +1,212 @@
-import { promises as fs } from 'fs';
+import { readdirSync } from 'fs';
 import { join, normalize } from 'path';
+import { getCachedFileContent } from './file-cache';
+import { readFrontMatterValue, splitFrontMatter } from './approval';
+import { loadPacks, PackError } from './packs';
+import { mergeTemplate } from './template-overrides';
+import { compileExcludePatterns, isExcludedPath } from './dashboard/discovery-config';
 
 export interface SteeringDocuments {
   product?: string;
   tech?: string;
   structure?: string;
+  /** Additional documents, keyed by file name without .md */
+  [key: string]: string | undefined;
 }
 
-export class SteeringLoader {
-  private steeringDir: string;
+/** Core steering documents, presented before the additional ones */
+export const STEERING_DOCUMENTS: { key: string; name: string; title: string }[] = [
+  { key: 'product', name: 'product.md', title: 'Product Context' },
+  { key: 'tech', name: 'tech.md', title: 'Technology Context' },
+  { key: 'structure', name: 'structure.md', title: 'Structure Context' }
+];
+
+/** Layer name of the project's own steering documents */
+export const PROJECT_STEERING_SOURCE = '.claude/steering';
+
+/**
+ * When a steering document is loaded, from its `phases` and `paths`
+ * front-matter; a document with neither is always loaded
+ */
+export interface SteeringInclusion {
+  /** Phases the document is loaded for, e.g. design or implementation */
+  phases?: string[];
+  /** Globs of project paths; the document is loaded for work touching a match */
+  paths?: string[];
+}
 
-  constructor(projectRoot: string = process.cwd()) {
-    const root = normalize(projectRoot.replace(/\\/g, '/'));
-    this.steeringDir = join(root, '.claude', 'steering');
+export interface ResolvedSteeringDocument extends SteeringInclusion {
+  /** File name without .md */
+  key: string;
+  name: string;
+  title: string;
+  /** Pack sources and .claude/steering that have the document, lowest precedence first */
+  sources: string[];
+  /** File of the highest-precedence layer; inside the archive for archive packs */
+  path: string;
+  /** Merged document without its front-matter */
+  content: string;
+  /** Sections of a layer that could not be merged */
+  warnings: string[];
+}
+
+export interface ResolvedSteering {
+  /** Documents at least one layer has: the core ones first, then the others by name */
+  documents: ResolvedSteeringDocument[];
+  errors: PackError[];
+}
+
+/** What the steering documents are loaded for */
+export interface SteeringFilter {
+  phases?: string[];
+  /** Project-relative paths the work touches */
+  paths?: string[];
+}
+
+/** Values of a front-matter list written as "a, b" or "[a, b]" */
+function parseFrontMatterList(value: string | null): string[] | undefined {
+  if (value === null) {
+    return undefined;
   }
+  const items = value.replace(/^\[|\]$/g, '').split(',')
+    .map((item) => item.trim().replace(/^(['"])(.*)\1$/, '$2'))
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
 
-  async loadSteeringDocuments(): Promise<SteeringDocuments> {
-    const docs: SteeringDocuments = {};
+function formatTitle(key: string): string {
+  return key
+    .split(/[-_]/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
 
-    try {
-      // Check if steering directory exists
-      await fs.access(this.steeringDir);
+/**
+ * Whether a document is loaded for a phase and set of paths
+ *
+ * A document with `phases` needs one of them among the filter's phases, and
+ * one with `paths` a filter path matching one of its globs. Globs are
+ * matched like discovery excludes: without a "/" against file names, e.g.
+ * `*.sql`, otherwise against the path.
+ */
+export function isSteeringDocumentIncluded(document: SteeringInclusion, filter: SteeringFilter): boolean {
+  if (document.phases && !document.phases.some((phase) => filter.phases?.includes(phase))) {
+    return false;
+  }
+  if (document.paths) {
+    const patterns = compileExcludePatterns(document.paths.map((glob) => glob.replace(/^\.\//, '')));
+    return (filter.paths || []).some((filePath) => isExcludedPath(filePath.replace(/^\.\//, ''), patterns));
+  }
+  return true;
+}
 
-      // Try to load each steering document
-      const productPath = join(this.steeringDir, 'product.md');
-      const techPath = join(this.steeringDir, 'tech.md');
-      const structurePath = join(this.steeringDir, 'structure.md');
+/**
+ * When a conditional document is loaded, e.g. "phases: design; paths: src/api/**"
+ */
+export function describeSteeringInclusion(document: SteeringInclusion): string {
+  return [
+    document.phases ? `phases: ${document.phases.join(', ')}` : '',
+    document.paths ? `paths: ${document.paths.join(', ')}` : ''
+  ].filter(Boolean).join('; ');
+}
 
-      try {
-        docs.product = await fs.readFile(productPath, 'utf-8');
-      } catch {
-        // Product doc not found, that's okay
-      }
+/**
+ * Merge the steering documents of the project's packs and its own
+ *
+ * Every markdown file in `.claude/steering/` or a pack's `steering/` is a
+ * steering document. Each layer is merged into the one below it section by
+ * section, like a template override: a section replaces the section with the
+ * same heading, new sections are added and `inherit: false` front-matter
+ * replaces the document wholesale. A document only one layer has is used as
+ * it is. The `title`, `phases` and `paths` front-matter of the
+ * highest-precedence layer that sets them applies.
+ */
+export function resolveSteeringDocuments(projectPath: string = process.cwd()): ResolvedSteering {
+  const { packs, errors } = loadPacks(projectPath);
+  const steeringDir = join(projectPath, '.claude', 'steering');
+  const documents: ResolvedSteeringDocument[] = [];
+
+  let projectFiles: string[] = [];
+  try {
+    projectFiles = readdirSync(steeringDir).filter((file) => file.endsWith('.md'));
+  } catch {
+    // Steering directory doesn't exist
+  }
+  const coreNames = STEERING_DOCUMENTS.map((document) => document.name);
+  const additionalNames = [...new Set([...packs.flatMap((pack) => pack.files.steering), ...projectFiles])]
+    .filter((name) => !coreNames.includes(name))
+    .sort();
+
+  for (const name of [...coreNames, ...additionalNames]) {
+    const layers = [
+      ...packs.map((pack) => ({ source: pack.source, path: join(pack.path, 'steering', name), content: pack.read('steering', name) })),
+      { source: PROJECT_STEERING_SOURCE, path: join(steeringDir, name), content: getCachedFileContent(join(steeringDir, name)) }
+    ].filter((layer): layer is { source: string; path: string; content: string } => layer.content !== null);
+
+    const [base, ...rest] = layers;
+    if (!base) {
+      continue;
+    }
+    const key = name.slice(0, -'.md'.length);
+    let content = base.content;
+    const document: ResolvedSteeringDocument = { key, name, title: '', sources: [base.source], path: base.path, content: '', warnings: [] };
+    for (const layer of rest) {
+      const merged = mergeTemplate(content, layer.content);
+      content = merged.content;
+      document.sources.push(layer.source);
+      document.path = layer.path;
+      document.warnings.push(...merged.warnings.map((warning) => `${layer.source}: ${warning}`));
+    }
 
-      try {
-        docs.tech = await fs.readFile(techPath, 'utf-8');
-      } catch {
-        // Tech doc not found, that's okay
-      }
+    let title: string | null = null;
+    let phases: string[] | undefined;
+    let paths: string[] | undefined;
+    for (const layer of layers) {
+      title = readFrontMatterValue(layer.content, 'title') ?? title;
+      phases = parseFrontMatterList(readFrontMatterValue(layer.content, 'phases')) ?? phases;
+      paths = parseFrontMatterList(readFrontMatterValue(layer.content, 'paths')) ?? paths;
+    }
+    if (phases) {
+      document.phases = phases;
+    }
+    if (paths) {
+      document.paths = paths;
+    }
 
-      try {
-        docs.structure = await fs.readFile(structurePath, 'utf-8');
-      } catch {
-        // Structure doc not found, that's okay
-      }
-    } catch {
-      // Steering directory doesn't exist, return empty docs
+    document.content = splitFrontMatter(content).body;
+    const heading = document.content.match(/^#\s+(.+?)\s*$/m);
+    document.title = title
+      || STEERING_DOCUMENTS.find((core) => core.name === name)?.title
+      || heading?.[1]
+      || formatTitle(key);
+    documents.push(document);
+  }
+
+  return { documents, errors };
+}
+
+export class SteeringLoader {
+  private projectRoot: string;
+
+  constructor(projectRoot: string = process.cwd()) {
+    this.projectRoot = normalize(projectRoot.replace(/\\/g, '/'));
+  }
+
+  /**
+   * Load the steering documents, merged with those of the project's packs
+   */
+  async loadSteeringDocuments(): Promise<SteeringDocuments> {
+    const docs: SteeringDocuments = {};
+
+    for (const document of resolveSteeringDocuments(this.projectRoot).documents) {
+      docs[document.key] = document.content;
     }
 
     return docs;
   }
 
   async steeringDocumentsExist(): Promise<boolean> {
-    try {
-      await fs.access(this.steeringDir);
-      const files = await fs.readdir(this.steeringDir);
-      return files.some(file => ['product.md', 'tech.md', 'structure.md'].includes(file));
-    } catch {
-      return false;
-    }
+    return resolveSteeringDocuments(this.projectRoot).documents.length > 0;
   }
 
   formatSteeringContext(docs: SteeringDocuments): string {
@@ -76,6 +224,13 @@ export class SteeringLoader {
       sections.push('## Structure Context\n' + docs.structure);
     }
 
+    const coreKeys = STEERING_DOCUMENTS.map((document) => document.key);
+    for (const [key, content] of Object.entries(docs)) {
+      if (content && !coreKeys.includes(key)) {
+        sections.push(`## ${formatTitle(key)}\n` + content);
+      }
+    }
+
     if (sections.length === 0) {
       return '';
     }
@@ -0,0 +1,325 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { getCachedFileContent } from './file-cache';
+import { parseTaskDocument, flattenTasks, TaskStatus, TASK_STATUS_MARKERS } from './tasks';
+import { updateTaskStatusData } from './get-tasks';
+import { setBugStatusData } from './bug-status';
+import { SpecParser, BugStatus, BUG_STATUSES, CLOSED_BUG_STATUSES } from './dashboard/parser';
+import { TrackerIssue, TrackerProvider, TrackerProviderError, TRACKER_PROVIDERS } from './tracker';
+import { EXIT_CODES, FileAccessError, OutputFormat, UsageError, runCommand } from './output';
+
+export interface SyncOptions {
+  /** Provider-specific location, e.g. the JSON file of the file provider */
+  location?: string;
+  /** Report what would change without changing anything */
+  dryRun?: boolean;
+}
+
+/** A spec task or bug mirrored to the tracker */
+interface LocalItem {
+  /** "task:<spec>/<id>" or "bug:<name>" */
+  key: string;
+  kind: 'task' | 'bug';
+  /** Spec of a task, or the bug's directory name */
+  name: string;
+  /** Task ID */
+  taskId?: string;
+  title: string;
+  status: string;
+  labels: string[];
+}
+
+export type SyncAction = 'created' | 'linked' | 'pushed' | 'pulled';
+
+export interface SyncChange {
+  key: string;
+  /** Tracker issue ID */
+  id: string;
+  action: SyncAction;
+  /** Status before the change, on the side that changed */
+  from?: string;
+  status: string;
+}
+
+export interface SyncConflict {
+  key: string;
+  id?: string;
+  /** Status both sides had at the last sync, if they were synced before */
+  base?: string;
+  local: string;
+  remote?: string;
+  message: string;
+}
+
+export interface SyncResult {
+  provider: string;
+  dryRun: boolean;
+  changes: SyncChange[];
+  conflicts: SyncConflict[];
+  /** Items already in sync */
+  unchanged: number;
+}
+
+/** What both sides agreed on at the last sync; the base for detecting who changed what */
+interface SyncStateEntry {
+  id: string;
+  status: string;
+  syncedAt: string;
+}
+
+interface SyncState {
+  items: Record<string, SyncStateEntry>;
+}
+
+/** Statuses that close the tracker issue */
+const CLOSED_STATUSES = new Set<string>(['completed', 'skipped', ...CLOSED_BUG_STATUSES]);
+
+function getSyncStatePath(workingDir: string, provider: string): string {
+  return path.join(workingDir, '.claude', '.sync', `${provider}.json`);
+}
+
+function readSyncState(statePath: string): SyncState {
+  if (!existsSync(statePath)) {
+    return { items: {} };
+  }
+  try {
+    const state = JSON.parse(readFileSync(statePath, 'utf-8')) as Partial<SyncState>;
+    return { items: state.items && typeof state.items === 'object' ? state.items : {} };
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not read sync state at ${statePath}: ${error instanceof Error ? error.message : error}`,
+      { path: statePath }
+    );
+  }
+}
+
+function writeSyncState(statePath: string, state: SyncState): void {
+  try {
+    mkdirSync(path.dirname(statePath), { recursive: true });
+    writeFileSync(statePath, JSON.stringify(state, null, 2) + '\n', 'utf-8');
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not write sync state at ${statePath}: ${error instanceof Error ? error.message : error}`,
+      { path: statePath }
+    );
+  }
+}
+
+/**
+ * Tasks of the active specs and all bugs, with their current statuses
+ */
+async function getLocalItems(workingDir: string): Promise<LocalItem[]> {
+  const parser = new SpecParser(workingDir);
+  const items: LocalItem[] = [];
+
+  for (const spec of await parser.getAllSpecs()) {
+    const content = getCachedFileContent(path.join(workingDir, '.claude', 'specs', spec.name, 'tasks.md'));
+    if (content === null) continue;
+
+    const seen = new Set<string>();
+    for (const task of flattenTasks(parseTaskDocument(content).tasks)) {
+      // Duplicate IDs are a lint error; follow the first task with the ID
+      if (seen.has(task.id)) continue;
+      seen.add(task.id);
+      items.push({
+        key: `task:${spec.name}/${task.id}`,
+        kind: 'task',
+        name: spec.name,
+        taskId: task.id,
+        title: `[${spec.name}] ${task.id}. ${task.description}`,
+        status: task.status,
+        labels: ['task', spec.name],
+      });
+    }
+  }
+
+  for (const bug of await parser.getAllBugs()) {
+    items.push({
+      key: `bug:${bug.name}`,
+      kind: 'bug',
+      name: bug.name,
+      title: bug.displayName,
+      status: bug.status,
+      labels: ['bug', ...(bug.report?.severity ? [bug.report.severity] : [])],
+    });
+  }
+
+  return items;
+}
+
+function isValidStatus(item: LocalItem, status: string): boolean {
+  return item.kind === 'task' ? status in TASK_STATUS_MARKERS : BUG_STATUSES.includes(status as BugStatus);
+}
+
+async function pushStatus(provider: TrackerProvider, item: LocalItem, remote: TrackerIssue): Promise<void> {
+  await provider.update(remote.id, { title: item.title, status: item.status, labels: item.labels });
+  const closed = CLOSED_STATUSES.has(item.status);
+  if (closed && remote.state === 'open') {
+    await provider.close(remote.id);
+  } else if (!closed && remote.state === 'closed') {
+    await provider.update(remote.id, { state: 'open' });
+  }
+}
+
+async function pullStatus(provider: TrackerProvider, item: LocalItem, remote: TrackerIssue, workingDir: string): Promise<void> {
+  if (item.kind === 'bug') {
+    await setBugStatusData(item.name, remote.status as BugStatus, workingDir, {
+      reason: `Pulled from ${provider.name} issue ${remote.id}`,
+    });
+    return;
+  }
+  updateTaskStatusData(item.name, item.taskId || '', remote.status as TaskStatus, workingDir, {
+    reason: `Blocked in ${provider.name} issue ${remote.id}`,
+  });
+}
+
+/**
+ * Mirror spec tasks and bugs to an issue tracker and bring tracker changes back
+ *
+ * Each item is compared with the status both sides had at the last sync,
+ * stored in `.claude/.sync/<provider>.json`. A change on one side is copied to
+ * the other. When both sides changed to different statuses, or an item exists
+ * on both sides without a sync record, the conflict is reported and neither
+ * side is touched; it is resolved once both sides show the same status.
+ */
+export async function syncTrackerData(providerName: string, projectPath?: string, options: SyncOptions = {}): Promise<SyncResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const createProvider = TRACKER_PROVIDERS[providerName];
+  if (!createProvider) {
+    throw new UsageError(
+      `Unknown tracker provider ${providerName}; available: ${Object.keys(TRACKER_PROVIDERS).join(', ')}`,
+      { provider: providerName }
+    );
+  }
+  const provider = createProvider({ projectPath: workingDir, ...(options.location && { location: options.location }) });
+  if (!(await provider.isAvailable())) {
+    throw new TrackerProviderError(provider.name, `Tracker provider ${provider.name} is not available`);
+  }
+
+  const dryRun = !!options.dryRun;
+  const statePath = getSyncStatePath(workingDir, provider.name);
+  const state = readSyncState(statePath);
+  const remoteIssues = await provider.list();
+  const byId = new Map(remoteIssues.map((issue) => [issue.id, issue]));
+  const byKey = new Map(remoteIssues.filter((issue) => issue.key).map((issue) => [issue.key, issue]));
+  const result: SyncResult = { provider: provider.name, dryRun, changes: [], conflicts: [], unchanged: 0 };
+
+  const record = (key: string, id: string, status: string) => {
+    state.items[key] = { id, status, syncedAt: new Date().toISOString() };
+  };
+
+  try {
+    for (const item of await getLocalItems(workingDir)) {
+      const base = state.items[item.key];
+      const remote = base ? byId.get(base.id) : byKey.get(item.key);
+
+      if (!base) {
+        if (!remote) {
+          const id = dryRun ? '(new)' : (await provider.create({
+            key: item.key,
+            title: item.title,
+            status: item.status,
+            state: CLOSED_STATUSES.has(item.status) ? 'closed' : 'open',
+            labels: item.labels,
+          })).id;
+          if (!dryRun) record(item.key, id, item.status);
+          result.changes.push({ key: item.key, id, action: 'created', status: item.status });
+        } else if (remote.status === item.status) {
+          if (!dryRun) record(item.key, remote.id, item.status);
+          result.changes.push({ key: item.key, id: remote.id, action: 'linked', status: item.status });
+        } else {
+          result.conflicts.push({
+            key: item.key, id: remote.id, local: item.status, remote: remote.status,
+            message: `Issue ${remote.id} already exists with status ${remote.status}, but ${item.key} is ${item.status}`,
+          });
+        }
+        continue;
+      }
+
+      if (!remote) {
+        result.conflicts.push({
+          key: item.key, id: base.id, base: base.status, local: item.status,
+          message: `Issue ${base.id} no longer exists in ${provider.name}`,
+        });
+        continue;
+      }
+
+      const localChanged = item.status !== base.status;
+      const remoteChanged = remote.status !== base.status;
+      if (item.status === remote.status) {
+        if (localChanged && !dryRun) record(item.key, remote.id, item.status);
+        result.unchanged++;
+      } else if (localChanged && remoteChanged) {
+        result.conflicts.push({
+          key: item.key, id: remote.id, base: base.status, local: item.status, remote: remote.status,
+          message: `Changed on both sides since the last sync: ${base.status} → ${item.status} locally, ` +
+            `${base.status} → ${remote.status} in ${provider.name}`,
+        });
+      } else if (localChanged) {
+        if (!dryRun) {
+          await pushStatus(provider, item, remote);
+          record(item.key, remote.id, item.status);
+        }
+        result.changes.push({ key: item.key, id: remote.id, action: 'pushed', from: base.status, status: item.status });
+      } else if (!isValidStatus(item, remote.status)) {
+        result.conflicts.push({
+          key: item.key, id: remote.id, base: base.status, local: item.status, remote: remote.status,
+          message: `Issue ${remote.id} has status ${remote.status}, which is not a ${item.kind} status`,
+        });
+      } else {
+        if (!dryRun) {
+          await pullStatus(provider, item, remote, workingDir);
+          record(item.key, remote.id, remote.status);
+        }
+        result.changes.push({ key: item.key, id: remote.id, action: 'pulled', from: item.status, status: remote.status });
+      }
+    }
+  } finally {
+    // Keep what was synced before a failure, so the next run does not repeat it
+    if (!dryRun) {
+      writeSyncState(statePath, state);
+    }
+  }
+
+  return result;
+}
+
+function renderSync(result: SyncResult): void {
+  const prefix = result.dryRun ? chalk.yellow('(dry run) ') : '';
+  for (const change of result.changes) {
+    const from = change.from ? `${change.from} → ` : '';
+    console.log(`${prefix}${chalk.green(change.action.padEnd(7))} ${change.key} (${change.id}) ${from}${change.status}`);
+  }
+  for (const conflict of result.conflicts) {
+    console.log(`${chalk.red('conflict')} ${conflict.key}: ${conflict.message}`);
+  }
+  console.log(
+    `${prefix}${result.changes.length} changed, ${result.unchanged} unchanged, ` +
+    `${result.conflicts.length} conflict${result.conflicts.length === 1 ? '' : 's'} with ${result.provider}`
+  );
+  if (result.conflicts.length > 0) {
+    console.log(chalk.gray('Conflicting items were left untouched; make both sides agree and sync again'));
+  }
+}
+
+/**
+ * Sync with a tracker and print what changed; exits with the validation code when there are conflicts
+ */
+export async function syncTracker(
+  providerName: string,
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  options: SyncOptions = {}
+): Promise<void> {
+  let hasConflicts = false;
+  await runCommand(format, async () => {
+    const result = await syncTrackerData(providerName, projectPath, options);
+    hasConflicts = result.conflicts.length > 0;
+    return result;
+  }, renderSync);
+  if (hasConflicts) {
+    process.exitCode = EXIT_CODES.VALIDATION;
+  }
+}
@@ -5,6 +5,9 @@
 
 import * as path from 'path';
 import { getCachedFileContent, cachedFileExists } from './file-cache';
+import { parseTaskDocument, flattenTasks, getTaskPaths } from './tasks';
+import { NotFoundError } from './output';
+import { getSteeringContextData } from './get-steering-context';
 
 export interface ParsedTask {
   id: string;
@@ -14,7 +17,7 @@ export interface ParsedTask {
 }
 
 /**
- * Parse tasks from a tasks.md markdown file
+ * Parse pending tasks from a tasks.md markdown file
  * Handles various formats agents might produce:
  * - [ ] 1. Task description
  * - [ ] 2.1 Subtask description  
@@ -23,123 +26,55 @@ export interface ParsedTask {
  *   - _Leverage: existing component X_
  */
 export function parseTasksFromMarkdown(content: string): ParsedTask[] {
-  const tasks: ParsedTask[] = [];
-  const lines = content.split('\n');
-  
-  let currentTask: ParsedTask | null = null;
-  let isCollectingTaskContent = false;
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmedLine = line.trim();
-    
-    // Match task lines with flexible format:
-    // Supports: "- [ ] 1. Task", "- [] 1 Task", "- [ ] 1.1. Task", etc.
-    // Also handles various spacing and punctuation
-    const taskMatch = trimmedLine.match(/^-\s*\[\s*\]\s*([0-9]+(?:\.[0-9]+)*)\s*\.?\s*(.+)$/);
-    
-    if (taskMatch) {
-      // If we have a previous task, save it
-      if (currentTask) {
-        tasks.push(currentTask);
-      }
-      
-      // Start new task
-      const taskId = taskMatch[1];
-      const taskDescription = taskMatch[2].trim();
-      
-      currentTask = {
-        id: taskId,
-        description: taskDescription
+  const tasks: ParsedTask[] = flattenTasks(parseTaskDocument(content).tasks)
+    .filter((task) => !task.completed)
+    .map((task) => {
+      const parsed: ParsedTask = {
+        id: task.id,
+        description: task.description
       };
-      isCollectingTaskContent = true;
-    } 
-    // If we're in a task, look for metadata anywhere in the task block
-    else if (currentTask && isCollectingTaskContent) {
-      // Check if this line starts a new task section (to stop collecting)
-      if (trimmedLine.match(/^-\s*\[\s*\]\s*[0-9]/)) {
-        // This is the start of a new task, process it in the next iteration
-        i--;
-        isCollectingTaskContent = false;
-        continue;
-      }
-      
-      // Check for _Requirements: anywhere in the line
-      const requirementsMatch = line.match(/_Requirements:\s*(.+?)(?:_|$)/);
-      if (requirementsMatch) {
-        currentTask.requirements = requirementsMatch[1].trim();
-      }
-      
-      // Check for _Leverage: anywhere in the line
-      const leverageMatch = line.match(/_Leverage:\s*(.+?)(?:_|$)/);
-      if (leverageMatch) {
-        currentTask.leverage = leverageMatch[1].trim();
+      if (task.metadata.requirements) {
+        parsed.requirements = task.metadata.requirements;
       }
-      
-      // Stop collecting if we hit an empty line followed by non-indented content
-      if (trimmedLine === '' && i + 1 < lines.length) {
-        const nextLine = lines[i + 1];
-        if (nextLine.length > 0 && nextLine[0] !== ' ' && nextLine[0] !== '\t' && !nextLine.startsWith('  -')) {
-          isCollectingTaskContent = false;
-        }
+      if (task.leverage) {
+        parsed.leverage = task.leverage;
       }
-    }
-  }
+      return parsed;
+    });
   
-  // Don't forget the last task
-  if (currentTask) {
-    tasks.push(currentTask);
-  }
-  
-  // Log parsing results for debugging
-  console.log(`Parsed ${tasks.length} tasks from markdown`);
+  // Log parsing results for debugging (on stderr so JSON output on stdout stays clean)
+  console.warn(`Parsed ${tasks.length} tasks from markdown`);
   if (tasks.length === 0 && content.trim().length > 0) {
-    console.log('Warning: No tasks found. Tasks must follow this exact format:');
-    console.log('  - [ ] 1. Task description');
-    console.log('  - [ ] 2.1 Subtask description');
-    console.log('    - Additional details');
-    console.log('    - _Requirements: 1.1, 2.2_');
-    console.log('    - _Leverage: path/to/file.ts_');
-    console.log('');
-    console.log('Content preview:');
-    console.log(content.substring(0, 500) + (content.length > 500 ? '...' : ''));
+    console.warn('Warning: No tasks found. Tasks must follow this exact format:');
+    console.warn('  - [ ] 1. Task description');
+    console.warn('  - [ ] 2.1 Subtask description');
+    console.warn('    - Additional details');
+    console.warn('    - _Requirements: 1.1, 2.2_');
+    console.warn('    - _Leverage: path/to/file.ts_');
+    console.warn('');
+    console.warn('Content preview:');
+    console.warn(content.substring(0, 500) + (content.length > 500 ? '...' : ''));
   }
   
   return tasks;
 }
 
 /**
- * Load steering context content
+ * Load the steering context that applies to implementing a task
  */
-function loadSteeringContext(projectPath: string): string {
-  const steeringDir = path.join(projectPath, '.claude', 'steering');
+function loadSteeringContext(projectPath: string, task: ParsedTask): string {
+  const { exists, documents } = getSteeringContextData(projectPath, {
+    phases: ['implementation'],
+    paths: getTaskPaths(task)
+  });
 
-  if (!cachedFileExists(steeringDir)) {
+  if (!exists) {
     return '## Steering Documents Context\n\nNo steering documents found.';
   }
 
-  const steeringFiles = [
-    { name: 'product.md', title: 'Product Context' },
-    { name: 'tech.md', title: 'Technology Context' },
-    { name: 'structure.md', title: 'Structure Context' }
-  ];
-
-  const sections: string[] = [];
-  let hasContent = false;
-
-  for (const file of steeringFiles) {
-    const filePath = path.join(steeringDir, file.name);
-
-    if (cachedFileExists(filePath)) {
-      const content = getCachedFileContent(filePath);
-      if (content && content.trim()) {
-        sections.push(`### ${file.title}\n${content.trim()}`);
-        hasContent = true;
-      }
-    }
-  }
+  const sections = documents.map((doc) => `### ${doc.title}\n${doc.content}`);
 
-  if (!hasContent) {
+  if (sections.length === 0) {
     return '## Steering Documents Context\n\nNo steering documents found or all are empty.';
   }
 
@@ -201,7 +136,7 @@ export async function generateTaskCommand(
   const projectPath = pathModule.resolve(commandsDir, '../../..');
 
   // Load actual content
-  const steeringContext = loadSteeringContext(projectPath);
+  const steeringContext = loadSteeringContext(projectPath, task);
   const specContext = loadSpecContext(specName, projectPath);
   
   let content = `# ${specName} - Task ${task.id}
@@ -255,8 +190,10 @@ ${specContext}
 
 ## Instructions
 - Implement ONLY task ${task.id}: "${task.description}"
+- Mark the task as in progress before starting: claude-code-spec-workflow get-tasks ${specName} ${task.id} --mode start
 - Follow all project conventions and leverage existing code
 - Mark the task as complete using: claude-code-spec-workflow get-tasks ${specName} ${task.id} --mode complete
+- If the task cannot be finished, mark it as blocked: claude-code-spec-workflow get-tasks ${specName} ${task.id} --mode block --reason "<reason>"
 - Provide a completion summary
 \`\`\`
 
@@ -273,4 +210,41 @@ After task completion, you can:
 `;
 
   await fs.writeFile(commandFile, content, 'utf8');
-}
\ No newline at end of file
+}
+export interface GeneratedTaskCommands {
+  spec: string;
+  commandsDir: string;
+  tasks: ParsedTask[];
+}
+
+/**
+ * Generate command files for every pending task of a spec
+ * Writes to .claude/commands/{specName}/task-{id}.md
+ */
+export async function generateSpecTaskCommands(
+  projectPath: string,
+  specName: string
+): Promise<GeneratedTaskCommands> {
+  const fs = await import('fs/promises');
+
+  const tasksFile = path.join(projectPath, '.claude', 'specs', specName, 'tasks.md');
+  const commandsDir = path.join(projectPath, '.claude', 'commands', specName);
+
+  let tasksContent: string;
+  try {
+    tasksContent = await fs.readFile(tasksFile, 'utf8');
+  } catch {
+    throw new NotFoundError(`tasks.md not found at ${tasksFile}`, { spec: specName, path: tasksFile });
+  }
+
+  // Create spec commands directory
+  await fs.mkdir(commandsDir, { recursive: true });
+
+  // Parse tasks and generate commands
+  const tasks = parseTasksFromMarkdown(tasksContent);
+  for (const task of tasks) {
+    await generateTaskCommand(commandsDir, specName, task);
+  }
+
+  return { spec: specName, commandsDir, tasks };
+}
@@ -0,0 +1,168 @@
+import * as path from 'path';
+import { cachedFileExists, getCachedFileContent } from './file-cache';
+import { GitUtils } from './git';
+import { parseTaskDocument, flattenTasks, TaskStatus, TaskStatusChange, TaskHistoryEntry } from './tasks';
+import { SPEC_ARCHIVE_DIR } from './dashboard/parser';
+import { FileAccessError, NotFoundError, OutputFormat, runCommand } from './output';
+
+/** A version of tasks.md: a commit, or the working tree when commit is absent */
+export interface TaskDocumentRevision {
+  commit?: string;
+  author?: string;
+  date?: string;
+  content: string;
+}
+
+export interface TaskHistoryResult {
+  spec: string;
+  /** tasks.md, relative to the project */
+  file: string;
+  /** Number of commits that touched tasks.md */
+  commits: number;
+  tasks: TaskHistoryEntry[];
+}
+
+/**
+ * Work out which revision changed each task's checkbox
+ *
+ * Only the tasks of the last revision are reported. A task's status is
+ * compared with its status in the most recent earlier revision containing it.
+ */
+export function buildTaskHistory(revisions: TaskDocumentRevision[]): TaskHistoryEntry[] {
+  const lastStatus = new Map<string, TaskStatus>();
+  const changes = new Map<string, TaskStatusChange[]>();
+  let tasks: ReturnType<typeof flattenTasks> = [];
+
+  for (const revision of revisions) {
+    tasks = flattenTasks(parseTaskDocument(revision.content).tasks);
+    const seen = new Set<string>();
+
+    for (const task of tasks) {
+      // Duplicate IDs are a lint error; follow the first task with the ID
+      if (seen.has(task.id)) continue;
+      seen.add(task.id);
+
+      const from = lastStatus.get(task.id) || 'pending';
+      if (task.status !== from) {
+        const change: TaskStatusChange = { from, to: task.status };
+        if (revision.commit) change.commit = revision.commit;
+        if (revision.author) change.author = revision.author;
+        if (revision.date) change.date = revision.date;
+        changes.set(task.id, [...(changes.get(task.id) || []), change]);
+      }
+      lastStatus.set(task.id, task.status);
+    }
+  }
+
+  const entries = new Map<string, TaskHistoryEntry>();
+  for (const task of tasks) {
+    if (entries.has(task.id)) continue;
+
+    const taskChanges = changes.get(task.id) || [];
+    const entry: TaskHistoryEntry = { id: task.id, description: task.description, status: task.status, changes: taskChanges };
+    const last = taskChanges[taskChanges.length - 1];
+    if (task.status === 'completed' && last?.to === 'completed') {
+      entry.completed = last;
+    }
+    entries.set(task.id, entry);
+  }
+  return [...entries.values()];
+}
+
+/**
+ * Reconstruct when each task of a spec changed status from the git history of its tasks.md
+ *
+ * Changes in the working tree that are not committed yet are reported
+ * without a commit. Archived specs are looked up in the archive.
+ */
+export async function getTaskHistoryData(specName: string, projectPath?: string): Promise<TaskHistoryResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const specsDir = path.join(workingDir, '.claude', 'specs');
+  const specDir = /[\\/]/.test(specName) || specName.startsWith('.')
+    ? undefined
+    : [path.join(specsDir, specName), path.join(specsDir, SPEC_ARCHIVE_DIR, specName)].find((dir) => cachedFileExists(dir));
+
+  if (!specDir) {
+    throw new NotFoundError(`Spec ${specName} not found`, { spec: specName });
+  }
+
+  const tasksPath = path.join(specDir, 'tasks.md');
+  if (!cachedFileExists(tasksPath)) {
+    throw new NotFoundError(`tasks.md not found at ${tasksPath}`, { spec: specName, path: tasksPath });
+  }
+  const content = getCachedFileContent(tasksPath);
+  if (content === null) {
+    throw new FileAccessError(`Could not read tasks.md at ${tasksPath}`, { path: tasksPath });
+  }
+
+  const file = path.relative(workingDir, tasksPath);
+  const commits = await GitUtils.getFileRevisions(workingDir, file);
+  const revisions: TaskDocumentRevision[] = commits.map((commit) => ({
+    commit: commit.hash.slice(0, 7),
+    author: commit.author,
+    date: commit.date,
+    content: commit.content,
+  }));
+  revisions.push({ content });
+
+  return {
+    spec: specName,
+    file: file.split(path.sep).join('/'),
+    commits: commits.length,
+    tasks: buildTaskHistory(revisions),
+  };
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Render the history as a markdown report
+ */
+export function formatTaskHistory(result: TaskHistoryResult): string {
+  const completed = result.tasks.filter((task) => task.status === 'completed').length;
+  const lines = [
+    `# Task History: ${result.spec}`,
+    '',
+    `${completed} of ${result.tasks.length} tasks completed; ${result.commits} commit${result.commits === 1 ? '' : 's'} to ${result.file}`,
+    '',
+    '| Task | Description | Status | Completed | By | Commit |',
+    '|------|-------------|--------|-----------|----|--------|',
+    ...result.tasks.map((task) => {
+      const change = task.completed;
+      const date = change ? change.date?.slice(0, 10) || 'uncommitted' : '-';
+      return `| ${task.id} | ${markdownCell(task.description)} | ${task.status} | ${date} | ` +
+        `${markdownCell(change?.author || '-')} | ${change?.commit || '-'} |`;
+    }),
+    '',
+    '## Changes',
+    '',
+  ];
+
+  // Uncommitted changes come last
+  const time = (change: TaskStatusChange) => (change.date ? new Date(change.date).getTime() : Number.MAX_SAFE_INTEGER);
+  const changes = result.tasks
+    .flatMap((task) => task.changes.map((change) => ({ task, change })))
+    .sort((a, b) => time(a.change) - time(b.change));
+  if (changes.length === 0) {
+    lines.push('No task status changes found.');
+  } else {
+    lines.push(...changes.map(({ task, change }) =>
+      `- ${change.date?.slice(0, 10) || 'Uncommitted'} ${change.commit ? `${change.commit} ${change.author} ` : ''}` +
+      `Task ${task.id}: ${change.from} → ${change.to}`
+    ));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Print who changed each task's status and when, as markdown or a JSON envelope
+ */
+export async function showTaskHistory(specName: string, projectPath?: string, format: OutputFormat = 'text'): Promise<void> {
+  await runCommand(format, () => getTaskHistoryData(specName, projectPath), (result) => {
+    console.log(formatTaskHistory(result));
+  });
+}
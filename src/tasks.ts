@@ -0,0 +1,600 @@
+/**
+ * Shared tasks.md parser
+ * Builds a typed task tree from a tasks.md document. The CLI (get-tasks),
+ * the task command generator and the dashboard all read tasks through this
+ * module so they agree on completion state, nesting and metadata.
+ *
+ * The parsed document keeps the original source lines, so unchanged documents
+ * serialize back byte-for-byte and edits (such as ticking a checkbox) only
+ * touch the lines they target.
+ */
+
+/**
+ * Task state encoded by the checkbox marker:
+ * "[ ]" pending, "[-]" in progress, "[x]" completed, "[!]" blocked, "[~]" skipped
+ */
+export type TaskStatus = 'pending' | 'in-progress' | 'completed' | 'blocked' | 'skipped';
+
+export const TASK_STATUS_MARKERS: Record<TaskStatus, string> = {
+  'pending': ' ',
+  'in-progress': '-',
+  'completed': 'x',
+  'blocked': '!',
+  'skipped': '~',
+};
+
+export type TaskStatusCounts = Record<TaskStatus, number>;
+
+/** A change of a task's checkbox, reconstructed from git history (see task-history.ts) */
+export interface TaskStatusChange {
+  from: TaskStatus;
+  to: TaskStatus;
+  /** Abbreviated hash of the commit that made the change; absent for uncommitted changes */
+  commit?: string;
+  author?: string;
+  /** Author date, ISO 8601 */
+  date?: string;
+}
+
+/** Status history of one task */
+export interface TaskHistoryEntry {
+  id: string;
+  description: string;
+  status: TaskStatus;
+  /** Status changes, oldest first; tasks added with a checked box start with a change from pending */
+  changes: TaskStatusChange[];
+  /** The change that completed the task, while it is completed */
+  completed?: TaskStatusChange;
+}
+
+export interface TaskNode {
+  id: string;
+  description: string;
+  status: TaskStatus;
+  /** Shorthand for `status === 'completed'` */
+  completed: boolean;
+  /** Raw character between the checkbox brackets ('' for an empty box) */
+  marker: string;
+  requirements: string[];
+  /** IDs of tasks that must be done first, from the `_Depends: 1.2, 3_` line */
+  dependencies: string[];
+  leverage?: string;
+  /** Reason from the `_Blocked: reason_` line of a blocked task */
+  blockedReason?: string;
+  /** Commit hash from the `_Commit: abc1234 (2 files, +10 -3)_` line of a completed task */
+  commit?: string;
+  /** All `_Key: value_` metadata lines in the task block, keyed by lowercased key */
+  metadata: Record<string, string>;
+  /** Non-metadata lines of the task block, without list bullets */
+  details: string[];
+  /** 1-based line of the checkbox */
+  line: number;
+  /** 1-based last non-blank line of the task block (excluding subtasks) */
+  endLine: number;
+  /** Leading whitespace width of the checkbox line */
+  indent: number;
+  /** Nesting depth in the tree (0 for top-level tasks) */
+  depth: number;
+  children: TaskNode[];
+}
+
+export interface TaskDocument {
+  /** Source lines including their line terminators */
+  lines: string[];
+  /** Top-level tasks */
+  tasks: TaskNode[];
+}
+
+/**
+ * Matches task lines in the formats agents produce:
+ * "- [ ] 1. Task", "- [x] 2.1 Task", "- [] 3 Task", "* [ ] **4. Task**", "- [ ] **5.** Task"
+ */
+const TASK_LINE_REGEX = /^(\s*)[-*+]\s*\[\s*([^\]\s]?)\s*\]\s*(\*\*)?(\d+(?:\.\d+)*)\.?(\*\*)?\s*(.+?)\s*$/;
+const CHECKBOX_REGEX = /^(\s*[-*+]\s*\[)([^\]]*)(\])/;
+const METADATA_REGEX = /^(?:[-*+]\s+)?_([A-Za-z][A-Za-z -]*):\s*(.*?)_?$/;
+const INLINE_METADATA_REGEX = /\s_([A-Z][A-Za-z -]*):\s*(.+?)(?:_(?=\s|$)|$)/g;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+function splitLines(content: string): string[] {
+  if (content === '') return [];
+  return content.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function stripLineEnding(line: string): string {
+  return line.replace(/\r?\n$/, '');
+}
+
+function detectLineEnding(lines: string[]): string {
+  return lines.some((line) => line.endsWith('\r\n')) ? '\r\n' : '\n';
+}
+
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, '  ').length;
+}
+
+/**
+ * Map a checkbox marker to a task status; unknown markers are treated as pending
+ */
+export function statusFromMarker(marker: string): TaskStatus {
+  switch (marker.trim().toLowerCase()) {
+    case 'x':
+      return 'completed';
+    case '-':
+      return 'in-progress';
+    case '!':
+      return 'blocked';
+    case '~':
+      return 'skipped';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Whether a task no longer needs work (completed or skipped)
+ */
+export function isTaskDone(status: TaskStatus): boolean {
+  return status === 'completed' || status === 'skipped';
+}
+
+function isDescendantId(id: string, ancestorId: string): boolean {
+  return id.startsWith(ancestorId + '.');
+}
+
+function parseTaskLine(text: string, lineNumber: number): TaskNode | null {
+  const match = text.match(TASK_LINE_REGEX);
+  if (!match) return null;
+
+  const [, indent = '', marker = '', leadingBold, id = '', closingBold] = match;
+  let description = match[6] || '';
+  // "**1. Task description**" wraps the whole line in bold
+  if (leadingBold && !closingBold) {
+    description = description.replace(/\*\*$/, '').trim();
+  }
+
+  const status = statusFromMarker(marker);
+  return {
+    id,
+    description,
+    status,
+    completed: status === 'completed',
+    marker,
+    requirements: [],
+    dependencies: [],
+    metadata: {},
+    details: [],
+    line: lineNumber,
+    endLine: lineNumber,
+    indent: indentWidth(indent),
+    depth: 0,
+    children: [],
+  };
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function applyMetadata(task: TaskNode, rawKey: string, rawValue: string): void {
+  const key = rawKey.trim().toLowerCase();
+  const value = rawValue.trim();
+  task.metadata[key] = value;
+
+  if (key === 'requirements') {
+    task.requirements = splitList(value);
+  } else if (key === 'depends' || key === 'depends on') {
+    task.dependencies = splitList(value).map((id) => id.replace(/\.$/, ''));
+  } else if (key === 'leverage' && value) {
+    task.leverage = value;
+  } else if (key === 'blocked' && value) {
+    task.blockedReason = value;
+  } else if (key === 'commit' && value) {
+    task.commit = value.split(/\s/)[0] || value;
+  }
+}
+
+function applyBodyLine(task: TaskNode, text: string): void {
+  const trimmed = text.trim();
+  const metadataMatch = trimmed.match(METADATA_REGEX);
+
+  if (metadataMatch) {
+    applyMetadata(task, metadataMatch[1] || '', metadataMatch[2] || '');
+    return;
+  }
+
+  // Metadata written after detail text, e.g. "- Validate input _Requirements: 1.2_"
+  for (const inline of trimmed.matchAll(INLINE_METADATA_REGEX)) {
+    applyMetadata(task, inline[1] || '', inline[2] || '');
+  }
+  task.details.push(trimmed.replace(/^[-*+]\s+/, ''));
+}
+
+/**
+ * Parse a tasks.md document into a task tree
+ *
+ * Subtasks are nested either by indentation or, for flat lists, by ID prefix
+ * (e.g. "2.1" directly after "2" becomes a child of task 2). Lines that follow a
+ * task belong to it until the next task or the next non-indented line, such as
+ * a heading. Task-like lines inside fenced code blocks are ignored.
+ *
+ * @param content - Raw tasks.md content
+ * @returns Parsed document that can be serialized back with {@link serializeTaskDocument}
+ *
+ * @example
+ * ```typescript
+ * const doc = parseTaskDocument('- [ ] 1. Setup\n  - _Requirements: 1.1_\n');
+ * console.log(doc.tasks[0].requirements); // ['1.1']
+ * ```
+ */
+export function parseTaskDocument(content: string): TaskDocument {
+  const lines = splitLines(content);
+  const tasks: TaskNode[] = [];
+  const stack: TaskNode[] = [];
+  let current: TaskNode | null = null;
+  let inFence = false;
+
+  lines.forEach((rawLine, index) => {
+    const text = stripLineEnding(rawLine);
+    const lineNumber = index + 1;
+
+    if (FENCE_REGEX.test(text)) {
+      inFence = !inFence;
+      if (current && /^\s/.test(text)) {
+        current.endLine = lineNumber;
+      } else {
+        current = null;
+      }
+      return;
+    }
+
+    if (inFence) {
+      if (current) current.endLine = lineNumber;
+      return;
+    }
+
+    const task = parseTaskLine(text, lineNumber);
+    if (task) {
+      while (stack.length > 0) {
+        const top = stack[stack.length - 1]!;
+        if (top.indent < task.indent || isDescendantId(task.id, top.id)) break;
+        stack.pop();
+      }
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        task.depth = parent.depth + 1;
+        parent.children.push(task);
+      } else {
+        tasks.push(task);
+      }
+
+      stack.push(task);
+      current = task;
+      return;
+    }
+
+    if (!current || text.trim() === '') return;
+
+    // Non-indented content (headings, paragraphs) ends the task block
+    if (!/^\s/.test(text)) {
+      current = null;
+      return;
+    }
+
+    applyBodyLine(current, text);
+    current.endLine = lineNumber;
+  });
+
+  return { lines, tasks };
+}
+
+/**
+ * Serialize a parsed document back to markdown
+ */
+export function serializeTaskDocument(doc: TaskDocument): string {
+  return doc.lines.join('');
+}
+
+/**
+ * Flatten a task tree into document order (parents before their subtasks)
+ */
+export function flattenTasks(tasks: TaskNode[]): TaskNode[] {
+  const result: TaskNode[] = [];
+  for (const task of tasks) {
+    result.push(task);
+    result.push(...flattenTasks(task.children));
+  }
+  return result;
+}
+
+/**
+ * Find a task anywhere in the document by its ID
+ */
+export function findTask(doc: TaskDocument, id: string): TaskNode | undefined {
+  return flattenTasks(doc.tasks).find((task) => task.id === id);
+}
+
+/**
+ * Project paths a task mentions in its description, details or leverage line,
+ * e.g. "src/api/users.ts" or "`auth.ts`"
+ */
+export function getTaskPaths(task: Pick<TaskNode, 'description'> & Partial<Pick<TaskNode, 'details' | 'leverage'>>): string[] {
+  const text = [task.description, ...(task.details || []), task.leverage || ''].join(' ');
+  const paths = text
+    .split(/[\s,]+/)
+    .map((token) => token.replace(/^[`'"(*[]+|[`'")*\].,;:]+$/g, '').replace(/\\/g, '/').replace(/^\.\//, ''))
+    .filter((token) => !token.includes('://') && /^[\w.@*/-]+$/.test(token))
+    .filter((token) => /[\w*]\/[\w.*]/.test(token) || /[\w*]\.[A-Za-z][A-Za-z0-9]+$/.test(token));
+  return [...new Set(paths)];
+}
+
+/**
+ * Count tasks (including subtasks) by status
+ */
+export function countTasksByStatus(tasks: TaskNode[]): TaskStatusCounts {
+  const counts: TaskStatusCounts = { 'pending': 0, 'in-progress': 0, 'completed': 0, 'blocked': 0, 'skipped': 0 };
+  for (const task of flattenTasks(tasks)) {
+    counts[task.status]++;
+  }
+  return counts;
+}
+
+export interface TaskGraphIssue {
+  type: 'unknown-dependency' | 'cycle';
+  /** Task whose `_Depends:` line causes the issue */
+  taskId: string;
+  /** The unknown ID, or the task IDs around the cycle in dependency order */
+  ids: string[];
+  message: string;
+}
+
+/**
+ * Check the dependency graph declared with `_Depends:` lines
+ *
+ * Reports dependencies on task IDs that do not exist in the document and every
+ * dependency cycle (including a task depending on itself). Each cycle is
+ * reported once.
+ *
+ * @param tasks - Task tree from {@link parseTaskDocument}
+ * @returns Issues found; empty when the graph is a valid DAG
+ */
+export function validateTaskDependencies(tasks: TaskNode[]): TaskGraphIssue[] {
+  const all = flattenTasks(tasks);
+  const byId = new Map(all.map((task) => [task.id, task]));
+  const issues: TaskGraphIssue[] = [];
+
+  for (const task of all) {
+    for (const dependency of task.dependencies) {
+      if (!byId.has(dependency)) {
+        issues.push({
+          type: 'unknown-dependency',
+          taskId: task.id,
+          ids: [dependency],
+          message: `Task ${task.id} depends on unknown task ${dependency}`,
+        });
+      }
+    }
+  }
+
+  // Depth-first search; a dependency that is still on the path closes a cycle
+  const visited = new Set<string>();
+  const path: string[] = [];
+  const visit = (task: TaskNode): void => {
+    visited.add(task.id);
+    path.push(task.id);
+    for (const dependencyId of task.dependencies) {
+      const dependency = byId.get(dependencyId);
+      if (!dependency) continue;
+      const cycleStart = path.indexOf(dependencyId);
+      if (cycleStart >= 0) {
+        const cycle = path.slice(cycleStart);
+        issues.push({
+          type: 'cycle',
+          taskId: dependencyId,
+          ids: cycle,
+          message: `Dependency cycle: ${[...cycle, dependencyId].join(' -> ')}`,
+        });
+      } else if (!visited.has(dependencyId)) {
+        visit(dependency);
+      }
+    }
+    path.pop();
+  };
+  for (const task of all) {
+    if (!visited.has(task.id)) visit(task);
+  }
+
+  return issues;
+}
+
+/**
+ * Find every task that can be worked on now: pending or in progress, with all
+ * of its `_Depends:` tasks completed or skipped. Tasks depending on unknown
+ * IDs are never runnable.
+ *
+ * @param tasks - Task tree from {@link parseTaskDocument}
+ * @returns Runnable tasks in document order
+ */
+export function getRunnableTasks(tasks: TaskNode[]): TaskNode[] {
+  const all = flattenTasks(tasks);
+  const byId = new Map(all.map((task) => [task.id, task]));
+
+  return all.filter((task) =>
+    (task.status === 'pending' || task.status === 'in-progress') &&
+    task.dependencies.every((id) => {
+      const dependency = byId.get(id);
+      return dependency !== undefined && isTaskDone(dependency.status);
+    })
+  );
+}
+
+function replaceDocument(doc: TaskDocument, lines: string[]): void {
+  const reparsed = parseTaskDocument(lines.join(''));
+  doc.lines = reparsed.lines;
+  doc.tasks = reparsed.tasks;
+}
+
+/**
+ * Set, replace or remove a task's `_Key: value_` metadata line
+ *
+ * A new line is inserted after the last line of the task block (excluding
+ * subtasks); an existing line with the same key is replaced in place.
+ */
+function setMetadataLine(lines: string[], task: TaskNode, key: string, value: string | null): void {
+  const lineEnding = detectLineEnding(lines);
+
+  // Locate an existing line with the key within the task's own block
+  let metadataIndex = -1;
+  for (let i = task.line; i < task.endLine; i++) {
+    const body = stripLineEnding(lines[i] || '').trim();
+    const match = body.match(METADATA_REGEX);
+    if (match && (match[1] || '').trim().toLowerCase() === key.toLowerCase()) {
+      metadataIndex = i;
+    }
+  }
+
+  if (value === null) {
+    if (metadataIndex >= 0) {
+      lines.splice(metadataIndex, 1);
+    }
+    return;
+  }
+
+  const metadataLine = `${' '.repeat(task.indent + 2)}- _${key}: ${value}_`;
+  if (metadataIndex >= 0) {
+    lines[metadataIndex] = metadataLine + lines[metadataIndex]!.slice(stripLineEnding(lines[metadataIndex]!).length);
+  } else {
+    // Insert after the last line of the task block, terminating it if it was the final line
+    const endIndex = task.endLine - 1;
+    const endLine = lines[endIndex]!;
+    if (stripLineEnding(endLine) === endLine) {
+      lines[endIndex] = endLine + lineEnding;
+      lines.splice(endIndex + 1, 0, metadataLine);
+    } else {
+      lines.splice(endIndex + 1, 0, metadataLine + lineEnding);
+    }
+  }
+}
+
+/**
+ * Change the status of a task by rewriting its checkbox marker
+ *
+ * Blocking a task writes its reason to a `_Blocked: reason_` line in the task
+ * block (replacing any existing one); moving a task out of the blocked state
+ * removes that line, and moving it out of the completed state removes its
+ * `_Commit:_` line. Other lines are left untouched. Nodes previously obtained
+ * from the document are stale after this call; look them up again.
+ *
+ * @param doc - Parsed document, updated in place
+ * @param id - Task ID
+ * @param status - New status
+ * @param reason - Reason recorded for blocked tasks
+ * @returns false if the task does not exist
+ */
+export function setTaskStatus(doc: TaskDocument, id: string, status: TaskStatus, reason?: string): boolean {
+  const task = findTask(doc, id);
+  if (!task) return false;
+
+  const lines = [...doc.lines];
+  const index = task.line - 1;
+  const rawLine = lines[index];
+  if (rawLine === undefined) return false;
+
+  const text = stripLineEnding(rawLine);
+  if (!CHECKBOX_REGEX.test(text)) return false;
+  lines[index] = text.replace(CHECKBOX_REGEX, `$1${TASK_STATUS_MARKERS[status]}$3`) + rawLine.slice(text.length);
+  replaceDocument(doc, lines);
+
+  if (status === 'blocked' && reason) {
+    setTaskMetadata(doc, id, 'Blocked', reason);
+  } else if (status !== 'blocked') {
+    setTaskMetadata(doc, id, 'Blocked', null);
+  }
+  if (status !== 'completed') {
+    setTaskMetadata(doc, id, 'Commit', null);
+  }
+  return true;
+}
+
+/**
+ * Set or remove a `_Key: value_` metadata line of a task, e.g. `_Commit: abc1234_`
+ *
+ * @param value - New value, or null to remove the line
+ * @returns false if the task does not exist
+ */
+export function setTaskMetadata(doc: TaskDocument, id: string, key: string, value: string | null): boolean {
+  const task = findTask(doc, id);
+  if (!task) return false;
+
+  const lines = [...doc.lines];
+  setMetadataLine(lines, task, key, value);
+  replaceDocument(doc, lines);
+  return true;
+}
+
+/**
+ * Mark a task as completed ("[x]") or pending ("[ ]")
+ *
+ * @returns false if the task does not exist
+ */
+export function setTaskCompleted(doc: TaskDocument, id: string, completed: boolean): boolean {
+  return setTaskStatus(doc, id, completed ? 'completed' : 'pending');
+}
+
+/**
+ * A task list without its progress: every checkbox reset to pending and the
+ * `_Commit:_` and `_Blocked:_` lines that task updates write dropped
+ *
+ * Used to hash an approved task list, so working through the tasks does not
+ * count as an edit of the approved plan.
+ */
+export function stripTaskStatus(content: string): string {
+  const doc = parseTaskDocument(content);
+  const lines = [...doc.lines];
+  const statusLines = new Set<number>();
+
+  for (const task of flattenTasks(doc.tasks)) {
+    const index = task.line - 1;
+    const text = stripLineEnding(lines[index] || '');
+    lines[index] = text.replace(CHECKBOX_REGEX, `$1${TASK_STATUS_MARKERS.pending}$3`) + (lines[index] || '').slice(text.length);
+    for (let i = task.line; i < task.endLine; i++) {
+      const key = stripLineEnding(lines[i] || '').trim().match(METADATA_REGEX)?.[1]?.trim().toLowerCase();
+      if (key === 'commit' || key === 'blocked') {
+        statusLines.add(i);
+      }
+    }
+  }
+  return lines.filter((_, index) => !statusLines.has(index)).join('');
+}
+
+/**
+ * Add a pending top-level task after the last task of the document
+ *
+ * The task gets the next free top-level number and a `_Key: value_` line for
+ * each metadata entry. Text after the last task is kept after the new one.
+ * Nodes previously obtained from the document are stale after this call.
+ *
+ * @returns ID of the new task
+ */
+export function appendTask(doc: TaskDocument, description: string, metadata: Record<string, string> = {}): string {
+  const lineEnding = detectLineEnding(doc.lines);
+  const id = String(Math.max(0, ...doc.tasks.map((task) => parseInt(task.id, 10) || 0)) + 1);
+  const block = [
+    `- [ ] ${id}. ${description}`,
+    ...Object.entries(metadata).map(([key, value]) => `  - _${key}: ${value}_`),
+  ].map((line) => line + lineEnding);
+
+  const lines = [...doc.lines];
+  const lastTaskLine = flattenTasks(doc.tasks).reduce((end, task) => Math.max(end, task.endLine), 0);
+  const insertAt = lastTaskLine > 0 ? lastTaskLine : lines.length;
+  const previous = lines[insertAt - 1];
+  if (previous !== undefined && stripLineEnding(previous) === previous) {
+    lines[insertAt - 1] = previous + lineEnding;
+  }
+  lines.splice(insertAt, 0, ...(insertAt > 0 ? [lineEnding] : []), ...block);
+  replaceDocument(doc, lines);
+  return id;
+}
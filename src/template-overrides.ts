@@ -0,0 +1,558 @@
+/**
+ * Project-level template overrides
+ *
+ * Files in `.claude/templates/overrides/` adjust the packaged templates
+ * without forking them, and survive updates. An override inherits the
+ * packaged template section by section: each heading in the override
+ * replaces the template's section with the same heading (subsections
+ * included), and a heading the template does not have adds a new section at
+ * the end. A comment line right below a heading changes that:
+ *
+ * ```markdown
+ * <!-- append -->            add the body to the end of the inherited section
+ * <!-- remove -->            drop the inherited section
+ * <!-- after: Heading -->    place a new section after the named one
+ * <!-- before: Heading -->   place a new section before the named one
+ * ```
+ *
+ * A level-one heading is the document title rather than a section: it
+ * replaces the template's title, the text below it replaces the template's
+ * introduction when there is any, and the sections under it are merged one by
+ * one. Text before the first heading of an override is ignored, and an override
+ * with `inherit: false` front-matter replaces the template wholesale. Setup
+ * and update write the merged templates to `.claude/templates`, where the
+ * slash commands read them.
+ *
+ * Templates in the packs of `.claude/packs.json` are merged the same way,
+ * between the packaged template and the project's override.
+ */
+
+import { mkdirSync, readdirSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { getCachedFileContent, clearCache } from './file-cache';
+import { readFrontMatterValue, splitFrontMatter } from './approval';
+import { EXIT_CODES, FileAccessError, NotFoundError, OutputFormat, runCommand } from './output';
+import { loadPacks, Pack } from './packs';
+
+/** Directory under .claude/templates that holds the overrides */
+export const TEMPLATE_OVERRIDES_DIR = 'overrides';
+
+type SectionDirective =
+  | { kind: 'title' }
+  | { kind: 'replace' }
+  | { kind: 'append' }
+  | { kind: 'remove' }
+  | { kind: 'after' | 'before'; anchor: string };
+
+interface Heading {
+  /** Line index */
+  index: number;
+  level: number;
+  text: string;
+}
+
+interface OverrideSection {
+  headingLine: string;
+  level: number;
+  text: string;
+  directive: SectionDirective;
+  /** Lines below the heading, without the directive */
+  body: string[];
+}
+
+export interface TemplateMergeResult {
+  content: string;
+  /** Directives that could not be applied, e.g. a removed section the template does not have */
+  warnings: string[];
+}
+
+export interface ResolvedTemplate {
+  template: string;
+  /** Packaged template merged with the project's override */
+  content: string;
+  /** Sources of the packs that have the template, lowest precedence first */
+  packs: string[];
+  /** Override path relative to the project, when there is one */
+  override?: string;
+  warnings: string[];
+}
+
+export interface TemplateApplyResult {
+  applied: { template: string; warnings: string[] }[];
+  /** Override files and pack templates that do not match a packaged template, and packs that cannot be read */
+  skipped: { file: string; message: string }[];
+}
+
+/**
+ * 'modified' means the project's template differs from the packaged one
+ * merged with its override: edited by hand, or an override not applied yet
+ */
+export type TemplateDriftState = 'unchanged' | 'overridden' | 'modified' | 'missing';
+
+export interface TemplateDrift {
+  template: string;
+  state: TemplateDriftState;
+  packs: string[];
+  override?: string;
+  /** Unified diff from the packaged template to the project's template; empty when they match */
+  diff: string;
+  warnings: string[];
+}
+
+export interface TemplateDiffResult {
+  templates: TemplateDrift[];
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const DIRECTIVE_PATTERN = /^<!--\s*(append|remove|(after|before):\s*(.+?))\s*-->\s*$/;
+
+function normalizeHeading(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Headings outside fenced code blocks */
+function findHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  let fence: string | null = null;
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch?.[1]) {
+      fence = fence === null ? fenceMatch[1] : fence === fenceMatch[1] ? null : fence;
+      return;
+    }
+    const match = fence === null ? line.match(HEADING_PATTERN) : null;
+    if (match?.[1] && match[2]) {
+      headings.push({ index, level: match[1].length, text: match[2] });
+    }
+  });
+  return headings;
+}
+
+/** Line index where a section ends: the next heading of the same or a higher level */
+function findSectionEnd(lines: string[], headings: Heading[], section: Heading): number {
+  const next = headings.find((heading) => heading.index > section.index && heading.level <= section.level);
+  return next ? next.index : lines.length;
+}
+
+function trimBlankLines(lines: string[], leading = true): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (leading && start < end && !lines[start]?.trim()) start++;
+  while (end > start && !lines[end - 1]?.trim()) end--;
+  return lines.slice(start, end);
+}
+
+function parseOverrideSections(body: string): OverrideSection[] {
+  const lines = body.split(/\r?\n/);
+  const headings = findHeadings(lines);
+  const sections: OverrideSection[] = [];
+
+  let index = 0;
+  while (index < headings.length) {
+    const heading = headings[index] as Heading;
+    const end = findSectionEnd(lines, headings, heading);
+    const sectionLines = lines.slice(heading.index + 1, end);
+
+    let directive: SectionDirective = { kind: 'replace' };
+    const first = sectionLines.findIndex((line) => line.trim());
+    const match = first === -1 ? null : (sectionLines[first] || '').trim().match(DIRECTIVE_PATTERN);
+    if (heading.level === 1 && !match) {
+      // The document title: it replaces the template's title and intro, and its sections are merged one by one
+      const intro = headings[index + 1]?.index ?? end;
+      sections.push({
+        headingLine: lines[heading.index] || '',
+        level: 1,
+        text: heading.text,
+        directive: { kind: 'title' },
+        body: lines.slice(heading.index + 1, intro),
+      });
+      index++;
+      continue;
+    }
+    if (match) {
+      // Drop the directive, keeping the spacing written below it
+      sectionLines.splice(0, first + 1);
+      if (match[2] && match[3]) {
+        directive = { kind: match[2] as 'after' | 'before', anchor: match[3] };
+      } else {
+        directive = { kind: match[1] as 'append' | 'remove' };
+      }
+    }
+
+    sections.push({
+      headingLine: lines[heading.index] || '',
+      level: heading.level,
+      text: heading.text,
+      directive,
+      body: sectionLines,
+    });
+    // Skip the subsections, which belong to this section
+    while (index < headings.length && (headings[index] as Heading).index < end) index++;
+  }
+  return sections;
+}
+
+/** Insert lines, keeping a blank line between them and the text before */
+function insertLines(lines: string[], at: number, block: string[]): void {
+  const separated = at > 0 && lines[at - 1]?.trim() ? ['', ...block] : block;
+  lines.splice(at, 0, ...separated);
+}
+
+/**
+ * Merge an override into a template
+ *
+ * Also merges steering documents of a project into those of its packs.
+ */
+export function mergeTemplate(template: string, override: string): TemplateMergeResult {
+  const { body } = splitFrontMatter(override);
+  if (readFrontMatterValue(override, 'inherit') === 'false') {
+    return { content: body, warnings: [] };
+  }
+
+  const lines = template.split(/\r?\n/);
+  const warnings: string[] = [];
+
+  for (const section of parseOverrideSections(body)) {
+    const headings = findHeadings(lines);
+    const target = headings.find((heading) =>
+      heading.level === section.level && normalizeHeading(heading.text) === normalizeHeading(section.text)
+    );
+    const { directive } = section;
+
+    if (directive.kind === 'title') {
+      const title = headings.find((heading) => heading.level === 1);
+      const intro = trimBlankLines(section.body);
+      if (!title) {
+        lines.splice(0, 0, section.headingLine, ...(intro.length > 0 ? ['', ...intro] : []), '');
+        continue;
+      }
+      const introEnd = headings.find((heading) => heading.index > title.index)?.index ?? lines.length;
+      lines[title.index] = section.headingLine;
+      if (intro.length > 0) {
+        lines.splice(title.index + 1, introEnd - title.index - 1, '', ...intro, ...(introEnd < lines.length ? [''] : []));
+      }
+      continue;
+    }
+
+    if (directive.kind === 'remove' || directive.kind === 'append') {
+      if (!target) {
+        warnings.push(`Section "${section.text}" not found in the template; ${directive.kind} ignored`);
+        continue;
+      }
+      const end = findSectionEnd(lines, headings, target);
+      if (directive.kind === 'remove') {
+        lines.splice(target.index, end - target.index);
+      } else {
+        // Append after the section's last non-blank line
+        let at = end;
+        while (at > target.index + 1 && !lines[at - 1]?.trim()) at--;
+        insertLines(lines, at, trimBlankLines(section.body));
+      }
+      continue;
+    }
+
+    const block = [section.headingLine, ...trimBlankLines(section.body, false), ''];
+    if (target) {
+      lines.splice(target.index, findSectionEnd(lines, headings, target) - target.index, ...block);
+      continue;
+    }
+
+    let at = lines.length;
+    while (at > 0 && !lines[at - 1]?.trim()) at--;
+    if (directive.kind === 'after' || directive.kind === 'before') {
+      const anchor = headings.find((heading) => normalizeHeading(heading.text) === normalizeHeading(directive.anchor));
+      if (!anchor) {
+        warnings.push(`Section "${directive.anchor}" not found in the template; "${section.text}" added at the end`);
+      } else {
+        at = directive.kind === 'before' ? anchor.index : findSectionEnd(lines, headings, anchor);
+      }
+    }
+    insertLines(lines, at, block);
+  }
+
+  return { content: lines.join('\n').replace(/\n*$/, '\n'), warnings };
+}
+
+/** Directory of the templates shipped with the package */
+export function getPackagedTemplatesDir(): string {
+  return path.join(__dirname, 'markdown', 'templates');
+}
+
+/** File names of the templates shipped with the package */
+export function listPackagedTemplates(): string[] {
+  return readdirSync(getPackagedTemplatesDir()).filter((file) => file.endsWith('.md')).sort();
+}
+
+function getOverridesDir(workingDir: string): string {
+  return path.join(workingDir, '.claude', 'templates', TEMPLATE_OVERRIDES_DIR);
+}
+
+function listOverrides(workingDir: string): string[] {
+  try {
+    return readdirSync(getOverridesDir(workingDir)).filter((file) => file.endsWith('.md')).sort();
+  } catch {
+    return [];
+  }
+}
+
+function resolveTemplateLayers(templateName: string, workingDir: string, packs: Pack[]): ResolvedTemplate | null {
+  if (path.basename(templateName) !== templateName) {
+    return null;
+  }
+  const packaged = getCachedFileContent(path.join(getPackagedTemplatesDir(), templateName));
+  if (packaged === null) {
+    return null;
+  }
+
+  const resolved: ResolvedTemplate = { template: templateName, content: packaged, packs: [], warnings: [] };
+  const merge = (layer: string, source: string) => {
+    const merged = mergeTemplate(resolved.content, layer);
+    resolved.content = merged.content;
+    resolved.warnings.push(...merged.warnings.map((warning) => `${source}: ${warning}`));
+  };
+
+  for (const pack of packs) {
+    const layer = pack.read('templates', templateName);
+    if (layer !== null) {
+      merge(layer, pack.source);
+      resolved.packs.push(pack.source);
+    }
+  }
+
+  const overridePath = path.join(getOverridesDir(workingDir), templateName);
+  const override = getCachedFileContent(overridePath);
+  if (override !== null) {
+    resolved.override = path.relative(workingDir, overridePath).split(path.sep).join('/');
+    merge(override, resolved.override);
+  }
+  return resolved;
+}
+
+/**
+ * The packaged template merged with the project's packs and override
+ * @returns null when the package has no template of that name
+ */
+export function resolveTemplate(templateName: string, projectPath?: string): ResolvedTemplate | null {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  return resolveTemplateLayers(templateName, workingDir, loadPacks(workingDir).packs);
+}
+
+/**
+ * Write every template that has a pack layer or an override, merged, to .claude/templates
+ */
+export function applyTemplateOverridesData(projectPath?: string): TemplateApplyResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const templatesDir = path.join(workingDir, '.claude', 'templates');
+  const { packs, errors } = loadPacks(workingDir);
+  const result: TemplateApplyResult = {
+    applied: [],
+    skipped: errors.map((error) => ({ file: error.source, message: error.message })),
+  };
+
+  const packaged = listPackagedTemplates();
+  const layers = new Map<string, string[]>();
+  for (const pack of packs) {
+    for (const file of pack.files.templates) {
+      layers.set(file, [...(layers.get(file) || []), `${pack.source}/templates/${file}`]);
+    }
+  }
+  for (const file of listOverrides(workingDir)) {
+    layers.set(file, [...(layers.get(file) || []), `.claude/templates/${TEMPLATE_OVERRIDES_DIR}/${file}`]);
+  }
+
+  for (const file of [...layers.keys()].sort()) {
+    const resolved = packaged.includes(file) ? resolveTemplateLayers(file, workingDir, packs) : null;
+    if (!resolved) {
+      for (const layer of layers.get(file) || []) {
+        result.skipped.push({ file: layer, message: `No packaged template named ${file}` });
+      }
+      continue;
+    }
+    const filePath = path.join(templatesDir, file);
+    try {
+      mkdirSync(templatesDir, { recursive: true });
+      writeFileSync(filePath, resolved.content, 'utf-8');
+      clearCache(filePath);
+    } catch (error) {
+      throw new FileAccessError(
+        `Could not write ${file} at ${filePath}: ${error instanceof Error ? error.message : error}`,
+        { path: filePath }
+      );
+    }
+    result.applied.push({ template: file, warnings: resolved.warnings });
+  }
+  return result;
+}
+
+/**
+ * Unified diff of two texts, by line, with three lines of context
+ */
+export function diffLines(before: string, after: string, beforeLabel: string, afterLabel: string): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Longest common subsequence table, filled from the end
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? (lcs[(i + 1) * width + j + 1] || 0) + 1
+        : Math.max(lcs[(i + 1) * width + j] || 0, lcs[i * width + j + 1] || 0);
+    }
+  }
+
+  const ops: { type: ' ' | '-' | '+'; line: string; aLine: number; bLine: number }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] || '', aLine: i++, bLine: j++ });
+    } else if (i < a.length && (j >= b.length || (lcs[(i + 1) * width + j] || 0) >= (lcs[i * width + j + 1] || 0))) {
+      ops.push({ type: '-', line: a[i] || '', aLine: i++, bLine: j });
+    } else {
+      ops.push({ type: '+', line: b[j] || '', aLine: i, bLine: j++ });
+    }
+  }
+
+  const context = 3;
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index]?.type === ' ') {
+      index++;
+      continue;
+    }
+    // Extend the hunk while changes are at most two contexts apart
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < ops.length && end - lastChange <= context * 2) {
+      if (ops[end]?.type !== ' ') lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const aCount = hunk.filter((op) => op.type !== '+').length;
+    const bCount = hunk.filter((op) => op.type !== '-').length;
+    const aStart = (hunk[0]?.aLine || 0) + (aCount > 0 ? 1 : 0);
+    const bStart = (hunk[0]?.bLine || 0) + (bCount > 0 ? 1 : 0);
+    hunks.push(`@@ -${aStart},${aCount} +${bStart},${bCount} @@`, ...hunk.map((op) => `${op.type}${op.line}`));
+    index = end;
+  }
+
+  return hunks.length > 0 ? [`--- ${beforeLabel}`, `+++ ${afterLabel}`, ...hunks].join('\n') + '\n' : '';
+}
+
+/**
+ * Compare the project's templates with the packaged ones
+ * @param templateName Only compare this template
+ */
+export function diffTemplatesData(templateName?: string, projectPath?: string): TemplateDiffResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const packaged = listPackagedTemplates();
+  if (templateName && !packaged.includes(templateName)) {
+    throw new NotFoundError(`No packaged template named ${templateName}`, { template: templateName, available: packaged });
+  }
+
+  const { packs } = loadPacks(workingDir);
+  const templates = (templateName ? [templateName] : packaged).map((template): TemplateDrift => {
+    const resolved = resolveTemplateLayers(template, workingDir, packs) as ResolvedTemplate;
+    const upstream = getCachedFileContent(path.join(getPackagedTemplatesDir(), template)) || '';
+    const project = getCachedFileContent(path.join(workingDir, '.claude', 'templates', template));
+    const layers = { packs: resolved.packs, ...(resolved.override ? { override: resolved.override } : {}) };
+
+    if (project === null) {
+      return { template, state: 'missing', ...layers, diff: '', warnings: resolved.warnings };
+    }
+    let state: TemplateDriftState = resolved.override || resolved.packs.length > 0 ? 'overridden' : 'unchanged';
+    if (project !== resolved.content) {
+      state = 'modified';
+    }
+    const diff = diffLines(upstream, project, `packaged/${template}`, `.claude/templates/${template}`);
+    return { template, state, ...layers, diff, warnings: resolved.warnings };
+  });
+
+  return { templates };
+}
+
+function renderApply(result: TemplateApplyResult): void {
+  for (const applied of result.applied) {
+    console.log(chalk.green(`✓ .claude/templates/${applied.template}`));
+    for (const warning of applied.warnings) {
+      console.log(chalk.yellow(`  ${warning}`));
+    }
+  }
+  for (const skipped of result.skipped) {
+    console.log(chalk.yellow(`skipped ${skipped.file}: ${skipped.message}`));
+  }
+  if (result.applied.length === 0 && result.skipped.length === 0) {
+    console.log(chalk.gray(`No overrides in .claude/templates/${TEMPLATE_OVERRIDES_DIR}`));
+  }
+}
+
+function renderDiff(result: TemplateDiffResult): void {
+  const colors: Record<TemplateDriftState, chalk.Chalk> = {
+    unchanged: chalk.gray,
+    overridden: chalk.cyan,
+    modified: chalk.yellow,
+    missing: chalk.red,
+  };
+  for (const drift of result.templates) {
+    const layers = drift.override ? [...drift.packs, drift.override] : drift.packs;
+    const via = layers.length > 0 ? chalk.gray(` (${layers.join(', ')})`) : '';
+    console.log(`${colors[drift.state](drift.state.padEnd(10))} ${drift.template}${via}`);
+    for (const warning of drift.warnings) {
+      console.log(chalk.yellow(`  ${warning}`));
+    }
+    if (drift.state === 'modified') {
+      console.log(chalk.gray(layers.length > 0
+        ? '  Differs from the packaged template with its packs and override; run templates apply'
+        : `  Edited by hand; update replaces it, so move the changes to .claude/templates/${TEMPLATE_OVERRIDES_DIR}/${drift.template}`));
+    }
+    if (drift.diff && drift.state !== 'unchanged') {
+      for (const line of drift.diff.trimEnd().split('\n')) {
+        const color = line.startsWith('@@') ? chalk.cyan : line.startsWith('+') ? chalk.green : line.startsWith('-') ? chalk.red : chalk.reset;
+        console.log(`  ${color(line)}`);
+      }
+    }
+  }
+}
+
+/**
+ * Apply template overrides and print what was written; exits with the
+ * validation code when an override matches no packaged template
+ */
+export async function applyTemplateOverrides(projectPath?: string, format: OutputFormat = 'text'): Promise<void> {
+  let hasSkipped = false;
+  await runCommand(format, () => {
+    const result = applyTemplateOverridesData(projectPath);
+    hasSkipped = result.skipped.length > 0;
+    return result;
+  }, renderApply);
+  if (hasSkipped) {
+    process.exitCode = EXIT_CODES.VALIDATION;
+  }
+}
+
+/**
+ * Print how the project's templates differ from the packaged ones; exits
+ * with the validation code when a template was edited by hand or is missing
+ */
+export async function diffTemplates(templateName?: string, projectPath?: string, format: OutputFormat = 'text'): Promise<void> {
+  let hasDrift = false;
+  await runCommand(format, () => {
+    const result = diffTemplatesData(templateName, projectPath);
+    hasDrift = result.templates.some((drift) => drift.state === 'modified' || drift.state === 'missing');
+    return result;
+  }, renderDiff);
+  if (hasDrift) {
+    process.exitCode = EXIT_CODES.VALIDATION;
+  }
+}
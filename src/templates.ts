@@ -1,3 +1,12 @@
+/**
+ * Template sections that instruct the author rather than hold spec content,
+ * keyed by template file name. Documents written from a template leave them
+ * out, so lint does not require them.
+ */
+export const TEMPLATE_GUIDANCE_SECTIONS: Record<string, string[]> = {
+  'tasks-template.md': ['Atomic Task Requirements', 'Task Format Guidelines', 'Good vs Bad Task Examples'],
+};
+
 /**
  * Generates the requirements document template with EARS format acceptance criteria.
  * Includes user stories and product vision alignment sections.
@@ -199,6 +208,7 @@ export function getTasksTemplate(): string {
 - **Include implementation details** as bullet points
 - Reference requirements using: \`_Requirements: X.Y, Z.A_\`
 - Reference existing code to leverage using: \`_Leverage: path/to/file.ts, path/to/component.tsx_\`
+- Declare tasks that must be finished first using: \`_Depends: X.Y, Z_\` (tasks without dependencies can run in parallel)
 - Focus only on coding tasks (no deployment, user testing, etc.)
 - **Avoid broad terms**: No "system", "integration", "complete" in task titles
 
@@ -238,6 +248,7 @@ export function getTasksTemplate(): string {
   - Purpose: Complete model functionality for CRUD operations
   - _Leverage: src/models/BaseModel.ts_
   - _Requirements: 2.2, 2.3_
+  - _Depends: 2_
 
 - [ ] 4. Create model unit tests in tests/models/FeatureModel.test.ts
   - File: tests/models/FeatureModel.test.ts
@@ -682,7 +693,10 @@ src/
 }
 
 export function getBugReportTemplate(): string {
-  return `# Bug Report
+  return `---
+status: "reported"
+---
+# Bug Report
 
 ## Bug Summary
 [Provide a clear, concise description of the bug]
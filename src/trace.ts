@@ -0,0 +1,145 @@
+import * as path from 'path';
+import { getCachedFileContent, cachedFileExists } from './file-cache';
+import { parseTaskDocument } from './tasks';
+import { buildTraceMatrix, TraceMatrix } from './traceability';
+import { SpecParser } from './dashboard/parser';
+import { FileAccessError, NotFoundError, OutputFormat, runCommand } from './output';
+
+/** Text layouts of the trace command; JSON comes from the global --format option */
+export type TraceOutput = 'markdown' | 'csv';
+
+export const TRACE_OUTPUTS: TraceOutput[] = ['markdown', 'csv'];
+
+export interface TraceResult extends TraceMatrix {
+  spec: string;
+}
+
+/**
+ * Build the requirement-to-task traceability matrix of a spec
+ *
+ * A spec without tasks.md is traced against an empty task list, so every
+ * acceptance criterion is reported as uncovered.
+ */
+export function getTraceData(specName: string, projectPath?: string): TraceResult {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const specDir = path.join(workingDir, '.claude', 'specs', specName);
+
+  if (!cachedFileExists(specDir)) {
+    throw new NotFoundError(`Spec ${specName} not found`, { spec: specName, path: specDir });
+  }
+
+  const requirementsPath = path.join(specDir, 'requirements.md');
+  if (!cachedFileExists(requirementsPath)) {
+    throw new NotFoundError(`requirements.md not found at ${requirementsPath}`, { spec: specName, path: requirementsPath });
+  }
+
+  const readDocument = (filePath: string): string => {
+    const content = getCachedFileContent(filePath);
+    if (content === null) {
+      throw new FileAccessError(`Could not read ${path.basename(filePath)} at ${filePath}`, { path: filePath });
+    }
+    return content;
+  };
+
+  const requirements = new SpecParser(workingDir).extractRequirements(readDocument(requirementsPath));
+  const tasksPath = path.join(specDir, 'tasks.md');
+  const tasks = cachedFileExists(tasksPath) ? parseTaskDocument(readDocument(tasksPath)).tasks : [];
+
+  return { spec: specName, ...buildTraceMatrix(requirements, tasks) };
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function formatTaskIds(taskIds: string[]): string {
+  return taskIds.length > 0 ? taskIds.join(', ') : '-';
+}
+
+/**
+ * Render the matrix as a markdown report
+ */
+export function formatTraceMarkdown(result: TraceResult): string {
+  const { summary } = result;
+  const lines = [
+    `# Traceability: ${result.spec}`,
+    '',
+    `${summary.coveredCriteria} of ${summary.criteria} acceptance criteria covered by tasks, ` +
+      `${summary.implementedCriteria} implemented (${summary.implementedPercent}%)`,
+    '',
+    '| Requirement | Title | Criteria Covered | Tasks | Implemented |',
+    '|-------------|-------|------------------|-------|-------------|',
+    ...result.requirements.map((requirement) =>
+      `| ${markdownCell(requirement.id)} | ${markdownCell(requirement.title)} | ` +
+      `${requirement.coveredCriteria}/${requirement.criteria.length} | ${formatTaskIds(requirement.taskIds)} | ` +
+      `${requirement.implementedPercent}% |`
+    ),
+    '',
+    '## Acceptance Criteria Without Tasks',
+    '',
+  ];
+
+  if (result.uncoveredCriteria.length === 0) {
+    lines.push('All acceptance criteria are covered by tasks.');
+  } else {
+    lines.push(...result.uncoveredCriteria.map((criterion) => `- **${criterion.id}** ${markdownCell(criterion.text)}`));
+  }
+
+  lines.push('', '## Unknown Requirement References', '');
+  if (result.unknownReferences.length === 0) {
+    lines.push('All task requirement references exist.');
+  } else {
+    lines.push(...result.unknownReferences.map((ref) => `- Task ${ref.taskId} references ${ref.reference}`));
+  }
+
+  return lines.join('\n');
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Render the matrix as CSV with one row per acceptance criterion and one per unknown reference
+ */
+export function formatTraceCsv(result: TraceResult): string {
+  const rows: string[][] = [
+    ['type', 'requirement_id', 'requirement_title', 'criterion_id', 'criterion', 'tasks', 'completed_tasks', 'implemented']
+  ];
+
+  for (const requirement of result.requirements) {
+    for (const criterion of requirement.criteria) {
+      rows.push([
+        'criterion',
+        requirement.id,
+        requirement.title,
+        criterion.id,
+        criterion.text,
+        criterion.taskIds.join(';'),
+        criterion.completedTaskIds.join(';'),
+        String(criterion.implemented)
+      ]);
+    }
+  }
+
+  for (const ref of result.unknownReferences) {
+    rows.push(['unknown-reference', '', '', ref.reference, '', ref.taskId, '', 'false']);
+  }
+
+  return rows.map((row) => row.map(csvField).join(',')).join('\n');
+}
+
+/**
+ * Print the traceability matrix of a spec as markdown, CSV or a JSON envelope
+ */
+export async function traceSpec(
+  specName: string,
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  output: TraceOutput = 'markdown'
+): Promise<void> {
+  await runCommand(format, () => getTraceData(specName, projectPath), (result) => {
+    console.log(output === 'csv' ? formatTraceCsv(result) : formatTraceMarkdown(result));
+  });
+}
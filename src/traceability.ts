@@ -0,0 +1,168 @@
+/**
+ * Requirement-to-task traceability
+ * Joins the requirements extracted from requirements.md with the
+ * `_Requirements:` references of the tasks in tasks.md. The `trace` command
+ * and the dashboard both build their matrix through this module.
+ *
+ * A task reference is resolved as follows:
+ * - "1" or "FR-1" names a whole requirement and covers all of its acceptance criteria
+ * - "1.2" or "FR-1.2" names the second acceptance criterion of that requirement
+ * - anything else is reported as an unknown reference
+ */
+
+import { flattenTasks, TaskNode } from './tasks';
+
+/** The parts of a parsed requirement the matrix needs (see RequirementDetail) */
+export interface TraceableRequirement {
+  id: string;
+  title: string;
+  acceptanceCriteria: string[];
+}
+
+export interface CriterionTrace {
+  /** Reference ID used by tasks, e.g. "1.2" */
+  id: string;
+  requirementId: string;
+  /** Acceptance criterion text; the requirement title for requirements without criteria */
+  text: string;
+  /** Tasks covering this criterion, directly or through their requirement */
+  taskIds: string[];
+  /** Covering tasks that are completed */
+  completedTaskIds: string[];
+  /** Covered by at least one task and every covering task is completed */
+  implemented: boolean;
+}
+
+export interface RequirementTrace {
+  id: string;
+  title: string;
+  /** Tasks referencing the requirement or any of its criteria */
+  taskIds: string[];
+  criteria: CriterionTrace[];
+  /** Criteria covered by at least one task */
+  coveredCriteria: number;
+  implementedCriteria: number;
+  /** Share of implemented criteria, 0-100 */
+  implementedPercent: number;
+}
+
+export interface UnknownRequirementReference {
+  taskId: string;
+  reference: string;
+}
+
+export interface TraceMatrix {
+  requirements: RequirementTrace[];
+  /** Acceptance criteria that no task covers */
+  uncoveredCriteria: CriterionTrace[];
+  /** Task references to requirements or criteria that do not exist */
+  unknownReferences: UnknownRequirementReference[];
+  summary: {
+    requirements: number;
+    criteria: number;
+    coveredCriteria: number;
+    implementedCriteria: number;
+    /** Share of implemented criteria across the spec, 0-100 */
+    implementedPercent: number;
+  };
+}
+
+function percent(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 100);
+}
+
+/**
+ * Build the traceability matrix for a spec
+ *
+ * Requirements without acceptance criteria are treated as a single criterion
+ * with the requirement's own ID, so they still show up as covered or not.
+ * Skipped tasks cover a criterion but do not implement it.
+ *
+ * @param requirements - Requirements in document order (e.g. from SpecParser.extractRequirements)
+ * @param tasks - Task tree from parseTaskDocument
+ * @returns Per-requirement coverage, uncovered criteria and unknown references
+ *
+ * @example
+ * ```typescript
+ * const matrix = buildTraceMatrix(parser.extractRequirements(requirementsMd), parseTaskDocument(tasksMd).tasks);
+ * console.log(matrix.uncoveredCriteria.map(c => c.id)); // ['1.3', '2']
+ * ```
+ */
+export function buildTraceMatrix(requirements: TraceableRequirement[], tasks: TaskNode[]): TraceMatrix {
+  const traces: RequirementTrace[] = requirements.map((requirement) => {
+    const criteriaTexts = requirement.acceptanceCriteria.length > 0 ? requirement.acceptanceCriteria : [requirement.title];
+    return {
+      id: requirement.id,
+      title: requirement.title,
+      taskIds: [],
+      criteria: criteriaTexts.map((text, index) => ({
+        id: requirement.acceptanceCriteria.length > 0 ? `${requirement.id}.${index + 1}` : requirement.id,
+        requirementId: requirement.id,
+        text,
+        taskIds: [],
+        completedTaskIds: [],
+        implemented: false,
+      })),
+      coveredCriteria: 0,
+      implementedCriteria: 0,
+      implementedPercent: 0,
+    };
+  });
+  const byId = new Map(traces.map((trace) => [trace.id, trace]));
+  const unknownReferences: UnknownRequirementReference[] = [];
+
+  const cover = (criterion: CriterionTrace, task: TaskNode): void => {
+    if (criterion.taskIds.includes(task.id)) return;
+    criterion.taskIds.push(task.id);
+    if (task.status === 'completed') {
+      criterion.completedTaskIds.push(task.id);
+    }
+  };
+
+  for (const task of flattenTasks(tasks)) {
+    for (const reference of task.requirements) {
+      let trace = byId.get(reference);
+      if (trace) {
+        trace.criteria.forEach((criterion) => cover(criterion, task));
+      } else {
+        const match = reference.match(/^(.+)\.(\d+)$/);
+        trace = match ? byId.get(match[1] || '') : undefined;
+        const criterion = trace?.criteria.find((c) => c.id === reference);
+        if (!trace || !criterion) {
+          unknownReferences.push({ taskId: task.id, reference });
+          continue;
+        }
+        cover(criterion, task);
+      }
+
+      if (!trace.taskIds.includes(task.id)) {
+        trace.taskIds.push(task.id);
+      }
+    }
+  }
+
+  for (const trace of traces) {
+    for (const criterion of trace.criteria) {
+      criterion.implemented = criterion.taskIds.length > 0 && criterion.completedTaskIds.length === criterion.taskIds.length;
+    }
+    trace.coveredCriteria = trace.criteria.filter((c) => c.taskIds.length > 0).length;
+    trace.implementedCriteria = trace.criteria.filter((c) => c.implemented).length;
+    trace.implementedPercent = percent(trace.implementedCriteria, trace.criteria.length);
+  }
+
+  const allCriteria = traces.flatMap((trace) => trace.criteria);
+  const uncoveredCriteria = allCriteria.filter((c) => c.taskIds.length === 0);
+  const implementedCriteria = allCriteria.filter((c) => c.implemented).length;
+  return {
+    requirements: traces,
+    uncoveredCriteria,
+    unknownReferences,
+    summary: {
+      requirements: traces.length,
+      criteria: allCriteria.length,
+      coveredCriteria: allCriteria.length - uncoveredCriteria.length,
+      implementedCriteria,
+      implementedPercent: percent(implementedCriteria, allCriteria.length),
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'fs';
+import * as path from 'path';
+import { TrackerIssue, TrackerIssueInput, TrackerProvider, TrackerProviderError } from './types';
+
+interface TrackerFile {
+  nextId: number;
+  issues: TrackerIssue[];
+}
+
+/**
+ * Tracker kept in a local JSON file
+ *
+ * Useful offline and in tests: edit the file by hand to simulate changes made
+ * in a real tracker. Every call reads and writes the whole file.
+ */
+export class FileTrackerProvider implements TrackerProvider {
+  name = 'file';
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async list(): Promise<TrackerIssue[]> {
+    return this.read().issues;
+  }
+
+  async create(issue: TrackerIssueInput): Promise<TrackerIssue> {
+    const data = this.read();
+    const created: TrackerIssue = { id: `FILE-${data.nextId}`, ...issue, updatedAt: new Date().toISOString() };
+    data.nextId++;
+    data.issues.push(created);
+    this.write(data);
+    return created;
+  }
+
+  async update(id: string, changes: Partial<TrackerIssueInput>): Promise<TrackerIssue> {
+    const data = this.read();
+    const issue = this.find(data, id);
+    Object.assign(issue, changes, { updatedAt: new Date().toISOString() });
+    this.write(data);
+    return issue;
+  }
+
+  async close(id: string): Promise<TrackerIssue> {
+    return this.update(id, { state: 'closed' });
+  }
+
+  private find(data: TrackerFile, id: string): TrackerIssue {
+    const issue = data.issues.find((candidate) => candidate.id === id);
+    if (!issue) {
+      throw new TrackerProviderError(this.name, `Issue ${id} not found in ${this.filePath}`, { id });
+    }
+    return issue;
+  }
+
+  private read(): TrackerFile {
+    if (!existsSync(this.filePath)) {
+      return { nextId: 1, issues: [] };
+    }
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Partial<TrackerFile>;
+      const issues = Array.isArray(data.issues) ? data.issues : [];
+      const highestId = Math.max(0, ...issues.map((issue) => Number(String(issue.id).replace(/^FILE-/, '')) || 0));
+      return { nextId: Math.max(Number(data.nextId) || 1, highestId + 1), issues };
+    } catch (error) {
+      throw new TrackerProviderError(
+        this.name,
+        `Could not read ${this.filePath}: ${error instanceof Error ? error.message : error}`,
+        { path: this.filePath }
+      );
+    }
+  }
+
+  private write(data: TrackerFile): void {
+    try {
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+      writeFileSync(this.filePath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    } catch (error) {
+      throw new TrackerProviderError(
+        this.name,
+        `Could not write ${this.filePath}: ${error instanceof Error ? error.message : error}`,
+        { path: this.filePath }
+      );
+    }
+  }
+}
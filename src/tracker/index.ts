@@ -0,0 +1,13 @@
+import * as path from 'path';
+import { TrackerProvider, TrackerProviderOptions } from './types';
+import { FileTrackerProvider } from './file-provider';
+
+export * from './types';
+export { FileTrackerProvider } from './file-provider';
+
+/** Trackers `sync --provider` can use, by name */
+export const TRACKER_PROVIDERS: Record<string, (_options: TrackerProviderOptions) => TrackerProvider> = {
+  file: (options) => new FileTrackerProvider(
+    path.resolve(options.projectPath, options.location || path.join('.claude', 'tracker.json'))
+  ),
+};
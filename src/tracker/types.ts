@@ -0,0 +1,61 @@
+import { CliError } from '../output';
+
+/** An issue in an external tracker that mirrors a spec task or bug */
+export interface TrackerIssue {
+  /** Tracker's ID of the issue */
+  id: string;
+  /** Local item the issue mirrors, e.g. "task:user-auth/1.2" or "bug:login-crash" */
+  key?: string;
+  title: string;
+  /**
+   * Workflow status in local terms: a task status ("in-progress") or bug
+   * status ("fixing"). Providers map their own workflow onto these names.
+   */
+  status: string;
+  state: 'open' | 'closed';
+  labels: string[];
+  url?: string;
+  /** ISO 8601 */
+  updatedAt: string;
+}
+
+export interface TrackerIssueInput {
+  key: string;
+  title: string;
+  status: string;
+  state: 'open' | 'closed';
+  labels: string[];
+}
+
+export interface TrackerProvider {
+  name: string;
+
+  isAvailable(): Promise<boolean>;
+
+  list(): Promise<TrackerIssue[]>;
+
+  create(_issue: TrackerIssueInput): Promise<TrackerIssue>;
+
+  update(_id: string, _changes: Partial<TrackerIssueInput>): Promise<TrackerIssue>;
+
+  close(_id: string): Promise<TrackerIssue>;
+}
+
+export interface TrackerProviderOptions {
+  /** Project the tracker mirrors */
+  projectPath: string;
+  /** Provider-specific location, e.g. the file of the file provider */
+  location?: string;
+}
+
+/** A tracker could not be reached or rejected a request */
+export class TrackerProviderError extends CliError {
+  constructor(
+    public readonly provider: string,
+    message: string,
+    details?: Record<string, unknown>
+  ) {
+    super('IO', message, { provider, ...details });
+    this.name = 'TrackerProviderError';
+  }
+}
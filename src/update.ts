@@ -1,6 +1,9 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { parseTasksFromMarkdown, generateTaskCommand } from './task-generator';
+import { WORKFLOWS_DIR } from './custom-workflows';
+import { applyTemplateOverridesData, listPackagedTemplates, TEMPLATE_OVERRIDES_DIR } from './template-overrides';
+import { PACKS_CONFIG_FILE } from './packs';
 
 export class SpecWorkflowUpdater {
   private projectRoot: string;
@@ -116,7 +119,7 @@ export class SpecWorkflowUpdater {
   }
 
   /**
-   * Restore user content (specs and task commands) from backup
+   * Restore user content (specs, task commands, workflows, template overrides and packs) from backup
    */
   async restoreUserContent(backupDir: string): Promise<void> {
     // The backup directory IS the .claude directory (from createBackup method)
@@ -174,6 +177,44 @@ export class SpecWorkflowUpdater {
         console.log('No task command directories found in backup to restore');
       }
 
+      // Restore workflow definitions and their items if they exist in backup
+      try {
+        const backupWorkflowsDir = join(backupDir, WORKFLOWS_DIR);
+        await fs.access(backupWorkflowsDir);
+        await this.copyDirectory(backupWorkflowsDir, join(this.claudeDir, WORKFLOWS_DIR));
+        console.log('  Restored workflow definitions');
+      } catch {
+        // No workflows directory in backup, that's fine
+      }
+
+      // Restore template overrides and custom templates if they exist in backup
+      try {
+        const backupTemplatesDir = join(backupDir, 'templates');
+        const packaged = listPackagedTemplates();
+        const templateEntries = await fs.readdir(backupTemplatesDir, { withFileTypes: true });
+        for (const entry of templateEntries) {
+          const sourcePath = join(backupTemplatesDir, entry.name);
+          const destPath = join(this.templatesDir, entry.name);
+          if (entry.isDirectory() && entry.name === TEMPLATE_OVERRIDES_DIR) {
+            await this.copyDirectory(sourcePath, destPath);
+            console.log('  Restored template overrides');
+          } else if (entry.isFile() && !packaged.includes(entry.name)) {
+            await fs.copyFile(sourcePath, destPath);
+            console.log(`  Restored custom template: ${entry.name}`);
+          }
+        }
+      } catch {
+        // No templates directory in backup, that's fine
+      }
+
+      // Restore the pack configuration if it exists in backup
+      try {
+        await fs.copyFile(join(backupDir, PACKS_CONFIG_FILE), join(this.claudeDir, PACKS_CONFIG_FILE));
+        console.log('  Restored pack configuration');
+      } catch {
+        // No packs.json in backup, that's fine
+      }
+
       // Restore settings.local.json if it exists in backup
       try {
         const backupSettingsFile = join(backupDir, 'settings.local.json');
@@ -273,6 +314,11 @@ export class SpecWorkflowUpdater {
         throw error;
       }
     }
+
+    // Merge the project's overrides back into the fresh templates
+    for (const skipped of applyTemplateOverridesData(this.projectRoot).skipped) {
+      console.warn(`Skipped template override ${skipped.file}: ${skipped.message}`);
+    }
   }
 
   async updateAgents(): Promise<void> {
@@ -323,7 +369,8 @@ export class SpecWorkflowUpdater {
     try {
       const specsEntries = await fs.readdir(this.specsDir, { withFileTypes: true });
       specDirs = specsEntries
-        .filter(entry => entry.isDirectory())
+        // Skip .archive and other hidden folders
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
         .map(entry => entry.name);
       
       if (specDirs.length === 0) {
@@ -413,6 +460,12 @@ export class SpecWorkflowUpdater {
       // 5. Auto-generate task commands for restored specs
       await this.regenerateTaskCommands();
 
+      // 6. Generate commands for restored workflow definitions
+      await setup.createWorkflowCommands();
+
+      // 7. Re-apply restored template overrides
+      setup.applyTemplateOverrides();
+
       console.log('Fresh installation update complete!');
       
     } catch (error) {
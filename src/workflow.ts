@@ -0,0 +1,332 @@
+import { writeFileSync } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { getCachedFileContent, cachedFileExists, clearCache } from './file-cache';
+import { getDocumentApproval, setApproval, removeApproval, DocumentApproval } from './approval';
+import { defaultApprover } from './approve';
+import {
+  generateWorkflowCommands,
+  loadWorkflowDefinitions,
+  WorkflowCommandsResult,
+  WorkflowDefinition,
+  WorkflowDefinitionError,
+  WorkflowDefinitions,
+  WorkflowPhase,
+  WORKFLOWS_DIR
+} from './custom-workflows';
+import { SpecParser, Workflow } from './dashboard/parser';
+import { EXIT_CODES, FileAccessError, NotFoundError, OutputFormat, ValidationError, runCommand } from './output';
+
+export interface WorkflowListResult {
+  workflows: Workflow[];
+  /** Definition files that could not be loaded */
+  errors: WorkflowDefinitionError[];
+}
+
+export interface WorkflowApproveOptions {
+  /** Approver recorded in the front-matter; defaults to the OS user name */
+  by?: string;
+}
+
+export interface WorkflowApprovalResult {
+  workflow: string;
+  item: string;
+  phase: string;
+  /** Document path relative to the project */
+  file: string;
+  approval: DocumentApproval;
+  changed: boolean;
+  /** Item status after the change */
+  status: string;
+}
+
+function findDefinition(workflowName: string, { workflows, errors }: WorkflowDefinitions): WorkflowDefinition {
+  const workflow = workflows.find((candidate) => candidate.name === workflowName);
+  if (workflow) {
+    return workflow;
+  }
+  const error = errors.find((candidate) => candidate.file.endsWith(`/${workflowName}.json`));
+  if (error) {
+    throw new ValidationError(`Workflow ${workflowName} is invalid: ${error.message}`, { workflow: workflowName, file: error.file });
+  }
+  throw new NotFoundError(`Workflow ${workflowName} not found in .claude/${WORKFLOWS_DIR}`, { workflow: workflowName });
+}
+
+function resolvePhaseDocument(
+  definition: WorkflowDefinition,
+  itemName: string,
+  phaseName: string,
+  workingDir: string
+): { phase: WorkflowPhase; filePath: string; content: string } {
+  const phase = definition.phases.find((candidate) => candidate.name === phaseName);
+  if (!phase) {
+    throw new NotFoundError(
+      `Workflow ${definition.name} has no phase ${phaseName}. Use: ${definition.phases.map((candidate) => candidate.name).join(', ')}`,
+      { workflow: definition.name, phase: phaseName }
+    );
+  }
+
+  const itemDir = path.join(workingDir, '.claude', WORKFLOWS_DIR, definition.name, itemName);
+  if (/[\\/]/.test(itemName) || itemName.startsWith('.') || !cachedFileExists(itemDir)) {
+    throw new NotFoundError(`${definition.title} ${itemName} not found`, { workflow: definition.name, item: itemName });
+  }
+
+  const filePath = path.join(itemDir, phase.document);
+  if (!cachedFileExists(filePath)) {
+    throw new NotFoundError(`${phase.document} not found at ${filePath}`, { workflow: definition.name, item: itemName, path: filePath });
+  }
+  const content = getCachedFileContent(filePath);
+  if (content === null) {
+    throw new FileAccessError(`Could not read ${phase.document} at ${filePath}`, { path: filePath });
+  }
+  return { phase, filePath, content };
+}
+
+function writePhaseDocument(filePath: string, content: string): void {
+  try {
+    writeFileSync(filePath, content, 'utf-8');
+    clearCache(filePath);
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not write ${path.basename(filePath)} at ${filePath}: ${error instanceof Error ? error.message : error}`,
+      { path: filePath }
+    );
+  }
+}
+
+async function getItemStatus(definition: WorkflowDefinition, itemName: string, workingDir: string): Promise<string> {
+  return (await new SpecParser(workingDir).getWorkflowItem(definition, itemName))?.status || '';
+}
+
+/**
+ * List user-defined workflows with the status of their items
+ * @param workflowName Only list this workflow
+ */
+export async function listWorkflowsData(workflowName?: string, projectPath?: string): Promise<WorkflowListResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const definitions = await loadWorkflowDefinitions(workingDir);
+  if (workflowName) {
+    findDefinition(workflowName, definitions);
+  }
+
+  const workflows = await new SpecParser(workingDir).getAllWorkflows();
+  return {
+    workflows: workflowName ? workflows.filter((workflow) => workflow.name === workflowName) : workflows,
+    // A named workflow loaded fine, so other definitions' errors are not its concern
+    errors: workflowName ? [] : definitions.errors,
+  };
+}
+
+/**
+ * Approve a phase of a workflow item by writing approval front-matter to its document
+ *
+ * Every earlier phase must be done first. Re-approving an unchanged document
+ * is a no-op, like approving a spec phase.
+ */
+export async function approveWorkflowPhaseData(
+  workflowName: string,
+  itemName: string,
+  phaseName: string,
+  projectPath?: string,
+  options: WorkflowApproveOptions = {},
+  now: Date = new Date()
+): Promise<WorkflowApprovalResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const definition = findDefinition(workflowName, await loadWorkflowDefinitions(workingDir));
+  const { phase, filePath, content } = resolvePhaseDocument(definition, itemName, phaseName, workingDir);
+  const file = path.relative(workingDir, filePath).split(path.sep).join('/');
+
+  if (!phase.approval) {
+    throw new ValidationError(
+      `Phase ${phaseName} of workflow ${workflowName} has no approval gate`,
+      { workflow: workflowName, phase: phaseName }
+    );
+  }
+
+  const item = await new SpecParser(workingDir).getWorkflowItem(definition, itemName);
+  const index = definition.phases.indexOf(phase);
+  const pending = definition.phases.slice(0, index).find((_, earlier) => !item?.phases[earlier]?.done);
+  if (pending) {
+    throw new ValidationError(
+      `Cannot approve ${phaseName} of ${itemName} before ${pending.name} is done`,
+      { workflow: workflowName, item: itemName, phase: phaseName, requires: pending.name }
+    );
+  }
+
+  const current = getDocumentApproval(content);
+  if (current.state === 'approved' && !current.legacy) {
+    return { workflow: workflowName, item: itemName, phase: phaseName, file, approval: current, changed: false, status: item?.status || '' };
+  }
+
+  const updated = setApproval(content, { approvedBy: options.by?.trim() || defaultApprover(), approvedAt: now.toISOString() });
+  writePhaseDocument(filePath, updated);
+  return {
+    workflow: workflowName,
+    item: itemName,
+    phase: phaseName,
+    file,
+    approval: getDocumentApproval(updated),
+    changed: true,
+    status: await getItemStatus(definition, itemName, workingDir),
+  };
+}
+
+/**
+ * Withdraw the approval of a phase of a workflow item
+ */
+export async function unapproveWorkflowPhaseData(
+  workflowName: string,
+  itemName: string,
+  phaseName: string,
+  projectPath?: string
+): Promise<WorkflowApprovalResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  const definition = findDefinition(workflowName, await loadWorkflowDefinitions(workingDir));
+  const { filePath, content } = resolvePhaseDocument(definition, itemName, phaseName, workingDir);
+  const file = path.relative(workingDir, filePath).split(path.sep).join('/');
+
+  const updated = removeApproval(content);
+  const approval = getDocumentApproval(updated);
+  const changed = updated !== content;
+  if (changed) {
+    writePhaseDocument(filePath, updated);
+  }
+  return {
+    workflow: workflowName,
+    item: itemName,
+    phase: phaseName,
+    file,
+    approval,
+    changed,
+    status: await getItemStatus(definition, itemName, workingDir),
+  };
+}
+
+/**
+ * Regenerate the slash commands of every workflow definition in .claude/commands
+ */
+export async function generateWorkflowCommandsData(projectPath?: string): Promise<WorkflowCommandsResult> {
+  // Use provided project path or current working directory
+  const workingDir = projectPath || process.cwd();
+  try {
+    return await generateWorkflowCommands(workingDir);
+  } catch (error) {
+    throw new FileAccessError(
+      `Could not write workflow commands: ${error instanceof Error ? error.message : error}`,
+      { path: path.join(workingDir, '.claude', 'commands') }
+    );
+  }
+}
+
+function renderErrors(errors: WorkflowDefinitionError[]): void {
+  for (const error of errors) {
+    console.log(`${chalk.red('invalid')} ${error.file}: ${error.message}`);
+  }
+}
+
+function renderList(result: WorkflowListResult): void {
+  if (result.workflows.length === 0 && result.errors.length === 0) {
+    console.log(chalk.gray(`No workflows defined in .claude/${WORKFLOWS_DIR}`));
+    return;
+  }
+  for (const workflow of result.workflows) {
+    console.log(chalk.cyan.bold(`${workflow.title} (${workflow.name})`));
+    console.log(chalk.gray(`  ${workflow.phases.map((phase) => phase.status).join(' → ')} → ${workflow.completedStatus}`));
+    if (workflow.items.length === 0) {
+      console.log(chalk.gray(`  No items yet; start one with /${workflow.name}-${workflow.phases[0]?.name} <item-name>`));
+    }
+    for (const item of workflow.items) {
+      const next = item.currentPhase ? chalk.gray(`  next: /${workflow.name}-${item.currentPhase} ${item.name}`) : '';
+      console.log(`  ${item.name.padEnd(24)} ${item.status.padEnd(12)}${next}`);
+    }
+    console.log();
+  }
+  renderErrors(result.errors);
+}
+
+function renderApproval(result: WorkflowApprovalResult): void {
+  const subject = `${result.workflow} ${result.item} ${result.phase}`;
+  const by = result.approval.approvedBy ? ` by ${result.approval.approvedBy}` : '';
+  if (result.approval.state === 'unapproved') {
+    console.log(result.changed ? chalk.green(`✓ Removed approval of ${subject}`) : chalk.yellow(`${subject} is not approved`));
+  } else if (result.changed) {
+    console.log(chalk.green(`✓ Approved ${subject}${by}`));
+    console.log(chalk.gray(`  Recorded in ${result.file}`));
+  } else {
+    console.log(chalk.yellow(`${subject} is already approved${by}`));
+  }
+  console.log(chalk.gray(`  ${result.item} is now ${result.status}`));
+}
+
+function renderGenerate(result: WorkflowCommandsResult): void {
+  for (const file of result.written) {
+    console.log(chalk.green(`✓ .claude/commands/${file}`));
+  }
+  for (const file of result.removed) {
+    console.log(chalk.gray(`removed .claude/commands/${file}`));
+  }
+  renderErrors(result.errors);
+  if (result.written.length === 0 && result.errors.length === 0) {
+    console.log(chalk.gray(`No workflows defined in .claude/${WORKFLOWS_DIR}`));
+  }
+}
+
+/**
+ * List workflows and their items; exits with the validation code when a definition is invalid
+ */
+export async function listWorkflows(workflowName?: string, projectPath?: string, format: OutputFormat = 'text'): Promise<void> {
+  let hasErrors = false;
+  await runCommand(format, async () => {
+    const result = await listWorkflowsData(workflowName, projectPath);
+    hasErrors = result.errors.length > 0;
+    return result;
+  }, renderList);
+  if (hasErrors) {
+    process.exitCode = EXIT_CODES.VALIDATION;
+  }
+}
+
+/**
+ * Approve a phase of a workflow item
+ */
+export async function approveWorkflowPhase(
+  workflowName: string,
+  itemName: string,
+  phaseName: string,
+  projectPath?: string,
+  format: OutputFormat = 'text',
+  options: WorkflowApproveOptions = {}
+): Promise<void> {
+  await runCommand(format, () => approveWorkflowPhaseData(workflowName, itemName, phaseName, projectPath, options), renderApproval);
+}
+
+/**
+ * Remove the approval of a phase of a workflow item
+ */
+export async function unapproveWorkflowPhase(
+  workflowName: string,
+  itemName: string,
+  phaseName: string,
+  projectPath?: string,
+  format: OutputFormat = 'text'
+): Promise<void> {
+  await runCommand(format, () => unapproveWorkflowPhaseData(workflowName, itemName, phaseName, projectPath), renderApproval);
+}
+
+/**
+ * Regenerate workflow slash commands; exits with the validation code when a definition is invalid
+ */
+export async function generateWorkflows(projectPath?: string, format: OutputFormat = 'text'): Promise<void> {
+  let hasErrors = false;
+  await runCommand(format, async () => {
+    const result = await generateWorkflowCommandsData(projectPath);
+    hasErrors = result.errors.length > 0;
+    return result;
+  }, renderGenerate);
+  if (hasErrors) {
+    process.exitCode = EXIT_CODES.VALIDATION;
+  }
+}
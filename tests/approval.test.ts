@@ -0,0 +1,177 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  splitFrontMatter,
+  readApproval,
+  hashDocumentBody,
+  getDocumentApproval,
+  setApproval,
+  removeApproval,
+  readFrontMatterValue,
+  setFrontMatterValue
+} from '../src/approval';
+import { approveSpecPhase, unapproveSpecPhase } from '../src/approve';
+import { NotFoundError, ValidationError } from '../src/output';
+import { updateTaskStatusData } from '../src/get-tasks';
+import { SpecParser } from '../src/dashboard/parser';
+
+describe('Spec Approval', () => {
+  const approvedAt = '2025-01-31T10:00:00.000Z';
+
+  describe('approval front-matter', () => {
+    test('should record and read an approval', () => {
+      const content = setApproval('# Design\n\nBody\n', { approvedBy: 'jane "jd" doe', approvedAt });
+
+      expect(content).toBe(`---
+approval:
+  approvedBy: "jane \\"jd\\" doe"
+  approvedAt: "${approvedAt}"
+  contentHash: "${hashDocumentBody('# Design\n\nBody\n')}"
+---
+# Design
+
+Body
+`);
+      expect(readApproval(content)).toEqual({
+        approvedBy: 'jane "jd" doe',
+        approvedAt,
+        contentHash: hashDocumentBody('# Design\n\nBody\n')
+      });
+      expect(getDocumentApproval(content)).toEqual({ state: 'approved', approvedBy: 'jane "jd" doe', approvedAt });
+    });
+
+    test('should report documents changed after approval as modified', () => {
+      const content = setApproval('# Design\n\nBody\n', { approvedBy: 'jane', approvedAt });
+
+      expect(getDocumentApproval(content.replace(/\n$/, '\r\n\n')).state).toBe('approved');
+      expect(getDocumentApproval(content.replace('Body', 'New body')).state).toBe('modified');
+    });
+
+    test('should keep other front-matter keys', () => {
+      const content = '---\ntitle: Login\napproval:\n  approvedBy: old\n  approvedAt: x\n  contentHash: y\nowner: sam\n---\nBody\n';
+
+      const approved = setApproval(content, { approvedBy: 'jane', approvedAt });
+      expect(splitFrontMatter(approved).frontMatter).toEqual([
+        'title: Login',
+        'approval:',
+        '  approvedBy: "jane"',
+        `  approvedAt: "${approvedAt}"`,
+        `  contentHash: "${hashDocumentBody('Body\n')}"`,
+        'owner: sam'
+      ]);
+
+      expect(removeApproval(approved)).toBe('---\ntitle: Login\nowner: sam\n---\nBody\n');
+      expect(removeApproval(setApproval('Body\n', { approvedBy: 'jane', approvedAt }))).toBe('Body\n');
+    });
+
+    test('should read and write other front-matter values', () => {
+      const approved = setApproval('Body\n', { approvedBy: 'jane', approvedAt });
+      const content = setFrontMatterValue(approved, 'status', 'fixing');
+
+      expect(readFrontMatterValue(content, 'status')).toBe('fixing');
+      expect(readApproval(content)).toEqual(readApproval(approved));
+      expect(readFrontMatterValue(setFrontMatterValue(content, 'status', 'verifying'), 'status')).toBe('verifying');
+      expect(setFrontMatterValue(setFrontMatterValue('Body\n', 'status', 'new'), 'status', null)).toBe('Body\n');
+      expect(readFrontMatterValue('Body\n', 'status')).toBeNull();
+    });
+
+    test('should honour legacy markers outside code', () => {
+      expect(getDocumentApproval('# Tasks\n\n✅ APPROVED\n')).toEqual({ state: 'approved', legacy: true });
+      expect(getDocumentApproval('**Approved:** ✓\n').state).toBe('approved');
+      expect(getDocumentApproval('Add `✅ APPROVED` when done\n```\n✅ APPROVED\n```\n').state).toBe('unapproved');
+    });
+
+    test('should ignore legacy markers within prose and quoted examples', () => {
+      expect(getDocumentApproval('Reviewers mark a doc ✅ APPROVED when they are done.\n').state).toBe('unapproved');
+      expect(getDocumentApproval('> Example: ✅ APPROVED\n').state).toBe('unapproved');
+    });
+
+    test('should replace standalone legacy markers when approving', () => {
+      const content = setApproval('# Tasks\n\n**✅ APPROVED**\n\n- [ ] 1. Task\n', { approvedBy: 'jane', approvedAt });
+
+      expect(splitFrontMatter(content).body).toBe('# Tasks\n\n\n- [ ] 1. Task\n');
+      expect(getDocumentApproval(content)).toMatchObject({ state: 'approved', approvedBy: 'jane' });
+    });
+  });
+
+  describe('approve and unapprove commands', () => {
+    let tempDir: string;
+    let specDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(join(tmpdir(), 'approval-test-'));
+      specDir = join(tempDir, '.claude', 'specs', 'user-auth');
+      await fs.mkdir(specDir, { recursive: true });
+      await fs.writeFile(join(specDir, 'requirements.md'), '# Requirements\n');
+      await fs.writeFile(join(specDir, 'design.md'), '# Design\n');
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should approve phases in order', async () => {
+      expect(() => approveSpecPhase('user-auth', 'design', tempDir)).toThrow(ValidationError);
+
+      const result = approveSpecPhase('user-auth', 'requirements', tempDir, { by: 'jane' }, new Date(approvedAt));
+      expect(result).toEqual({
+        spec: 'user-auth',
+        phase: 'requirements',
+        file: '.claude/specs/user-auth/requirements.md',
+        approval: { state: 'approved', approvedBy: 'jane', approvedAt },
+        changed: true
+      });
+      expect(approveSpecPhase('user-auth', 'requirements', tempDir, { by: 'sam' }).changed).toBe(false);
+      expect(approveSpecPhase('user-auth', 'design', tempDir, { by: 'jane' }).changed).toBe(true);
+      expect(await fs.readFile(join(specDir, 'design.md'), 'utf-8')).toContain('  approvedBy: "jane"');
+    });
+
+    test('should re-approve modified documents', async () => {
+      approveSpecPhase('user-auth', 'requirements', tempDir, { by: 'jane' });
+      await fs.appendFile(join(specDir, 'requirements.md'), '\nMore\n');
+
+      expect(approveSpecPhase('user-auth', 'requirements', tempDir, { by: 'sam' })).toMatchObject({
+        approval: { state: 'approved', approvedBy: 'sam' },
+        changed: true
+      });
+    });
+
+    test('should keep an approved task list approved while its tasks are worked on', async () => {
+      await fs.writeFile(join(specDir, 'tasks.md'), '# Tasks\n\n- [ ] 1. Add login\n  - _Requirements: 1.1_\n- [ ] 2. Add logout\n- [ ] 3. Add signup\n');
+      approveSpecPhase('user-auth', 'requirements', tempDir, { by: 'jane' });
+      approveSpecPhase('user-auth', 'design', tempDir, { by: 'jane' });
+      approveSpecPhase('user-auth', 'tasks', tempDir, { by: 'jane' });
+
+      updateTaskStatusData('user-auth', '1', 'completed', tempDir, { commit: 'abc1234 (2 files, +10 -3)' });
+      updateTaskStatusData('user-auth', '2', 'blocked', tempDir, { reason: 'Waiting for the API' });
+      updateTaskStatusData('user-auth', '3', 'in-progress', tempDir);
+      const tasks = await fs.readFile(join(specDir, 'tasks.md'), 'utf-8');
+      expect(tasks).toContain('- [x] 1. Add login\n  - _Requirements: 1.1_\n  - _Commit: abc1234 (2 files, +10 -3)_\n');
+      expect(tasks).toContain('  - _Blocked: Waiting for the API_');
+
+      const parser = new SpecParser(tempDir);
+      expect((await parser.getSpec('user-auth'))?.tasks?.approval?.state).toBe('approved');
+
+      await fs.writeFile(join(specDir, 'tasks.md'), tasks.replace('Add logout', 'Add logout and session cleanup'));
+      expect((await parser.getSpec('user-auth'))?.tasks?.approval?.state).toBe('modified');
+    });
+
+    test('should remove approvals', async () => {
+      approveSpecPhase('user-auth', 'requirements', tempDir, { by: 'jane' });
+
+      expect(unapproveSpecPhase('user-auth', 'requirements', tempDir)).toMatchObject({ approval: { state: 'unapproved' }, changed: true });
+      expect(await fs.readFile(join(specDir, 'requirements.md'), 'utf-8')).toBe('# Requirements\n');
+      expect(unapproveSpecPhase('user-auth', 'requirements', tempDir).changed).toBe(false);
+
+      await fs.writeFile(join(specDir, 'design.md'), '# Design\n\n> ✅ APPROVED\n\nStatus: ✅ APPROVED\n');
+      expect(unapproveSpecPhase('user-auth', 'design', tempDir)).toMatchObject({ approval: { state: 'unapproved' }, changed: true });
+      expect(await fs.readFile(join(specDir, 'design.md'), 'utf-8')).toBe('# Design\n\n\nStatus: ✅ APPROVED\n');
+    });
+
+    test('should throw not found errors for missing specs and documents', () => {
+      expect(() => approveSpecPhase('missing', 'requirements', tempDir)).toThrow(NotFoundError);
+      expect(() => unapproveSpecPhase('user-auth', 'tasks', tempDir)).toThrow(NotFoundError);
+    });
+  });
+});
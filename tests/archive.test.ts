@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { archiveSpecData, restoreSpecData } from '../src/archive';
+import { SpecParser } from '../src/dashboard/parser';
+import { NotFoundError, UsageError, ValidationError } from '../src/output';
+
+describe('Spec Archive', () => {
+  let tempDir: string;
+  let specsDir: string;
+
+  const exists = (path: string) => fs.access(path).then(() => true, () => false);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'archive-test-'));
+    specsDir = join(tempDir, '.claude', 'specs');
+    await fs.mkdir(join(specsDir, 'done'), { recursive: true });
+    await fs.writeFile(join(specsDir, 'done', 'tasks.md'), '✅ APPROVED\n\n- [x] 1. Task\n');
+    await fs.mkdir(join(specsDir, 'open'), { recursive: true });
+    await fs.writeFile(join(specsDir, 'open', 'tasks.md'), '- [ ] 1. Task\n');
+    await fs.mkdir(join(tempDir, '.claude', 'commands', 'done'), { recursive: true });
+    await fs.writeFile(join(tempDir, '.claude', 'commands', 'done', 'task-1.md'), '# Task 1\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should archive a completed spec with its task commands', async () => {
+    const result = await archiveSpecData('done', tempDir, {}, new Date('2025-02-01T00:00:00.000Z'));
+
+    expect(result).toMatchObject({
+      spec: 'done',
+      path: '.claude/specs/.archive/done',
+      archive: { archivedAt: '2025-02-01T00:00:00.000Z', commandsArchived: true }
+    });
+    expect(result.archive.completedAt).toBeDefined();
+    expect(await exists(join(specsDir, 'done'))).toBe(false);
+    expect(await exists(join(tempDir, '.claude', 'commands', 'done'))).toBe(false);
+    expect(await exists(join(specsDir, '.archive', 'done', 'commands', 'task-1.md'))).toBe(true);
+
+    const parser = new SpecParser(tempDir);
+    expect((await parser.getAllSpecs()).map(spec => spec.name)).toEqual(['open']);
+    const [archived] = await parser.getArchivedSpecs();
+    expect(archived).toMatchObject({ name: 'done', status: 'completed', archive: result.archive });
+  });
+
+  test('should only archive unfinished specs with force', async () => {
+    await expect(archiveSpecData('open', tempDir)).rejects.toThrow(ValidationError);
+
+    const result = await archiveSpecData('open', tempDir, { force: true });
+    expect(result.archive).toEqual({ archivedAt: expect.any(String), commandsArchived: false });
+    await expect(archiveSpecData('missing', tempDir)).rejects.toThrow(NotFoundError);
+    await expect(archiveSpecData('../open', tempDir)).rejects.toThrow(UsageError);
+  });
+
+  test('should restore an archived spec and its task commands', async () => {
+    await archiveSpecData('done', tempDir);
+
+    expect(restoreSpecData('done', tempDir)).toEqual({ spec: 'done', path: '.claude/specs/done', commandsRestored: true });
+    expect(await fs.readdir(join(specsDir, 'done'))).toEqual(['tasks.md']);
+    expect(await exists(join(tempDir, '.claude', 'commands', 'done', 'task-1.md'))).toBe(true);
+    expect(await new SpecParser(tempDir).getArchivedSpecs()).toEqual([]);
+    expect(() => restoreSpecData('done', tempDir)).toThrow(NotFoundError);
+  });
+
+  test('should not overwrite existing specs or archives', async () => {
+    await archiveSpecData('done', tempDir);
+    await fs.mkdir(join(specsDir, 'done'));
+    await fs.writeFile(join(specsDir, 'done', 'tasks.md'), '✅ APPROVED\n\n- [x] 1. Task\n');
+
+    await expect(archiveSpecData('done', tempDir)).rejects.toThrow(ValidationError);
+    expect(() => restoreSpecData('done', tempDir)).toThrow(ValidationError);
+  });
+});
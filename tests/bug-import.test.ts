@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { importBugsData, parseIssueExport, parseCsv, severityFromLabels, bugSlug } from '../src/bug-import';
+import { SpecParser } from '../src/dashboard/parser';
+import { FileAccessError, ValidationError } from '../src/output';
+
+describe('Bug Import', () => {
+  describe('parseIssueExport', () => {
+    test('should read GitHub issues and skip pull requests', () => {
+      const issues = parseIssueExport('github-json', JSON.stringify([
+        { number: 42, title: 'Login fails', body: 'Broken', labels: [{ name: 'bug' }, { name: 'priority/P1' }], html_url: 'https://github.com/acme/app/issues/42' },
+        { number: 43, title: 'Fix login', pull_request: {} },
+      ]));
+
+      expect(issues).toEqual([{
+        externalId: 'github:42',
+        title: 'Login fails',
+        body: 'Broken',
+        labels: ['bug', 'priority/P1'],
+        severity: 'high',
+        url: 'https://github.com/acme/app/issues/42',
+        links: [],
+      }]);
+    });
+
+    test('should read GitLab issues', () => {
+      const [issue] = parseIssueExport('gitlab-json', JSON.stringify({
+        iid: 7, title: 'Crash', description: 'Stack trace', labels: ['severity::critical'], web_url: 'https://gitlab.com/acme/app/-/issues/7',
+      }));
+
+      expect(issue).toMatchObject({ externalId: 'gitlab:7', body: 'Stack trace', severity: 'critical', url: 'https://gitlab.com/acme/app/-/issues/7' });
+    });
+
+    test('should read Jira CSV exports with repeated label and link columns', () => {
+      const csv = 'Summary,Issue key,Priority,Labels,Labels,Description,Outward issue link (Blocks)\n' +
+        '"Crash, on save",APP-7,Minor,ui,,"Saving crashes.\n\nh3. Steps to Reproduce\n# Edit\n# Save",APP-3\n';
+
+      expect(parseIssueExport('jira-csv', csv)).toEqual([{
+        externalId: 'jira:APP-7',
+        title: 'Crash, on save',
+        body: 'Saving crashes.\n\n### Steps to Reproduce\n1. Edit\n1. Save',
+        labels: ['ui'],
+        severity: 'low',
+        links: ['APP-3'],
+      }]);
+    });
+
+    test('should reject malformed exports', () => {
+      expect(() => parseIssueExport('github-json', '{')).toThrow(ValidationError);
+      expect(() => parseIssueExport('gitlab-json', '[{"title": "No iid"}]')).toThrow(ValidationError);
+      expect(() => parseIssueExport('jira-csv', 'Key,Title\nA-1,x\n')).toThrow(ValidationError);
+    });
+  });
+
+  test('should parse quoted CSV fields', () => {
+    expect(parseCsv('a,"b ""c""",d\r\n"x\ny",,\n')).toEqual([['a', 'b "c"', 'd'], ['x\ny', '', '']]);
+  });
+
+  test('should map labels to severities and titles to slugs', () => {
+    expect(severityFromLabels(['bug', 'Severity: High'])).toBe('high');
+    expect(severityFromLabels(['high-contrast'])).toBeUndefined();
+    expect(bugSlug('Login fails on Safari!')).toBe('login-fails-on-safari');
+    expect(bugSlug('Très long titre '.repeat(5), 20)).toBe('tres-long-titre-tres');
+  });
+
+  describe('importBugsData', () => {
+    let tempDir: string;
+    let exportPath: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(join(tmpdir(), 'bug-import-test-'));
+      exportPath = join(tempDir, 'issues.json');
+      await fs.writeFile(exportPath, JSON.stringify([{
+        number: 42,
+        title: 'Login fails on Safari',
+        body: 'Clicking login does nothing.\n\n### Steps to reproduce\n- Open Safari\n- Click Login\n\n**Expected behavior:**\nThe user is logged in.',
+        labels: [{ name: 'critical' }],
+        url: 'https://github.com/acme/app/issues/42',
+      }]));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should create a bug report from the template and skip it on re-import', async () => {
+      const result = importBugsData('github-json', exportPath, tempDir);
+      expect(result.created).toEqual([{ bug: 'login-fails-on-safari', externalId: 'github:42', title: 'Login fails on Safari' }]);
+
+      const report = await fs.readFile(join(tempDir, '.claude', 'bugs', 'login-fails-on-safari', 'report.md'), 'utf-8');
+      expect(report).toMatch(/^---\nstatus: "reported"\nexternalId: "github:42"\n---\n# Bug Report: Login fails on Safari\n/);
+      expect(report).toContain('## Bug Summary\nClicking login does nothing.\n');
+      expect(report).toContain('### Steps to Reproduce\n1. Open Safari\n2. Click Login\n');
+      expect(report).toContain('### Expected Behavior\nThe user is logged in.\n');
+      expect(report).toContain('- [x] Critical - System unusable');
+      expect(report).toContain('- Imported from [github:42](https://github.com/acme/app/issues/42)');
+
+      const bug = await new SpecParser(tempDir).getBug('login-fails-on-safari');
+      expect(bug).toMatchObject({ displayName: 'Login fails on Safari', status: 'reported', report: { severity: 'critical' } });
+
+      const again = importBugsData('github-json', exportPath, tempDir);
+      expect(again.created).toEqual([]);
+      expect(again.skipped).toEqual([{ bug: 'login-fails-on-safari', externalId: 'github:42', title: 'Login fails on Safari' }]);
+    });
+
+    test('should not overwrite hand-made bugs with the same slug', async () => {
+      const handMade = join(tempDir, '.claude', 'bugs', 'login-fails-on-safari');
+      await fs.mkdir(handMade, { recursive: true });
+      await fs.writeFile(join(handMade, 'report.md'), '# Bug Report\n');
+
+      expect(importBugsData('github-json', exportPath, tempDir).created[0]?.bug).toBe('login-fails-on-safari-2');
+      expect(await fs.readFile(join(handMade, 'report.md'), 'utf-8')).toBe('# Bug Report\n');
+    });
+
+    test('should throw file access errors for unreadable exports', () => {
+      expect(() => importBugsData('github-json', join(tempDir, 'missing.json'), tempDir)).toThrow(FileAccessError);
+    });
+  });
+});
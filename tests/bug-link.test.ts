@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { linkBugData, addRegressionTaskData } from '../src/bug-link';
+import { SpecParser } from '../src/dashboard/parser';
+import { NotFoundError, ValidationError } from '../src/output';
+
+describe('Bug Links', () => {
+  let tempDir: string;
+  let specDir: string;
+  let reportPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'bug-link-test-'));
+    specDir = join(tempDir, '.claude', 'specs', 'user-auth');
+    reportPath = join(tempDir, '.claude', 'bugs', 'login-crash', 'report.md');
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.mkdir(join(tempDir, '.claude', 'bugs', 'login-crash'), { recursive: true });
+    await fs.writeFile(reportPath, '# Bug Report: Login crash\n');
+    await fs.writeFile(join(specDir, 'requirements.md'), `# Requirements Document
+
+## Requirements
+
+### Requirement 1
+
+**User Story:** As a user, I want to log in, so that I can see my data
+
+#### Acceptance Criteria
+
+1. WHEN credentials are valid THEN the system SHALL log the user in
+2. IF credentials are invalid THEN the system SHALL show an error
+`);
+    await fs.writeFile(join(specDir, 'tasks.md'), `# Implementation Plan
+
+- [x] 1. Login form
+  - _Requirements: 1.1_
+
+- [ ] 2. Error message
+  - _Requirements: 1.2_
+`);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should record the link in front-matter and count delivered work as a regression', async () => {
+    expect(await linkBugData('login-crash', 'user-auth', tempDir, { task: '1' })).toEqual({
+      bug: 'login-crash',
+      link: { spec: 'user-auth', task: '1', regression: true },
+    });
+    expect(await fs.readFile(reportPath, 'utf-8')).toBe(
+      '---\nlinkedSpec: "user-auth"\nlinkedTask: "1"\nregression: "true"\n---\n# Bug Report: Login crash\n'
+    );
+    expect((await new SpecParser(tempDir).getBug('login-crash'))?.link).toEqual({ spec: 'user-auth', task: '1', regression: true });
+
+    // Relinking replaces the whole link
+    expect((await linkBugData('login-crash', 'user-auth', tempDir, { requirement: '1' })).link).toEqual({
+      spec: 'user-auth', requirement: '1', regression: false,
+    });
+    expect(await fs.readFile(reportPath, 'utf-8')).toBe(
+      '---\nlinkedSpec: "user-auth"\nlinkedRequirement: "1"\n---\n# Bug Report: Login crash\n'
+    );
+  });
+
+  test('should derive regressions from criteria and specs unless told otherwise', async () => {
+    expect((await linkBugData('login-crash', 'user-auth', tempDir, { requirement: '1.1' })).link.regression).toBe(true);
+    expect((await linkBugData('login-crash', 'user-auth', tempDir)).link.regression).toBe(false);
+    expect((await linkBugData('login-crash', 'user-auth', tempDir, { regression: true })).link.regression).toBe(true);
+    expect((await linkBugData('login-crash', 'user-auth', tempDir, { task: '1', regression: false })).link.regression).toBe(false);
+  });
+
+  test('should reject unknown bugs, specs, requirements and tasks', async () => {
+    await expect(linkBugData('missing', 'user-auth', tempDir)).rejects.toThrow(NotFoundError);
+    await expect(linkBugData('login-crash', 'billing', tempDir)).rejects.toThrow(NotFoundError);
+    await expect(linkBugData('login-crash', '../user-auth', tempDir)).rejects.toThrow(NotFoundError);
+    await expect(linkBugData('login-crash', 'user-auth', tempDir, { requirement: '3' })).rejects.toThrow(NotFoundError);
+    await expect(linkBugData('login-crash', 'user-auth', tempDir, { task: '9' })).rejects.toThrow(NotFoundError);
+    expect(await fs.readFile(reportPath, 'utf-8')).toBe('# Bug Report: Login crash\n');
+  });
+
+  test('should append one regression task to the linked spec', async () => {
+    await expect(addRegressionTaskData('login-crash', tempDir)).rejects.toThrow(ValidationError);
+
+    await linkBugData('login-crash', 'user-auth', tempDir, { task: '1' });
+    expect(await addRegressionTaskData('login-crash', tempDir)).toEqual({
+      bug: 'login-crash',
+      spec: 'user-auth',
+      taskId: '3',
+      description: 'Add a regression test for bug login-crash: Login crash',
+      created: true,
+    });
+    expect(await fs.readFile(join(specDir, 'tasks.md'), 'utf-8')).toContain(
+      '  - _Requirements: 1.2_\n\n- [ ] 3. Add a regression test for bug login-crash: Login crash\n' +
+      '  - _Bug: login-crash_\n  - _Requirements: 1.1_\n'
+    );
+
+    expect(await addRegressionTaskData('login-crash', tempDir)).toMatchObject({ taskId: '3', created: false });
+    expect((await new SpecParser(tempDir).getSpec('user-auth'))?.tasks?.total).toBe(3);
+  });
+});
@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { advanceBugData, setBugStatusData, transitionBugData } from '../src/bug-status';
+import { SpecParser } from '../src/dashboard/parser';
+import { NotFoundError, UsageError, ValidationError } from '../src/output';
+
+describe('Bug Status Advance', () => {
+  let tempDir: string;
+  let bugDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'bug-advance-test-'));
+    bugDir = join(tempDir, '.claude', 'bugs', 'login-crash');
+    await fs.mkdir(bugDir, { recursive: true });
+    await fs.writeFile(join(bugDir, 'report.md'), '# Bug Report: Login crash\n\n**Severity**: High\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should record the next status in the report front-matter', async () => {
+    expect(await advanceBugData('login-crash', tempDir)).toEqual({ bug: 'login-crash', from: 'reported', to: 'analyzing' });
+    expect(await advanceBugData('login-crash', tempDir)).toEqual({ bug: 'login-crash', from: 'analyzing', to: 'fixing' });
+
+    expect(await fs.readFile(join(bugDir, 'report.md'), 'utf-8')).toBe(
+      '---\nstatus: "fixing"\n---\n# Bug Report: Login crash\n\n**Severity**: High\n'
+    );
+    expect(await new SpecParser(tempDir).getBug('login-crash')).toMatchObject({
+      status: 'fixing',
+      displayName: 'Login crash'
+    });
+  });
+
+  test('should ignore the documents when advancing', async () => {
+    await fs.writeFile(join(bugDir, 'report.md'), '---\nstatus: "analyzing"\n---\n# Bug Report\n');
+    await fs.writeFile(join(bugDir, 'fix.md'), '# Fix\n\n## Fix Summary\nGuarded the null session\n');
+
+    expect((await new SpecParser(tempDir).getBug('login-crash'))?.status).toBe('analyzing');
+    expect((await advanceBugData('login-crash', tempDir)).to).toBe('fixing');
+  });
+
+  test('should reject resolved and unknown bugs', async () => {
+    await fs.writeFile(join(bugDir, 'report.md'), '---\nstatus: "resolved"\n---\n# Bug Report\n');
+
+    await expect(advanceBugData('login-crash', tempDir)).rejects.toThrow(ValidationError);
+    await expect(advanceBugData('missing', tempDir)).rejects.toThrow(NotFoundError);
+    await expect(advanceBugData('../login-crash', tempDir)).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe('Bug Status Transitions', () => {
+  let tempDir: string;
+  let bugDir: string;
+
+  const readHistory = async () => (await fs.readFile(join(bugDir, 'status-history.jsonl'), 'utf-8'))
+    .trim().split('\n').map((line) => JSON.parse(line));
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'bug-transition-test-'));
+    bugDir = join(tempDir, '.claude', 'bugs', 'login-crash');
+    await fs.mkdir(bugDir, { recursive: true });
+    await fs.mkdir(join(tempDir, '.claude', 'bugs', 'session-crash'), { recursive: true });
+    await fs.writeFile(join(bugDir, 'report.md'), '# Bug Report: Login crash\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should record each transition in the status history', async () => {
+    const result = await transitionBugData('login-crash', 'analyzing', tempDir, { by: 'jane', reason: 'Starting analysis' });
+    expect(result).toMatchObject({
+      bug: 'login-crash',
+      from: 'reported',
+      to: 'analyzing',
+      transition: { from: 'reported', to: 'analyzing', by: 'jane', reason: 'Starting analysis' },
+    });
+    await transitionBugData('login-crash', 'wontfix', tempDir, { by: 'sam' });
+
+    const history = await readHistory();
+    expect(history).toEqual([
+      expect.objectContaining({ from: 'reported', to: 'analyzing', by: 'jane', reason: 'Starting analysis' }),
+      { from: 'analyzing', to: 'wontfix', at: expect.any(String), by: 'sam' },
+    ]);
+    expect(await new SpecParser(tempDir).getBug('login-crash')).toMatchObject({ status: 'wontfix', history });
+  });
+
+  test('should reject transitions the workflow does not allow', async () => {
+    await expect(transitionBugData('login-crash', 'resolved', tempDir)).rejects.toThrow(ValidationError);
+    await expect(transitionBugData('login-crash', 'verifying', tempDir)).rejects.toThrow(ValidationError);
+    await expect(transitionBugData('login-crash', 'closed' as never, tempDir)).rejects.toThrow(UsageError);
+    expect(await fs.readFile(join(bugDir, 'report.md'), 'utf-8')).toBe('# Bug Report: Login crash\n');
+  });
+
+  test('should leave a bug that already has the status unchanged', async () => {
+    await fs.writeFile(join(bugDir, 'report.md'), '---\nstatus: "fixing"\n---\n# Bug Report\n');
+
+    expect(await transitionBugData('login-crash', 'fixing', tempDir)).toEqual({ bug: 'login-crash', from: 'fixing', to: 'fixing', changed: false });
+    expect(await fs.readFile(join(bugDir, 'report.md'), 'utf-8')).toBe('---\nstatus: "fixing"\n---\n# Bug Report\n');
+    await expect(fs.access(join(bugDir, 'status-history.jsonl'))).rejects.toThrow();
+  });
+
+  test('should reopen closed bugs', async () => {
+    await fs.writeFile(join(bugDir, 'report.md'), '---\nstatus: "resolved"\n---\n# Bug Report\n');
+
+    expect((await transitionBugData('login-crash', 'reported', tempDir, { reason: 'Crashes again' })).from).toBe('resolved');
+    expect((await new SpecParser(tempDir).getBug('login-crash'))?.status).toBe('reported');
+  });
+
+  test('should require an existing bug for duplicates and clear it on reopen', async () => {
+    await expect(transitionBugData('login-crash', 'duplicate', tempDir)).rejects.toThrow(UsageError);
+    await expect(transitionBugData('login-crash', 'duplicate', tempDir, { duplicateOf: 'missing' })).rejects.toThrow(NotFoundError);
+    await expect(transitionBugData('login-crash', 'duplicate', tempDir, { duplicateOf: 'login-crash' })).rejects.toThrow(ValidationError);
+
+    expect(await transitionBugData('login-crash', 'duplicate', tempDir, { duplicateOf: 'session-crash' }))
+      .toMatchObject({ to: 'duplicate', duplicateOf: 'session-crash' });
+    expect(await transitionBugData('login-crash', 'duplicate', tempDir, { duplicateOf: 'session-crash' }))
+      .toMatchObject({ changed: false, duplicateOf: 'session-crash' });
+    expect(await fs.readFile(join(bugDir, 'report.md'), 'utf-8')).toBe(
+      '---\nstatus: "duplicate"\nduplicateOf: "session-crash"\n---\n# Bug Report: Login crash\n'
+    );
+
+    await transitionBugData('login-crash', 'reported', tempDir);
+    expect(await fs.readFile(join(bugDir, 'report.md'), 'utf-8')).toBe('---\nstatus: "reported"\n---\n# Bug Report: Login crash\n');
+  });
+
+  test('should set statuses from outside the workflow without validating them', async () => {
+    await setBugStatusData('login-crash', 'resolved', tempDir, { by: 'tracker', reason: 'Closed in tracker' });
+
+    expect((await new SpecParser(tempDir).getBug('login-crash'))?.status).toBe('resolved');
+    expect(await readHistory()).toEqual([
+      expect.objectContaining({ from: 'reported', to: 'resolved', by: 'tracker', reason: 'Closed in tracker' }),
+    ]);
+  });
+});
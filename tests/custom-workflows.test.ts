@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { parseWorkflowDefinition, loadWorkflowDefinitions, generateWorkflowCommands } from '../src/custom-workflows';
+import { ValidationError } from '../src/output';
+
+describe('Custom Workflows', () => {
+  let tempDir: string;
+  let workflowsDir: string;
+  let commandsDir: string;
+
+  const rfc = {
+    title: 'RFC',
+    phases: [
+      { name: 'draft', template: 'rfc-draft-template.md', status: 'drafting' },
+      { name: 'review', status: 'in-review' },
+      { name: 'decision', approval: false },
+    ],
+    completedStatus: 'decided',
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'custom-workflows-test-'));
+    workflowsDir = join(tempDir, '.claude', 'workflows');
+    commandsDir = join(tempDir, '.claude', 'commands');
+    await fs.mkdir(workflowsDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should fill in phase defaults', () => {
+    expect(parseWorkflowDefinition('rfc', rfc)).toEqual({
+      name: 'rfc',
+      title: 'RFC',
+      phases: [
+        { name: 'draft', title: 'Draft', document: 'draft.md', template: 'rfc-draft-template.md', approval: true, status: 'drafting' },
+        { name: 'review', title: 'Review', document: 'review.md', approval: true, status: 'in-review' },
+        { name: 'decision', title: 'Decision', document: 'decision.md', approval: false, status: 'decision' },
+      ],
+      completedStatus: 'decided',
+    });
+    expect(parseWorkflowDefinition('tech-spike', { phases: [{ name: 'findings' }] })).toMatchObject({
+      title: 'Tech Spike',
+      completedStatus: 'completed',
+    });
+  });
+
+  test('should reject invalid definitions with every problem listed', () => {
+    expect(() => parseWorkflowDefinition('bug', rfc)).toThrow('reserved for the built-in workflow');
+    expect(() => parseWorkflowDefinition('rfc', [])).toThrow(ValidationError);
+    expect(() => parseWorkflowDefinition('rfc', { phases: [] })).toThrow('phases must be a non-empty array');
+    expect(() => parseWorkflowDefinition('rfc', {
+      phases: [
+        { name: 'status' },
+        { name: 'draft', document: '../escape.md', approval: 'yes' },
+        { name: 'draft', status: 'not-started' },
+      ],
+    })).toThrow(
+      'phases[0].name status is reserved for a generated command; ' +
+      'phases[1].document must be a markdown file name without a directory; ' +
+      'phases[1].approval must be true or false; ' +
+      'phases[2].status not-started is reserved for items before or after the workflow; ' +
+      'phase name draft is used more than once'
+    );
+  });
+
+  test('should load valid definitions and report broken ones', async () => {
+    await fs.writeFile(join(workflowsDir, 'rfc.json'), JSON.stringify(rfc));
+    await fs.writeFile(join(workflowsDir, 'spike.json'), '{ not json');
+    await fs.mkdir(join(workflowsDir, 'rfc'));
+
+    const { workflows, errors } = await loadWorkflowDefinitions(tempDir);
+    expect(workflows.map((workflow) => workflow.name)).toEqual(['rfc']);
+    expect(errors).toEqual([{ file: '.claude/workflows/spike.json', message: expect.stringContaining('JSON') }]);
+    expect(await loadWorkflowDefinitions(join(tempDir, 'missing'))).toEqual({ workflows: [], errors: [] });
+  });
+
+  test('should generate a command per phase and clean up removed phases', async () => {
+    await fs.writeFile(join(workflowsDir, 'rfc.json'), JSON.stringify(rfc));
+    const first = await generateWorkflowCommands(tempDir);
+    expect(first).toEqual({
+      written: ['rfc-draft.md', 'rfc-review.md', 'rfc-decision.md', 'rfc-status.md'],
+      removed: [],
+      errors: [],
+    });
+
+    const draft = await fs.readFile(join(commandsDir, 'rfc-draft.md'), 'utf-8');
+    expect(draft).toContain('Phase 1 of 3 of the RFC workflow.');
+    expect(draft).toContain('Follow the structure of `.claude/templates/rfc-draft-template.md` precisely');
+    expect(draft).toContain('`claude-code-spec-workflow workflow approve rfc {item-name} draft`');
+    expect(draft).not.toContain('npx');
+    expect(draft).toContain('Continue with `/rfc-review {item-name}`');
+    const decision = await fs.readFile(join(commandsDir, 'rfc-decision.md'), 'utf-8');
+    expect(decision).not.toContain('workflow approve');
+    expect(decision).toContain('its status becomes `decided`');
+
+    await fs.writeFile(join(workflowsDir, 'rfc.json'), JSON.stringify({ ...rfc, phases: rfc.phases.slice(0, 2) }));
+    expect((await generateWorkflowCommands(tempDir)).removed).toEqual(['rfc-decision.md']);
+
+    await fs.unlink(join(workflowsDir, 'rfc.json'));
+    expect((await generateWorkflowCommands(tempDir)).removed).toEqual(['rfc-draft.md', 'rfc-review.md', 'rfc-status.md']);
+  });
+
+  test('should never overwrite commands it did not generate', async () => {
+    await fs.mkdir(commandsDir, { recursive: true });
+    await fs.writeFile(join(commandsDir, 'spec-steering-setup.md'), '# Built-in command\n');
+    await fs.writeFile(join(workflowsDir, 'spec-steering.json'), JSON.stringify({ phases: [{ name: 'setup' }] }));
+
+    const result = await generateWorkflowCommands(tempDir);
+    expect(result.written).toEqual([]);
+    expect(result.errors).toEqual([{
+      file: '.claude/workflows/spec-steering.json',
+      message: 'spec-steering-setup.md exists and was not generated from a workflow',
+    }]);
+    expect(await fs.readFile(join(commandsDir, 'spec-steering-setup.md'), 'utf-8')).toBe('# Built-in command\n');
+  });
+});
@@ -7,13 +7,12 @@ import { mkdtemp, rm } from 'fs/promises';
 describe('Bug Status Detection', () => {
   let tempDir: string;
   let parser: SpecParser;
-  let bugsPath: string;
+  let bugPath: string;
 
   beforeEach(async () => {
     tempDir = await mkdtemp(join(tmpdir(), 'test-bug-status-'));
-    const claudeDir = join(tempDir, '.claude');
-    bugsPath = join(claudeDir, 'bugs');
-    await fs.mkdir(bugsPath, { recursive: true });
+    bugPath = join(tempDir, '.claude', 'bugs', 'test-bug');
+    await fs.mkdir(bugPath, { recursive: true });
     
     parser = new SpecParser(tempDir);
   });
@@ -22,223 +21,77 @@ describe('Bug Status Detection', () => {
     await rm(tempDir, { recursive: true, force: true });
   });
 
-  describe('Bug workflow status transitions', () => {
-    it('should not advance to analyzing status with empty analysis.md', async () => {
-      const bugName = 'test-bug';
-      const bugPath = join(bugsPath, bugName);
-      await fs.mkdir(bugPath, { recursive: true });
-
-      // Create report.md
-      await fs.writeFile(join(bugPath, 'report.md'), `# Bug Report
-
-## Bug Summary
-Test bug summary
-
-## Bug Details
-Some details here
-`);
-
-      // Create empty analysis.md with just template
-      await fs.writeFile(join(bugPath, 'analysis.md'), `# Bug Analysis
-
-## Root Cause Analysis
-
-### Investigation Summary
-[What investigation steps were taken to understand this bug?]
-
-### Root Cause
-[What is the fundamental cause of this bug?]
-
-## Implementation Plan
-
-### Changes Required
-[List the specific changes needed]
-`);
-
-      const bug = await parser.getBug(bugName);
-      expect(bug).toBeDefined();
-      expect(bug?.status).toBe('reported'); // Should stay in reported status
-      expect(bug?.analysis?.exists).toBe(true);
-    });
-
-    it('should advance to analyzing status with actual analysis content', async () => {
-      const bugName = 'test-bug';
-      const bugPath = join(bugsPath, bugName);
-      await fs.mkdir(bugPath, { recursive: true });
-
-      // Create report.md
-      await fs.writeFile(join(bugPath, 'report.md'), `# Bug Report
-
-## Bug Summary
-Test bug summary
-`);
-
-      // Create analysis.md with actual content
-      await fs.writeFile(join(bugPath, 'analysis.md'), `# Bug Analysis
-
-## Root Cause Analysis
-
-### Investigation Summary
-Investigated the parser.ts file and found that bug status detection uses file existence checks instead of content validation.
-
-### Root Cause
-The bug workflow incorrectly advances through phases based solely on file existence rather than actual content completion.
-
-## Implementation Plan
-
-### Changes Required
-1. Add content validation helper method
-2. Update bug status transitions to check for actual content
-`);
-
-      const bug = await parser.getBug(bugName);
-      expect(bug).toBeDefined();
-      expect(bug?.status).toBe('analyzing'); // Should advance to analyzing
-    });
-
-    it('should advance to fixing status only when analysis is approved', async () => {
-      const bugName = 'test-bug';
-      const bugPath = join(bugsPath, bugName);
-      await fs.mkdir(bugPath, { recursive: true });
-
-      // Create report.md
-      await fs.writeFile(join(bugPath, 'report.md'), `# Bug Report
-
-## Bug Summary
-Test bug summary
-`);
-
-      // Create complete and approved analysis.md
+  describe('Bug status from front-matter', () => {
+    it('should stay reported whatever the documents say', async () => {
+      await fs.writeFile(join(bugPath, 'report.md'), '# Bug Report\n\n## Bug Summary\nTest bug summary\n');
       await fs.writeFile(join(bugPath, 'analysis.md'), `# Bug Analysis
 
 ## Root Cause Analysis
 
 ### Investigation Summary
-Investigated the parser.ts file and found issues.
+Investigated the parser and found the cause.
 
 ### Root Cause
-The root cause has been identified.
+Status was derived from prose.
 
 ## Implementation Plan
 
 ### Changes Required
-1. Fix the issue
-
-✅ APPROVED - Ready to proceed with the fix
-`);
-
-      // Create fix.md file to trigger 'fixing' status
-      await fs.writeFile(join(bugPath, 'fix.md'), '# Fix Document\n\n');
-
-      const bug = await parser.getBug(bugName);
-      expect(bug).toBeDefined();
-      expect(bug?.status).toBe('fixing'); // Should advance to fixing
-    });
-
-    it('should not advance to verifying with empty verification.md', async () => {
-      const bugName = 'test-bug';
-      const bugPath = join(bugsPath, bugName);
-      await fs.mkdir(bugPath, { recursive: true });
-
-      // Create all files including empty verification
-      await fs.writeFile(join(bugPath, 'report.md'), '# Bug Report\n\nContent');
-      await fs.writeFile(join(bugPath, 'analysis.md'), `# Bug Analysis
-
-## Root Cause Analysis
-### Investigation Summary
-Found the issue
-### Root Cause
-Bug identified
-
-## Implementation Plan
-### Changes Required
-1. Fix it
-
-✅ APPROVED`);
-      
-      // Create fix.md with actual content
-      await fs.writeFile(join(bugPath, 'fix.md'), `# Fix Document
+1. Keep the status in front-matter
 
-## Fix Summary
-The bug has been fixed
+✅ APPROVED - proceed to the fix
 
-## Implementation Details
-Changes were made to fix the issue
+## Next Phase
 `);
-      
-      // Create empty verification.md
+      await fs.writeFile(join(bugPath, 'fix.md'), '# Fix Document\n\n## Fix Summary\nThe bug has been fixed\n');
       await fs.writeFile(join(bugPath, 'verification.md'), `# Bug Verification
 
 ## Test Results
-[Describe test execution and results]
+All tests passed.
 
-## Regression Testing
-[List regression tests performed]
+✅ VERIFIED - Bug is resolved
 `);
 
-      const bug = await parser.getBug(bugName);
-      expect(bug).toBeDefined();
-      expect(bug?.status).toBe('fixed'); // Should be 'fixed' since fix has content but verification is empty
+      const bug = await parser.getBug('test-bug');
+      expect(bug?.status).toBe('reported');
+      expect(bug?.analysis?.exists).toBe(true);
+      expect(bug?.fix).toMatchObject({ exists: true, summary: 'The bug has been fixed' });
+      expect(bug?.verification).toMatchObject({ exists: true, verified: true });
+      expect(bug?.history).toEqual([]);
     });
 
-    it('should advance to verifying with actual verification content', async () => {
-      const bugName = 'test-bug';
-      const bugPath = join(bugsPath, bugName);
-      await fs.mkdir(bugPath, { recursive: true });
-
-      // Create all files
-      await fs.writeFile(join(bugPath, 'report.md'), '# Bug Report\n\nContent');
-      await fs.writeFile(join(bugPath, 'analysis.md'), `# Bug Analysis
+    it('should report the recorded status', async () => {
+      await fs.writeFile(join(bugPath, 'report.md'), '---\nstatus: "wontfix"\n---\n# Bug Report\n');
 
-## Root Cause Analysis
-### Investigation Summary
-Found the issue
-### Root Cause
-Bug identified
-
-## Implementation Plan
-### Changes Required
-1. Fix it
-
-✅ APPROVED`);
-      
-      // Create verification.md with actual content
-      await fs.writeFile(join(bugPath, 'verification.md'), `# Bug Verification
-
-## Test Results
-All tests passed successfully. The bug no longer reproduces.
-
-## Regression Testing
-Ran full test suite - no regressions found.
-`);
-
-      const bug = await parser.getBug(bugName);
-      expect(bug).toBeDefined();
-      expect(bug?.status).toBe('verifying'); // Should advance to verifying
+      expect((await parser.getBug('test-bug'))?.status).toBe('wontfix');
     });
 
-    it('should advance to resolved when verification is complete', async () => {
-      const bugName = 'test-bug';
-      const bugPath = join(bugsPath, bugName);
-      await fs.mkdir(bugPath, { recursive: true });
+    it('should read the legacy fixed status as verifying and ignore unknown statuses', async () => {
+      await fs.writeFile(join(bugPath, 'report.md'), '---\nstatus: "fixed"\n---\n# Bug Report\n');
+      expect((await parser.getBug('test-bug'))?.status).toBe('verifying');
 
-      // Create all files
-      await fs.writeFile(join(bugPath, 'report.md'), '# Bug Report\n\nContent');
-      await fs.writeFile(join(bugPath, 'analysis.md'), '# Analysis\n\nContent\n\n✅ APPROVED');
-      await fs.writeFile(join(bugPath, 'verification.md'), `# Bug Verification
-
-## Test Results
-All tests passed.
+      await fs.writeFile(join(bugPath, 'report.md'), '---\nstatus: "done"\n---\n# Bug Report\n');
+      expect((await parser.getBug('test-bug'))?.status).toBe('reported');
+    });
 
-## Regression Testing
-No regressions found.
+    it('should report the bug a duplicate duplicates', async () => {
+      await fs.writeFile(join(bugPath, 'report.md'), '---\nstatus: "duplicate"\nduplicateOf: "login-crash"\n---\n# Bug Report\n');
 
-✅ VERIFIED - Bug is resolved
-`);
+      expect(await parser.getBug('test-bug')).toMatchObject({ status: 'duplicate', duplicateOf: 'login-crash' });
+    });
 
-      const bug = await parser.getBug(bugName);
-      expect(bug).toBeDefined();
-      expect(bug?.status).toBe('resolved'); // Should be resolved
+    it('should read the transition history and skip malformed lines', async () => {
+      await fs.writeFile(join(bugPath, 'report.md'), '---\nstatus: "analyzing"\n---\n# Bug Report\n');
+      await fs.writeFile(join(bugPath, 'status-history.jsonl'), [
+        JSON.stringify({ from: 'reported', to: 'analyzing', at: '2025-03-01T10:00:00.000Z', by: 'jane' }),
+        '{not json',
+        JSON.stringify({ from: 'analyzing', to: 'somewhere', at: '2025-03-02T10:00:00.000Z', by: 'jane' }),
+        '',
+      ].join('\n'));
+
+      expect((await parser.getBug('test-bug'))?.history).toEqual([
+        { from: 'reported', to: 'analyzing', at: '2025-03-01T10:00:00.000Z', by: 'jane' },
+      ]);
     });
   });
-});
\ No newline at end of file
+});
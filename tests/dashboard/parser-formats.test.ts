@@ -1,4 +1,5 @@
 import { SpecParser } from '../../src/dashboard/parser';
+import { setApproval } from '../../src/approval';
 import { mkdtemp, writeFile, mkdir, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
@@ -60,7 +61,10 @@ describe('SpecParser Format Support', () => {
       expect(req1.id).toBe('1');
       expect(req1.title).toBe('User Authentication');
       expect(req1.userStory).toBe('As a user, I want to log in securely, so that I can access my data');
-      expect(req1.acceptanceCriteria).toHaveLength(1);
+      expect(req1.acceptanceCriteria).toEqual([
+        'WHEN user enters valid credentials THEN system authenticates',
+        'IF credentials are invalid THEN show error message'
+      ]);
     });
   });
 
@@ -328,4 +332,92 @@ Test content`);
       expect(spec!.displayName).not.toContain('Requirements');
     });
   });
-});
\ No newline at end of file
+
+  describe('Task Status Markers', () => {
+    it('should count tasks by status and use the task marked in progress', async () => {
+      const specDir = join(tempDir, '.claude', 'specs', 'status-spec');
+      await mkdir(specDir, { recursive: true });
+
+      await writeFile(join(specDir, 'tasks.md'), `# Implementation Plan
+
+✅ APPROVED
+
+- [x] 1. Done task
+- [ ] 2. Pending task
+- [!] 3. Blocked task
+  - _Blocked: Waiting on API keys_
+- [-] 4. Active task
+- [~] 5. Skipped task
+`);
+
+      const spec = await parser.getSpec('status-spec');
+
+      expect(spec!.status).toBe('in-progress');
+      expect(spec!.tasks!.total).toBe(5);
+      expect(spec!.tasks!.completed).toBe(1);
+      expect(spec!.tasks!.statusCounts).toEqual({
+        'pending': 1,
+        'in-progress': 1,
+        'completed': 1,
+        'blocked': 1,
+        'skipped': 1
+      });
+      expect(spec!.tasks!.inProgress).toBe('4');
+      expect(spec!.tasks!.taskList[2]!.status).toBe('blocked');
+      expect(spec!.tasks!.taskList[2]!.blockedReason).toBe('Waiting on API keys');
+    });
+
+    it('should not guess an in-progress task from unchecked boxes', async () => {
+      const specDir = join(tempDir, '.claude', 'specs', 'pending-spec');
+      await mkdir(specDir, { recursive: true });
+
+      await writeFile(join(specDir, 'tasks.md'), `✅ APPROVED
+
+- [ ] 1. First task
+- [ ] 2. Second task
+`);
+
+      const spec = await parser.getSpec('pending-spec');
+
+      expect(spec!.status).toBe('tasks');
+      expect(spec!.tasks!.inProgress).toBeUndefined();
+    });
+
+    it('should treat skipped tasks as done when completing a spec', async () => {
+      const specDir = join(tempDir, '.claude', 'specs', 'skipped-spec');
+      await mkdir(specDir, { recursive: true });
+
+      await writeFile(join(specDir, 'tasks.md'), `✅ APPROVED
+
+- [x] 1. First task
+- [~] 2. Not needed
+`);
+
+      const spec = await parser.getSpec('skipped-spec');
+
+      expect(spec!.status).toBe('completed');
+    });
+  });
+
+  describe('Approval Front-Matter', () => {
+    it('should report approvals and documents modified since approval', async () => {
+      const specDir = join(tempDir, '.claude', 'specs', 'approved-spec');
+      await mkdir(specDir, { recursive: true });
+
+      const requirements = setApproval('# Requirements\n\n### Requirement 1: Login\n', {
+        approvedBy: 'jane',
+        approvedAt: '2025-01-31T10:00:00.000Z'
+      });
+      await writeFile(join(specDir, 'requirements.md'), requirements);
+      await writeFile(join(specDir, 'design.md'), setApproval('# Design\n', { approvedBy: 'sam', approvedAt: '2025-02-01T10:00:00.000Z' }) + 'Edited\n');
+
+      const spec = await parser.getSpec('approved-spec');
+
+      expect(spec!.requirements!.approval).toEqual({ state: 'approved', approvedBy: 'jane', approvedAt: '2025-01-31T10:00:00.000Z' });
+      expect(spec!.requirements!.content!.map(r => r.id)).toEqual(['1']);
+      expect(spec!.design!.approved).toBe(true);
+      expect(spec!.design!.approval!.state).toBe('modified');
+      expect(spec!.status).toBe('tasks');
+    });
+  });
+});
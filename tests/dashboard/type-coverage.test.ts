@@ -101,7 +101,11 @@ const mockSteeringStatus: SteeringStatus = {
   exists: true,
   hasProduct: true,
   hasTech: true,
-  hasStructure: false
+  hasStructure: false,
+  documents: [
+    { name: 'product.md', title: 'Product Context' },
+    { name: 'security.md', title: 'Security', paths: ['src/auth/**'] }
+  ]
 };
 
 const mockBug: Bug = {
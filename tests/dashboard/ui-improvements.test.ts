@@ -165,7 +165,10 @@ describe('UI Improvements - Conditional Rendering Logic', () => {
         const bugDir = join(tempDir, '.claude', 'bugs', 'resolved-bug');
         await mkdir(bugDir, { recursive: true });
         
-        const reportContent = `# Bug Report: Resolved Issue
+        const reportContent = `---
+status: "resolved"
+---
+# Bug Report: Resolved Issue
 
 ## Bug Details
 **Severity**: high
@@ -233,7 +236,10 @@ All tests pass - unit tests, integration tests, and manual testing completed suc
         const bugDir = join(tempDir, '.claude', 'bugs', 'active-bug');
         await mkdir(bugDir, { recursive: true });
         
-        const reportContent = `# Bug Report: Active Issue
+        const reportContent = `---
+status: "fixing"
+---
+# Bug Report: Active Issue
 
 ## Bug Details
 **Severity**: critical
@@ -254,7 +260,6 @@ Fix by updating method Y
 
         await writeFile(join(bugDir, 'report.md'), reportContent);
         await writeFile(join(bugDir, 'analysis.md'), analysisContent);
-        // Create fix.md to trigger 'fixing' status
         await writeFile(join(bugDir, 'fix.md'), '# Fix Document\n\n');
         
         const bugs = await parser.getAllBugs();
@@ -273,7 +278,10 @@ Fix by updating method Y
         const bugDir = join(tempDir, '.claude', 'bugs', 'resolved-with-docs');
         await mkdir(bugDir, { recursive: true });
         
-        const reportContent = `# Bug Report: Resolved with Documents
+        const reportContent = `---
+status: "resolved"
+---
+# Bug Report: Resolved with Documents
 
 ## Bug Details  
 **Severity**: medium
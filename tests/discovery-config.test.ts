@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir, homedir } from 'os';
+import {
+  loadDiscoveryConfig,
+  resolveDiscoveryConfig,
+  compileExcludePatterns,
+  isExcludedPath,
+  DEFAULT_DISCOVERY_CONFIG
+} from '../src/dashboard/discovery-config';
+import { ProjectDiscovery } from '../src/dashboard/project-discovery';
+
+describe('Dashboard Discovery Config', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'discovery-test-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('loadDiscoveryConfig', () => {
+    test('should merge the config file with the defaults', async () => {
+      const configPath = join(tempDir, 'dashboard.json');
+      await fs.writeFile(configPath, JSON.stringify({ roots: ['/work'], pinned: ['~/api'] }));
+
+      expect(loadDiscoveryConfig(configPath)).toEqual({
+        roots: ['/work'],
+        maxDepth: DEFAULT_DISCOVERY_CONFIG.maxDepth,
+        exclude: DEFAULT_DISCOVERY_CONFIG.exclude,
+        pinned: ['~/api']
+      });
+    });
+
+    test('should reject invalid settings and missing explicit files', async () => {
+      const configPath = join(tempDir, 'dashboard.json');
+      await fs.writeFile(configPath, JSON.stringify({ roots: '/work' }));
+      expect(() => loadDiscoveryConfig(configPath)).toThrow('Invalid "roots"');
+
+      await fs.writeFile(configPath, '{ roots: [');
+      expect(() => loadDiscoveryConfig(configPath)).toThrow('Could not parse');
+
+      expect(() => loadDiscoveryConfig(join(tempDir, 'missing.json'))).toThrow('Dashboard config not found');
+    });
+  });
+
+  describe('resolveDiscoveryConfig', () => {
+    test('should let flags replace roots and add exclude patterns', () => {
+      const config = resolveDiscoveryConfig(
+        { roots: ['~/Projects'], maxDepth: 4, exclude: ['node_modules'], pinned: ['~/api', '~/api'] },
+        { roots: ['/work', '/work'], exclude: ['dist'], maxDepth: 2 }
+      );
+
+      expect(config).toEqual({
+        roots: ['/work'],
+        maxDepth: 2,
+        exclude: ['node_modules', 'dist'],
+        pinned: [join(homedir(), 'api')]
+      });
+    });
+  });
+
+  describe('isExcludedPath', () => {
+    test('should match directory names and path globs', () => {
+      const patterns = compileExcludePatterns(['node_modules', 'tmp-*', '/work/legacy/**', 'build/out']);
+      const isExcluded = (path: string) => isExcludedPath(path, patterns);
+
+      expect(isExcluded('/work/app/node_modules')).toBe(true);
+      expect(isExcluded('/work/tmp-123')).toBe(true);
+      expect(isExcluded('/work/legacy')).toBe(true);
+      expect(isExcluded('/work/legacy/old-app')).toBe(true);
+      expect(isExcluded('/work/app/build/out')).toBe(true);
+      expect(isExcluded('/work/legacy-v2')).toBe(false);
+      expect(isExcluded('/work/app/build')).toBe(false);
+    });
+  });
+
+  describe('ProjectDiscovery', () => {
+    const createProject = async (path: string, withSpec = true) => {
+      await fs.mkdir(join(path, '.claude', 'specs', withSpec ? 'feature' : ''), { recursive: true });
+    };
+
+    beforeEach(() => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      jest.spyOn(ProjectDiscovery.prototype as any, 'getActiveClaudeSessions').mockResolvedValue([]);
+    });
+
+    test('should search the configured roots up to the maximum depth', async () => {
+      await createProject(join(tempDir, 'mono'));
+      await createProject(join(tempDir, 'mono', 'services', 'api'));
+      await createProject(join(tempDir, 'mono', 'a', 'b', 'c', 'deep'));
+      await createProject(join(tempDir, 'mono', 'legacy', 'old'));
+      await createProject(join(tempDir, 'empty'), false);
+      await createProject(join(tempDir, 'elsewhere', 'pinned'), false);
+
+      const discovery = new ProjectDiscovery({
+        roots: [join(tempDir, 'mono'), join(tempDir, 'mono', 'services')],
+        maxDepth: 2,
+        exclude: ['legacy'],
+        pinned: [join(tempDir, 'elsewhere', 'pinned')]
+      });
+      const projects = await discovery.discoverProjects();
+
+      expect(projects.map(p => p.path).sort()).toEqual([
+        join(tempDir, 'elsewhere', 'pinned'),
+        join(tempDir, 'mono'),
+        join(tempDir, 'mono', 'services', 'api')
+      ]);
+      expect(projects.find(p => p.name === 'pinned')?.pinned).toBe(true);
+    });
+
+    test('should load a single project without scanning for Claude sessions', async () => {
+      await createProject(join(tempDir, 'app'), false);
+      const discovery = new ProjectDiscovery();
+
+      expect(await discovery.getProject(join(tempDir, 'app', 'sub', '..'))).toMatchObject({
+        path: join(tempDir, 'app'),
+        name: 'app',
+        hasActiveSession: false,
+        specCount: 0
+      });
+      expect(await discovery.getProject(tempDir)).toBeNull();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((ProjectDiscovery.prototype as any).getActiveClaudeSessions).not.toHaveBeenCalled();
+    });
+  });
+});
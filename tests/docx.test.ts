@@ -0,0 +1,49 @@
+import { inflateRawSync } from 'zlib';
+import { markdownToDocx } from '../src/docx';
+
+/** Read the entries of a ZIP archive from its local file headers */
+function readZip(zip: Buffer): Map<string, string> {
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const extraLength = zip.readUInt16LE(offset + 28);
+    const name = zip.toString('utf-8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength + extraLength;
+    entries.set(name, inflateRawSync(zip.subarray(start, start + compressedSize)).toString('utf-8'));
+    offset = start + compressedSize;
+  }
+  return entries;
+}
+
+describe('Markdown to DOCX', () => {
+  test('should write a Word package with styles and core properties', () => {
+    const entries = readZip(markdownToDocx('# User Auth\n\nText', { title: 'User & Auth' }));
+
+    expect([...entries.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/core.xml',
+      'word/_rels/document.xml.rels',
+      'word/styles.xml',
+      'word/document.xml',
+    ]);
+    expect(entries.get('docProps/core.xml')).toContain('<dc:title>User &amp; Auth</dc:title>');
+    expect(entries.get('word/styles.xml')).toContain('<w:pageBreakBefore/>');
+  });
+
+  test('should convert headings, lists, tables and inline formatting', () => {
+    const document = readZip(markdownToDocx(
+      '# Spec\n\n# Tasks\n\n- [x] 1. **Login** `form`\n\n| A | B |\n|---|---|\n| 1 | a < b |\n\n```\nline 1\nline 2\n```\n'
+    )).get('word/document.xml') || '';
+
+    expect(document).toContain('<w:pStyle w:val="Title"/></w:pPr><w:r><w:t xml:space="preserve">Spec</w:t>');
+    expect(document).toContain('<w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t xml:space="preserve">Tasks</w:t>');
+    expect(document).toContain('<w:t xml:space="preserve">☑\t</w:t>');
+    expect(document).toContain('<w:rPr><w:b/></w:rPr><w:t xml:space="preserve">Login</w:t>');
+    expect(document).toContain('<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/></w:rPr><w:t xml:space="preserve">form</w:t>');
+    expect(document).toContain('<w:t xml:space="preserve">a &lt; b</w:t>');
+    expect(document).toContain('line 1</w:t></w:r><w:r><w:br/></w:r><w:r><w:t xml:space="preserve">line 2');
+  });
+});
@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { marked } from 'marked';
+import { renderMarkdown, MarkedLib } from '../src/dashboard/client/shared-components';
+import { exportHtmlData, buildSpecBundle, exportSpecDocumentData } from '../src/export';
+import { NotFoundError } from '../src/output';
+
+describe('HTML Export', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'export-test-'));
+    const specDir = join(tempDir, '.claude', 'specs', 'user-auth');
+    const bugDir = join(tempDir, '.claude', 'bugs', 'login-crash');
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.mkdir(bugDir, { recursive: true });
+    await fs.mkdir(join(tempDir, '.claude', 'steering'), { recursive: true });
+    await fs.writeFile(join(specDir, 'requirements.md'), '# Requirements: User Auth\n\n## Requirement 1: Login\n');
+    await fs.writeFile(join(specDir, 'tasks.md'), '# Implementation Plan: User Auth\n\n- [x] 1. Login form\n- [ ] 2. Session <store>\n');
+    await fs.writeFile(join(bugDir, 'report.md'), '# Bug Report: Login crash\n\n**Severity**: High\n');
+    await fs.writeFile(join(tempDir, '.claude', 'steering', 'product.md'), '# Product\n\nVision\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should write a page for every spec, bug and steering document', async () => {
+    const result = await exportHtmlData('site', tempDir);
+
+    expect(result).toMatchObject({ outDir: join(tempDir, 'site'), specs: 1, archivedSpecs: 0, bugs: 1, steering: 1 });
+    expect(result.files.sort()).toEqual([
+      'bugs/login-crash.html',
+      'index.html',
+      'specs/user-auth.html',
+      'steering/product.html',
+      'style.css',
+    ]);
+
+    const index = await fs.readFile(join(tempDir, 'site', 'index.html'), 'utf-8');
+    expect(index).toContain('<a href="specs/user-auth.html">User Auth</a>');
+    expect(index).toContain('style="width: 50%"');
+    expect(index).toContain('<link rel="stylesheet" href="style.css">');
+
+    const spec = await fs.readFile(join(tempDir, 'site', 'specs', 'user-auth.html'), 'utf-8');
+    expect(spec).toContain('<link rel="stylesheet" href="../style.css">');
+    expect(spec).toContain('<input checked="" disabled="" type="checkbox"> <strong>1.</strong> Login form');
+    expect(spec).toContain('Session &lt;store&gt;');
+    expect(spec).not.toMatch(/https?:\/\//);
+  });
+
+  test('should render documents like the dashboard does', async () => {
+    const design = '| Component | Owner |\n|---|---|\n| Login | Jane |\n\n- Session\n  - Store\n    - Redis\n\n```ts\nconst a = 1 < 2;\n```\n';
+    await fs.writeFile(join(tempDir, '.claude', 'specs', 'user-auth', 'design.md'), design);
+
+    await exportHtmlData('site', tempDir);
+
+    const spec = await fs.readFile(join(tempDir, 'site', 'specs', 'user-auth.html'), 'utf-8');
+    expect(spec).toContain(renderMarkdown(design, marked as unknown as MarkedLib));
+  });
+
+  test('should write an overview for projects without specs', async () => {
+    await fs.rm(join(tempDir, '.claude'), { recursive: true });
+
+    const result = await exportHtmlData(join(tempDir, 'out'), tempDir);
+
+    expect(result.files).toEqual(['style.css', 'index.html']);
+    expect(await fs.readFile(join(tempDir, 'out', 'index.html'), 'utf-8')).toContain('No specs found.');
+  });
+});
+
+describe('Spec Export', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'spec-export-test-'));
+    const specDir = join(tempDir, '.claude', 'specs', 'user-auth');
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(join(specDir, 'requirements.md'),
+      '---\napprovedBy: Jane\n---\n# Requirements: User Auth\n\n## Requirement 1: Login\n\n#### Acceptance Criteria\n\n1. WHEN valid THEN the system SHALL log in\n');
+    await fs.writeFile(join(specDir, 'design.md'), '# Design\n\n## Overview\n\n```sh\n# not a heading\n```\n');
+    await fs.writeFile(join(specDir, 'tasks.md'), '# Implementation Plan: User Auth\n\n- [x] 1. Login form\n  - _Requirements: 1.1_\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should stitch the documents under a cover page and table of contents', async () => {
+    const bundle = await buildSpecBundle('user-auth', tempDir, new Date('2025-03-01T12:00:00Z'));
+
+    expect(bundle.title).toBe('User Auth');
+    expect(bundle.sections).toEqual(['Requirements', 'Design', 'Tasks', 'Appendix A: Traceability', 'Appendix B: Approval Status']);
+    expect(bundle.markdown).toMatch(/^# User Auth\n\n- \*\*Project:\*\* /);
+    expect(bundle.markdown).toContain('- **Tasks:** 1 of 1 completed\n- **Exported:** 2025-03-01');
+    expect(bundle.markdown).toContain('- [Design](#design)\n  - [Overview](#overview)\n');
+    expect(bundle.markdown).toContain('# Requirements\n\n### Requirement 1: Login\n\n##### Acceptance Criteria');
+    expect(bundle.markdown).toContain('```sh\n# not a heading\n```');
+    expect(bundle.markdown).not.toContain('approvedBy: Jane');
+    expect(bundle.markdown).toContain('1 of 1 acceptance criteria covered by tasks');
+    expect(bundle.markdown).toContain('| design | design.md | unapproved | - | - |');
+  });
+
+  test('should write each layout to a single file', async () => {
+    const docx = await exportSpecDocumentData('user-auth', 'docx', tempDir);
+    expect(docx.file).toBe(join(tempDir, 'user-auth.docx'));
+    expect((await fs.readFile(docx.file)).readUInt32LE(0)).toBe(0x04034b50);
+
+    const html = await exportSpecDocumentData('user-auth', 'pdf-html', tempDir, 'out/spec.html');
+    const page = await fs.readFile(join(tempDir, 'out', 'spec.html'), 'utf-8');
+    expect(html.file).toBe(join(tempDir, 'out', 'spec.html'));
+    expect(page).toContain('<h1 id="appendix-b-approval-status">Appendix B: Approval Status</h1>');
+    expect(page).not.toMatch(/(?:src|href)="https?:/);
+
+    await exportSpecDocumentData('user-auth', 'md-bundle', tempDir);
+    expect(await fs.readFile(join(tempDir, 'user-auth.md'), 'utf-8')).toContain('# Appendix A: Traceability');
+  });
+
+  test('should throw not found errors for missing specs', async () => {
+    await expect(buildSpecBundle('missing', tempDir)).rejects.toThrow(NotFoundError);
+    await expect(buildSpecBundle('../user-auth', join(tempDir, '.claude'))).rejects.toThrow(NotFoundError);
+  });
+});
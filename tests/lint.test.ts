@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  lintSpecsData,
+  lintSections,
+  lintRequirements,
+  lintTasks,
+  applyLintFixes,
+  getTemplateSections
+} from '../src/lint';
+import { NotFoundError } from '../src/output';
+
+describe('Spec Lint', () => {
+  describe('lintSections', () => {
+    test('should report template sections missing from a document', () => {
+      const sections = getTemplateSections('# Design\n\n## Overview\n\n## Architecture\n### Detail\n');
+      expect(sections).toEqual(['Overview', 'Architecture']);
+
+      const result = lintSections('# Design\n\n## overview\n', sections);
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ line: 1, rule: 'missing-section', message: 'Missing template section "## Architecture"' })
+      ]);
+    });
+  });
+
+  describe('lintRequirements', () => {
+    test('should require EARS-style acceptance criteria for user stories', () => {
+      const result = lintRequirements(`## Requirements
+
+### Requirement 1
+
+**User Story:** As a user, I want to log in
+
+#### Acceptance Criteria
+
+1. WHEN credentials are valid THEN the system SHALL log the user in
+2. Errors are shown
+
+### Requirement 2
+
+**User Story:** As a user, I want to log out
+
+## Non-Functional Requirements
+`);
+
+      expect(result.diagnostics.map(d => [d.line, d.severity])).toEqual([
+        [10, 'warning'],
+        [12, 'error']
+      ]);
+      expect(result.diagnostics[1].message).toContain('Requirement 2 has a user story but no EARS-style acceptance criteria');
+    });
+  });
+
+  describe('lintTasks', () => {
+    test('should report and fix checkbox formatting', () => {
+      const content = `## Tasks
+
+* [X] 1 Create model
+  - _Requirements: 1.1
+- [] 2. Create service
+  - _Requirements: 1.1_
+- [ ]  2.1 Add caching
+  - _Requirements: 1.1_
+- [See docs](docs.md)
+`;
+      const result = lintTasks(content, null);
+
+      expect(result.diagnostics.map(d => [d.line, d.rule, d.fixable])).toEqual([
+        [3, 'checkbox-format', true],
+        [4, 'metadata-format', true],
+        [5, 'checkbox-format', true],
+        [7, 'checkbox-format', true]
+      ]);
+      expect(applyLintFixes(content, result.fixes)).toBe(`## Tasks
+
+- [x] 1. Create model
+  - _Requirements: 1.1_
+- [ ] 2. Create service
+  - _Requirements: 1.1_
+- [ ] 2.1 Add caching
+  - _Requirements: 1.1_
+- [See docs](docs.md)
+`);
+    });
+
+    test('should report task problems that cannot be fixed automatically', () => {
+      const result = lintTasks(`- [?] 1. Unknown marker
+  - _Requirements: 1.1_
+- [ ] Unnumbered task
+- [ ] 2. Uses a missing requirement
+  - _Requirements: 9.9_
+  - _Depends: 7_
+- [ ] 2. Duplicate without requirements
+`, [{ id: '1', title: 'Login', acceptanceCriteria: ['WHEN x THEN the system SHALL y'] }]);
+
+      expect(result.diagnostics.map(d => [d.line, d.rule])).toEqual([
+        [1, 'checkbox-format'],
+        [3, 'task-id'],
+        [7, 'duplicate-task-id'],
+        [7, 'missing-requirements'],
+        [4, 'task-dependency'],
+        [4, 'unknown-requirement']
+      ]);
+      expect(result.fixes.size).toBe(0);
+    });
+
+    test('should ignore task-like lines in code blocks and preserve CRLF when fixing', () => {
+      const content = '```\r\n* [X] 1 Example\r\n```\r\n- [] 1. Task\r\n  - _Requirements: 1_\r\n';
+      const result = lintTasks(content, null);
+
+      expect(result.diagnostics.map(d => d.line)).toEqual([4]);
+      expect(applyLintFixes(content, result.fixes)).toBe('```\r\n* [X] 1 Example\r\n```\r\n- [ ] 1. Task\r\n  - _Requirements: 1_\r\n');
+    });
+  });
+
+  describe('lintSpecsData', () => {
+    let tempDir: string;
+    let specDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(join(tmpdir(), 'lint-test-'));
+      specDir = join(tempDir, '.claude', 'specs', 'user-auth');
+      await fs.mkdir(specDir, { recursive: true });
+      await fs.mkdir(join(tempDir, '.claude', 'templates'), { recursive: true });
+      await fs.writeFile(join(tempDir, '.claude', 'templates', 'tasks-template.md'), '# Plan\n\n## Tasks\n');
+      await fs.writeFile(join(specDir, 'tasks.md'), '# Plan\n\n## Tasks\n\n- [] 1. Task\n  - _Requirements: 1_\n');
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should use project templates and report diagnostics with file paths', () => {
+      const result = lintSpecsData('user-auth', tempDir);
+
+      expect(result.specs).toEqual(['user-auth']);
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ file: '.claude/specs/user-auth/tasks.md', line: 5, rule: 'checkbox-format', severity: 'error' })
+      ]);
+      expect(result).toMatchObject({ errorCount: 1, warningCount: 0, fixed: 0 });
+    });
+
+    test('should fix files in place with --fix', async () => {
+      const result = lintSpecsData(undefined, tempDir, { fix: true });
+
+      expect(result).toMatchObject({ specs: ['user-auth'], diagnostics: [], errorCount: 0, fixed: 1 });
+      expect(await fs.readFile(join(specDir, 'tasks.md'), 'utf-8')).toContain('- [ ] 1. Task');
+    });
+
+    test('should fall back to the bundled templates', async () => {
+      await fs.rm(join(tempDir, '.claude', 'templates'), { recursive: true });
+
+      const result = lintSpecsData('user-auth', tempDir);
+      expect(result.diagnostics.filter(d => d.rule === 'missing-section').map(d => d.message)).toEqual([
+        'Missing template section "## Task Overview"',
+        'Missing template section "## Steering Document Compliance"'
+      ]);
+    });
+
+    test('should throw for unknown specs', () => {
+      expect(() => lintSpecsData('missing', tempDir)).toThrow(NotFoundError);
+    });
+  });
+});
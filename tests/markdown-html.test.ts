@@ -0,0 +1,17 @@
+import { parseBlocks, parseInline } from '../src/markdown-html';
+
+describe('Markdown parsing', () => {
+  test('should escape raw HTML and unsafe links', () => {
+    expect(parseInline('<script>alert(1)</script> [ok](docs/a.md) [bad](javascript:alert)')).toBe(
+      '&lt;script&gt;alert(1)&lt;/script&gt; <a href="docs/a.md">ok</a> <a href="#">bad</a>'
+    );
+  });
+
+  test('should split markdown into blocks', () => {
+    expect(parseBlocks('## Plan\n\n- [ ] 1. Login\n  Details\n\n---\n')).toEqual([
+      { type: 'heading', level: 2, text: 'Plan' },
+      { type: 'list', ordered: false, start: 1, items: [{ text: '1. Login\nDetails', checked: false, blocks: [] }] },
+      { type: 'rule' },
+    ]);
+  });
+});
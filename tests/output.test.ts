@@ -0,0 +1,245 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  runCommand,
+  createEnvelope,
+  toCliError,
+  NotFoundError,
+  UsageError,
+  ValidationError,
+  EXIT_CODES,
+  getPackageVersion
+} from '../src/output';
+import simpleGit from 'simple-git';
+import { getTasksData, resolveTaskCommit } from '../src/get-tasks';
+import { getSpecContextData } from '../src/get-spec-context';
+import { getFileContentData } from '../src/get-content';
+
+describe('CLI Output', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    process.exitCode = undefined;
+  });
+
+  describe('runCommand', () => {
+    test('should print a success envelope in json mode', async () => {
+      const render = jest.fn();
+
+      await runCommand('json', () => ({ answer: 42 }), render);
+
+      expect(render).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual({
+        ok: true,
+        data: { answer: 42 },
+        errors: [],
+        version: getPackageVersion()
+      });
+      expect(getPackageVersion()).toBe(JSON.parse(await fs.readFile(join(__dirname, '..', 'package.json'), 'utf-8')).version);
+      expect(process.exitCode).toBeUndefined();
+    });
+
+    test('should print an error envelope and set the exit code for the error class', async () => {
+      await runCommand('json', () => {
+        throw new NotFoundError('Task 9 not found', { taskId: '9' });
+      }, jest.fn());
+
+      const envelope = JSON.parse(logSpy.mock.calls[0][0]);
+      expect(envelope.ok).toBe(false);
+      expect(envelope.data).toBeNull();
+      expect(envelope.errors).toEqual([
+        { code: 'NOT_FOUND', message: 'Task 9 not found', details: { taskId: '9' } }
+      ]);
+      expect(process.exitCode).toBe(EXIT_CODES.NOT_FOUND);
+    });
+
+    test('should render text and print errors to stderr in text mode', async () => {
+      const render = jest.fn();
+      await runCommand('text', async () => 'result', render);
+      expect(render).toHaveBeenCalledWith('result');
+
+      await runCommand('text', () => {
+        throw new UsageError('Invalid mode');
+      }, render);
+      expect(errorSpy.mock.calls[0][0]).toContain('Invalid mode');
+      expect(logSpy).not.toHaveBeenCalled();
+      expect(process.exitCode).toBe(EXIT_CODES.USAGE);
+    });
+
+    test('should treat unknown errors as internal errors', () => {
+      const error = toCliError(new Error('boom'));
+
+      expect(error.code).toBe('INTERNAL');
+      expect(error.exitCode).toBe(1);
+      expect(createEnvelope(null, error).errors).toEqual([{ code: 'INTERNAL', message: 'boom' }]);
+    });
+
+    test('should use distinct non-zero exit codes for each error class', () => {
+      const codes = Object.values(EXIT_CODES);
+
+      expect(codes.every(code => code > 0)).toBe(true);
+      expect(new Set(codes).size).toBe(codes.length);
+    });
+  });
+
+  describe('command data', () => {
+    let tempDir: string;
+    let specDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(join(tmpdir(), 'output-test-'));
+      specDir = join(tempDir, '.claude', 'specs', 'user-auth');
+      await fs.mkdir(specDir, { recursive: true });
+      await fs.writeFile(join(specDir, 'requirements.md'), '# Requirements\n');
+      await fs.writeFile(join(specDir, 'tasks.md'), `- [x] 1. Done task
+- [ ] 2. Pending task
+  - _Requirements: 1.1_
+`);
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should return tasks for each query mode', () => {
+      const all = getTasksData('user-auth', undefined, 'all', tempDir);
+      expect(all.mode).toBe('all');
+      expect(all.mode === 'all' && all.tasks.map(t => t.id)).toEqual(['1', '2']);
+
+      const next = getTasksData('user-auth', undefined, 'next-pending', tempDir);
+      expect(next.mode === 'next-pending' && next.task?.id).toBe('2');
+
+      const single = getTasksData('user-auth', '2', 'single', tempDir);
+      expect(single.mode === 'single' && single.task.requirements).toBe('1.1');
+    });
+
+    test('should complete a task and report whether the file changed', async () => {
+      const completed = getTasksData('user-auth', '2', 'complete', tempDir);
+      expect(completed).toMatchObject({ mode: 'complete', changed: true, task: { id: '2', completed: true } });
+      expect(await fs.readFile(join(specDir, 'tasks.md'), 'utf-8')).toContain('- [x] 2. Pending task');
+
+      const again = getTasksData('user-auth', '1', 'complete', tempDir);
+      expect(again).toMatchObject({ mode: 'complete', changed: false });
+    });
+
+    test('should link a commit when completing a task', async () => {
+      expect(getTasksData('user-auth', '2', 'complete', tempDir, { commit: 'abc1234 (1 file, +2 -0)' })).toMatchObject({
+        changed: true, task: { status: 'completed', commit: 'abc1234' }
+      });
+      expect(await fs.readFile(join(specDir, 'tasks.md'), 'utf-8')).toContain('  - _Commit: abc1234 (1 file, +2 -0)_\n');
+
+      // Completed tasks keep their commit unless it is relinked explicitly
+      expect(getTasksData('user-auth', '2', 'complete', tempDir, { commit: 'def5678 (1 file, +1 -1)' })).toMatchObject({
+        changed: false, task: { commit: 'abc1234' }
+      });
+      expect(getTasksData('user-auth', '2', 'complete', tempDir, { commit: 'def5678 (1 file, +1 -1)', relinkCommit: true }))
+        .toMatchObject({ changed: true, task: { commit: 'def5678' } });
+
+      getTasksData('user-auth', '2', 'start', tempDir);
+      expect(await fs.readFile(join(specDir, 'tasks.md'), 'utf-8')).not.toContain('_Commit:');
+    });
+
+    test('should resolve the commit to link from git', async () => {
+      expect(await resolveTaskCommit(tempDir)).toBeUndefined();
+      await expect(resolveTaskCommit(tempDir, 'main')).rejects.toThrow(NotFoundError);
+
+      const git = simpleGit(tempDir);
+      await git.init();
+      await git.addConfig('user.name', 'Jane Doe').addConfig('user.email', 'jane@example.com');
+      await git.add('.').commit('Add spec');
+      const [{ hash }] = (await git.log()).all;
+
+      expect(await resolveTaskCommit(tempDir)).toBe(`${hash.slice(0, 7)} (2 files, +4 -0)`);
+      expect(await resolveTaskCommit(tempDir, hash)).toBe(await resolveTaskCommit(tempDir));
+      await expect(resolveTaskCommit(tempDir, '--help')).rejects.toThrow(NotFoundError);
+    });
+
+    test('should start, block and skip tasks', async () => {
+      expect(getTasksData('user-auth', '2', 'start', tempDir)).toMatchObject({
+        mode: 'start', changed: true, task: { status: 'in-progress' }
+      });
+
+      expect(() => getTasksData('user-auth', '2', 'block', tempDir)).toThrow(UsageError);
+      expect(getTasksData('user-auth', '2', 'block', tempDir, { reason: 'Waiting on API keys' })).toMatchObject({
+        mode: 'block', changed: true, task: { status: 'blocked', blockedReason: 'Waiting on API keys' }
+      });
+      expect(await fs.readFile(join(specDir, 'tasks.md'), 'utf-8')).toContain('- [!] 2. Pending task');
+
+      expect(getTasksData('user-auth', undefined, 'next-pending', tempDir)).toMatchObject({ task: null });
+
+      expect(getTasksData('user-auth', '2', 'skip', tempDir)).toMatchObject({
+        mode: 'skip', changed: true, task: { status: 'skipped' }
+      });
+      expect(await fs.readFile(join(specDir, 'tasks.md'), 'utf-8')).not.toContain('_Blocked:');
+    });
+
+    test('should only return tasks whose dependencies are done', async () => {
+      await fs.writeFile(join(specDir, 'tasks.md'), `- [ ] 1. Models
+- [ ] 2. Service
+  - _Depends: 1_
+- [ ] 3. Docs
+`);
+
+      expect(getTasksData('user-auth', undefined, 'runnable', tempDir)).toMatchObject({
+        mode: 'runnable', tasks: [{ id: '1' }, { id: '3' }]
+      });
+
+      getTasksData('user-auth', '1', 'skip', tempDir);
+      getTasksData('user-auth', '3', 'start', tempDir);
+      const next = getTasksData('user-auth', undefined, 'next-pending', tempDir);
+      expect(next.mode === 'next-pending' && next.task).toMatchObject({ id: '2', dependencies: ['1'] });
+    });
+
+    test('should reject dependency cycles and unknown dependencies', async () => {
+      await fs.writeFile(join(specDir, 'tasks.md'), `- [ ] 1. First
+  - _Depends: 2_
+- [ ] 2. Second
+  - _Depends: 1, 9_
+`);
+
+      expect(() => getTasksData('user-auth', undefined, 'runnable', tempDir)).toThrow(ValidationError);
+      let thrown: unknown;
+      try {
+        getTasksData('user-auth', undefined, 'next-pending', tempDir);
+      } catch (error) {
+        thrown = error;
+      }
+      expect((thrown as ValidationError).details).toMatchObject({
+        issues: [
+          { type: 'unknown-dependency', taskId: '2', ids: ['9'] },
+          { type: 'cycle', ids: ['1', '2'] }
+        ]
+      });
+    });
+
+    test('should throw typed errors for missing specs, tasks and task IDs', () => {
+      expect(() => getTasksData('missing', undefined, 'all', tempDir)).toThrow(NotFoundError);
+      expect(() => getTasksData('user-auth', '9', 'single', tempDir)).toThrow(NotFoundError);
+      expect(() => getTasksData('user-auth', undefined, 'complete', tempDir)).toThrow(UsageError);
+    });
+
+    test('should return spec documents in order', () => {
+      const context = getSpecContextData('user-auth', tempDir);
+
+      expect(context.exists).toBe(true);
+      expect(context.documents.map(doc => doc.name)).toEqual(['requirements.md', 'tasks.md']);
+      expect(getSpecContextData('missing', tempDir)).toEqual({ spec: 'missing', exists: false, documents: [] });
+    });
+
+    test('should report missing files as not found', () => {
+      expect(getFileContentData(join(specDir, 'requirements.md')).content).toBe('# Requirements\n');
+      expect(() => getFileContentData(join(specDir, 'nope.md'))).toThrow(NotFoundError);
+    });
+  });
+});
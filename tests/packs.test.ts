@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { gzipSync } from 'zlib';
+import { loadPacks, readTarEntries } from '../src/packs';
+import { SteeringLoader } from '../src/steering';
+import { resolveSteeringData } from '../src/steering-resolve';
+import { getSteeringContextData } from '../src/get-steering-context';
+import { applyTemplateOverridesData, diffTemplatesData } from '../src/template-overrides';
+import { NotFoundError } from '../src/output';
+
+/** Minimal ustar archive of regular files */
+function createTar(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const body = Buffer.from(content, 'utf-8');
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100, 'utf-8');
+    header.write('0000644\0', 100);
+    header.write(`${body.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write('0', 156);
+    header.write('ustar\0', 257);
+    blocks.push(header, body, Buffer.alloc(Math.ceil(body.length / 512) * 512 - body.length));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+describe('Steering and Template Packs', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let steeringDir: string;
+
+  const writePacksConfig = (packs: unknown) =>
+    fs.writeFile(join(projectDir, '.claude', 'packs.json'), JSON.stringify({ packs }));
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'packs-test-'));
+    projectDir = join(tempDir, 'project');
+    steeringDir = join(projectDir, '.claude', 'steering');
+    await fs.mkdir(steeringDir, { recursive: true });
+
+    await fs.mkdir(join(tempDir, 'acme', 'steering'), { recursive: true });
+    await fs.mkdir(join(tempDir, 'acme', 'templates'), { recursive: true });
+    await fs.writeFile(join(tempDir, 'acme', 'steering', 'tech.md'),
+      '# Technology Stack\n\n## Languages\nTypeScript\n\n## Security Standards\nNo secrets in code\n');
+    await fs.writeFile(join(tempDir, 'acme', 'steering', 'product.md'), '# Acme Products\n');
+    await fs.writeFile(join(tempDir, 'acme', 'templates', 'design-template.md'), '## Security Considerations\n[Threats]\n');
+
+    await fs.writeFile(join(tempDir, 'team.tgz'), gzipSync(createTar({
+      'team/steering/product.md': '# Payments\n',
+      'team/templates/rfc-template.md': '# RFC\n',
+    })));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should read directory and archive packs and report unreadable ones', async () => {
+    await writePacksConfig(['../acme', '../team.tgz', '../missing']);
+
+    const { packs, errors } = loadPacks(projectDir);
+    expect(packs.map((pack) => [pack.source, pack.kind, pack.files])).toEqual([
+      ['../acme', 'directory', { steering: ['product.md', 'tech.md'], templates: ['design-template.md'] }],
+      ['../team.tgz', 'archive', { steering: ['product.md'], templates: ['rfc-template.md'] }],
+    ]);
+    expect(packs[1]?.read('steering', 'product.md')).toBe('# Payments\n');
+    expect(packs[1]?.read('steering', 'tech.md')).toBeNull();
+    expect(errors).toEqual([{ source: '../missing', message: 'No such directory or archive' }]);
+
+    expect(readTarEntries(createTar({ './a.md': 'a' })).get('a.md')?.toString()).toBe('a');
+    expect(loadPacks(tempDir)).toEqual({ packs: [], errors: [] });
+    await writePacksConfig('../acme');
+    expect(loadPacks(projectDir).errors).toEqual([
+      { source: '.claude/packs.json', message: 'packs must be an array of directory or archive paths' },
+    ]);
+  });
+
+  test('should merge steering with later layers taking precedence', async () => {
+    await writePacksConfig(['../acme', '../team.tgz']);
+    await fs.writeFile(join(steeringDir, 'tech.md'), '# Tech\n\n## Languages\nTypeScript and Go\n\n## Build\nmake\n');
+    await fs.writeFile(join(steeringDir, 'structure.md'), '# Structure\n');
+
+    const docs = await new SteeringLoader(projectDir).loadSteeringDocuments();
+    expect(docs).toEqual({
+      product: '# Payments\n',
+      tech: '# Tech\n\n## Languages\nTypeScript and Go\n\n## Security Standards\nNo secrets in code\n\n## Build\nmake\n',
+      structure: '# Structure\n',
+    });
+
+    const resolved = resolveSteeringData('tech', projectDir);
+    expect(resolved.documents).toMatchObject([{ name: 'tech.md', sources: ['../acme', '.claude/steering'], warnings: [] }]);
+    expect(resolved.packs.map((pack) => pack.source)).toEqual(['../acme', '../team.tgz']);
+    expect(resolveSteeringData(undefined, projectDir).documents.map((doc) => doc.sources)).toEqual([
+      ['../acme', '../team.tgz'],
+      ['../acme', '.claude/steering'],
+      ['.claude/steering'],
+    ]);
+
+    await fs.writeFile(join(steeringDir, 'tech.md'), '---\ninherit: false\n---\n# Tech\n');
+    expect((await new SteeringLoader(projectDir).loadSteeringDocuments()).tech).toBe('# Tech\n');
+
+    expect(() => resolveSteeringData('roadmap', projectDir)).toThrow(NotFoundError);
+  });
+
+  test('should provide steering from packs when the project has none', async () => {
+    await fs.rm(steeringDir, { recursive: true });
+    expect(getSteeringContextData(projectDir)).toEqual({ exists: false, documents: [] });
+    expect(() => resolveSteeringData('product', projectDir)).toThrow(NotFoundError);
+
+    await writePacksConfig(['../team.tgz']);
+    const context = getSteeringContextData(projectDir);
+    expect(context.exists).toBe(true);
+    expect(context.documents).toMatchObject([{ name: 'product.md', title: 'Product Context', content: '# Payments' }]);
+    expect(await new SteeringLoader(projectDir).steeringDocumentsExist()).toBe(true);
+  });
+
+  test('should layer pack templates between the packaged template and the override', async () => {
+    await writePacksConfig(['../acme', '../team.tgz']);
+    const overridesDir = join(projectDir, '.claude', 'templates', 'overrides');
+    await fs.mkdir(overridesDir, { recursive: true });
+    await fs.writeFile(join(overridesDir, 'design-template.md'), '## Security Considerations\n<!-- append -->\n[Payment data]\n');
+
+    const result = applyTemplateOverridesData(projectDir);
+    expect(result).toEqual({
+      applied: [{ template: 'design-template.md', warnings: [] }],
+      skipped: [{ file: '../team.tgz/templates/rfc-template.md', message: 'No packaged template named rfc-template.md' }],
+    });
+    const design = await fs.readFile(join(projectDir, '.claude', 'templates', 'design-template.md'), 'utf-8');
+    expect(design).toMatch(/## Security Considerations\n\[Threats\]\n\n\[Payment data\]\n$/);
+
+    expect(diffTemplatesData('design-template.md', projectDir).templates).toMatchObject([{
+      state: 'overridden',
+      packs: ['../acme'],
+      override: '.claude/templates/overrides/design-template.md',
+    }]);
+  });
+});
@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ProgressHistory, buildProgressSeries, ProgressSnapshot, PROGRESS_HISTORY_FILE } from '../src/dashboard/progress-history';
+import { Spec, TaskStatusCounts } from '../src/dashboard/parser';
+
+describe('Progress History', () => {
+  const counts = (values: Partial<TaskStatusCounts>): TaskStatusCounts => ({
+    'pending': 0,
+    'in-progress': 0,
+    'completed': 0,
+    'blocked': 0,
+    'skipped': 0,
+    ...values,
+  });
+
+  const spec = (name: string, statusCounts: TaskStatusCounts): Spec => {
+    const total = Object.values(statusCounts).reduce((sum, count) => sum + count, 0);
+    return {
+      name,
+      displayName: name,
+      status: 'in-progress',
+      tasks: { exists: true, approved: true, total, completed: statusCounts.completed, statusCounts, taskList: [] },
+    };
+  };
+
+  describe('ProgressHistory', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(join(tmpdir(), 'progress-history-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should only record snapshots when task counts change', async () => {
+      const history = new ProgressHistory(tempDir);
+      const at = (minute: number) => new Date(Date.UTC(2025, 1, 1, 10, minute));
+
+      expect(await history.record(spec('auth', counts({ pending: 3 })), at(0))).not.toBeNull();
+      expect(await history.record(spec('auth', counts({ pending: 3 })), at(1))).toBeNull();
+      expect(await history.record(spec('auth', counts({ pending: 2, completed: 1 })), at(2))).not.toBeNull();
+      expect(await history.record({ name: 'draft', displayName: 'draft', status: 'requirements' }, at(3))).toBeNull();
+
+      const lines = (await fs.readFile(join(tempDir, PROGRESS_HISTORY_FILE), 'utf-8')).trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        { timestamp: at(0).toISOString(), spec: 'auth', total: 3, statusCounts: counts({ pending: 3 }) },
+        { timestamp: at(2).toISOString(), spec: 'auth', total: 3, statusCounts: counts({ pending: 2, completed: 1 }) },
+      ]);
+
+      // A new instance picks up the last recorded counts from the file
+      const reopened = new ProgressHistory(tempDir);
+      expect(await reopened.record(spec('auth', counts({ pending: 2, completed: 1 })), at(4))).toBeNull();
+    });
+
+    test('should skip invalid lines', async () => {
+      const historyPath = join(tempDir, PROGRESS_HISTORY_FILE);
+      await fs.mkdir(join(historyPath, '..'), { recursive: true });
+      await fs.writeFile(historyPath, '{"spec":"auth"}\nnot json\n' + JSON.stringify({
+        timestamp: '2025-02-01T10:00:00.000Z', spec: 'auth', total: 1, statusCounts: counts({ pending: 1 }),
+      }) + '\n');
+
+      expect(await new ProgressHistory(tempDir).getSnapshots()).toHaveLength(1);
+    });
+  });
+
+  describe('buildProgressSeries', () => {
+    const snapshots: ProgressSnapshot[] = [
+      { timestamp: '2025-02-01T10:00:00.000Z', spec: 'auth', total: 4, statusCounts: counts({ pending: 4 }) },
+      { timestamp: '2025-02-02T10:00:00.000Z', spec: 'billing', total: 2, statusCounts: counts({ pending: 2 }) },
+      { timestamp: '2025-02-03T10:00:00.000Z', spec: 'auth', total: 4, statusCounts: counts({ pending: 1, completed: 3 }) },
+    ];
+
+    test('should sum the latest counts of every spec', () => {
+      expect(buildProgressSeries(snapshots).map((point) => [point.total, point.statusCounts.completed])).toEqual([
+        [4, 0],
+        [6, 0],
+        [6, 3],
+      ]);
+      expect(buildProgressSeries(snapshots, { spec: 'auth' })).toHaveLength(2);
+    });
+
+    test('should keep the last point before the since date as the starting value', () => {
+      const series = buildProgressSeries(snapshots, { since: new Date('2025-02-03T00:00:00.000Z') });
+
+      expect(series.map((point) => point.timestamp)).toEqual(['2025-02-02T10:00:00.000Z', '2025-02-03T10:00:00.000Z']);
+      expect(buildProgressSeries(snapshots, { since: new Date('2025-03-01T00:00:00.000Z') })).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { isSteeringDocumentIncluded, resolveSteeringDocuments, SteeringLoader } from '../src/steering';
+import { getSteeringContextData } from '../src/get-steering-context';
+import { SpecParser } from '../src/dashboard/parser';
+import { NotFoundError, UsageError } from '../src/output';
+
+describe('Additional Steering Documents', () => {
+  let tempDir: string;
+  let projectDir: string;
+  let steeringDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'steering-documents-test-'));
+    projectDir = join(tempDir, 'project');
+    steeringDir = join(projectDir, '.claude', 'steering');
+    await fs.mkdir(steeringDir, { recursive: true });
+
+    await fs.writeFile(join(steeringDir, 'product.md'), '# Product\n');
+    await fs.writeFile(join(steeringDir, 'testing.md'), '---\nphases: [implementation, bug-fix]\n---\n# Testing Guide\nUse jest\n');
+    await fs.writeFile(join(steeringDir, 'security.md'), '---\npaths: src/auth/**, *.sql\n---\n## Reviews\nTwo approvals\n');
+    await fs.writeFile(join(steeringDir, 'api-conventions.md'), '---\ntitle: API Conventions\nphases: design, implementation\npaths: src/api/**\n---\nREST only\n');
+    await fs.writeFile(join(steeringDir, 'notes.txt'), 'not a steering document');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should resolve every markdown document with its title and inclusion front-matter', async () => {
+    await fs.mkdir(join(tempDir, 'acme', 'steering'), { recursive: true });
+    await fs.writeFile(join(tempDir, 'acme', 'steering', 'security.md'), '---\npaths: src/**\n---\n## Secrets\nUse the vault\n');
+    await fs.writeFile(join(projectDir, '.claude', 'packs.json'), JSON.stringify({ packs: ['../acme'] }));
+
+    const { documents } = resolveSteeringDocuments(projectDir);
+    expect(documents.map(({ key, title, phases, paths, sources }) => ({ key, title, phases, paths, sources }))).toEqual([
+      { key: 'product', title: 'Product Context', phases: undefined, paths: undefined, sources: ['.claude/steering'] },
+      { key: 'api-conventions', title: 'API Conventions', phases: ['design', 'implementation'], paths: ['src/api/**'], sources: ['.claude/steering'] },
+      { key: 'security', title: 'Security', phases: undefined, paths: ['src/auth/**', '*.sql'], sources: ['../acme', '.claude/steering'] },
+      { key: 'testing', title: 'Testing Guide', phases: ['implementation', 'bug-fix'], paths: undefined, sources: ['.claude/steering'] },
+    ]);
+    expect(documents[2]?.content).toBe('## Secrets\nUse the vault\n\n## Reviews\nTwo approvals\n');
+
+    const loader = new SteeringLoader(projectDir);
+    const docs = await loader.loadSteeringDocuments();
+    expect(Object.keys(docs)).toEqual(['product', 'api-conventions', 'security', 'testing']);
+    expect(loader.formatSteeringContext(docs)).toContain('## Api Conventions\nREST only');
+  });
+
+  test('should match documents by phase and by path', () => {
+    expect(isSteeringDocumentIncluded({}, {})).toBe(true);
+    expect(isSteeringDocumentIncluded({ phases: ['design'] }, { phases: ['requirements', 'design'] })).toBe(true);
+    expect(isSteeringDocumentIncluded({ phases: ['design'] }, {})).toBe(false);
+    expect(isSteeringDocumentIncluded({ paths: ['*.sql'] }, { paths: ['db/migrations/001.sql'] })).toBe(true);
+    expect(isSteeringDocumentIncluded({ paths: ['src/auth/**'] }, { paths: ['./src/auth/login.ts'] })).toBe(true);
+    expect(isSteeringDocumentIncluded({ paths: ['src/auth/**'] }, { paths: ['src/api/users.ts'] })).toBe(false);
+    expect(isSteeringDocumentIncluded({ phases: ['design'], paths: ['src/api/**'] }, { phases: ['design'] })).toBe(false);
+  });
+
+  test('should load only the documents that apply to the phase and task', async () => {
+    const specDir = join(projectDir, '.claude', 'specs', 'login');
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(join(specDir, 'tasks.md'), '- [ ] 1. Add the login route\n  - _Leverage: src/api/routes.ts_\n- [ ] 2. Store sessions in `src/auth/session.ts`\n');
+
+    const names = (context: { documents: { name: string }[] }) => context.documents.map((doc) => doc.name);
+    const unconditional = getSteeringContextData(projectDir);
+    expect(names(unconditional)).toEqual(['product.md']);
+    expect(unconditional.excluded?.map((doc) => doc.name)).toEqual(['api-conventions.md', 'security.md', 'testing.md']);
+
+    expect(names(getSteeringContextData(projectDir, { phases: ['bug-fix'], paths: ['schema.sql'] })))
+      .toEqual(['product.md', 'security.md', 'testing.md']);
+
+    const task = getSteeringContextData(projectDir, { phases: ['implementation'], spec: 'login', task: '1' });
+    expect(task.paths).toEqual(['src/api/routes.ts']);
+    expect(names(task)).toEqual(['product.md', 'api-conventions.md', 'testing.md']);
+    expect(task.documents[1]).toMatchObject({ title: 'API Conventions', content: 'REST only', phases: ['design', 'implementation'] });
+    expect(names(getSteeringContextData(projectDir, { spec: 'login', task: '2' }))).toEqual(['product.md', 'security.md']);
+
+    expect(() => getSteeringContextData(projectDir, { spec: 'login' })).toThrow(UsageError);
+    expect(() => getSteeringContextData(projectDir, { spec: 'login', task: '9' })).toThrow(NotFoundError);
+    expect(() => getSteeringContextData(projectDir, { spec: 'signup', task: '1' })).toThrow(NotFoundError);
+  });
+
+  test('should list the documents in the dashboard steering status', async () => {
+    const status = await new SpecParser(projectDir).getProjectSteeringStatus();
+
+    expect(status).toMatchObject({ exists: true, hasProduct: true, hasTech: false, hasStructure: false });
+    expect(status.documents).toEqual([
+      { name: 'product.md', title: 'Product Context' },
+      { name: 'api-conventions.md', title: 'API Conventions', phases: ['design', 'implementation'], paths: ['src/api/**'] },
+      { name: 'security.md', title: 'Security', paths: ['src/auth/**', '*.sql'] },
+      { name: 'testing.md', title: 'Testing Guide', phases: ['implementation', 'bug-fix'] },
+    ]);
+  });
+});
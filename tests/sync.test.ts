@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { syncTrackerData } from '../src/sync';
+import { FileTrackerProvider, TrackerProviderError } from '../src/tracker';
+import { UsageError } from '../src/output';
+
+describe('Tracker Sync', () => {
+  let tempDir: string;
+  let trackerPath: string;
+  let tasksPath: string;
+
+  const editTracker = async (id: string, changes: Record<string, unknown>) => {
+    const data = JSON.parse(await fs.readFile(trackerPath, 'utf-8'));
+    Object.assign(data.issues.find((issue: { id: string }) => issue.id === id), changes);
+    await fs.writeFile(trackerPath, JSON.stringify(data));
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'sync-test-'));
+    trackerPath = join(tempDir, '.claude', 'tracker.json');
+    tasksPath = join(tempDir, '.claude', 'specs', 'auth', 'tasks.md');
+    await fs.mkdir(join(tempDir, '.claude', 'specs', 'auth'), { recursive: true });
+    await fs.mkdir(join(tempDir, '.claude', 'bugs', 'crash'), { recursive: true });
+    await fs.writeFile(tasksPath, '# Implementation Plan: Auth\n\n- [ ] 1. Login\n- [x] 2. Logout\n');
+    await fs.writeFile(join(tempDir, '.claude', 'bugs', 'crash', 'report.md'), '# Bug Report: Crash\n\n**Severity**: high\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('FileTrackerProvider', () => {
+    test('should create, update, close and list issues', async () => {
+      const provider = new FileTrackerProvider(trackerPath);
+      expect(await provider.list()).toEqual([]);
+
+      const issue = await provider.create({ key: 'bug:crash', title: 'Crash', status: 'reported', state: 'open', labels: ['bug'] });
+      expect(issue).toMatchObject({ id: 'FILE-1', key: 'bug:crash', state: 'open' });
+      await provider.update('FILE-1', { status: 'fixing' });
+      await provider.close('FILE-1');
+
+      expect(await new FileTrackerProvider(trackerPath).list()).toEqual([
+        expect.objectContaining({ id: 'FILE-1', status: 'fixing', state: 'closed' }),
+      ]);
+      await expect(provider.update('FILE-9', { status: 'fixed' })).rejects.toThrow(TrackerProviderError);
+    });
+  });
+
+  test('should create issues for new tasks and bugs, then leave them alone', async () => {
+    const first = await syncTrackerData('file', tempDir);
+    expect(first.changes).toEqual([
+      { key: 'task:auth/1', id: 'FILE-1', action: 'created', status: 'pending' },
+      { key: 'task:auth/2', id: 'FILE-2', action: 'created', status: 'completed' },
+      { key: 'bug:crash', id: 'FILE-3', action: 'created', status: 'reported' },
+    ]);
+    const issues = await new FileTrackerProvider(trackerPath).list();
+    expect(issues[1]).toMatchObject({ title: '[auth] 2. Logout', state: 'closed', labels: ['task', 'auth'] });
+    expect(issues[2]).toMatchObject({ title: 'Crash', labels: ['bug', 'high'] });
+
+    const second = await syncTrackerData('file', tempDir);
+    expect(second).toMatchObject({ changes: [], conflicts: [], unchanged: 3 });
+  });
+
+  test('should push local changes and pull tracker changes', async () => {
+    await syncTrackerData('file', tempDir);
+    await fs.writeFile(tasksPath, '# Implementation Plan: Auth\n\n- [ ] 1. Login\n- [ ] 2. Logout\n');
+    await editTracker('FILE-1', { status: 'blocked' });
+    await editTracker('FILE-3', { status: 'fixing' });
+
+    const preview = await syncTrackerData('file', tempDir, { dryRun: true });
+    expect(preview.changes.map((change) => change.action)).toEqual(['pulled', 'pushed', 'pulled']);
+    expect(await fs.readFile(tasksPath, 'utf-8')).toContain('- [ ] 1. Login');
+
+    const result = await syncTrackerData('file', tempDir);
+    expect(result.changes).toEqual([
+      { key: 'task:auth/1', id: 'FILE-1', action: 'pulled', from: 'pending', status: 'blocked' },
+      { key: 'task:auth/2', id: 'FILE-2', action: 'pushed', from: 'completed', status: 'pending' },
+      { key: 'bug:crash', id: 'FILE-3', action: 'pulled', from: 'reported', status: 'fixing' },
+    ]);
+    expect(await fs.readFile(tasksPath, 'utf-8')).toContain('- [!] 1. Login\n  - _Blocked: Blocked in file issue FILE-1_');
+    expect(await fs.readFile(join(tempDir, '.claude', 'bugs', 'crash', 'report.md'), 'utf-8')).toMatch(/^---\nstatus: "fixing"\n---\n/);
+    expect((await new FileTrackerProvider(trackerPath).list())[1]).toMatchObject({ status: 'pending', state: 'open' });
+  });
+
+  test('should report conflicting edits without changing either side', async () => {
+    await syncTrackerData('file', tempDir);
+    await fs.writeFile(tasksPath, '# Implementation Plan: Auth\n\n- [x] 1. Login\n- [x] 2. Logout\n');
+    await editTracker('FILE-1', { status: 'in-progress' });
+    await editTracker('FILE-3', { status: 'not-a-status' });
+
+    const result = await syncTrackerData('file', tempDir);
+    expect(result.changes).toEqual([]);
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ key: 'task:auth/1', base: 'pending', local: 'completed', remote: 'in-progress' }),
+      expect.objectContaining({ key: 'bug:crash', remote: 'not-a-status' }),
+    ]);
+    expect(await fs.readFile(tasksPath, 'utf-8')).toContain('- [x] 1. Login');
+    expect((await new FileTrackerProvider(trackerPath).list())[0]?.status).toBe('in-progress');
+
+    // Once both sides agree the conflict is resolved
+    await editTracker('FILE-1', { status: 'completed' });
+    expect((await syncTrackerData('file', tempDir)).conflicts.map((conflict) => conflict.key)).toEqual(['bug:crash']);
+  });
+
+  test('should reject unknown providers', async () => {
+    await expect(syncTrackerData('jira', tempDir)).rejects.toThrow(UsageError);
+  });
+});
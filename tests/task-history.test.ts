@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import simpleGit from 'simple-git';
+import { buildTaskHistory, getTaskHistoryData, formatTaskHistory } from '../src/task-history';
+import { NotFoundError } from '../src/output';
+
+describe('Task History', () => {
+  describe('buildTaskHistory', () => {
+    test('should attribute each status change to the revision that made it', () => {
+      const history = buildTaskHistory([
+        { commit: 'aaa1111', author: 'Jane', date: '2025-02-01T10:00:00+01:00', content: '- [ ] 1. Login\n- [ ] 2. Logout\n' },
+        { commit: 'bbb2222', author: 'Sam', date: '2025-02-02T10:00:00+01:00', content: '- [x] 1. Login\n- [-] 2. Logout\n' },
+        { content: '- [x] 1. Login\n- [x] 2. Logout\n- [x] 3. Added done\n' },
+      ]);
+
+      expect(history).toEqual([
+        {
+          id: '1',
+          description: 'Login',
+          status: 'completed',
+          changes: [{ from: 'pending', to: 'completed', commit: 'bbb2222', author: 'Sam', date: '2025-02-02T10:00:00+01:00' }],
+          completed: { from: 'pending', to: 'completed', commit: 'bbb2222', author: 'Sam', date: '2025-02-02T10:00:00+01:00' },
+        },
+        {
+          id: '2',
+          description: 'Logout',
+          status: 'completed',
+          changes: [
+            { from: 'pending', to: 'in-progress', commit: 'bbb2222', author: 'Sam', date: '2025-02-02T10:00:00+01:00' },
+            { from: 'in-progress', to: 'completed' },
+          ],
+          completed: { from: 'in-progress', to: 'completed' },
+        },
+        {
+          id: '3',
+          description: 'Added done',
+          status: 'completed',
+          changes: [{ from: 'pending', to: 'completed' }],
+          completed: { from: 'pending', to: 'completed' },
+        },
+      ]);
+    });
+
+    test('should only report the completing change while a task is completed', () => {
+      const [task] = buildTaskHistory([
+        { commit: 'aaa1111', content: '- [x] 1. Login\n' },
+        { commit: 'bbb2222', content: '- [ ] 1. Login\n' },
+      ]);
+
+      expect(task?.changes.map((change) => change.to)).toEqual(['completed', 'pending']);
+      expect(task?.completed).toBeUndefined();
+    });
+  });
+
+  describe('getTaskHistoryData', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(join(tmpdir(), 'task-history-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should read the history of tasks.md from git', async () => {
+      const specDir = join(tempDir, '.claude', 'specs', 'user-auth');
+      const tasksPath = join(specDir, 'tasks.md');
+      await fs.mkdir(specDir, { recursive: true });
+      const git = simpleGit(tempDir);
+      await git.init();
+      await git.addConfig('user.name', 'Jane Doe').addConfig('user.email', 'jane@example.com');
+
+      await fs.writeFile(tasksPath, '- [ ] 1. Login\n- [ ] 2. Logout\n');
+      await git.add('.').commit('Add tasks');
+      await fs.writeFile(tasksPath, '- [x] 1. Login\n- [ ] 2. Logout\n');
+      await git.add('.').commit('Complete login');
+      const [{ hash }] = (await git.log()).all;
+
+      const result = await getTaskHistoryData('user-auth', tempDir);
+      expect(result).toMatchObject({ spec: 'user-auth', file: '.claude/specs/user-auth/tasks.md', commits: 2 });
+      expect(result.tasks[0]?.completed).toMatchObject({ commit: hash.slice(0, 7), author: 'Jane Doe' });
+      expect(result.tasks[1]?.changes).toEqual([]);
+      expect(formatTaskHistory(result)).toContain(`| 1 | Login | completed | `);
+    });
+
+    test('should throw not found errors for missing specs', async () => {
+      await expect(getTaskHistoryData('missing', tempDir)).rejects.toThrow(NotFoundError);
+      await expect(getTaskHistoryData('../missing', tempDir)).rejects.toThrow(NotFoundError);
+
+      await fs.mkdir(join(tempDir, '.claude'), { recursive: true });
+      await fs.writeFile(join(tempDir, '.claude', 'tasks.md'), '- [ ] 1. Not a spec\n');
+      await expect(getTaskHistoryData('..', tempDir)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
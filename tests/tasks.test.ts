@@ -0,0 +1,356 @@
+import {
+  parseTaskDocument,
+  serializeTaskDocument,
+  flattenTasks,
+  findTask,
+  setTaskCompleted,
+  setTaskStatus,
+  setTaskMetadata,
+  appendTask,
+  countTasksByStatus,
+  validateTaskDependencies,
+  getRunnableTasks,
+  getTaskPaths
+} from '../src/tasks';
+
+describe('Tasks Document Parser', () => {
+  const templateTasks = `# Implementation Plan
+
+## Tasks
+
+- [ ] 1. Set up project structure
+  - Create directory structure
+  - _Requirements: 1.1_
+
+- [x] 2. Implement data models
+- [ ] 2.1 Create base model classes
+  - Define data structures
+  - _Leverage: src/models/base_model.ts_
+  - _Requirements: 2.1, 2.2_
+
+- [ ] 2.2 Implement specific model classes
+  - _Requirements: 2.3_
+
+## Notes
+Keep models immutable.
+`;
+
+  describe('parseTaskDocument', () => {
+    test('should parse completed and pending tasks', () => {
+      const tasks = flattenTasks(parseTaskDocument(templateTasks).tasks);
+
+      expect(tasks.map(t => t.id)).toEqual(['1', '2', '2.1', '2.2']);
+      expect(tasks.map(t => t.completed)).toEqual([false, true, false, false]);
+    });
+
+    test('should nest flat subtasks under their parent by ID prefix', () => {
+      const doc = parseTaskDocument(templateTasks);
+
+      expect(doc.tasks.map(t => t.id)).toEqual(['1', '2']);
+      expect(doc.tasks[1].children.map(t => t.id)).toEqual(['2.1', '2.2']);
+      expect(doc.tasks[1].children[0].depth).toBe(1);
+    });
+
+    test('should nest subtasks by indentation', () => {
+      const doc = parseTaskDocument(`- [ ] 1. Parent
+  - [x] 1.1 First child
+    - _Requirements: 1.1_
+  - [ ] 1.2 Second child
+- [ ] 2. Sibling
+`);
+
+      expect(doc.tasks.map(t => t.id)).toEqual(['1', '2']);
+      expect(doc.tasks[0].children.map(t => t.id)).toEqual(['1.1', '1.2']);
+      expect(doc.tasks[0].children[0].requirements).toEqual(['1.1']);
+      expect(doc.tasks[0].requirements).toEqual([]);
+    });
+
+    test('should extract requirements, leverage and generic metadata', () => {
+      const task = findTask(parseTaskDocument(templateTasks), '2.1')!;
+
+      expect(task.requirements).toEqual(['2.1', '2.2']);
+      expect(task.leverage).toBe('src/models/base_model.ts');
+      expect(task.metadata).toEqual({
+        leverage: 'src/models/base_model.ts',
+        requirements: '2.1, 2.2'
+      });
+      expect(task.details).toEqual(['Define data structures']);
+    });
+
+    test('should extract metadata written after detail text', () => {
+      const doc = parseTaskDocument('- [ ] 1. Add login\n  - Validate the form _Requirements: 1.2, 1.3_\n  - Reuse the client _Leverage: src/api/client.ts_\n  - Keep snake_case names\n');
+      const task = findTask(doc, '1')!;
+
+      expect(task.requirements).toEqual(['1.2', '1.3']);
+      expect(task.leverage).toBe('src/api/client.ts');
+      expect(task.details).toEqual([
+        'Validate the form _Requirements: 1.2, 1.3_',
+        'Reuse the client _Leverage: src/api/client.ts_',
+        'Keep snake_case names'
+      ]);
+    });
+
+    test('should record source line ranges', () => {
+      const doc = parseTaskDocument(templateTasks);
+
+      const first = findTask(doc, '1')!;
+      expect(first.line).toBe(5);
+      expect(first.endLine).toBe(7);
+
+      const parent = findTask(doc, '2')!;
+      expect(parent.line).toBe(9);
+      expect(parent.endLine).toBe(9);
+
+      const last = findTask(doc, '2.2')!;
+      expect(last.line).toBe(15);
+      expect(last.endLine).toBe(16);
+    });
+
+    test('should stop task blocks at non-indented content', () => {
+      const task = findTask(parseTaskDocument(`- [ ] 1. Task
+  - Detail
+
+Trailing paragraph
+  - Indented but outside the task
+`), '1')!;
+
+      expect(task.details).toEqual(['Detail']);
+      expect(task.endLine).toBe(2);
+    });
+
+    test('should handle bold and loosely formatted task lines', () => {
+      const tasks = flattenTasks(parseTaskDocument(`- [ ] **1. Bold task**
+- [x] **2.** Bold id only
+- [] 3 No dot
+* [X] 4. Star bullet
+`).tasks);
+
+      expect(tasks.map(t => [t.id, t.description, t.completed])).toEqual([
+        ['1', 'Bold task', false],
+        ['2', 'Bold id only', true],
+        ['3', 'No dot', false],
+        ['4', 'Star bullet', true]
+      ]);
+    });
+
+    test('should ignore task-like lines inside fenced code blocks', () => {
+      const doc = parseTaskDocument(`- [ ] 1. Real task
+
+\`\`\`markdown
+- [ ] 2. Example task
+\`\`\`
+`);
+
+      expect(flattenTasks(doc.tasks).map(t => t.id)).toEqual(['1']);
+    });
+
+    test('should return no tasks for empty or task-free content', () => {
+      expect(parseTaskDocument('').tasks).toHaveLength(0);
+      expect(parseTaskDocument('# Title\n\n- [ ] Task without id\n').tasks).toHaveLength(0);
+    });
+  });
+
+  describe('round-trip serialization', () => {
+    const samples: Record<string, string> = {
+      template: templateTasks,
+      'CRLF line endings': '- [ ] 1. Task\r\n  - _Requirements: 1.1_\r\n\r\n- [x] 2. Done\r\n',
+      'no trailing newline': '# Tasks\n- [ ] 1. Task',
+      'tabs and trailing whitespace': '- [ ] 1. Task   \n\t- [ ] 1.1 Tabbed child\t\n',
+      'no tasks': '# Only a title\n\nSome prose.\n',
+      empty: ''
+    };
+
+    test.each(Object.entries(samples))('should serialize %s unchanged', (_name, content) => {
+      expect(serializeTaskDocument(parseTaskDocument(content))).toBe(content);
+    });
+
+    test('should only change the targeted checkbox when completing a task', () => {
+      const doc = parseTaskDocument(templateTasks);
+
+      expect(setTaskCompleted(doc, '2.1', true)).toBe(true);
+      expect(findTask(doc, '2.1')!.completed).toBe(true);
+
+      const updated = serializeTaskDocument(doc);
+      expect(updated).toBe(templateTasks.replace('- [ ] 2.1 Create', '- [x] 2.1 Create'));
+      expect(findTask(parseTaskDocument(updated), '2.1')!.completed).toBe(true);
+    });
+
+    test('should preserve CRLF line endings when updating a checkbox', () => {
+      const doc = parseTaskDocument('- [x] 1. Task\r\n- [ ] 2. Next\r\n');
+
+      setTaskCompleted(doc, '1', false);
+
+      expect(serializeTaskDocument(doc)).toBe('- [ ] 1. Task\r\n- [ ] 2. Next\r\n');
+    });
+
+    test('should report unknown task IDs', () => {
+      const doc = parseTaskDocument(templateTasks);
+
+      expect(setTaskCompleted(doc, '7.3', true)).toBe(false);
+      expect(serializeTaskDocument(doc)).toBe(templateTasks);
+    });
+  });
+
+  describe('task status markers', () => {
+    const statusTasks = `- [ ] 1. Pending
+- [-] 2. In progress
+- [x] 3. Completed
+- [!] 4. Blocked
+  - _Blocked: Waiting on design review_
+- [~] 5. Skipped
+`;
+
+    test('should map checkbox markers to statuses', () => {
+      const doc = parseTaskDocument(statusTasks);
+
+      expect(flattenTasks(doc.tasks).map(t => t.status)).toEqual([
+        'pending', 'in-progress', 'completed', 'blocked', 'skipped'
+      ]);
+      expect(findTask(doc, '4')!.blockedReason).toBe('Waiting on design review');
+      expect(countTasksByStatus(doc.tasks)).toEqual({
+        'pending': 1, 'in-progress': 1, 'completed': 1, 'blocked': 1, 'skipped': 1
+      });
+    });
+
+    test('should add a blocked reason line when blocking a task', () => {
+      const doc = parseTaskDocument(`- [ ] 1. Task
+  - Detail
+- [ ] 2. Next
+`);
+
+      expect(setTaskStatus(doc, '1', 'blocked', 'Needs credentials')).toBe(true);
+
+      expect(serializeTaskDocument(doc)).toBe(`- [!] 1. Task
+  - Detail
+  - _Blocked: Needs credentials_
+- [ ] 2. Next
+`);
+      expect(findTask(doc, '1')!.blockedReason).toBe('Needs credentials');
+      expect(findTask(doc, '2')!.line).toBe(4);
+    });
+
+    test('should replace the reason when re-blocking and remove it when unblocking', () => {
+      const doc = parseTaskDocument(statusTasks);
+
+      setTaskStatus(doc, '4', 'blocked', 'Waiting on legal');
+      expect(serializeTaskDocument(doc)).toContain('- [!] 4. Blocked\n  - _Blocked: Waiting on legal_\n');
+
+      setTaskStatus(doc, '4', 'in-progress');
+      expect(serializeTaskDocument(doc)).toBe(statusTasks
+        .replace('- [!] 4. Blocked\n  - _Blocked: Waiting on design review_\n', '- [-] 4. Blocked\n'));
+    });
+
+    test('should terminate the last line before appending a blocked reason', () => {
+      const doc = parseTaskDocument('- [ ] 1. Task');
+
+      setTaskStatus(doc, '1', 'blocked', 'Reason');
+
+      expect(serializeTaskDocument(doc)).toBe('- [!] 1. Task\n  - _Blocked: Reason_');
+    });
+
+    test('should set task metadata and drop the commit when reopening a task', () => {
+      const doc = parseTaskDocument('- [x] 1. Task\n  - Detail\n- [ ] 1.1 Subtask\n');
+
+      expect(setTaskMetadata(doc, '1', 'Commit', 'abc1234 (2 files, +10 -3)')).toBe(true);
+      expect(serializeTaskDocument(doc)).toBe('- [x] 1. Task\n  - Detail\n  - _Commit: abc1234 (2 files, +10 -3)_\n- [ ] 1.1 Subtask\n');
+      expect(findTask(doc, '1')!.commit).toBe('abc1234');
+
+      setTaskMetadata(doc, '1', 'Commit', 'def5678');
+      expect(findTask(doc, '1')!.metadata.commit).toBe('def5678');
+      expect(setTaskMetadata(doc, '9', 'Commit', 'def5678')).toBe(false);
+
+      setTaskStatus(doc, '1', 'blocked', 'Regression');
+      expect(serializeTaskDocument(doc)).toBe('- [!] 1. Task\n  - Detail\n  - _Blocked: Regression_\n- [ ] 1.1 Subtask\n');
+    });
+
+    test('should append a task after the last task, before trailing sections', () => {
+      const doc = parseTaskDocument(templateTasks);
+
+      expect(appendTask(doc, 'Add a regression test', { Bug: 'login-crash', Requirements: '2.3' })).toBe('3');
+      expect(serializeTaskDocument(doc)).toBe(templateTasks.replace(
+        '  - _Requirements: 2.3_\n',
+        '  - _Requirements: 2.3_\n\n- [ ] 3. Add a regression test\n  - _Bug: login-crash_\n  - _Requirements: 2.3_\n'
+      ));
+      expect(findTask(doc, '3')).toMatchObject({ status: 'pending', requirements: ['2.3'], metadata: { bug: 'login-crash', requirements: '2.3' } });
+
+      const empty = parseTaskDocument('# Implementation Plan');
+      expect(appendTask(empty, 'First')).toBe('1');
+      expect(serializeTaskDocument(empty)).toBe('# Implementation Plan\n\n- [ ] 1. First\n');
+    });
+  });
+
+  describe('task dependencies', () => {
+    const dependencyTasks = `- [x] 1. Create models
+- [ ] 2. Create service
+  - _Depends: 1_
+- [ ] 3. Create API
+  - _Depends: 2_
+- [ ] 4. Write docs
+- [ ] 5. Integration tests
+  - _Depends: 2, 3_
+`;
+
+    test('should parse _Depends: lines', () => {
+      const doc = parseTaskDocument(dependencyTasks);
+
+      expect(findTask(doc, '5')!.dependencies).toEqual(['2', '3']);
+      expect(findTask(doc, '4')!.dependencies).toEqual([]);
+      expect(validateTaskDependencies(doc.tasks)).toEqual([]);
+    });
+
+    test('should list tasks whose dependencies are done as runnable', () => {
+      const doc = parseTaskDocument(dependencyTasks);
+      expect(getRunnableTasks(doc.tasks).map(t => t.id)).toEqual(['2', '4']);
+
+      setTaskStatus(doc, '2', 'completed');
+      setTaskStatus(doc, '3', 'skipped');
+      expect(getRunnableTasks(doc.tasks).map(t => t.id)).toEqual(['4', '5']);
+    });
+
+    test('should report unknown dependencies', () => {
+      const doc = parseTaskDocument('- [ ] 1. Task\n  - _Depends: 7.1_\n');
+
+      expect(validateTaskDependencies(doc.tasks)).toEqual([
+        expect.objectContaining({ type: 'unknown-dependency', taskId: '1', ids: ['7.1'] })
+      ]);
+      expect(getRunnableTasks(doc.tasks)).toHaveLength(0);
+    });
+
+    test('should report each dependency cycle once', () => {
+      const doc = parseTaskDocument(`- [ ] 1. First
+  - _Depends: 3_
+- [ ] 2. Second
+  - _Depends: 1_
+- [ ] 3. Third
+  - _Depends: 2_
+- [ ] 4. Self
+  - _Depends: 4_
+`);
+
+      const issues = validateTaskDependencies(doc.tasks);
+      expect(issues.map(issue => [issue.type, issue.ids])).toEqual([
+        ['cycle', ['1', '3', '2']],
+        ['cycle', ['4']]
+      ]);
+      expect(issues[0].message).toBe('Dependency cycle: 1 -> 3 -> 2 -> 1');
+    });
+  });
+
+  describe('task paths', () => {
+    test('should collect the paths a task mentions', () => {
+      const doc = parseTaskDocument(`- [ ] 1. Add login endpoint in \`src/api/auth.ts\` (see RFC 7519, e.g. JWTs)
+  - Update ./migrations/002_users.sql and the README.md
+  - Check https://example.com/docs before version 1.2
+  - _Leverage: src/api/base.ts, src/utils/_
+`);
+
+      expect(getTaskPaths(findTask(doc, '1')!)).toEqual([
+        'src/api/auth.ts',
+        'migrations/002_users.sql',
+        'README.md',
+        'src/api/base.ts',
+        'src/utils/'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { mergeTemplate, applyTemplateOverridesData, diffTemplatesData, diffLines } from '../src/template-overrides';
+import { getTemplateContextData } from '../src/get-template-context';
+import { SpecWorkflowUpdater } from '../src/update';
+import { NotFoundError } from '../src/output';
+
+describe('Template Overrides', () => {
+  let tempDir: string;
+  let templatesDir: string;
+  let overridesDir: string;
+
+  const template = [
+    '# Design',
+    '',
+    '## Overview',
+    '[Summary]',
+    '',
+    '## Error Handling',
+    '```markdown',
+    '## Not a heading',
+    '```',
+    '',
+    '### Scenarios',
+    '- One',
+    '',
+    '## Testing',
+    '[Plan]',
+    '',
+  ].join('\n');
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'template-overrides-test-'));
+    templatesDir = join(tempDir, '.claude', 'templates');
+    overridesDir = join(templatesDir, 'overrides');
+    await fs.mkdir(overridesDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('should merge override sections into the template', () => {
+    const override = [
+      'Notes for maintainers are ignored',
+      '',
+      '## Security Considerations',
+      '<!-- after: error handling -->',
+      '[Threats]',
+      '',
+      '## Overview',
+      '<!-- append -->',
+      'Link the ADR.',
+      '',
+      '## Testing',
+      '[Unit and e2e]',
+      '',
+      '## Glossary',
+      '[Terms]',
+    ].join('\n');
+
+    expect(mergeTemplate(template, override)).toEqual({
+      content: [
+        '# Design',
+        '',
+        '## Overview',
+        '[Summary]',
+        '',
+        'Link the ADR.',
+        '',
+        '## Error Handling',
+        '```markdown',
+        '## Not a heading',
+        '```',
+        '',
+        '### Scenarios',
+        '- One',
+        '',
+        '## Security Considerations',
+        '[Threats]',
+        '',
+        '## Testing',
+        '[Unit and e2e]',
+        '',
+        '## Glossary',
+        '[Terms]',
+        '',
+      ].join('\n'),
+      warnings: [],
+    });
+  });
+
+  test('should remove sections with their subsections and warn about unknown ones', () => {
+    const override = [
+      '### Overview',
+      '<!-- append -->',
+      'More',
+      '## Error Handling',
+      '<!-- remove -->',
+      '## Rollout',
+      '<!-- before: Deployment -->',
+      '[Plan]',
+      '## Overview',
+      '<!-- remove -->',
+    ].join('\n');
+
+    const { content, warnings } = mergeTemplate(template, override);
+    expect(content).toBe('# Design\n\n## Testing\n[Plan]\n\n## Rollout\n[Plan]\n');
+    expect(warnings).toEqual([
+      'Section "Overview" not found in the template; append ignored',
+      'Section "Deployment" not found in the template; "Rollout" added at the end',
+    ]);
+
+    expect(mergeTemplate(template, '---\ninherit: false\n---\n# Replaced\n')).toEqual({ content: '# Replaced\n', warnings: [] });
+
+    // The title replaces the template's title and intro; its sections are merged
+    expect(mergeTemplate('# Design\n\nIntro\n\n## Overview\n[Summary]\n', '# Technical Design\n\nNew intro\n\n## Overview\nShort\n').content)
+      .toBe('# Technical Design\n\nNew intro\n\n## Overview\nShort\n');
+    expect(mergeTemplate('# Design\n\nIntro\n', '# Design\n## Risks\n[Risks]\n').content).toBe('# Design\n\nIntro\n\n## Risks\n[Risks]\n');
+  });
+
+  test('should apply overrides and report drift against the packaged templates', async () => {
+    await fs.writeFile(join(overridesDir, 'design-template.md'), '## Security Considerations\n[Threats]\n');
+    await fs.writeFile(join(overridesDir, 'rfc-template.md'), '# RFC\n');
+
+    expect(applyTemplateOverridesData(tempDir)).toEqual({
+      applied: [{ template: 'design-template.md', warnings: [] }],
+      skipped: [{ file: '.claude/templates/overrides/rfc-template.md', message: 'No packaged template named rfc-template.md' }],
+    });
+    const design = await fs.readFile(join(templatesDir, 'design-template.md'), 'utf-8');
+    expect(design).toMatch(/## Testing Strategy[\s\S]*## Security Considerations\n\[Threats\]\n$/);
+
+    const packaged = await fs.readFile(join(__dirname, '..', 'src', 'markdown', 'templates', 'tasks-template.md'), 'utf-8');
+    await fs.writeFile(join(templatesDir, 'tasks-template.md'), packaged);
+    await fs.writeFile(join(templatesDir, 'product-template.md'), '# Product\n');
+
+    const { templates } = diffTemplatesData(undefined, tempDir);
+    const states = Object.fromEntries(templates.map((drift) => [drift.template, drift.state]));
+    expect(states).toMatchObject({
+      'design-template.md': 'overridden',
+      'tasks-template.md': 'unchanged',
+      'product-template.md': 'modified',
+      'tech-template.md': 'missing',
+    });
+    const designDrift = templates.find((drift) => drift.template === 'design-template.md');
+    expect(designDrift?.override).toBe('.claude/templates/overrides/design-template.md');
+    expect(designDrift?.diff).toContain('+## Security Considerations\n+[Threats]\n');
+    expect(templates.find((drift) => drift.template === 'tasks-template.md')?.diff).toBe('');
+
+    expect(() => diffTemplatesData('rfc-template.md', tempDir)).toThrow(NotFoundError);
+  });
+
+  test('should produce unified diff hunks with context', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n');
+    const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k'].join('\n');
+    expect(diffLines(before, after, 'old', 'new')).toBe([
+      '--- old',
+      '+++ new',
+      '@@ -1,5 +1,5 @@',
+      ' a',
+      '-b',
+      '+B',
+      ' c',
+      ' d',
+      ' e',
+      '@@ -8,3 +8,4 @@',
+      ' h',
+      ' i',
+      ' j',
+      '+k',
+      '',
+    ].join('\n'));
+    expect(diffLines(before, before, 'old', 'new')).toBe('');
+  });
+
+  test('should keep overrides through an update and use them for template context', async () => {
+    await fs.writeFile(join(templatesDir, 'design-template.md'), '# Stale\n');
+    await fs.writeFile(join(overridesDir, 'design-template.md'), '## Security Considerations\n<!-- after: Overview -->\n[Threats]\n');
+
+    const context = getTemplateContextData('spec', tempDir);
+    expect(context.templates.find((doc) => doc.name === 'design-template.md')?.content)
+      .toMatch(/^# Design Document\n\n## Overview[\s\S]*\n## Security Considerations\n\[Threats\]\n\n## Steering Document Alignment/);
+
+    await new SpecWorkflowUpdater(tempDir).updateTemplates();
+    const design = await fs.readFile(join(templatesDir, 'design-template.md'), 'utf-8');
+    expect(design).toContain('## Security Considerations\n[Threats]\n\n## Steering Document Alignment');
+    expect(await fs.readFile(join(overridesDir, 'design-template.md'), 'utf-8')).toContain('<!-- after: Overview -->');
+  });
+});
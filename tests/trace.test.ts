@@ -0,0 +1,136 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { buildTraceMatrix, TraceableRequirement } from '../src/traceability';
+import { getTraceData, formatTraceCsv, formatTraceMarkdown } from '../src/trace';
+import { parseTaskDocument } from '../src/tasks';
+import { NotFoundError } from '../src/output';
+
+describe('Traceability', () => {
+  const requirements: TraceableRequirement[] = [
+    { id: '1', title: 'Login', acceptanceCriteria: ['WHEN valid THEN log in', 'WHEN invalid THEN show error'] },
+    { id: '2', title: 'Logout', acceptanceCriteria: [] },
+    { id: 'FR-1', title: 'Audit', acceptanceCriteria: ['Log every login', 'Keep logs for 30 days'] }
+  ];
+
+  describe('buildTraceMatrix', () => {
+    test('should resolve requirement and criterion references', () => {
+      const matrix = buildTraceMatrix(requirements, parseTaskDocument(`- [x] 1. Login form
+  - _Requirements: 1.1_
+- [ ] 2. Error message
+  - _Requirements: 1.2, FR-1_
+`).tasks);
+
+      expect(matrix.requirements[0]).toMatchObject({ taskIds: ['1', '2'], coveredCriteria: 2, implementedPercent: 50 });
+      expect(matrix.requirements[2].criteria.map(c => c.taskIds)).toEqual([['2'], ['2']]);
+      expect(matrix.uncoveredCriteria.map(c => c.id)).toEqual(['2']);
+      expect(matrix.unknownReferences).toEqual([]);
+      expect(matrix.summary).toEqual({
+        requirements: 3,
+        criteria: 5,
+        coveredCriteria: 4,
+        implementedCriteria: 1,
+        implementedPercent: 20
+      });
+    });
+
+    test('should report references to missing requirements and criteria', () => {
+      const matrix = buildTraceMatrix(requirements, parseTaskDocument(`- [ ] 1. Task
+  - _Requirements: 3, 1.3, 2.1, FR-1.2_
+`).tasks);
+
+      expect(matrix.unknownReferences).toEqual([
+        { taskId: '1', reference: '3' },
+        { taskId: '1', reference: '1.3' },
+        { taskId: '1', reference: '2.1' }
+      ]);
+      expect(matrix.requirements[2].criteria[1].taskIds).toEqual(['1']);
+    });
+
+    test('should only count completed tasks as implementing a criterion', () => {
+      const matrix = buildTraceMatrix(requirements, parseTaskDocument(`- [x] 1. Done
+  - _Requirements: 2_
+- [~] 2. Skipped
+  - _Requirements: FR-1.1_
+`).tasks);
+
+      expect(matrix.requirements[1].implementedPercent).toBe(100);
+      expect(matrix.requirements[2].criteria[0]).toMatchObject({ taskIds: ['2'], implemented: false });
+    });
+  });
+
+  describe('trace command data', () => {
+    let tempDir: string;
+    let specDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(join(tmpdir(), 'trace-test-'));
+      specDir = join(tempDir, '.claude', 'specs', 'user-auth');
+      await fs.mkdir(specDir, { recursive: true });
+      await fs.writeFile(join(specDir, 'requirements.md'), `# Requirements Document
+
+## Requirements
+
+### Requirement 1
+
+**User Story:** As a user, I want to log in, so that I can see my data
+
+#### Acceptance Criteria
+
+1. WHEN credentials are valid THEN the system SHALL log the user in
+2. IF credentials are invalid THEN the system SHALL show "Invalid, try again"
+
+## Non-Functional Requirements
+
+### Security
+- Passwords are hashed
+`);
+      await fs.writeFile(join(specDir, 'tasks.md'), `- [x] 1. Login endpoint
+  - _Requirements: 1.1, 4.2_
+`);
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should trace the requirements template format', () => {
+      const result = getTraceData('user-auth', tempDir);
+
+      expect(result.spec).toBe('user-auth');
+      expect(result.requirements).toHaveLength(1);
+      expect(result.requirements[0].criteria.map(c => c.id)).toEqual(['1.1', '1.2']);
+      expect(result.uncoveredCriteria.map(c => c.id)).toEqual(['1.2']);
+      expect(result.unknownReferences).toEqual([{ taskId: '1', reference: '4.2' }]);
+    });
+
+    test('should treat a spec without tasks.md as having no coverage', async () => {
+      await fs.rm(join(specDir, 'tasks.md'));
+
+      expect(getTraceData('user-auth', tempDir).summary.coveredCriteria).toBe(0);
+    });
+
+    test('should throw not found errors for missing specs and requirements', async () => {
+      expect(() => getTraceData('missing', tempDir)).toThrow(NotFoundError);
+
+      await fs.rm(join(specDir, 'requirements.md'));
+      expect(() => getTraceData('user-auth', tempDir)).toThrow(NotFoundError);
+    });
+
+    test('should render markdown and CSV', () => {
+      const result = getTraceData('user-auth', tempDir);
+
+      const markdown = formatTraceMarkdown(result);
+      expect(markdown).toContain('| 1 |  | 1/2 | 1 | 50% |');
+      expect(markdown).toContain('- **1.2** IF credentials are invalid');
+      expect(markdown).toContain('- Task 1 references 4.2');
+
+      expect(formatTraceCsv(result).split('\n')).toEqual([
+        'type,requirement_id,requirement_title,criterion_id,criterion,tasks,completed_tasks,implemented',
+        'criterion,1,,1.1,WHEN credentials are valid THEN the system SHALL log the user in,1,1,true',
+        'criterion,1,,1.2,"IF credentials are invalid THEN the system SHALL show ""Invalid, try again""",,,false',
+        'unknown-reference,,,4.2,,1,,false'
+      ]);
+    });
+  });
+});
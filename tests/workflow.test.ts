@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { approveWorkflowPhaseData, unapproveWorkflowPhaseData, listWorkflowsData } from '../src/workflow';
+import { SpecParser } from '../src/dashboard/parser';
+import { NotFoundError, ValidationError } from '../src/output';
+
+describe('Workflow Items', () => {
+  let tempDir: string;
+  let itemDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'workflow-test-'));
+    itemDir = join(tempDir, '.claude', 'workflows', 'rfc', 'api-versioning');
+    await fs.mkdir(itemDir, { recursive: true });
+    await fs.writeFile(join(tempDir, '.claude', 'workflows', 'rfc.json'), JSON.stringify({
+      phases: [
+        { name: 'draft', status: 'drafting' },
+        { name: 'notes', approval: false, status: 'noting' },
+        { name: 'decision', status: 'deciding' },
+      ],
+      completedStatus: 'decided',
+    }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const getItem = async () => (await new SpecParser(tempDir).getAllWorkflows())[0]?.items[0];
+
+  test('should derive the item status from its documents and approvals', async () => {
+    expect(await getItem()).toMatchObject({ name: 'api-versioning', displayName: 'Api Versioning', status: 'not-started', currentPhase: 'draft' });
+
+    await fs.writeFile(join(itemDir, 'draft.md'), '# Draft\n');
+    expect(await getItem()).toMatchObject({ status: 'drafting', currentPhase: 'draft' });
+
+    await approveWorkflowPhaseData('rfc', 'api-versioning', 'draft', tempDir, { by: 'jane' });
+    expect(await getItem()).toMatchObject({ status: 'noting', currentPhase: 'notes' });
+
+    // A phase without an approval gate is done once its document exists
+    await fs.writeFile(join(itemDir, 'notes.md'), '# Notes\n');
+    await fs.writeFile(join(itemDir, 'decision.md'), '# Decision\n');
+    expect(await getItem()).toMatchObject({ status: 'deciding', currentPhase: 'decision' });
+
+    const result = await approveWorkflowPhaseData('rfc', 'api-versioning', 'decision', tempDir, { by: 'jane' });
+    expect(result).toMatchObject({ file: '.claude/workflows/rfc/api-versioning/decision.md', changed: true, status: 'decided' });
+    const item = await getItem();
+    expect(item?.status).toBe('decided');
+    expect(item?.currentPhase).toBeUndefined();
+    expect(item?.phases.map((phase) => phase.done)).toEqual([true, true, true]);
+  });
+
+  test('should enforce phase order and approval gates', async () => {
+    await fs.writeFile(join(itemDir, 'draft.md'), '# Draft\n');
+    await fs.writeFile(join(itemDir, 'decision.md'), '# Decision\n');
+
+    await expect(approveWorkflowPhaseData('rfc', 'api-versioning', 'decision', tempDir)).rejects.toThrow(ValidationError);
+    await expect(approveWorkflowPhaseData('rfc', 'api-versioning', 'notes', tempDir)).rejects.toThrow(NotFoundError);
+    await fs.writeFile(join(itemDir, 'notes.md'), '# Notes\n');
+    await expect(approveWorkflowPhaseData('rfc', 'api-versioning', 'notes', tempDir)).rejects.toThrow('has no approval gate');
+
+    await expect(approveWorkflowPhaseData('spike', 'api-versioning', 'draft', tempDir)).rejects.toThrow(NotFoundError);
+    await expect(approveWorkflowPhaseData('rfc', 'other', 'draft', tempDir)).rejects.toThrow(NotFoundError);
+    await expect(approveWorkflowPhaseData('rfc', 'api-versioning', 'publish', tempDir)).rejects.toThrow(NotFoundError);
+
+    await approveWorkflowPhaseData('rfc', 'api-versioning', 'draft', tempDir);
+    expect((await approveWorkflowPhaseData('rfc', 'api-versioning', 'draft', tempDir)).changed).toBe(false);
+    expect(await unapproveWorkflowPhaseData('rfc', 'api-versioning', 'draft', tempDir)).toMatchObject({ changed: true, status: 'drafting' });
+    expect(await fs.readFile(join(itemDir, 'draft.md'), 'utf-8')).toBe('# Draft\n');
+  });
+
+  test('should list one workflow or all of them with definition errors', async () => {
+    await fs.writeFile(join(tempDir, '.claude', 'workflows', 'spike.json'), JSON.stringify({ phases: 'findings' }));
+
+    const all = await listWorkflowsData(undefined, tempDir);
+    expect(all.workflows.map((workflow) => workflow.name)).toEqual(['rfc']);
+    expect(all.errors.map((error) => error.file)).toEqual(['.claude/workflows/spike.json']);
+
+    expect(await listWorkflowsData('rfc', tempDir)).toMatchObject({ workflows: [{ name: 'rfc' }], errors: [] });
+    await expect(listWorkflowsData('spike', tempDir)).rejects.toThrow(ValidationError);
+  });
+});